@@ -0,0 +1,238 @@
+/*
+ProjectorCameraHelper
+---------------------
+Shows where a ProjectorCamera throws light in a virtual replica of the venue:
+
+  frustum  → lines from the lens through the corners of the image, lens shift included, and the
+             lens axis. Each line ends on the targets or, missing them, at the image plane.
+  outline  → the border of the image where it falls on the targets, walls, stage, objects.
+  readout  → throw distance (lens to screen, along the lens axis) and image size at that distance,
+             measured at the image center. Also drawn as a label next to the image.
+
+The helper draws in world space like THREE.CameraHelper: add it to the scene, not to a transformed
+parent, and call update() after moving the projector, changing its lens or the targets.
+*/
+
+import * as THREE from 'three';
+import { PROJECTOR_HELPER_STYLE } from '../core/defaults';
+import type { ProjectorCamera } from '../core/ProjectorCamera';
+
+export interface ProjectorCameraHelperConfig {
+  /** Geometry the projector lights up, tested recursively (default: none, only the frustum is drawn) */
+  targets?: THREE.Object3D[];
+  /** Where the frustum ends when the image center hits no target, in scene units */
+  frustumLength?: number;
+  /** Draws the readout as a label, needs a DOM canvas (default: true) */
+  label?: boolean;
+  /** Unit of the scene shown in the label (default: 'm') */
+  unit?: string;
+}
+
+/** Throw distance and image size in scene units, null while the image center hits no target */
+export interface ProjectorThrowReadout {
+  throwDistance: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+/** Corners of the image in NDC, counter-clockwise from the bottom-left */
+const CORNERS: ReadonlyArray<[number, number]> = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+export class ProjectorCameraHelper extends THREE.Group {
+  readonly camera: ProjectorCamera;
+  targets: THREE.Object3D[];
+  frustumLength: number;
+
+  private unit: string;
+  private readout: ProjectorThrowReadout | null = null;
+  private raycaster = new THREE.Raycaster();
+  private frustum: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private outline: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private label: THREE.Sprite | null = null;
+  private labelCanvas: HTMLCanvasElement | null = null;
+  private labelText = '';
+
+  constructor(camera: ProjectorCamera, config: ProjectorCameraHelperConfig = {}) {
+    super();
+    this.camera = camera;
+    this.targets = config.targets ?? [];
+    this.frustumLength = config.frustumLength ?? PROJECTOR_HELPER_STYLE.frustumLength;
+    this.unit = config.unit ?? 'm';
+
+    // Positions are in world space
+    this.matrixAutoUpdate = false;
+    // Sprites in the targets can't be raycast without a camera
+    this.raycaster.camera = camera;
+
+    this.frustum = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: PROJECTOR_HELPER_STYLE.frustumColor, toneMapped: false }),
+    );
+    this.outline = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: PROJECTOR_HELPER_STYLE.outlineColor, toneMapped: false, depthTest: false }),
+    );
+    [this.frustum, this.outline].forEach((lines) => {
+      lines.frustumCulled = false;
+      this.add(lines);
+    });
+
+    if (config.label ?? true) {
+      this.labelCanvas = document.createElement('canvas');
+      const material = new THREE.SpriteMaterial({
+        map: new THREE.CanvasTexture(this.labelCanvas),
+        depthTest: false,
+        toneMapped: false,
+      });
+      this.label = new THREE.Sprite(material);
+      this.label.center.set(0, 0);
+      this.add(this.label);
+    }
+
+    this.update();
+  }
+
+  /** Throw distance and image size measured by the last update() */
+  getReadout(): ProjectorThrowReadout | null {
+    return this.readout ? { ...this.readout } : null;
+  }
+
+  /** Recomputes frustum, outline and readout from the camera and the targets */
+  update(): void {
+    const camera = this.camera;
+    camera.updateMatrixWorld();
+    const origin = new THREE.Vector3().setFromMatrixPosition(camera.matrixWorld);
+    const axis = camera.getWorldDirection(new THREE.Vector3());
+
+    // Throw distance along the lens axis to where the image center lands
+    const centerHit = this.cast(origin, 0, 0);
+    const throwDistance = centerHit ? centerHit.clone().sub(origin).dot(axis) : null;
+    if (throwDistance !== null && throwDistance > 0) {
+      const { width, height } = camera.getImageSize(throwDistance);
+      this.readout = { throwDistance, imageWidth: width, imageHeight: height };
+    } else {
+      this.readout = null;
+    }
+    const depth = this.readout?.throwDistance ?? this.frustumLength;
+
+    // Corner rays and lens axis end on the targets, or at the image plane at depth
+    const frustumPositions: number[] = [];
+    const imagePlane: THREE.Vector3[] = [];
+    CORNERS.forEach(([x, y]) => {
+      const onPlane = this.atDepth(origin, axis, x, y, depth);
+      imagePlane.push(onPlane);
+      const end = this.cast(origin, x, y) ?? onPlane;
+      frustumPositions.push(...origin.toArray(), ...end.toArray());
+    });
+    const axisEnd = this.castRay(origin, axis) ?? origin.clone().addScaledVector(axis, depth);
+    frustumPositions.push(...origin.toArray(), ...axisEnd.toArray());
+    // The image rectangle itself, only where there is nothing to fall on
+    if (!this.readout) {
+      imagePlane.forEach((point, i) => {
+        frustumPositions.push(...point.toArray(), ...imagePlane[(i + 1) % imagePlane.length].toArray());
+      });
+    }
+    this.setPositions(this.frustum.geometry, frustumPositions);
+
+    this.setPositions(this.outline.geometry, this.traceOutline(origin));
+    this.updateLabel(imagePlane[3]);
+  }
+
+  /** Border of the image on the targets: sample rays along each edge, connect neighbouring hits */
+  private traceOutline(origin: THREE.Vector3): number[] {
+    if (this.targets.length === 0) return [];
+    const segments = PROJECTOR_HELPER_STYLE.outlineSegments;
+    const positions: number[] = [];
+    CORNERS.forEach(([x0, y0], i) => {
+      const [x1, y1] = CORNERS[(i + 1) % CORNERS.length];
+      let previous: THREE.Vector3 | null = null;
+      for (let s = 0; s <= segments; s++) {
+        const t = s / segments;
+        const hit = this.cast(origin, x0 + (x1 - x0) * t, y0 + (y1 - y0) * t);
+        if (previous && hit) positions.push(...previous.toArray(), ...hit.toArray());
+        previous = hit;
+      }
+    });
+    return positions;
+  }
+
+  /** First hit on the targets of the ray through an NDC position of the image */
+  private cast(origin: THREE.Vector3, ndcX: number, ndcY: number): THREE.Vector3 | null {
+    if (this.targets.length === 0) return null;
+    const direction = new THREE.Vector3(ndcX, ndcY, 0.5).unproject(this.camera).sub(origin).normalize();
+    return this.castRay(origin, direction);
+  }
+
+  private castRay(origin: THREE.Vector3, direction: THREE.Vector3): THREE.Vector3 | null {
+    if (this.targets.length === 0) return null;
+    this.raycaster.set(origin, direction);
+    const hit = this.raycaster.intersectObjects(this.targets, true).find((intersection) => !this.isDescendant(intersection.object));
+    return hit ? hit.point : null;
+  }
+
+  /** Point of the image at an NDC position on the plane square to the lens axis at depth */
+  private atDepth(origin: THREE.Vector3, axis: THREE.Vector3, ndcX: number, ndcY: number, depth: number): THREE.Vector3 {
+    const direction = new THREE.Vector3(ndcX, ndcY, 0.5).unproject(this.camera).sub(origin);
+    return origin.clone().addScaledVector(direction, depth / direction.dot(axis));
+  }
+
+  private isDescendant(object: THREE.Object3D): boolean {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (current === this) return true;
+    }
+    return false;
+  }
+
+  /** Readout at the top-left corner of the image plane, sized relative to the image */
+  private updateLabel(anchor: THREE.Vector3): void {
+    if (!this.label || !this.labelCanvas) return;
+    let text = 'no target';
+    if (this.readout) {
+      const { throwDistance, imageWidth, imageHeight } = this.readout;
+      text = `${throwDistance.toFixed(2)}${this.unit} · ${imageWidth.toFixed(2)} × ${imageHeight.toFixed(2)}${this.unit}`;
+    }
+    this.label.position.copy(anchor);
+
+    const height = this.readout?.imageHeight ?? this.camera.getImageSize(this.frustumLength).height;
+    const canvas = this.labelCanvas;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    if (text !== this.labelText) {
+      this.labelText = text;
+      context.font = PROJECTOR_HELPER_STYLE.labelFont;
+      const padding = 8;
+      canvas.width = Math.ceil(context.measureText(text).width) + padding * 2;
+      canvas.height = parseInt(PROJECTOR_HELPER_STYLE.labelFont, 10) + padding * 2;
+      context.font = PROJECTOR_HELPER_STYLE.labelFont;
+      context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = PROJECTOR_HELPER_STYLE.outlineColor;
+      context.textBaseline = 'middle';
+      context.fillText(text, padding, canvas.height / 2);
+      this.label.material.map!.needsUpdate = true;
+    }
+    const labelHeight = height * PROJECTOR_HELPER_STYLE.labelHeight;
+    this.label.scale.set((labelHeight * canvas.width) / canvas.height, labelHeight, 1);
+  }
+
+  private setPositions(geometry: THREE.BufferGeometry, positions: number[]): void {
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  }
+
+  dispose(): void {
+    [this.frustum, this.outline].forEach((lines) => {
+      lines.geometry.dispose();
+      lines.material.dispose();
+    });
+    if (this.label) {
+      this.label.material.map?.dispose();
+      this.label.material.dispose();
+    }
+    this.removeFromParent();
+  }
+}
@@ -0,0 +1,115 @@
+/*
+ProjectorDebugView
+------------------
+Splits the canvas to place a ProjectorCamera in a virtual replica of the venue:
+
+  left  → the scene from an orbit camera, with the ProjectorCameraHelper showing frustum,
+          image outline and throw distance. Drag to orbit, wheel to zoom.
+  right → the scene through the projector, letterboxed to its aspect, as it would light it up.
+
+Call render() instead of renderer.render() each frame. The helper is only visible in the orbit view.
+*/
+
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { ProjectorCamera } from '../core/ProjectorCamera';
+import { ProjectorCameraHelper, type ProjectorCameraHelperConfig } from './ProjectorCameraHelper';
+
+export interface ProjectorDebugViewConfig {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  projector: ProjectorCamera;
+  /** Options of the helper created for the projector, targets default to the scene */
+  helper?: ProjectorCameraHelperConfig;
+  /** Share of the canvas width for the orbit view (default: 0.5) */
+  split?: number;
+}
+
+export class ProjectorDebugView {
+  readonly orbitCamera: THREE.PerspectiveCamera;
+  readonly controls: OrbitControls;
+  readonly helper: ProjectorCameraHelper;
+
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private projector: ProjectorCamera;
+  private split: number;
+
+  constructor(config: ProjectorDebugViewConfig) {
+    this.renderer = config.renderer;
+    this.scene = config.scene;
+    this.projector = config.projector;
+    this.split = THREE.MathUtils.clamp(config.split ?? 0.5, 0, 1);
+
+    this.helper = new ProjectorCameraHelper(this.projector, { targets: [this.scene], ...config.helper });
+    this.scene.add(this.helper);
+
+    // Start behind and above the projector, looking at where it throws
+    const lens = new THREE.Vector3().setFromMatrixPosition(this.projector.matrixWorld);
+    const axis = this.projector.getWorldDirection(new THREE.Vector3());
+    const distance = this.helper.getReadout()?.throwDistance ?? this.helper.frustumLength;
+    const target = lens.clone().addScaledVector(axis, distance);
+
+    this.orbitCamera = new THREE.PerspectiveCamera(50, 1, this.projector.near, this.projector.far);
+    this.orbitCamera.position
+      .copy(lens)
+      .addScaledVector(axis, -distance * 0.5)
+      .add(new THREE.Vector3(distance * 0.5, distance * 0.5, 0));
+    this.controls = new OrbitControls(this.orbitCamera, this.renderer.domElement);
+    this.controls.target.copy(target);
+    this.controls.update();
+  }
+
+  /** Share of the canvas width for the orbit view, 0 shows only the projector, 1 only the orbit camera */
+  setSplit(split: number): void {
+    this.split = THREE.MathUtils.clamp(split, 0, 1);
+  }
+
+  render(): void {
+    const renderer = this.renderer;
+    const size = renderer.getSize(new THREE.Vector2());
+    const orbitWidth = Math.round(size.x * this.split);
+    const projectorWidth = size.x - orbitWidth;
+    const autoClear = renderer.autoClear;
+
+    renderer.autoClear = false;
+    renderer.setScissorTest(true);
+    renderer.setViewport(0, 0, size.x, size.y);
+    renderer.setScissor(0, 0, size.x, size.y);
+    renderer.clear();
+
+    if (orbitWidth > 0) {
+      this.helper.update();
+      this.helper.visible = true;
+      this.orbitCamera.aspect = orbitWidth / size.y;
+      this.orbitCamera.updateProjectionMatrix();
+      this.controls.update();
+      renderer.setViewport(0, 0, orbitWidth, size.y);
+      renderer.setScissor(0, 0, orbitWidth, size.y);
+      renderer.render(this.scene, this.orbitCamera);
+    }
+
+    if (projectorWidth > 0) {
+      // Letterbox: the projector camera keeps its own aspect
+      const aspect = this.projector.aspect;
+      const width = Math.min(projectorWidth, size.y * aspect);
+      const height = width / aspect;
+      const x = orbitWidth + (projectorWidth - width) / 2;
+      const y = (size.y - height) / 2;
+      this.helper.visible = false;
+      renderer.setViewport(x, y, width, height);
+      renderer.setScissor(x, y, width, height);
+      renderer.render(this.scene, this.projector);
+      this.helper.visible = true;
+    }
+
+    renderer.setScissorTest(false);
+    renderer.setViewport(0, 0, size.x, size.y);
+    renderer.autoClear = autoClear;
+  }
+
+  dispose(): void {
+    this.controls.dispose();
+    this.helper.dispose();
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * ProjectorRig - Several projectors on one 3D scene
+ *
+ * Each projector of the rig is an output with:
+ * - its ProjectorCamera, placed in the shared scene
+ * - a render target the scene is rendered into through that camera
+ * - a ProjectionMapper warping the render target, calibration stored under the projector's id
+ * - a WindowSync on a channel of its own, so every projector window gets its own view and calibration
+ *
+ * The controller window holds all outputs and shows the active one, the others are not editable.
+ * A projector window holds only its own output, picked by the ?projector= parameter of its URL.
+ *
+ * Usage:
+ * ```typescript
+ * // Controller and projector page alike
+ * const rig = new ProjectorRig({
+ *   renderer, scene,
+ *   projectors: [
+ *     { id: 'left', camera: leftCamera, resolution: { width: 1920, height: 1080 } },
+ *     { id: 'right', camera: rightCamera, resolution: { width: 1920, height: 1080 } },
+ *   ],
+ *   mode: WINDOW_SYNC_MODE.CONTROLLER, // PROJECTOR in projector.html
+ * });
+ *
+ * rig.openProjectorWindow('left'); // opens ./projector.html?projector=left
+ * rig.onConnectionChanged((id, connected) => showStatus(id, connected));
+ * renderer.setAnimationLoop(() => rig.render());
+ * ```
+ */
+
+import * as THREE from 'three';
+import { ProjectionMapper, type ProjectionMapperConfig } from '../core/ProjectionMapper';
+import type { ProjectorCamera } from '../core/ProjectorCamera';
+import { WindowSync, WINDOW_SYNC_MODE } from './WindowSync';
+
+/** URL parameter that tells a projector window which projector of the rig it shows */
+export const PROJECTOR_RIG_URL_PARAMETER = 'projector';
+
+export interface RigProjectorConfig {
+  /** Names the projector: calibration storage namespace, sync channel and window */
+  id: string;
+  camera: ProjectorCamera;
+  /** Projection resolution of this projector */
+  resolution: { width: number; height: number };
+  /** Render target size relative to the resolution, more keeps warped content sharp (default: 1) */
+  oversampling?: number;
+  /** Options for this projector's ProjectionMapper, resolution and storage namespace come from the rig */
+  mapper?: Omit<ProjectionMapperConfig, 'resolution' | 'storageNamespace'>;
+}
+
+export interface ProjectorRigConfig {
+  renderer: THREE.WebGLRenderer;
+  /** The shared world, rendered through every projector camera */
+  scene: THREE.Scene;
+  projectors: RigProjectorConfig[];
+
+  /** This window's role (default: WINDOW_SYNC_MODE.CONTROLLER) */
+  mode?: WINDOW_SYNC_MODE;
+  /** Projector mode: the projector this window shows (default: ?projector= of the URL) */
+  projectorId?: string;
+  /** Coordinate windows with WindowSync, one channel per projector (default: true) */
+  sync?: boolean;
+  /** BroadcastChannel names are the prefix plus the projector id (default: 'projection-mapper-sync') */
+  channelPrefix?: string;
+  /** Page of the projector windows, opened with ?projector=id (default: './projector.html') */
+  projectorUrl?: string;
+}
+
+/** One projector of the rig */
+export interface RigOutput {
+  readonly id: string;
+  readonly camera: ProjectorCamera;
+  readonly renderTarget: THREE.WebGLRenderTarget;
+  readonly mapper: ProjectionMapper;
+  /** Null when the rig runs without sync */
+  readonly sync: WindowSync | null;
+}
+
+export class ProjectorRig {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private mode: WINDOW_SYNC_MODE;
+  private outputs = new Map<string, RigOutput>();
+  private activeId: string;
+  private onActiveChangedCallbacks: Array<(output: RigOutput) => void> = [];
+  private onConnectionChangedCallbacks: Array<(id: string, connected: boolean) => void> = [];
+
+  constructor(config: ProjectorRigConfig) {
+    const {
+      renderer,
+      scene,
+      projectors,
+      mode = WINDOW_SYNC_MODE.CONTROLLER,
+      sync = true,
+      channelPrefix = 'projection-mapper-sync',
+      projectorUrl = './projector.html',
+    } = config;
+
+    if (projectors.length === 0) throw new Error('ProjectorRig: no projectors');
+    const ids = new Set(projectors.map(({ id }) => id));
+    if (ids.size !== projectors.length) throw new Error('ProjectorRig: projector ids must be unique');
+
+    this.renderer = renderer;
+    this.scene = scene;
+    this.mode = mode;
+
+    // A projector window only needs its own output
+    let shown = projectors;
+    if (mode === WINDOW_SYNC_MODE.PROJECTOR) {
+      const id = config.projectorId ?? new URLSearchParams(window.location.search).get(PROJECTOR_RIG_URL_PARAMETER);
+      const projector = projectors.find((p) => p.id === id);
+      if (!projector) throw new Error(`ProjectorRig: unknown projector "${id}" for this window`);
+      shown = [projector];
+    }
+
+    shown.forEach((projector) => {
+      const output = this.createOutput(projector, sync ? { channelPrefix, projectorUrl } : null);
+      this.outputs.set(projector.id, output);
+    });
+    this.activeId = shown[0].id;
+    this.applyActive();
+  }
+
+  private createOutput(
+    projector: RigProjectorConfig,
+    sync: { channelPrefix: string; projectorUrl: string } | null,
+  ): RigOutput {
+    const { id, camera, resolution, oversampling = 1 } = projector;
+    const renderTarget = new THREE.WebGLRenderTarget(
+      Math.round(resolution.width * oversampling),
+      Math.round(resolution.height * oversampling),
+      { minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, generateMipmaps: false },
+    );
+    const mapper = new ProjectionMapper(this.renderer, renderTarget.texture, {
+      ...projector.mapper,
+      resolution,
+      storageNamespace: id,
+    });
+
+    let windowSync: WindowSync | null = null;
+    if (sync) {
+      const url = new URL(sync.projectorUrl, window.location.href);
+      url.searchParams.set(PROJECTOR_RIG_URL_PARAMETER, id);
+      windowSync = new WindowSync(mapper, {
+        mode: this.mode,
+        channelName: `${sync.channelPrefix}-${id}`,
+        projectorWindow: { url: url.href, name: `projector-${id}` },
+        // One status element can't show several projectors, the rig reports them by id instead
+        connectionStatusElementId: null,
+      });
+      windowSync.onProjectorReady(() => this.onConnectionChangedCallbacks.forEach((cb) => cb(id, true)));
+      windowSync.onProjectorClose(() => this.onConnectionChangedCallbacks.forEach((cb) => cb(id, false)));
+    }
+
+    return { id, camera, renderTarget, mapper, sync: windowSync };
+  }
+
+  /** Ids of the projectors in this window: all in the controller, its own in a projector window */
+  getIds(): string[] {
+    return [...this.outputs.keys()];
+  }
+
+  getOutput(id: string): RigOutput {
+    const output = this.outputs.get(id);
+    if (!output) throw new Error(`ProjectorRig: unknown projector "${id}"`);
+    return output;
+  }
+
+  getOutputs(): RigOutput[] {
+    return [...this.outputs.values()];
+  }
+
+  /** The projector the controller shows and edits */
+  getActiveOutput(): RigOutput {
+    return this.getOutput(this.activeId);
+  }
+
+  /** Shows and edits another projector in the controller, the others keep their calibration and stay hidden */
+  setActive(id: string): void {
+    const output = this.getOutput(id);
+    if (id === this.activeId) return;
+    this.activeId = id;
+    this.applyActive();
+    this.onActiveChangedCallbacks.forEach((cb) => cb(output));
+  }
+
+  /**
+   * Register callback for when the controller switched to another projector, e.g. to
+   * create a GUI for its mapper
+   */
+  onActiveChanged(callback: (output: RigOutput) => void): void {
+    this.onActiveChangedCallbacks.push(callback);
+  }
+
+  // Only the active mapper takes clicks and keys in the controller, they all share its canvas.
+  // WindowSync makes projector windows receive-only itself.
+  private applyActive(): void {
+    if (this.mode !== WINDOW_SYNC_MODE.CONTROLLER) return;
+    this.outputs.forEach(({ id, mapper }) => {
+      const active = id === this.activeId;
+      mapper.setDragEnabled(active);
+      mapper.setControlsVisible(active);
+    });
+  }
+
+  /** Opens the window of a projector (controller only), it shows ?projector=id of the projector page */
+  openProjectorWindow(id: string): void {
+    this.getSync(id).openProjectorWindow();
+  }
+
+  closeProjectorWindow(id: string): void {
+    this.getSync(id).closeProjectorWindow();
+  }
+
+  /** Whether the window of a projector is open (controller only) */
+  isConnected(id: string): boolean {
+    return this.getSync(id).isConnected();
+  }
+
+  /**
+   * Register callback for when the window of a projector connected or closed (controller only),
+   * e.g. to show a status per projector
+   */
+  onConnectionChanged(callback: (id: string, connected: boolean) => void): void {
+    this.onConnectionChangedCallbacks.push(callback);
+  }
+
+  private getSync(id: string): WindowSync {
+    const { sync } = this.getOutput(id);
+    if (!sync) throw new Error('ProjectorRig: created without sync, there are no projector windows');
+    return sync;
+  }
+
+  /**
+   * Renders the scene through projector cameras of this window into their render targets (default: all),
+   * e.g. to feed previews of the projectors that are not shown
+   */
+  renderTargets(ids: string[] = this.getIds()): void {
+    const previousTarget = this.renderer.getRenderTarget();
+    ids.forEach((id) => {
+      const { camera, renderTarget } = this.getOutput(id);
+      this.renderer.setRenderTarget(renderTarget);
+      this.renderer.render(this.scene, camera);
+    });
+    this.renderer.setRenderTarget(previousTarget);
+  }
+
+  /** Renders the active projector's target, then its warped output to the canvas. The other targets are left as they are. */
+  render(): void {
+    this.renderTargets([this.activeId]);
+    this.renderer.setRenderTarget(null);
+    this.getActiveOutput().mapper.render();
+  }
+
+  /** Call on canvas resize, every mapper fits its output to the canvas */
+  resize(width: number, height: number): void {
+    this.outputs.forEach(({ mapper }) => mapper.resize(width, height));
+  }
+
+  dispose(): void {
+    this.outputs.forEach(({ renderTarget, mapper, sync }) => {
+      sync?.destroy();
+      mapper.dispose();
+      renderTarget.dispose();
+    });
+    this.outputs.clear();
+  }
+}
@@ -19,11 +19,17 @@
 
 import * as THREE from 'three';
 import { ProjectionMapper } from '../core/ProjectionMapper';
+import type { MeshWarper } from '../warp/MeshWarper';
 import type { ImageSettings } from '../core/defaults';
 import { EventChannel } from '../ipc/EventChannel';
-import { WindowManager } from '../windows/WindowManager';
+import { WindowManager, type WindowManagerConfig } from '../windows/WindowManager';
 import { ProjectionEventType } from '../ipc/EventTypes';
-import { FullProjectionState, NormalizedPoint, PolygonMaskSyncState } from '../ipc/EventPayloads';
+import {
+  FullProjectionState,
+  NormalizedPoint,
+  PolygonMaskSyncState,
+  SurfaceSyncState,
+} from '../ipc/EventPayloads';
 
 export const enum WINDOW_SYNC_MODE {
   CONTROLLER = 'controller',
@@ -36,6 +42,12 @@ export interface WindowSyncConfig {
 
   /** This window's role (default: WINDOW_SYNC_MODE.CONTROLLER) */
   mode?: WINDOW_SYNC_MODE;
+
+  /** Page and name of the projector window the controller opens (default: './projector.html', 'ProjectorOutput') */
+  projectorWindow?: WindowManagerConfig;
+
+  /** Id of the element showing the connection status in the controller, null for none (default: 'connection-status') */
+  connectionStatusElementId?: string | null;
 }
 
 export class WindowSync {
@@ -43,8 +55,10 @@ export class WindowSync {
   private eventChannel: EventChannel;
   private windowManager: WindowManager;
   private mode: WINDOW_SYNC_MODE;
+  private connectionStatusElementId: string | null;
 
-  private dragControls: any; // DragControls from MeshWarper
+  private dragControlsWithListener = new WeakSet<object>(); // DragControls from MeshWarper already broadcasting
+  private warpersWithListeners = new WeakSet<MeshWarper>(); // Lock and grid layout changes already forwarded
   private onProjectorReadyCallbacks: Array<() => void> = [];
   private onProjectorCloseCallbacks: Array<() => void> = [];
 
@@ -52,12 +66,14 @@ export class WindowSync {
     const {
       channelName = 'projection-mapper-sync',
       mode = WINDOW_SYNC_MODE.CONTROLLER,
+      connectionStatusElementId = 'connection-status',
     } = config;
 
     this.mapper = mapper;
     this.mode = mode;
+    this.connectionStatusElementId = connectionStatusElementId;
     this.eventChannel = new EventChannel(channelName, mode);
-    this.windowManager = new WindowManager();
+    this.windowManager = new WindowManager(config.projectorWindow);
 
     if (mode === WINDOW_SYNC_MODE.CONTROLLER) {
       this.setupControllerSync();
@@ -71,17 +87,20 @@ export class WindowSync {
    * Broadcasts changes to projector
    */
   private setupControllerSync(): void {
-    const warper = this.mapper.getWarper();
-    this.dragControls = (warper as any).dragControls;
-
     // Broadcast point updates when dragging
     this.attachDragListener();
 
-    // Auto-reattach drag listener when grid size changes
+    // Auto-reattach drag listener when grid size changes or surfaces were added
     this.eventChannel.on(ProjectionEventType.GRID_SIZE_CHANGED, () => {
       this.reattachDragListener();
     });
 
+    this.eventChannel.on(ProjectionEventType.SURFACE_SELECTED, () => {
+      this.reattachDragListener();
+    });
+
+    this.forwardMapperChanges();
+
     // Handle projector ready
     this.eventChannel.on(ProjectionEventType.PROJECTOR_READY, () => {
       this.updateConnectionStatus(true);
@@ -115,7 +134,7 @@ export class WindowSync {
     this.mapper.setControlsVisible(false);
     this.mapper.setShowBorderLines(false);
     this.mapper.setZoom(1.0);
-    this.mapper.getWarper().setDragEnabled(false);
+    this.mapper.setDragEnabled(false);
 
     // Request full state from controller
     console.log('[WindowSync] Projector requesting full state from controller...');
@@ -135,20 +154,40 @@ export class WindowSync {
       this.applyFullState(state);
     });
 
-    this.eventChannel.on(ProjectionEventType.CORNER_POINTS_UPDATED, ({ points }) => {
-      this.applyCornerPoints(points);
+    this.eventChannel.on(ProjectionEventType.CORNER_POINTS_UPDATED, ({ points, surface }) => {
+      const warper = this.findWarper(surface);
+      if (warper) this.applyCornerPoints(warper, points);
+    });
+
+    this.eventChannel.on(ProjectionEventType.GRID_POINTS_UPDATED, ({ points, referencePoints, tangents, surface }) => {
+      const warper = this.findWarper(surface);
+      if (!warper) return;
+      this.applyGridPoints(warper, points, referencePoints);
+      if (tangents) warper.setTangents(tangents);
+    });
+
+    this.eventChannel.on(ProjectionEventType.POINT_LOCKS_CHANGED, ({ locked, surface }) => {
+      this.findWarper(surface)?.setLockedPoints(locked);
+    });
+
+    this.eventChannel.on(ProjectionEventType.GRID_SIZE_CHANGED, ({ gridSize, surface }) => {
+      this.findWarper(surface)?.setGridSize(gridSize.x, gridSize.y);
+    });
+
+    this.eventChannel.on(ProjectionEventType.GRID_LAYOUT_CHANGED, ({ warp, surface }) => {
+      this.findWarper(surface)?.setState(warp);
     });
 
-    this.eventChannel.on(ProjectionEventType.GRID_POINTS_UPDATED, ({ points, referencePoints }) => {
-      this.applyGridPoints(points, referencePoints);
+    this.eventChannel.on(ProjectionEventType.SURFACE_SELECTED, ({ name }) => {
+      if (this.hasSurface(name)) this.mapper.selectSurface(name);
     });
 
-    this.eventChannel.on(ProjectionEventType.GRID_SIZE_CHANGED, ({ gridSize }) => {
-      this.mapper.setGridSize(gridSize.x, gridSize.y);
+    this.eventChannel.on(ProjectionEventType.SURFACE_VISIBILITY_CHANGED, ({ name, visible }) => {
+      if (this.hasSurface(name)) this.mapper.setSurfaceVisible(name, visible);
     });
 
-    this.eventChannel.on(ProjectionEventType.WARP_MODE_CHANGED, ({ mode }) => {
-      this.mapper.getWarper().setWarpMode(mode);
+    this.eventChannel.on(ProjectionEventType.WARP_MODE_CHANGED, ({ mode, surface }) => {
+      this.findWarper(surface)?.setWarpMode(mode);
     });
 
     this.eventChannel.on(ProjectionEventType.SHOULD_WARP_CHANGED, ({ shouldWarp }) => {
@@ -174,8 +213,20 @@ export class WindowSync {
       this.mapper.setImageSettings(settings as ImageSettings);
     });
 
-    this.eventChannel.on(ProjectionEventType.RESET_WARP, () => {
-      this.mapper.reset();
+    this.eventChannel.on(ProjectionEventType.EDGE_BLEND_CHANGED, ({ settings }) => {
+      this.mapper.setEdgeBlend(settings);
+    });
+
+    this.eventChannel.on(ProjectionEventType.LENS_DISTORTION_CHANGED, ({ settings }) => {
+      this.mapper.setLensDistortion(settings);
+    });
+
+    this.eventChannel.on(ProjectionEventType.SOURCE_CROP_CHANGED, ({ crop }) => {
+      this.mapper.setSourceCrop(crop);
+    });
+
+    this.eventChannel.on(ProjectionEventType.RESET_WARP, ({ surface }) => {
+      this.findWarper(surface)?.resetToDefault();
     });
 
     this.eventChannel.on(ProjectionEventType.POLYGON_MASK_NODES_CHANGED, ({ nodes }) => {
@@ -193,6 +244,92 @@ export class WindowSync {
     this.eventChannel.on(ProjectionEventType.POLYGON_MASK_REMOVED, () => {
       this.mapper.removePolygonMask();
     });
+
+    this.eventChannel.on(ProjectionEventType.CALIBRATION_APPLIED, ({ calibration }) => {
+      this.mapper.importCalibration(calibration, { applyView: false });
+    });
+
+    // Runs the same animation here, the controller's CALIBRATION_APPLIED at the end settles any drift
+    this.eventChannel.on(ProjectionEventType.CALIBRATION_TRANSITION, ({ calibration, durationMs, easing }) => {
+      this.mapper.transitionTo(calibration, durationMs, easing);
+    });
+
+    this.eventChannel.on(ProjectionEventType.CALIBRATION_PATTERN_CHANGED, ({ pattern }) => {
+      this.mapper.setCalibrationPattern(pattern);
+    });
+
+    // The model is the application's, a projector window without one keeps warping
+    this.eventChannel.on(ProjectionEventType.MAPPING_MODE_CHANGED, ({ mode }) => {
+      if (mode === 'warp' || this.mapper.getModel()) this.mapper.setMappingMode(mode);
+    });
+
+    this.eventChannel.on(ProjectionEventType.MODEL_POSE_CHANGED, ({ pose }) => {
+      this.mapper.getModel()?.setPose(pose);
+    });
+
+    this.eventChannel.on(ProjectionEventType.MODEL_INTRINSICS_CHANGED, ({ intrinsics }) => {
+      this.mapper.getModel()?.setIntrinsics(intrinsics);
+    });
+
+    this.hideControlsOnCalibration();
+  }
+
+  /**
+   * Applied calibrations can add surfaces and a polygon mask, the projector never shows their handles
+   */
+  private hideControlsOnCalibration(): void {
+    this.mapper.onCalibrationApplied(() => {
+      this.mapper.setControlsVisible(false);
+      this.mapper.getPolygonMask()?.setVisible(false);
+    });
+  }
+
+  /**
+   * Forward imported calibrations, transitions, calibration patterns, model mapping and undo/redo steps to the projector.
+   * Calibrations can add surfaces it does not know yet, history steps are sent as full state.
+   */
+  private forwardMapperChanges(): void {
+    this.mapper.onCalibrationApplied((calibration) => {
+      this.eventChannel.emit(ProjectionEventType.CALIBRATION_APPLIED, { calibration });
+      this.reattachDragListener();
+    });
+
+    this.mapper.onTransitionStarted((calibration, durationMs, easing) => {
+      this.eventChannel.emit(ProjectionEventType.CALIBRATION_TRANSITION, { calibration, durationMs, easing });
+    });
+
+    this.mapper.onCalibrationPatternChanged((pattern) => {
+      this.eventChannel.emit(ProjectionEventType.CALIBRATION_PATTERN_CHANGED, { pattern });
+    });
+
+    this.mapper.onMappingModeChanged((mode) => {
+      this.eventChannel.emit(ProjectionEventType.MAPPING_MODE_CHANGED, { mode });
+    });
+
+    this.mapper.onModelPoseChanged((pose) => {
+      this.eventChannel.emit(ProjectionEventType.MODEL_POSE_CHANGED, { pose });
+    });
+
+    this.mapper.onModelIntrinsicsChanged((intrinsics) => {
+      this.eventChannel.emit(ProjectionEventType.MODEL_INTRINSICS_CHANGED, { intrinsics });
+    });
+
+    this.mapper.onHistoryApplied(() => {
+      this.eventChannel.emit(ProjectionEventType.FULL_STATE_SYNC, { state: this.getFullState() });
+      this.reattachDragListener();
+    });
+  }
+
+  private hasSurface(name: string): boolean {
+    return this.mapper.getSurfaceNames().includes(name);
+  }
+
+  /**
+   * Resolve the warper an event targets. Surfaces unknown to this window are ignored.
+   */
+  private findWarper(surface?: string): MeshWarper | null {
+    if (surface === undefined) return this.mapper.getWarper();
+    return this.hasSurface(surface) ? this.mapper.getWarper(surface) : null;
   }
 
   private applyPolygonMaskState(state: PolygonMaskSyncState): void {
@@ -212,27 +349,47 @@ export class WindowSync {
    * Attach drag event listener to broadcast point updates
    */
   private attachDragListener(): void {
-    if (!this.dragControls || this.mode !== WINDOW_SYNC_MODE.CONTROLLER) return;
-
-    const warper = this.mapper.getWarper();
-
-    this.dragControls.addEventListener('drag', () => {
-      const config = (warper as any).config;
-      const cornerPoints = warper.getCornerControlPoints();
-      const gridPoints = warper.getGridControlPoints();
-      const referenceGridPoints = (warper as any).referenceGridControlPoints;
+    if (this.mode !== WINDOW_SYNC_MODE.CONTROLLER) return;
 
-      // Broadcast corner points
-      this.eventChannel.emit(ProjectionEventType.CORNER_POINTS_UPDATED, {
-        points: cornerPoints.map(p => this.normalizePoint(p, config.width, config.height)),
-      });
+    for (const surface of this.mapper.getSurfaceNames()) {
+      const warper = this.mapper.getWarper(surface);
+      if (!this.warpersWithListeners.has(warper)) {
+        this.warpersWithListeners.add(warper);
+        warper.onLockChanged((locked) => {
+          this.eventChannel.emit(ProjectionEventType.POINT_LOCKS_CHANGED, { locked, surface });
+        });
+        // Drag controls are recreated with the grid handles
+        warper.onGridLayoutChanged((warp) => {
+          this.eventChannel.emit(ProjectionEventType.GRID_LAYOUT_CHANGED, { warp, surface });
+          this.reattachDragListener();
+        });
+      }
 
-      // Broadcast grid points
-      this.eventChannel.emit(ProjectionEventType.GRID_POINTS_UPDATED, {
-        points: gridPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
-        referencePoints: referenceGridPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
+      const dragControls = (warper as any).dragControls;
+      if (!dragControls || this.dragControlsWithListener.has(dragControls)) continue;
+      this.dragControlsWithListener.add(dragControls);
+
+      dragControls.addEventListener('drag', () => {
+        const config = (warper as any).config;
+        const cornerPoints = warper.getCornerControlPoints();
+        const gridPoints = warper.getGridControlPoints();
+        const referenceGridPoints = warper.getReferenceGridControlPoints();
+
+        // Broadcast corner points
+        this.eventChannel.emit(ProjectionEventType.CORNER_POINTS_UPDATED, {
+          points: cornerPoints.map(p => this.normalizePoint(p, config.width, config.height)),
+          surface,
+        });
+
+        // Broadcast grid points
+        this.eventChannel.emit(ProjectionEventType.GRID_POINTS_UPDATED, {
+          points: gridPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
+          referencePoints: referenceGridPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
+          tangents: warper.getTangents(),
+          surface,
+        });
       });
-    });
+    }
   }
 
   /**
@@ -242,56 +399,86 @@ export class WindowSync {
   private reattachDragListener(): void {
     if (this.mode !== WINDOW_SYNC_MODE.CONTROLLER) return;
 
-    const warper = this.mapper.getWarper();
-    this.dragControls = (warper as any).dragControls;
-
     setTimeout(() => {
       this.attachDragListener();
     }, 50);
   }
 
-  /**
-   * Get full state for synchronization
-   */
-  private getFullState(): FullProjectionState {
-    const warper = this.mapper.getWarper();
+  private getSurfaceState(name: string): SurfaceSyncState {
+    const warper = this.mapper.getWarper(name);
     const config = (warper as any).config;
 
-    const cornerPoints = warper.getCornerControlPoints();
-    const gridPoints = warper.getGridControlPoints();
-    const referenceGridPoints = (warper as any).referenceGridControlPoints;
-
     return {
-      cornerPoints: cornerPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
-      gridPoints: gridPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
-      referenceGridPoints: referenceGridPoints.map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
+      name,
+      visible: this.mapper.isSurfaceVisible(name),
+      uvRect: warper.getUVRect(),
+      cornerPoints: warper.getCornerControlPoints().map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
+      gridPoints: warper.getGridControlPoints().map((p: THREE.Vector3) => this.normalizePoint(p, config.width, config.height)),
+      referenceGridPoints: warper.getReferenceGridControlPoints().map((p) =>
+        this.normalizePoint(p, config.width, config.height),
+      ),
       gridSize: {
         x: warper.getGridSizeX(),
         y: warper.getGridSizeY(),
       },
       warpMode: warper.getWarpMode(),
-      shouldWarp: warper.getShouldWarp(),
+      locked: warper.getLockedPoints(),
+      knots: warper.getGridKnots(),
+      tangents: warper.getTangents(),
+    };
+  }
+
+  /**
+   * Get full state for synchronization
+   */
+  private getFullState(): FullProjectionState {
+    const active = this.getSurfaceState(this.mapper.getActiveSurfaceName());
+
+    return {
+      cornerPoints: active.cornerPoints,
+      gridPoints: active.gridPoints,
+      referenceGridPoints: active.referenceGridPoints,
+      gridSize: active.gridSize,
+      knots: active.knots,
+      tangents: active.tangents,
+      warpMode: active.warpMode,
+      locked: active.locked,
+      shouldWarp: this.mapper.isWarpEnabled(),
       showTestcard: this.mapper.isShowingTestCard(),
       showWhiteOut: this.mapper.isWhiteOut(),
       showControlLines: this.mapper.isShowingControlLines(),
       showControls: false, // Projector controls default to hidden
       cameraOffset: this.mapper.getCameraOffset(),
       imageSettings: this.mapper.getImageSettings(),
+      edgeBlend: this.mapper.getEdgeBlend(),
+      lensDistortion: this.mapper.getLensDistortion(),
+      sourceCrop: this.mapper.getSourceCrop(),
       polygonMask: this.mapper.getPolygonMaskFullState() ?? undefined,
+      activeSurface: this.mapper.getActiveSurfaceName(),
+      surfaces: this.mapper.getSurfaceNames().map((name) => this.getSurfaceState(name)),
+      mappingMode: this.mapper.getMappingMode(),
+      modelPose: this.mapper.getModel()?.getPose(),
+      modelIntrinsics: this.mapper.getModel()?.getIntrinsics(),
     };
   }
 
   /**
-   * Apply full state from controller (projector only)
+   * Apply grid size and control points to one warper (projector only)
    */
-  private applyFullState(state: FullProjectionState): void {
-    const warper = this.mapper.getWarper();
+  private applyWarpState(
+    warper: MeshWarper,
+    state: Pick<
+      FullProjectionState,
+      'gridSize' | 'knots' | 'tangents' | 'cornerPoints' | 'gridPoints' | 'referenceGridPoints' | 'warpMode' | 'locked'
+    >,
+  ): void {
     const config = (warper as any).config;
 
     // 1. Apply grid size FIRST
     if (state.gridSize.x !== warper.getGridSizeX() || state.gridSize.y !== warper.getGridSizeY()) {
       warper.setGridSize(state.gridSize.x, state.gridSize.y);
     }
+    if (state.knots) warper.setGridKnots(state.knots);
 
     // 2. Apply corner points
     const cornerPoints = warper.getCornerControlPoints();
@@ -310,7 +497,7 @@ export class WindowSync {
     });
 
     // 4. Apply reference grid points
-    const referenceGridPoints = (warper as any).referenceGridControlPoints;
+    const referenceGridPoints = warper.getReferenceGridControlPoints();
     state.referenceGridPoints.forEach((normalized, i) => {
       if (i < referenceGridPoints.length) {
         const denormalized = this.denormalizePoint(normalized, config.width, config.height);
@@ -318,8 +505,33 @@ export class WindowSync {
       }
     });
 
-    // 5. Apply warp settings
+    // 5. Tangents are pulled back through the homography, so after the points
+    if (state.tangents) warper.setTangents(state.tangents);
+
     warper.setWarpMode(state.warpMode);
+    if (state.locked) warper.setLockedPoints(state.locked);
+
+    // Update mesh
+    (warper as any).updateLine();
+  }
+
+  /**
+   * Apply full state from controller (projector only)
+   */
+  private applyFullState(state: FullProjectionState): void {
+    // 1-4. Apply surfaces known to this window, then the active one
+    state.surfaces?.forEach((surface) => {
+      if (!this.hasSurface(surface.name)) return;
+      this.mapper.setSurfaceVisible(surface.name, surface.visible);
+      this.mapper.setSurfaceUVRect(surface.name, surface.uvRect);
+      this.applyWarpState(this.mapper.getWarper(surface.name), surface);
+    });
+    if (state.activeSurface && this.hasSurface(state.activeSurface)) {
+      this.mapper.selectSurface(state.activeSurface);
+    }
+    if (!state.surfaces) this.applyWarpState(this.mapper.getWarper(), state);
+
+    // 5. Apply warp settings
     this.mapper.setShouldWarp(state.shouldWarp); // use mapper so maskPlane.uShouldWarp is updated
 
     // 6. Apply visual settings
@@ -331,8 +543,11 @@ export class WindowSync {
     // 7. Apply camera offset
     this.mapper.setCameraOffset(state.cameraOffset.x, state.cameraOffset.y);
 
-    // 8. Apply image settings
+    // 8. Apply image settings, edge blend and source crop
     this.mapper.setImageSettings(state.imageSettings);
+    if (state.edgeBlend) this.mapper.setEdgeBlend(state.edgeBlend);
+    if (state.lensDistortion) this.mapper.setLensDistortion(state.lensDistortion);
+    if (state.sourceCrop) this.mapper.setSourceCrop(state.sourceCrop);
 
     // 9. Apply polygon mask (applyPolygonMaskState always hides handles on projector)
     if (state.polygonMask) {
@@ -343,8 +558,11 @@ export class WindowSync {
     // Ensure mask handles are hidden even if setShouldWarp re-enabled them
     this.mapper.getPolygonMask()?.setVisible(false);
 
-    // Update mesh
-    (warper as any).updateLine();
+    // 10. Apply model mapping, if this window has the model
+    const model = this.mapper.getModel();
+    if (model && state.modelIntrinsics) model.setIntrinsics(state.modelIntrinsics);
+    if (model && state.modelPose) model.setPose(state.modelPose);
+    if (state.mappingMode && (state.mappingMode === 'warp' || model)) this.mapper.setMappingMode(state.mappingMode);
 
     // Hide loading message (if it exists)
     const loadingEl = document.getElementById('loading');
@@ -358,8 +576,7 @@ export class WindowSync {
   /**
    * Apply corner point updates (projector only)
    */
-  private applyCornerPoints(points: NormalizedPoint[]): void {
-    const warper = this.mapper.getWarper();
+  private applyCornerPoints(warper: MeshWarper, points: NormalizedPoint[]): void {
     const config = (warper as any).config;
     const cornerPoints = warper.getCornerControlPoints();
 
@@ -374,11 +591,10 @@ export class WindowSync {
   /**
    * Apply grid point updates (projector only)
    */
-  private applyGridPoints(points: NormalizedPoint[], referencePoints: NormalizedPoint[]): void {
-    const warper = this.mapper.getWarper();
+  private applyGridPoints(warper: MeshWarper, points: NormalizedPoint[], referencePoints: NormalizedPoint[]): void {
     const config = (warper as any).config;
     const gridPoints = warper.getGridControlPoints();
-    const referenceGridPoints = (warper as any).referenceGridControlPoints;
+    const referenceGridPoints = warper.getReferenceGridControlPoints();
 
     points.forEach((normalized, i) => {
       if (i < gridPoints.length) {
@@ -423,7 +639,8 @@ export class WindowSync {
    * Update connection status UI (if element exists)
    */
   private updateConnectionStatus(connected: boolean): void {
-    const statusElement = document.getElementById('connection-status');
+    if (this.connectionStatusElementId === null) return;
+    const statusElement = document.getElementById(this.connectionStatusElementId);
     if (statusElement) {
       statusElement.textContent = connected ? 'Connected' : 'Disconnected';
       statusElement.className = connected ? 'connected' : 'disconnected';
@@ -455,12 +672,14 @@ export class WindowSync {
   public updateMapper(mapper: ProjectionMapper): void {
     this.mapper = mapper;
     if (this.mode === WINDOW_SYNC_MODE.CONTROLLER) {
+      this.forwardMapperChanges();
       this.reattachDragListener();
     } else {
       this.mapper.setControlsVisible(false);
       this.mapper.setShowBorderLines(false);
       this.mapper.setZoom(1.0);
-      this.mapper.getWarper().setDragEnabled(false);
+      this.mapper.setDragEnabled(false);
+      this.hideControlsOnCalibration();
       // New mapper has default state — re-request full state from controller so all
       // projection state (test card, polygon mask, image settings, warp, etc.) is restored.
       this.eventChannel.emit(ProjectionEventType.PROJECTOR_READY, {});
@@ -509,4 +728,12 @@ export class WindowSync {
   public broadcast(eventType: ProjectionEventType, payload: any): void {
     this.eventChannel.emit(eventType, payload);
   }
+
+  /**
+   * Close the channel and, in the controller, the projector window
+   */
+  public destroy(): void {
+    this.windowManager.destroy();
+    this.eventChannel.close();
+  }
 }
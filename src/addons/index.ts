@@ -1,7 +1,20 @@
 /**
  * Addons for three-projection-mapper
  *
- * Import with: import { WindowSync, WINDOW_SYNC_MODE } from 'three-projection-mapper/addons';
+ * Import with: import { WindowSync, WINDOW_SYNC_MODE, ProjectorRig } from 'three-projection-mapper/addons';
  */
 
 export { WindowSync, WINDOW_SYNC_MODE, type WindowSyncConfig } from './WindowSync';
+export {
+  ProjectorCameraHelper,
+  type ProjectorCameraHelperConfig,
+  type ProjectorThrowReadout,
+} from './ProjectorCameraHelper';
+export { ProjectorDebugView, type ProjectorDebugViewConfig } from './ProjectorDebugView';
+export {
+  ProjectorRig,
+  PROJECTOR_RIG_URL_PARAMETER,
+  type ProjectorRigConfig,
+  type RigProjectorConfig,
+  type RigOutput,
+} from './ProjectorRig';
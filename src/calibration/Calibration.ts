@@ -0,0 +1,341 @@
+/*
+Calibration
+-----------
+A calibration document bundles everything needed to reproduce a show on another machine:
+the warp of every surface, image settings, edge blend, lens distortion, source crop, polygon mask and the controller
+view (zoom/offset).
+Control points are stored normalized (0-1) like the persisted saves, so a calibration
+survives a different projection resolution.
+
+Documents are versioned with CALIBRATION_VERSION, independent of the GUI settings' STORAGE_VERSION.
+Version 1 is the only format so far, so CALIBRATION_MIGRATIONS is empty and other versions are rejected.
+When the format changes, bump the version and add an entry that upgrades documents from the previous
+version; migrateCalibration() runs the entries step by step before validation.
+Shows saved before calibration documents existed are read from storage by storedCalibration.ts.
+*/
+import {
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_LENS_DISTORTION,
+  DEFAULT_SOURCE_CROP,
+  DEFAULT_SURFACE_NAME,
+  MAX_POLYGON_POINTS,
+  MESH_WARP_GRID_SIZE,
+  CALIBRATION_VERSION,
+} from '../core/defaults';
+import type { EdgeBlendSettings, ImageSettings, LensDistortionSettings, SourceCrop } from '../core/defaults';
+import type { UVRect, WarpState } from '../warp/MeshWarper';
+import { WARP_MODE } from '../warp/WarpMode';
+import type { UVPoint } from '../mask/PolygonMask';
+
+export const CALIBRATION_FORMAT = 'three-projection-mapper-calibration';
+
+export interface SurfaceCalibration {
+  name: string;
+  visible: boolean;
+  uvRect: UVRect;
+  warp: WarpState;
+}
+
+export interface PolygonMaskCalibration {
+  nodes: UVPoint[];
+  enabled: boolean;
+  inverted: boolean;
+  feather: number;
+}
+
+export interface CalibrationDocument {
+  format: typeof CALIBRATION_FORMAT;
+  version: number;
+  /** ISO timestamp of the export */
+  createdAt: string;
+  /** Projection resolution at export time, informational only */
+  resolution: { width: number; height: number };
+  zoom: number;
+  cameraOffset: { x: number; y: number };
+  imageSettings: ImageSettings;
+  edgeBlend: EdgeBlendSettings;
+  lensDistortion: LensDistortionSettings;
+  sourceCrop: SourceCrop;
+  surfaces: SurfaceCalibration[];
+  /** Absent mask is stored as null */
+  polygonMask: PolygonMaskCalibration | null;
+}
+
+export class CalibrationValidationError extends Error {
+  /** Location of the offending value, e.g. `surfaces[0].warp.corners` */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`Calibration: ${path} ${message}`);
+    this.name = 'CalibrationValidationError';
+    this.path = path;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+// None yet: version 1 is the first calibration format
+export const CALIBRATION_MIGRATIONS: Record<number, (doc: UnknownRecord) => UnknownRecord> = {};
+
+const OLDEST_SUPPORTED_VERSION = Math.min(CALIBRATION_VERSION, ...Object.keys(CALIBRATION_MIGRATIONS).map(Number));
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, path: string): UnknownRecord {
+  if (!isRecord(value)) throw new CalibrationValidationError(path, 'must be an object');
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new CalibrationValidationError(path, 'must be a finite number');
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new CalibrationValidationError(path, 'must be a boolean');
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new CalibrationValidationError(path, 'must be an array');
+  return value;
+}
+
+function validatePoints(value: unknown, path: string, count: number): WarpState['corners'] {
+  const points = expectArray(value, path);
+  if (points.length !== count) {
+    throw new CalibrationValidationError(path, `must contain ${count} points, got ${points.length}`);
+  }
+  return points.map((point, i) => {
+    const p = expectRecord(point, `${path}[${i}]`);
+    return {
+      x: expectNumber(p.x, `${path}[${i}].x`),
+      y: expectNumber(p.y, `${path}[${i}].y`),
+      z: p.z === undefined ? 0 : expectNumber(p.z, `${path}[${i}].z`),
+    };
+  });
+}
+
+function validateGridSize(value: unknown, path: string): WarpState['gridSize'] {
+  const gridSize = expectRecord(value, path);
+  const size = { x: expectNumber(gridSize.x, `${path}.x`), y: expectNumber(gridSize.y, `${path}.y`) };
+  for (const axis of ['x', 'y'] as const) {
+    const n = size[axis];
+    if (!Number.isInteger(n) || n < MESH_WARP_GRID_SIZE.minimum || n > MESH_WARP_GRID_SIZE.maximum) {
+      throw new CalibrationValidationError(
+        `${path}.${axis}`,
+        `must be an integer between ${MESH_WARP_GRID_SIZE.minimum} and ${MESH_WARP_GRID_SIZE.maximum}`,
+      );
+    }
+  }
+  return size;
+}
+
+function validateIndices(value: unknown, path: string, count: number): number[] {
+  return expectArray(value, path).map((index, i) => {
+    if (!Number.isInteger(index) || (index as number) < 0 || (index as number) >= count) {
+      throw new CalibrationValidationError(`${path}[${i}]`, `must be an index below ${count}`);
+    }
+    return index as number;
+  });
+}
+
+// One knot per column or row, from 0 to 1 and strictly increasing
+function validateKnots(value: unknown, path: string, count: number): number[] {
+  const knots = expectArray(value, path).map((knot, i) => expectNumber(knot, `${path}[${i}]`));
+  if (knots.length !== count) {
+    throw new CalibrationValidationError(path, `must contain ${count} knots, got ${knots.length}`);
+  }
+  if (knots[0] !== 0 || knots[count - 1] !== 1 || knots.some((knot, i) => i > 0 && knot <= knots[i - 1])) {
+    throw new CalibrationValidationError(path, 'must increase from 0 to 1');
+  }
+  return knots;
+}
+
+/**
+ * Validates the warp of one surface, also used for the warps MeshWarper persists.
+ * Throws CalibrationValidationError naming the first invalid field below `path`.
+ */
+export function validateWarp(value: unknown, path = 'warp'): WarpState {
+  const warp = expectRecord(value, path);
+  const gridSize = validateGridSize(warp.gridSize, `${path}.gridSize`);
+  if (warp.warpMode !== WARP_MODE.bilinear && warp.warpMode !== WARP_MODE.bicubic && warp.warpMode !== WARP_MODE.bezier) {
+    throw new CalibrationValidationError(`${path}.warpMode`, 'must be a WARP_MODE');
+  }
+
+  // An empty grid is allowed, it gets rebuilt from the corners on import
+  const gridCount = expectArray(warp.grid, `${path}.grid`).length === 0 ? 0 : gridSize.x * gridSize.y;
+  const result: WarpState = {
+    gridSize,
+    warpMode: warp.warpMode,
+    corners: validatePoints(warp.corners, `${path}.corners`, 4),
+    grid: validatePoints(warp.grid, `${path}.grid`, gridCount),
+    referenceGrid: validatePoints(warp.referenceGrid, `${path}.referenceGrid`, gridCount),
+  };
+
+  // Documents exported before point locks have none
+  if (warp.locked !== undefined) {
+    const locked = expectRecord(warp.locked, `${path}.locked`);
+    result.locked = {
+      corners: validateIndices(locked.corners, `${path}.locked.corners`, 4),
+      grid: validateIndices(locked.grid, `${path}.locked.grid`, gridSize.x * gridSize.y),
+    };
+  }
+
+  // Documents exported before grid knots have evenly spaced grids
+  if (warp.knots !== undefined) {
+    const knots = expectRecord(warp.knots, `${path}.knots`);
+    result.knots = {
+      x: validateKnots(knots.x, `${path}.knots.x`, gridSize.x),
+      y: validateKnots(knots.y, `${path}.knots.y`, gridSize.y),
+    };
+  }
+
+  // Documents exported before Bezier patches have no tangents, they are estimated from the grid
+  if (warp.tangents !== undefined) {
+    const tangents = expectRecord(warp.tangents, `${path}.tangents`);
+    result.tangents = {
+      u: validatePoints(tangents.u, `${path}.tangents.u`, gridCount).map(({ x, y }) => ({ x, y })),
+      v: validatePoints(tangents.v, `${path}.tangents.v`, gridCount).map(({ x, y }) => ({ x, y })),
+    };
+  }
+  return result;
+}
+
+function validateUVRect(value: unknown, path: string): UVRect {
+  const rect = expectRecord(value, path);
+  const uvRect = {
+    x: expectNumber(rect.x, `${path}.x`),
+    y: expectNumber(rect.y, `${path}.y`),
+    width: expectNumber(rect.width, `${path}.width`),
+    height: expectNumber(rect.height, `${path}.height`),
+  };
+  if (uvRect.width <= 0 || uvRect.height <= 0) {
+    throw new CalibrationValidationError(path, 'must have a positive width and height');
+  }
+  return uvRect;
+}
+
+function validateSurfaces(value: unknown, path: string): SurfaceCalibration[] {
+  const names = new Set<string>();
+  const surfaces = expectArray(value, path).map((entry, i) => {
+    const surface = expectRecord(entry, `${path}[${i}]`);
+    if (typeof surface.name !== 'string' || surface.name.length === 0) {
+      throw new CalibrationValidationError(`${path}[${i}].name`, 'must be a non-empty string');
+    }
+    if (names.has(surface.name)) {
+      throw new CalibrationValidationError(`${path}[${i}].name`, `duplicates surface "${surface.name}"`);
+    }
+    names.add(surface.name);
+    return {
+      name: surface.name,
+      visible: expectBoolean(surface.visible, `${path}[${i}].visible`),
+      uvRect: validateUVRect(surface.uvRect, `${path}[${i}].uvRect`),
+      warp: validateWarp(surface.warp, `${path}[${i}].warp`),
+    };
+  });
+  if (!names.has(DEFAULT_SURFACE_NAME)) {
+    throw new CalibrationValidationError(path, `must contain the "${DEFAULT_SURFACE_NAME}" surface`);
+  }
+  return surfaces;
+}
+
+// Flat settings of booleans and numbers, e.g. image settings or edge blend
+function validateSettings<T extends object>(value: unknown, path: string, defaults: Readonly<T>): T {
+  const settings = expectRecord(value, path);
+  const result = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    // Settings added after the export keep their defaults
+    if (settings[key] === undefined) continue;
+    if (typeof defaults[key] === 'boolean') {
+      (result as Record<string, unknown>)[key] = expectBoolean(settings[key], `${path}.${key}`);
+    } else {
+      (result as Record<string, unknown>)[key] = expectNumber(settings[key], `${path}.${key}`);
+    }
+  }
+  return result;
+}
+
+function validateSourceCrop(value: unknown, path: string): SourceCrop {
+  const crop = validateSettings(value, path, DEFAULT_SOURCE_CROP);
+  if (crop.width <= 0 || crop.height <= 0) {
+    throw new CalibrationValidationError(path, 'must have a positive width and height');
+  }
+  if (crop.overlap < 0) throw new CalibrationValidationError(`${path}.overlap`, 'must not be negative');
+  return crop;
+}
+
+function validatePolygonMask(value: unknown, path: string): PolygonMaskCalibration | null {
+  if (value === null || value === undefined) return null;
+  const mask = expectRecord(value, path);
+  const nodes = expectArray(mask.nodes, `${path}.nodes`);
+  if (nodes.length < 3 || nodes.length > MAX_POLYGON_POINTS) {
+    throw new CalibrationValidationError(`${path}.nodes`, `must contain 3 to ${MAX_POLYGON_POINTS} nodes`);
+  }
+  return {
+    nodes: nodes.map((node, i) => {
+      const n = expectRecord(node, `${path}.nodes[${i}]`);
+      return { u: expectNumber(n.u, `${path}.nodes[${i}].u`), v: expectNumber(n.v, `${path}.nodes[${i}].v`) };
+    }),
+    enabled: expectBoolean(mask.enabled, `${path}.enabled`),
+    inverted: expectBoolean(mask.inverted, `${path}.inverted`),
+    feather: expectNumber(mask.feather, `${path}.feather`),
+  };
+}
+
+/** Upgrades a document of an older CALIBRATION_VERSION to the current one. */
+export function migrateCalibration(data: unknown): UnknownRecord {
+  let doc = expectRecord(data, 'document');
+  if (doc.format !== CALIBRATION_FORMAT) {
+    throw new CalibrationValidationError('format', `must be "${CALIBRATION_FORMAT}"`);
+  }
+  const version = expectNumber(doc.version, 'version');
+  if (!Number.isInteger(version) || version < OLDEST_SUPPORTED_VERSION || version > CALIBRATION_VERSION) {
+    throw new CalibrationValidationError(
+      'version',
+      `${version} is not supported (expected ${OLDEST_SUPPORTED_VERSION} to ${CALIBRATION_VERSION})`,
+    );
+  }
+  for (let v = version; v < CALIBRATION_VERSION; v++) {
+    doc = CALIBRATION_MIGRATIONS[v](doc);
+  }
+  return doc;
+}
+
+/**
+ * Migrates and validates parsed JSON into a calibration document.
+ * Throws CalibrationValidationError naming the first invalid field.
+ */
+export function validateCalibration(data: unknown): CalibrationDocument {
+  const doc = migrateCalibration(data);
+  const resolution = expectRecord(doc.resolution, 'resolution');
+  const cameraOffset = expectRecord(doc.cameraOffset, 'cameraOffset');
+
+  const zoom = expectNumber(doc.zoom, 'zoom');
+  if (zoom <= 0) throw new CalibrationValidationError('zoom', 'must be positive');
+
+  return {
+    format: CALIBRATION_FORMAT,
+    version: CALIBRATION_VERSION,
+    createdAt: typeof doc.createdAt === 'string' ? doc.createdAt : new Date().toISOString(),
+    resolution: {
+      width: expectNumber(resolution.width, 'resolution.width'),
+      height: expectNumber(resolution.height, 'resolution.height'),
+    },
+    zoom,
+    cameraOffset: { x: expectNumber(cameraOffset.x, 'cameraOffset.x'), y: expectNumber(cameraOffset.y, 'cameraOffset.y') },
+    imageSettings: validateSettings(doc.imageSettings, 'imageSettings', DEFAULT_IMAGE_SETTINGS),
+    // Documents exported before edge blending have no blend
+    edgeBlend: validateSettings(doc.edgeBlend ?? {}, 'edgeBlend', DEFAULT_EDGE_BLEND),
+    // Documents exported before lens distortion correction have none
+    lensDistortion: validateSettings(doc.lensDistortion ?? {}, 'lensDistortion', DEFAULT_LENS_DISTORTION),
+    sourceCrop: validateSourceCrop(doc.sourceCrop ?? {}, 'sourceCrop'),
+    surfaces: validateSurfaces(doc.surfaces, 'surfaces'),
+    polygonMask: validatePolygonMask(doc.polygonMask, 'polygonMask'),
+  };
+}
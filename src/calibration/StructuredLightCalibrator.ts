@@ -0,0 +1,163 @@
+/*
+StructuredLightCalibrator
+-------------------------
+Runs the camera-based auto calibration against a ProjectionMapper: shows every pattern of the
+sequence through the mapper (WindowSync forwards them to the projector window), grabs a camera
+frame for each, decodes them and applies the solved control points to a warp surface.
+
+The applied state goes through importWarp, like a preset, so it is one undo step and
+the GUI and projector window follow. Frames come from any source: the helpers below read a
+getUserMedia stream or uploaded images, tests feed synthetic captures into the pure functions
+of structuredLight.ts directly.
+*/
+
+import type { ProjectionMapper } from '../core/ProjectionMapper';
+import { STRUCTURED_LIGHT } from '../core/defaults';
+import {
+  createPatternSequence,
+  createWarpState,
+  decodeStructuredLight,
+  solveControlPoints,
+  type CapturedFrame,
+  type CorrespondenceMap,
+  type DecodeOptions,
+  type PatternSequenceOptions,
+  type SolveOptions,
+  type SolvedControlPoints,
+  type StructuredLightPattern,
+} from './structuredLight';
+
+export interface StructuredLightCalibratorConfig extends PatternSequenceOptions, DecodeOptions {
+  /** Wait after showing a pattern before grabbing its frame: render, window sync and camera latency (default: 300) */
+  settleMs?: number;
+}
+
+export interface AutoCalibrationOptions extends Omit<SolveOptions, 'gridSize'> {
+  /** Surface to calibrate (default: the active surface) */
+  surface?: string;
+  /** Grid control points to solve (default: the surface's current grid size) */
+  gridSize?: { x: number; y: number };
+}
+
+/** Returns the camera image while a pattern is shown */
+export type FrameSource = () => CapturedFrame | Promise<CapturedFrame>;
+
+type ImageSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export class StructuredLightCalibrator {
+  private mapper: ProjectionMapper;
+  private config: StructuredLightCalibratorConfig;
+  private patterns: StructuredLightPattern[];
+
+  constructor(mapper: ProjectionMapper, config: StructuredLightCalibratorConfig = {}) {
+    this.mapper = mapper;
+    this.config = config;
+    this.patterns = createPatternSequence(mapper.getResolution(), config);
+  }
+
+  /** The sequence to capture, one frame per pattern in this order */
+  getPatterns(): StructuredLightPattern[] {
+    return [...this.patterns];
+  }
+
+  /** Shows one pattern of the sequence, e.g. to capture frames by hand and upload them later */
+  showPattern(index: number): void {
+    const pattern = this.patterns[index];
+    if (!pattern) throw new Error(`StructuredLightCalibrator: no pattern ${index}`);
+    this.mapper.setCalibrationPattern(pattern);
+  }
+
+  clearPattern(): void {
+    this.mapper.setCalibrationPattern(null);
+  }
+
+  /** Shows every pattern in turn and grabs a frame for it. The content returns afterwards, also on errors. */
+  async capture(grab: FrameSource): Promise<CapturedFrame[]> {
+    const settleMs = this.config.settleMs ?? STRUCTURED_LIGHT.settleMs;
+    const frames: CapturedFrame[] = [];
+    try {
+      for (let index = 0; index < this.patterns.length; index++) {
+        this.showPattern(index);
+        await new Promise((resolve) => setTimeout(resolve, settleMs));
+        frames.push(await grab());
+      }
+    } finally {
+      this.clearPattern();
+    }
+    return frames;
+  }
+
+  decode(frames: CapturedFrame[]): CorrespondenceMap {
+    return decodeStructuredLight(this.patterns, frames, this.mapper.getResolution(), this.config);
+  }
+
+  solve(map: CorrespondenceMap, options: AutoCalibrationOptions = {}): SolvedControlPoints {
+    const warper = this.mapper.getWarper(options.surface);
+    const gridSize = options.gridSize ?? { x: warper.getGridSizeX(), y: warper.getGridSizeY() };
+    const solved = solveControlPoints(map, { ...options, gridSize });
+    if (solved.unresolved.length > 0) {
+      console.warn(`Auto calibration: ${solved.unresolved.length} grid points had no decoded pixels nearby`);
+    }
+    return solved;
+  }
+
+  /** Moves the surface's handles onto the solved points, as one undoable step */
+  apply(solved: SolvedControlPoints, surface: string = this.mapper.getActiveSurfaceName()): void {
+    this.mapper.importWarp(createWarpState(solved, this.mapper.getWarper(surface).getWarpMode()), surface);
+  }
+
+  /** Capture, decode, solve and apply in one go */
+  async calibrate(grab: FrameSource, options: AutoCalibrationOptions = {}): Promise<SolvedControlPoints> {
+    const map = this.decode(await this.capture(grab));
+    const solved = this.solve(map, options);
+    this.apply(solved, options.surface);
+    return solved;
+  }
+}
+
+/** Reads the current image of a video (e.g. from openCameraStream), image, canvas or bitmap */
+export function captureFrame(source: ImageSource): CapturedFrame {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!width || !height) throw new Error('captureFrame: source has no image yet');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(source, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+/** Decodes an uploaded photo of a pattern */
+export async function loadFrame(file: Blob): Promise<CapturedFrame> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return captureFrame(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Starts a camera with getUserMedia and resolves with a playing video element for captureFrame().
+ * Lock exposure, focus and white balance on the camera if you can: automatic adjustments between
+ * patterns reduce the contrast the decoder relies on.
+ */
+export async function openCameraStream(
+  options: { width?: number; height?: number; deviceId?: string } = {},
+): Promise<HTMLVideoElement> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: {
+      width: { ideal: options.width ?? 1920 },
+      height: { ideal: options.height ?? 1080 },
+      ...(options.deviceId ? { deviceId: { exact: options.deviceId } } : {}),
+    },
+  });
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+  return video;
+}
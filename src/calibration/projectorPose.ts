@@ -0,0 +1,431 @@
+/*
+Projector pose
+--------------
+Solves where a projector stands and where it points from point correspondences: 3D points on
+a physical object (in the units of its model) and the projector pixels that land on them.
+With a known lens, from the projection matrix of the ProjectorCamera (throw ratio, lens
+shift), only the pose is solved: 3 rotation and 3 position parameters.
+
+This is the Perspective-n-Point problem, solved by Levenberg-Marquardt on the pixel reprojection
+error. It converges to the nearest minimum, so it is started from the current pose and from
+poses looking at the points from every side, and the best result wins. At least 4 points are
+needed, more and spread out make the pose robust against inaccurate clicks.
+
+With an unknown lens, solveProjectorCalibration() also solves throw ratio and lens shift. It
+starts from a direct linear transform, which needs no initial guess but at least 6 points that
+span a volume: corners of a box work, points on a single wall do not.
+
+Projector pixels count from the top-left, like in structuredLight.ts.
+*/
+
+import * as THREE from 'three';
+import { PROJECTOR_POSE } from '../core/defaults';
+import { ProjectorCamera } from '../core/ProjectorCamera';
+import { solveLinearSystem } from '../utils/math';
+
+type Point2 = { x: number; y: number };
+type Point3 = { x: number; y: number; z: number };
+
+/** A model point and the projector pixel (from the top-left) that should land on it */
+export interface PointCorrespondence {
+  world: Point3;
+  pixel: Point2;
+}
+
+/** Serializable camera pose in world space */
+export interface ProjectorPose {
+  position: Point3;
+  quaternion: { x: number; y: number; z: number; w: number };
+}
+
+export interface PoseSolution {
+  pose: ProjectorPose;
+  /** Root mean square distance between clicked and reprojected pixels */
+  reprojectionError: number;
+  /** Distance per correspondence, in pixels */
+  errors: number[];
+}
+
+/** Lens of a projector in the terms of ProjectorCamera */
+export interface ProjectorIntrinsics {
+  throwRatio: number;
+  lensShiftX: number;
+  lensShiftY: number;
+}
+
+export interface CalibrationSolution extends PoseSolution {
+  intrinsics: ProjectorIntrinsics;
+}
+
+export interface SolvePoseOptions {
+  /** Pose to start from, usually the camera's current one (default: only the generated starts) */
+  initialPose?: ProjectorPose;
+  /** Levenberg-Marquardt iterations per start (default: 100) */
+  maxIterations?: number;
+}
+
+export const getCameraPose = (camera: THREE.Camera): ProjectorPose => ({
+  position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+  quaternion: { x: camera.quaternion.x, y: camera.quaternion.y, z: camera.quaternion.z, w: camera.quaternion.w },
+});
+
+export const applyCameraPose = (camera: THREE.Camera, pose: ProjectorPose): void => {
+  camera.position.set(pose.position.x, pose.position.y, pose.position.z);
+  camera.quaternion.set(pose.quaternion.x, pose.quaternion.y, pose.quaternion.z, pose.quaternion.w);
+  camera.updateMatrixWorld(true);
+};
+
+const toMatrix = (position: THREE.Vector3, quaternion: THREE.Quaternion) =>
+  new THREE.Matrix4().compose(position, quaternion, new THREE.Vector3(1, 1, 1));
+
+/**
+ * Projector pixel a world point lands on, null if it is behind the projector.
+ * viewProjection is projectionMatrix * matrixWorldInverse of the camera.
+ */
+export function projectToPixel(
+  viewProjection: THREE.Matrix4,
+  world: Point3,
+  resolution: { width: number; height: number },
+): Point2 | null {
+  const clip = new THREE.Vector4(world.x, world.y, world.z, 1).applyMatrix4(viewProjection);
+  if (clip.w <= 1e-9) return null;
+  return {
+    x: ((clip.x / clip.w + 1) / 2) * resolution.width,
+    y: ((1 - clip.y / clip.w) / 2) * resolution.height,
+  };
+}
+
+/** Finds the camera pose that projects the world points onto their pixels through the given lens */
+export function solveProjectorPose(
+  correspondences: PointCorrespondence[],
+  projectionMatrix: THREE.Matrix4,
+  resolution: { width: number; height: number },
+  options: SolvePoseOptions = {},
+): PoseSolution {
+  if (correspondences.length < PROJECTOR_POSE.minPoints) {
+    throw new Error(`solveProjectorPose: needs at least ${PROJECTOR_POSE.minPoints} point pairs, got ${correspondences.length}`);
+  }
+
+  const starts = createStartPoses(correspondences, projectionMatrix);
+  if (options.initialPose) {
+    const { position: p, quaternion: q } = options.initialPose;
+    starts.unshift({ position: new THREE.Vector3(p.x, p.y, p.z), quaternion: new THREE.Quaternion(q.x, q.y, q.z, q.w) });
+  }
+
+  let best: { position: THREE.Vector3; quaternion: THREE.Quaternion; cost: number } | null = null;
+  for (const start of starts) {
+    const result = refinePose(start.position, start.quaternion, correspondences, projectionMatrix, resolution, options);
+    if (!best || result.cost < best.cost) best = result;
+  }
+
+  const viewProjection = projectionMatrix.clone().multiply(toMatrix(best!.position, best!.quaternion).invert());
+  return { pose: toPose(best!.position, best!.quaternion), ...measureErrors(viewProjection, correspondences, resolution) };
+}
+
+/**
+ * Solves lens and pose of a projector whose lens is unknown, from at least 6 correspondences that
+ * do not all lie in one plane. A direct linear transform (DLT) estimates the 3 x 4 projection of
+ * the points, it is split into lens and pose and then refined on the pixel error, with square
+ * pixels and no distortion assumed.
+ */
+export function solveProjectorCalibration(
+  correspondences: PointCorrespondence[],
+  resolution: { width: number; height: number },
+  options: { maxIterations?: number } = {},
+): CalibrationSolution {
+  if (correspondences.length < PROJECTOR_POSE.minCalibrationPoints) {
+    throw new Error(
+      `solveProjectorCalibration: needs at least ${PROJECTOR_POSE.minCalibrationPoints} point pairs, got ${correspondences.length}`,
+    );
+  }
+
+  const start = decomposeProjection(estimateProjection(correspondences), correspondences, resolution);
+  const aspect = resolution.width / resolution.height;
+  const positionScale = Math.max(start.position.length(), 1);
+  const { params } = levenbergMarquardt(
+    start,
+    (calibration) => poseResiduals(calibration, lensProjection(calibration.intrinsics, aspect), correspondences, resolution),
+    (calibration, delta) => {
+      const { throwRatio, lensShiftX, lensShiftY } = calibration.intrinsics;
+      return stepPose(
+        {
+          ...calibration,
+          intrinsics: { throwRatio: throwRatio + delta[6], lensShiftX: lensShiftX + delta[7], lensShiftY: lensShiftY + delta[8] },
+        },
+        delta,
+      );
+    },
+    [1e-6, 1e-6, 1e-6, 1e-6 * positionScale, 1e-6 * positionScale, 1e-6 * positionScale, 1e-7, 1e-7, 1e-7],
+    options.maxIterations ?? PROJECTOR_POSE.maxIterations,
+  );
+
+  const projectionMatrix = lensProjection(params.intrinsics, aspect);
+  const viewProjection = projectionMatrix.multiply(toMatrix(params.position, params.quaternion).invert());
+  return {
+    pose: toPose(params.position, params.quaternion),
+    intrinsics: params.intrinsics,
+    ...measureErrors(viewProjection, correspondences, resolution),
+  };
+}
+
+/** Projection matrix of a ProjectorCamera with the given lens */
+const lensProjection = (intrinsics: ProjectorIntrinsics, aspect: number): THREE.Matrix4 => {
+  const camera = new ProjectorCamera(intrinsics.throwRatio, intrinsics.lensShiftY, aspect);
+  camera.lensShiftX = intrinsics.lensShiftX;
+  camera.updateProjectionMatrix();
+  return camera.projectionMatrix;
+};
+
+const toPose = (position: THREE.Vector3, quaternion: THREE.Quaternion): ProjectorPose => ({
+  position: { x: position.x, y: position.y, z: position.z },
+  quaternion: { x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w },
+});
+
+function measureErrors(
+  viewProjection: THREE.Matrix4,
+  correspondences: PointCorrespondence[],
+  resolution: { width: number; height: number },
+) {
+  const errors = correspondences.map(({ world, pixel }) => {
+    const projected = projectToPixel(viewProjection, world, resolution);
+    return projected ? Math.hypot(projected.x - pixel.x, projected.y - pixel.y) : Infinity;
+  });
+  return { reprojectionError: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length), errors };
+}
+
+/**
+ * DLT: the 3 x 4 matrix P with pixel ~ P * world, by least squares with its last entry fixed to 1.
+ * Points and pixels are centered and scaled first (Hartley normalization) to keep the system well conditioned.
+ */
+function estimateProjection(correspondences: PointCorrespondence[]): number[][] {
+  const n = correspondences.length;
+  const worldCenter = new THREE.Vector3();
+  const pixelCenter = new THREE.Vector2();
+  correspondences.forEach(({ world, pixel }) => {
+    worldCenter.add(new THREE.Vector3(world.x, world.y, world.z).divideScalar(n));
+    pixelCenter.add(new THREE.Vector2(pixel.x, pixel.y).divideScalar(n));
+  });
+  const worldScale =
+    Math.sqrt(3) /
+    Math.max(correspondences.reduce((sum, { world }) => sum + worldCenter.distanceTo(new THREE.Vector3(world.x, world.y, world.z)) / n, 0), 1e-12);
+  const pixelScale =
+    Math.SQRT2 /
+    Math.max(correspondences.reduce((sum, { pixel }) => sum + pixelCenter.distanceTo(new THREE.Vector2(pixel.x, pixel.y)) / n, 0), 1e-12);
+
+  const rows: number[][] = [];
+  const values: number[] = [];
+  correspondences.forEach(({ world, pixel }) => {
+    const X = (world.x - worldCenter.x) * worldScale;
+    const Y = (world.y - worldCenter.y) * worldScale;
+    const Z = (world.z - worldCenter.z) * worldScale;
+    const u = (pixel.x - pixelCenter.x) * pixelScale;
+    const v = (pixel.y - pixelCenter.y) * pixelScale;
+    rows.push([X, Y, Z, 1, 0, 0, 0, 0, -u * X, -u * Y, -u * Z]);
+    values.push(u);
+    rows.push([0, 0, 0, 0, X, Y, Z, 1, -v * X, -v * Y, -v * Z]);
+    values.push(v);
+  });
+  const ata = rows[0].map((_, i) => rows[0].map((_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0)));
+  const atb = rows[0].map((_, i) => rows.reduce((sum, row, k) => sum + row[i] * values[k], 0));
+  const p = solveLinearSystem(ata, atb);
+  if (!p) throw new Error('solveProjectorCalibration: the points must not all lie in one plane');
+
+  // Undo the normalization: P = Tpixel^-1 * Pn * Tworld
+  const normalized = [p.slice(0, 4), p.slice(4, 8), [...p.slice(8, 11), 1]];
+  const toWorld = normalized.map((row) => [
+    row[0] * worldScale,
+    row[1] * worldScale,
+    row[2] * worldScale,
+    row[3] - (row[0] * worldCenter.x + row[1] * worldCenter.y + row[2] * worldCenter.z) * worldScale,
+  ]);
+  return [
+    toWorld[0].map((value, i) => value / pixelScale + pixelCenter.x * toWorld[2][i]),
+    toWorld[1].map((value, i) => value / pixelScale + pixelCenter.y * toWorld[2][i]),
+    toWorld[2],
+  ];
+}
+
+/**
+ * Splits P = K [R | t] into the lens K (focal length and principal point in pixels) and the pose. R and t
+ * map world points into a camera looking along +z with y down, three.js cameras look along -z with y up.
+ */
+function decomposeProjection(
+  P: number[][],
+  correspondences: PointCorrespondence[],
+  resolution: { width: number; height: number },
+) {
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const scaled = (a: number[], s: number) => a.map((value) => value * s);
+  const minus = (a: number[], b: number[]) => a.map((value, i) => value - b[i]);
+
+  // Scale P so that the third row of R has unit length and the points have a positive depth
+  const { world } = correspondences[0];
+  const depth = P[2][0] * world.x + P[2][1] * world.y + P[2][2] * world.z + P[2][3];
+  const scale = Math.sign(depth) / Math.hypot(P[2][0], P[2][1], P[2][2]);
+  const [m1, m2, m3] = P.map((row) => scaled(row.slice(0, 3), scale));
+  const t = P.map((row) => row[3] * scale);
+
+  const r3 = m3;
+  const cx = dot(m1, r3);
+  const cy = dot(m2, r3);
+  const m2Orthogonal = minus(m2, scaled(r3, cy));
+  const fy = Math.hypot(...m2Orthogonal);
+  const r2 = scaled(m2Orthogonal, 1 / fy);
+  const skew = dot(m1, r2);
+  const m1Orthogonal = minus(minus(m1, scaled(r2, skew)), scaled(r3, cx));
+  const fx = Math.hypot(...m1Orthogonal);
+  const r1 = scaled(m1Orthogonal, 1 / fx);
+
+  const basis = [r1, r2, r3].map(([x, y, z]) => new THREE.Vector3(x, y, z));
+  if (basis[0].clone().cross(basis[1]).dot(basis[2]) < 0) {
+    throw new Error('solveProjectorCalibration: the points describe a mirrored image, check the pixel order');
+  }
+
+  // Camera center C = -M^-1 t
+  const center = solveLinearSystem([m1, m2, m3], scaled(t, -1));
+  if (!center) throw new Error('solveProjectorCalibration: the points must not all lie in one plane');
+
+  const rotation = new THREE.Matrix4().makeBasis(basis[0], basis[1].negate(), basis[2].negate());
+  return {
+    position: new THREE.Vector3(center[0], center[1], center[2]),
+    quaternion: new THREE.Quaternion().setFromRotationMatrix(rotation),
+    intrinsics: {
+      // Square pixels: the lens has one focal length, the mean of both estimates
+      throwRatio: (fx + fy) / 2 / resolution.width,
+      lensShiftX: 1 - (2 * cx) / resolution.width,
+      lensShiftY: (2 * cy) / resolution.height - 1,
+    },
+  };
+}
+
+/** Poses looking at the points' center from both ends of every axis, upright and upside down */
+function createStartPoses(correspondences: PointCorrespondence[], projectionMatrix: THREE.Matrix4) {
+  const points = correspondences.map(({ world }) => new THREE.Vector3(world.x, world.y, world.z));
+  const box = new THREE.Box3().setFromPoints(points);
+  const center = box.getCenter(new THREE.Vector3());
+  // Far enough for the points to fill about the projected image: the lens covers 2 / focal length per unit of distance
+  const focal = Math.min(projectionMatrix.elements[0], projectionMatrix.elements[5]);
+  const distance = Math.max(box.getSize(new THREE.Vector3()).length(), 1e-6) * focal;
+
+  const directions = [
+    [1, 0, 0],
+    [-1, 0, 0],
+    [0, 1, 0],
+    [0, -1, 0],
+    [0, 0, 1],
+    [0, 0, -1],
+  ].map(([x, y, z]) => new THREE.Vector3(x, y, z));
+
+  return directions.flatMap((direction) => {
+    const position = center.clone().addScaledVector(direction, distance);
+    const up = Math.abs(direction.y) > 0.5 ? new THREE.Vector3(0, 0, 1) : new THREE.Vector3(0, 1, 0);
+    return [up, up.clone().negate()].map((u) => {
+      const quaternion = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().lookAt(position, center, u));
+      return { position: position.clone(), quaternion };
+    });
+  });
+}
+
+/** Levenberg-Marquardt on the pixel residuals, with a numeric Jacobian of rotation and position increments */
+function refinePose(
+  startPosition: THREE.Vector3,
+  startQuaternion: THREE.Quaternion,
+  correspondences: PointCorrespondence[],
+  projectionMatrix: THREE.Matrix4,
+  resolution: { width: number; height: number },
+  options: SolvePoseOptions,
+) {
+  const positionScale = Math.max(startPosition.length(), 1);
+  const result = levenbergMarquardt(
+    { position: startPosition.clone(), quaternion: startQuaternion.clone() },
+    (pose) => poseResiduals(pose, projectionMatrix, correspondences, resolution),
+    stepPose,
+    [1e-6, 1e-6, 1e-6, 1e-6 * positionScale, 1e-6 * positionScale, 1e-6 * positionScale],
+    options.maxIterations ?? PROJECTOR_POSE.maxIterations,
+  );
+  return { ...result.params, cost: result.cost };
+}
+
+/** Pixel residuals, points behind the projector get a large one so the solver turns the projector around */
+function poseResiduals(
+  pose: { position: THREE.Vector3; quaternion: THREE.Quaternion },
+  projectionMatrix: THREE.Matrix4,
+  correspondences: PointCorrespondence[],
+  resolution: { width: number; height: number },
+): number[] {
+  const behindPenalty = (resolution.width + resolution.height) * 10;
+  const viewProjection = projectionMatrix.clone().multiply(toMatrix(pose.position, pose.quaternion).invert());
+  return correspondences.flatMap(({ world, pixel }) => {
+    const projected = projectToPixel(viewProjection, world, resolution);
+    return projected ? [projected.x - pixel.x, projected.y - pixel.y] : [behindPenalty, behindPenalty];
+  });
+}
+
+/** Applies a rotation vector (delta 0-2) before the current rotation and a position offset (delta 3-5) */
+function stepPose<T extends { position: THREE.Vector3; quaternion: THREE.Quaternion }>(pose: T, delta: number[]): T {
+  const rotation = new THREE.Vector3(delta[0], delta[1], delta[2]);
+  const angle = rotation.length();
+  const turn = angle > 0 ? new THREE.Quaternion().setFromAxisAngle(rotation.divideScalar(angle), angle) : new THREE.Quaternion();
+  return {
+    ...pose,
+    position: pose.position.clone().add(new THREE.Vector3(delta[3], delta[4], delta[5])),
+    quaternion: turn.multiply(pose.quaternion).normalize(),
+  };
+}
+
+/**
+ * Levenberg-Marquardt on a residual vector. The Jacobian is numeric, one forward difference per
+ * entry of stepSizes, and step() moves the parameters by a delta of the same length.
+ */
+function levenbergMarquardt<T>(
+  start: T,
+  residuals: (params: T) => number[],
+  step: (params: T, delta: number[]) => T,
+  stepSizes: number[],
+  maxIterations: number,
+): { params: T; cost: number } {
+  const cost = (r: number[]) => r.reduce((sum, value) => sum + value * value, 0);
+
+  let params = start;
+  let r = residuals(params);
+  let currentCost = cost(r);
+  let lambda = 1e-3;
+
+  for (let iteration = 0; iteration < maxIterations && currentCost > 0; iteration++) {
+    const jacobian = stepSizes.map((h, k) => {
+      const delta = stepSizes.map(() => 0);
+      delta[k] = h;
+      return residuals(step(params, delta)).map((value, i) => (value - r[i]) / h);
+    });
+
+    // Normal equations J^T J and J^T r, jacobian holds one column per parameter
+    const jtj = jacobian.map((a) => jacobian.map((b) => a.reduce((sum, value, i) => sum + value * b[i], 0)));
+    const jtr = jacobian.map((a) => a.reduce((sum, value, i) => sum + value * r[i], 0));
+
+    let improved = false;
+    while (lambda < 1e12) {
+      const damped = jtj.map((row, i) => row.map((value, j) => (i === j ? value * (1 + lambda) + 1e-12 : value)));
+      const delta = solveLinearSystem(damped, jtr.map((value) => -value));
+      if (!delta) {
+        lambda *= 10;
+        continue;
+      }
+      const candidate = step(params, delta);
+      const candidateResiduals = residuals(candidate);
+      const candidateCost = cost(candidateResiduals);
+      if (candidateCost < currentCost) {
+        const converged = currentCost - candidateCost < currentCost * 1e-12;
+        params = candidate;
+        r = candidateResiduals;
+        currentCost = candidateCost;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = !converged;
+        break;
+      }
+      lambda *= 10;
+    }
+    if (!improved) break;
+  }
+
+  return { params, cost: currentCost };
+}
@@ -0,0 +1,128 @@
+/*
+Stored Calibration
+------------------
+Before calibration documents, a show lived only in the storage keys that MeshWarper (one warp per
+surface), PolygonMask (the mask nodes) and ProjectionMapperGUI (image settings, zoom, grid size,
+warp mode, polygon feather and invert, tagged with STORAGE_VERSION) write on their own.
+These functions collect the keys into one calibration document, so a show saved by an older
+version can be exported and moved to another machine.
+
+GUI settings of every STORAGE_VERSION up to the current one are read. Fields an older version
+did not store keep their defaults; newer versions are rejected.
+*/
+import {
+  CALIBRATION_VERSION,
+  DEFAULT_POLYGON_FEATHER,
+  DEFAULT_SURFACE_NAME,
+  DEFAULTS,
+  GUI_STORAGE_KEY,
+  STORAGE_VERSION,
+} from '../core/defaults';
+import { CALIBRATION_FORMAT, CalibrationValidationError, validateCalibration, type CalibrationDocument } from './Calibration';
+import { FULL_UV_RECT, WARP_STORAGE_KEY, getWarpStorageKey } from '../warp/MeshWarper';
+import { WARP_MODE } from '../warp/WarpMode';
+import { POLYGON_MASK_STORAGE_KEY } from '../mask/PolygonMask';
+import type { CalibrationStore } from '../storage/CalibrationStore';
+
+/** Raw values of the storage keys, null where nothing is stored */
+export interface StoredCalibrationValues {
+  /** Warp of each surface by surface name, the default surface is required */
+  warps: Record<string, string | null>;
+  polygonMask: string | null;
+  guiSettings: string | null;
+}
+
+function parseStored(value: string, key: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new CalibrationValidationError(key, 'is not valid JSON');
+  }
+}
+
+function parseRecord(value: string, key: string): Record<string, unknown> {
+  const parsed = parseStored(value, key);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new CalibrationValidationError(key, 'must be an object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Builds a calibration document from the values of the storage keys. The resolution is not stored,
+ * pass the one of the mapper that wrote them. Throws CalibrationValidationError like validateCalibration().
+ */
+export function calibrationFromStoredValues(
+  values: StoredCalibrationValues,
+  resolution: { width: number; height: number },
+): CalibrationDocument {
+  const settings = values.guiSettings ? parseRecord(values.guiSettings, GUI_STORAGE_KEY) : {};
+  // Settings saved before versioning have no version, they are older than any
+  const version = settings.version ?? 0;
+  if (typeof version !== 'number' || version > STORAGE_VERSION) {
+    throw new CalibrationValidationError(
+      `${GUI_STORAGE_KEY}.version`,
+      `${String(version)} is newer than this version (${STORAGE_VERSION})`,
+    );
+  }
+
+  if (!values.warps[DEFAULT_SURFACE_NAME]) {
+    throw new CalibrationValidationError(WARP_STORAGE_KEY, `has no stored warp for the "${DEFAULT_SURFACE_NAME}" surface`);
+  }
+
+  const surfaces = Object.entries(values.warps).flatMap(([name, stored]) => {
+    if (!stored) return [];
+    // Older versions kept grid size and warp mode of the default surface in the GUI settings only
+    const fallback =
+      name === DEFAULT_SURFACE_NAME
+        ? { gridSize: settings.gridSize, warpMode: settings.warpMode ?? WARP_MODE.bicubic }
+        : { warpMode: WARP_MODE.bicubic };
+    const warp = { ...fallback, ...parseRecord(stored, getWarpStorageKey(name)) };
+    return [{ name, visible: true, uvRect: { ...FULL_UV_RECT }, warp }];
+  });
+
+  const nodes = values.polygonMask ? parseStored(values.polygonMask, POLYGON_MASK_STORAGE_KEY) : null;
+
+  // validateCalibration picks the fields it knows from the settings and checks every value
+  return validateCalibration({
+    format: CALIBRATION_FORMAT,
+    version: CALIBRATION_VERSION,
+    createdAt: new Date().toISOString(),
+    resolution,
+    zoom: settings.zoom ?? DEFAULTS.zoom,
+    cameraOffset: { x: 0, y: 0 },
+    imageSettings: settings,
+    edgeBlend: settings.edgeBlend,
+    lensDistortion: settings.lensDistortion,
+    sourceCrop: settings.sourceCrop,
+    surfaces,
+    polygonMask: nodes && {
+      nodes,
+      enabled: true,
+      inverted: settings.polygonInvert ?? false,
+      feather: settings.polygonFeather ?? DEFAULT_POLYGON_FEATHER,
+    },
+  });
+}
+
+/**
+ * Reads the storage keys of a mapper from a store, e.g. `new LocalStorageStore()` of an older installation,
+ * and builds a calibration document from them, see calibrationFromStoredValues().
+ * Surfaces other than the default one are not listed in the store, pass their names.
+ */
+export async function readStoredCalibration(
+  store: CalibrationStore,
+  resolution: { width: number; height: number },
+  surfaces: string[] = [DEFAULT_SURFACE_NAME],
+): Promise<CalibrationDocument> {
+  const names = surfaces.includes(DEFAULT_SURFACE_NAME) ? surfaces : [DEFAULT_SURFACE_NAME, ...surfaces];
+  const warps = await Promise.all(names.map((name) => store.get(getWarpStorageKey(name))));
+  return calibrationFromStoredValues(
+    {
+      warps: Object.fromEntries(names.map((name, i) => [name, warps[i]])),
+      polygonMask: await store.get(POLYGON_MASK_STORAGE_KEY),
+      guiSettings: await store.get(GUI_STORAGE_KEY),
+    },
+    resolution,
+  );
+}
@@ -0,0 +1,404 @@
+/*
+Structured light
+----------------
+Headless part of the camera-based auto calibration: pattern generation, decoding of captured
+frames and solving of warp control points. Nothing here touches WebGL or the DOM, so the whole
+pipeline runs in vitest on synthetic captures.
+
+1. createPatternSequence() lists the patterns to project: white and black references,
+   Gray-code stripes (each with its inverse) for both axes and optional phase-shifted sinusoids.
+2. decodeStructuredLight() turns one captured frame per pattern into a CorrespondenceMap:
+   for every camera pixel the projector pixel it sees. Gray code gives the stripe, phase
+   shifting refines it to sub-pixel precision.
+3. solveControlPoints() looks up where the grid of a target quad in the camera image lands
+   in the projector, createWarpState() turns that into a MeshWarper state.
+
+Projector and camera coordinates are pixels from the top-left. Solved control points use the
+normalized (0-1, origin bottom-left) space MeshWarper persists, so they apply at any resolution.
+*/
+
+import PerspT from '../utils/perspective';
+import { WarpGridModel } from '../warp/WarpGridModel';
+import { STRUCTURED_LIGHT } from '../core/defaults';
+import type { WarpState, WARP_MODE } from '../warp/MeshWarper';
+
+export type PatternAxis = 'x' | 'y';
+
+/** Serializable pattern description, rendered locally by every window that shows it */
+export type StructuredLightPattern =
+  | { kind: 'white' }
+  | { kind: 'black' }
+  | { kind: 'gray'; axis: PatternAxis; bit: number; inverted: boolean }
+  | { kind: 'phase'; axis: PatternAxis; step: number; steps: number; period: number };
+
+export interface PatternSequenceOptions {
+  /** Phase-shift steps per axis, 0 disables phase shifting (default: 4) */
+  phaseSteps?: number;
+  /** Sinusoid period in projector pixels (default: 32) */
+  phasePeriod?: number;
+  /** Finest Gray-code bits to leave out, for cameras that cannot resolve 1-pixel stripes (default: 0) */
+  dropLowBits?: number;
+}
+
+/** A camera image: 8-bit luminance, RGB or RGBA (e.g. ImageData), rows from the top */
+export interface CapturedFrame {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+export interface DecodeOptions {
+  /** Minimum white-black difference for a camera pixel to count as lit by the projector (default: 20) */
+  minContrast?: number;
+}
+
+export interface CorrespondenceMap {
+  /** Camera image size */
+  width: number;
+  height: number;
+  projectorWidth: number;
+  projectorHeight: number;
+  /** Projector coordinate seen by each camera pixel, in projector pixels; NaN where nothing was decoded */
+  x: Float32Array;
+  y: Float32Array;
+}
+
+type CameraPoint = { x: number; y: number };
+
+export interface SolveOptions {
+  gridSize: { x: number; y: number };
+  /** Where the content should appear in the camera image, TL, TR, BL, BR (default: the whole camera frame) */
+  targetQuad?: CameraPoint[];
+  /** Radius around a grid point that is averaged, in camera pixels (default: 2) */
+  sampleRadius?: number;
+  /** How far to search for decoded pixels when the sample radius has none (default: 16) */
+  searchRadius?: number;
+}
+
+export interface SolvedControlPoints {
+  gridSize: { x: number; y: number };
+  /** TL, TR, BL, BR, normalized */
+  corners: { x: number; y: number; z: number }[];
+  /** Row by row from the bottom-left, normalized */
+  grid: { x: number; y: number; z: number }[];
+  /** Grid indices without decoded pixels nearby, interpolated from the corners instead */
+  unresolved: number[];
+}
+
+export function grayCode(n: number): number {
+  return n ^ (n >>> 1);
+}
+
+export function grayToBinary(gray: number): number {
+  let binary = gray;
+  for (let shift = gray >>> 1; shift; shift >>>= 1) binary ^= shift;
+  return binary;
+}
+
+/** Number of Gray-code bits needed to address `size` pixels */
+export function bitsFor(size: number): number {
+  return Math.max(1, Math.ceil(Math.log2(size)));
+}
+
+export function createPatternSequence(
+  resolution: { width: number; height: number },
+  options: PatternSequenceOptions = {},
+): StructuredLightPattern[] {
+  const { phaseSteps = STRUCTURED_LIGHT.phaseSteps, phasePeriod = STRUCTURED_LIGHT.phasePeriod } = options;
+  const dropLowBits = options.dropLowBits ?? STRUCTURED_LIGHT.dropLowBits;
+  const patterns: StructuredLightPattern[] = [{ kind: 'white' }, { kind: 'black' }];
+
+  for (const axis of ['x', 'y'] as const) {
+    const bits = bitsFor(axis === 'x' ? resolution.width : resolution.height);
+    for (let bit = bits - 1; bit >= Math.min(dropLowBits, bits - 1); bit--) {
+      patterns.push({ kind: 'gray', axis, bit, inverted: false }, { kind: 'gray', axis, bit, inverted: true });
+    }
+  }
+
+  for (const axis of ['x', 'y'] as const) {
+    for (let step = 0; step < phaseSteps; step++) {
+      patterns.push({ kind: 'phase', axis, step, steps: phaseSteps, period: phasePeriod });
+    }
+  }
+  return patterns;
+}
+
+/** Intensity (0-255) of a projector pixel */
+export function patternValue(pattern: StructuredLightPattern, px: number, py: number): number {
+  switch (pattern.kind) {
+    case 'white':
+      return 255;
+    case 'black':
+      return 0;
+    case 'gray': {
+      const on = (grayCode(pattern.axis === 'x' ? px : py) >>> pattern.bit) & 1;
+      return (pattern.inverted ? 1 - on : on) * 255;
+    }
+    case 'phase': {
+      // Sampled at the pixel center, so the decoded phase is the continuous coordinate
+      const coordinate = (pattern.axis === 'x' ? px : py) + 0.5;
+      const angle = (2 * Math.PI * coordinate) / pattern.period - (2 * Math.PI * pattern.step) / pattern.steps;
+      return Math.round(127.5 + 127.5 * Math.cos(angle));
+    }
+  }
+}
+
+/** One intensity per projector pixel, rows from the top */
+export function renderPattern(pattern: StructuredLightPattern, width: number, height: number): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      pixels[py * width + px] = patternValue(pattern, px, py);
+    }
+  }
+  return pixels;
+}
+
+function toLuminance(frame: CapturedFrame): Float32Array {
+  const count = frame.width * frame.height;
+  const channels = frame.data.length / count;
+  if (channels !== 1 && channels !== 3 && channels !== 4) {
+    throw new Error(`structuredLight: frame data does not match ${frame.width}x${frame.height}`);
+  }
+
+  const luminance = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const o = i * channels;
+    luminance[i] =
+      channels === 1 ? frame.data[o] : 0.2126 * frame.data[o] + 0.7152 * frame.data[o + 1] + 0.0722 * frame.data[o + 2];
+  }
+  return luminance;
+}
+
+interface AxisAccumulator {
+  gray: Uint32Array;
+  lowestBit: number;
+  sin: Float32Array;
+  cos: Float32Array;
+  steps: number;
+  period: number;
+}
+
+/**
+ * Decodes one captured frame per pattern (same order as `patterns`) into projector coordinates.
+ * Frames are converted one at a time; only the references and unpaired Gray-code frames are kept.
+ */
+export function decodeStructuredLight(
+  patterns: StructuredLightPattern[],
+  frames: CapturedFrame[],
+  projector: { width: number; height: number },
+  options: DecodeOptions = {},
+): CorrespondenceMap {
+  if (patterns.length !== frames.length) {
+    throw new Error(`structuredLight: expected ${patterns.length} frames, got ${frames.length}`);
+  }
+  if (frames.length === 0) throw new Error('structuredLight: no frames to decode');
+  const { width, height } = frames[0];
+  if (frames.some((frame) => frame.width !== width || frame.height !== height)) {
+    throw new Error('structuredLight: all frames must have the same size');
+  }
+
+  const count = width * height;
+  const minContrast = options.minContrast ?? STRUCTURED_LIGHT.minContrast;
+  let white: Float32Array | null = null;
+  let black: Float32Array | null = null;
+  // Gray frames wait here for their inverse
+  const pending = new Map<string, Float32Array>();
+  const axes: Record<PatternAxis, AxisAccumulator> = {
+    x: createAccumulator(count),
+    y: createAccumulator(count),
+  };
+
+  for (let index = 0; index < patterns.length; index++) {
+    const pattern = patterns[index];
+    const luminance = toLuminance(frames[index]);
+    if (pattern.kind === 'white') white = luminance;
+    else if (pattern.kind === 'black') black = luminance;
+    else if (pattern.kind === 'gray') {
+      const key = `${pattern.axis}:${pattern.bit}`;
+      const other = pending.get(key);
+      if (!other) {
+        pending.set(key, luminance);
+        continue;
+      }
+      pending.delete(key);
+      const [normal, inverse] = pattern.inverted ? [other, luminance] : [luminance, other];
+      const axis = axes[pattern.axis];
+      axis.lowestBit = Math.min(axis.lowestBit, pattern.bit);
+      for (let i = 0; i < count; i++) {
+        if (normal[i] > inverse[i]) axis.gray[i] |= 1 << pattern.bit;
+      }
+    } else {
+      const axis = axes[pattern.axis];
+      const angle = (2 * Math.PI * pattern.step) / pattern.steps;
+      const [s, c] = [Math.sin(angle), Math.cos(angle)];
+      axis.steps = pattern.steps;
+      axis.period = pattern.period;
+      for (let i = 0; i < count; i++) {
+        axis.sin[i] += luminance[i] * s;
+        axis.cos[i] += luminance[i] * c;
+      }
+    }
+  }
+
+  if (!white || !black) throw new Error('structuredLight: the sequence needs a white and a black frame');
+  if (pending.size > 0) throw new Error('structuredLight: every Gray-code pattern needs its inverse');
+  if (axes.x.lowestBit === Infinity || axes.y.lowestBit === Infinity) {
+    throw new Error('structuredLight: the sequence needs Gray-code patterns for both axes');
+  }
+
+  const map: CorrespondenceMap = {
+    width,
+    height,
+    projectorWidth: projector.width,
+    projectorHeight: projector.height,
+    x: new Float32Array(count).fill(NaN),
+    y: new Float32Array(count).fill(NaN),
+  };
+
+  for (let i = 0; i < count; i++) {
+    const contrast = white[i] - black[i];
+    if (contrast < minContrast) continue;
+    const x = decodeCoordinate(axes.x, i, contrast);
+    const y = decodeCoordinate(axes.y, i, contrast);
+    if (x < 0 || x >= projector.width || y < 0 || y >= projector.height) continue;
+    map.x[i] = x;
+    map.y[i] = y;
+  }
+  return map;
+}
+
+function createAccumulator(count: number): AxisAccumulator {
+  return {
+    gray: new Uint32Array(count),
+    lowestBit: Infinity,
+    sin: new Float32Array(count),
+    cos: new Float32Array(count),
+    steps: 0,
+    period: 0,
+  };
+}
+
+function decodeCoordinate(axis: AxisAccumulator, i: number, contrast: number): number {
+  // Gray code of the coarse coordinate, dropped low bits are zero: gray(x) >> n === gray(x >> n)
+  const bandSize = 2 ** axis.lowestBit;
+  const coarse = grayToBinary(axis.gray[i] >>> axis.lowestBit) * bandSize + bandSize / 2;
+  if (axis.steps === 0) return coarse;
+
+  // Sum of I * e^(i*delta) is (N/2) * amplitude * e^(i*phase)
+  const amplitude = (2 / axis.steps) * Math.hypot(axis.sin[i], axis.cos[i]);
+  if (amplitude < contrast / 4) return coarse;
+
+  const turns = Math.atan2(axis.sin[i], axis.cos[i]) / (2 * Math.PI);
+  const fine = (turns - Math.floor(turns)) * axis.period;
+  // Unwrap with the Gray code: pick the period that lands closest to the coarse coordinate
+  return fine + Math.round((coarse - fine) / axis.period) * axis.period;
+}
+
+/** Average projector coordinate of decoded camera pixels within `radius` of a camera point */
+function sampleCorrespondence(map: CorrespondenceMap, point: CameraPoint, radius: number): CameraPoint | null {
+  let sumX = 0;
+  let sumY = 0;
+  let samples = 0;
+  const minX = Math.max(0, Math.floor(point.x - radius));
+  const maxX = Math.min(map.width - 1, Math.ceil(point.x + radius));
+  const minY = Math.max(0, Math.floor(point.y - radius));
+  const maxY = Math.min(map.height - 1, Math.ceil(point.y + radius));
+
+  for (let cy = minY; cy <= maxY; cy++) {
+    for (let cx = minX; cx <= maxX; cx++) {
+      // Pixel centers
+      if ((cx + 0.5 - point.x) ** 2 + (cy + 0.5 - point.y) ** 2 > radius * radius) continue;
+      const i = cy * map.width + cx;
+      if (Number.isNaN(map.x[i])) continue;
+      sumX += map.x[i];
+      sumY += map.y[i];
+      samples++;
+    }
+  }
+  return samples > 0 ? { x: sumX / samples, y: sumY / samples } : null;
+}
+
+/** Looks up the projector coordinate at a camera point, widening the search until decoded pixels are found */
+export function lookupCorrespondence(
+  map: CorrespondenceMap,
+  point: CameraPoint,
+  sampleRadius: number = STRUCTURED_LIGHT.sampleRadius,
+  searchRadius: number = STRUCTURED_LIGHT.searchRadius,
+): CameraPoint | null {
+  for (let radius = Math.max(sampleRadius, 0.5); ; radius = Math.min(radius * 2, searchRadius)) {
+    const found = sampleCorrespondence(map, point, radius);
+    if (found || radius >= searchRadius) return found;
+  }
+}
+
+// Content corners in UV space (origin bottom-left), TL, TR, BL, BR like the warp corners
+const UNIT_CORNERS = [0, 1, 1, 1, 0, 0, 1, 0];
+const CORNER_NAMES = ['top left', 'top right', 'bottom left', 'bottom right'];
+
+/**
+ * Finds where each grid point of the target quad lands in the projector. Projecting the content
+ * through the solved points makes it appear on that quad as seen from the camera.
+ */
+export function solveControlPoints(map: CorrespondenceMap, options: SolveOptions): SolvedControlPoints {
+  const { gridSize, sampleRadius = STRUCTURED_LIGHT.sampleRadius, searchRadius = STRUCTURED_LIGHT.searchRadius } =
+    options;
+  const quad = options.targetQuad ?? [
+    { x: 0, y: 0 },
+    { x: map.width, y: 0 },
+    { x: 0, y: map.height },
+    { x: map.width, y: map.height },
+  ];
+  if (quad.length !== 4) throw new Error('structuredLight: target quad needs 4 corners (TL, TR, BL, BR)');
+
+  const toCamera = new PerspT(UNIT_CORNERS, quad.flatMap((p) => [p.x, p.y]));
+  const normalize = (p: CameraPoint) => ({ x: p.x / map.projectorWidth, y: 1 - p.y / map.projectorHeight, z: 0 });
+
+  const grid: ({ x: number; y: number; z: number } | null)[] = [];
+  for (let row = 0; row < gridSize.y; row++) {
+    for (let col = 0; col < gridSize.x; col++) {
+      const [x, y] = toCamera.transform(col / (gridSize.x - 1), row / (gridSize.y - 1));
+      const found = lookupCorrespondence(map, { x, y }, sampleRadius, searchRadius);
+      grid.push(found && normalize(found));
+    }
+  }
+
+  const cornerIndices = [(gridSize.y - 1) * gridSize.x, gridSize.y * gridSize.x - 1, 0, gridSize.x - 1];
+  const corners = cornerIndices.map((index, i) => {
+    const corner = grid[index];
+    if (!corner) {
+      throw new Error(
+        `structuredLight: nothing decoded at the ${CORNER_NAMES[i]} corner, keep the target quad inside the projection`,
+      );
+    }
+    return corner;
+  });
+
+  // Holes (e.g. behind an occluder) follow the homography of the corners
+  const unresolved: number[] = [];
+  const fromCorners = new PerspT(UNIT_CORNERS, corners.flatMap((p) => [p.x, p.y]));
+  const solvedGrid = grid.map((point, index) => {
+    if (point) return point;
+    unresolved.push(index);
+    const col = index % gridSize.x;
+    const row = Math.floor(index / gridSize.x);
+    const [x, y] = fromCorners.transform(col / (gridSize.x - 1), row / (gridSize.y - 1));
+    return { x, y, z: 0 };
+  });
+
+  return { gridSize: { ...gridSize }, corners: corners.map((p) => ({ ...p })), grid: solvedGrid, unresolved };
+}
+
+/** MeshWarper state placing its corner and grid handles on the solved points */
+export function createWarpState(solved: SolvedControlPoints, warpMode: WARP_MODE): WarpState {
+  // Normalized states do not depend on the plane size, a unit plane keeps the math simple
+  const model = new WarpGridModel({ width: 1, height: 1, gridSize: solved.gridSize });
+  model.applyPoints({
+    gridSize: solved.gridSize,
+    corners: solved.corners,
+    grid: solved.grid,
+    referenceGrid: solved.grid,
+  });
+  model.grid.forEach((_, index) => model.updateReferencePoint(index));
+  return { ...model.getState(), warpMode };
+}
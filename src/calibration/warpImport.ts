@@ -0,0 +1,450 @@
+/*
+Warp import
+-----------
+Converts warp data prepared in other projection mapping tools into a MeshWarper state:
+
+- OBJ and ASCII PLY meshes with texture coordinates. The UVs say which part of the content a
+  vertex shows (0-1 from the bottom-left), the positions where it lands in the output. A mesh
+  whose UVs form a regular grid becomes the grid directly, keeping uneven column and row spacing
+  as knots. Any other triangulation is resampled to an evenly spaced grid.
+- CSV grids with a header naming the columns: `x,y` plus either `col,row` (row 0 at the bottom)
+  or `u,v` grid positions, one line per grid point.
+
+Positions are read as normalized (0-1) or NDC (-1 to 1, both y up), or as pixels from the top-left
+of the projection. Only x and y are used, the warp is flat. Problems are thrown as WarpImportError
+with the offending line, so nothing half-parsed reaches a surface.
+*/
+
+import { MESH_WARP_GRID_SIZE, WARP_IMPORT } from '../core/defaults';
+import { uniformKnots } from '../warp/geometry';
+import { WarpGridModel } from '../warp/WarpGridModel';
+import { WARP_MODE } from '../warp/WarpMode';
+import type { WarpKnots, WarpState } from '../warp/MeshWarper';
+
+type Point2 = { x: number; y: number };
+type GridSize = { x: number; y: number };
+
+export type WarpImportFormat = 'obj' | 'ply' | 'csv';
+
+/** How positions are read: `auto` picks normalized, NDC or pixels from the value range */
+export type WarpCoordinateSpace = 'auto' | 'normalized' | 'ndc' | 'pixels';
+
+export interface WarpImportOptions {
+  /** Coordinate space of the positions (default: 'auto') */
+  space?: WarpCoordinateSpace;
+  /** Projection resolution, needed for pixel positions */
+  resolution?: { width: number; height: number };
+  /** Grid to resample meshes to (default: the mesh's own UV grid, or 9 x 9 if it has none) */
+  gridSize?: GridSize;
+  /** Warp mode of the imported state (default: bicubic) */
+  warpMode?: WARP_MODE;
+}
+
+/** A triangle mesh with one texture coordinate per vertex */
+export interface WarpMesh {
+  positions: Point2[];
+  uvs: Point2[];
+  /** Vertex indices, three per triangle */
+  triangles: number[];
+}
+
+export class WarpImportError extends Error {
+  /** 1-based line of the offending input, if the problem has one */
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line === undefined ? `Warp import: ${message}` : `Warp import: line ${line}: ${message}`);
+    this.name = 'WarpImportError';
+    this.line = line;
+  }
+}
+
+/** Format for a file name by its extension, null if no importer reads it */
+export function warpFormatFromFileName(fileName: string): WarpImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'obj' || extension === 'ply' || extension === 'csv' ? extension : null;
+}
+
+/** Parses a file of the given format into a warp state for MeshWarper.setState() or ProjectionMapper.importWarp() */
+export function parseWarp(text: string, format: WarpImportFormat, options: WarpImportOptions = {}): WarpState {
+  switch (format) {
+    case 'obj':
+      return meshToWarpState(parseObj(text), options);
+    case 'ply':
+      return meshToWarpState(parsePly(text), options);
+    case 'csv':
+      return csvToWarpState(text, options);
+  }
+}
+
+const isIndex = (value: number, count: number) => Number.isInteger(value) && value >= 0 && value < count;
+
+function readNumbers(tokens: string[], count: number, line: number): number[] {
+  const values = tokens.slice(0, count).map(Number);
+  if (values.length < count || values.some((value) => !Number.isFinite(value))) {
+    throw new WarpImportError(`expected ${count} numbers, got "${tokens.join(' ')}"`, line);
+  }
+  return values;
+}
+
+/** Reads the faces of a Wavefront OBJ, with `vt` texture coordinates on every face vertex */
+export function parseObj(text: string): WarpMesh {
+  const positions: Point2[] = [];
+  const texcoords: Point2[] = [];
+  const mesh: WarpMesh = { positions: [], uvs: [], triangles: [] };
+  // OBJ indexes positions and texture coordinates separately, the mesh needs one index per pair
+  const vertexIds = new Map<string, number>();
+
+  // OBJ indices are 1-based, negative ones count back from the last element defined so far
+  const resolveIndex = (token: string, count: number, kind: string, line: number) => {
+    const n = Number(token);
+    const index = n > 0 ? n - 1 : count + n;
+    if (!Number.isInteger(n) || n === 0 || !isIndex(index, count)) {
+      throw new WarpImportError(`${kind} ${token} does not exist`, line);
+    }
+    return index;
+  };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const [keyword, ...tokens] = raw.replace(/#.*/, '').trim().split(/\s+/);
+    if (keyword === 'v' || keyword === 'vt') {
+      const [x, y] = readNumbers(tokens, 2, line);
+      (keyword === 'v' ? positions : texcoords).push({ x, y });
+    } else if (keyword === 'f') {
+      const face = tokens.map((token) => {
+        const [p, t] = token.split('/');
+        if (!t) throw new WarpImportError(`face vertex ${token} has no texture coordinate`, line);
+        const position = resolveIndex(p, positions.length, 'vertex', line);
+        const uv = resolveIndex(t, texcoords.length, 'texture coordinate', line);
+        const key = `${position}/${uv}`;
+        let id = vertexIds.get(key);
+        if (id === undefined) {
+          id = mesh.positions.length;
+          vertexIds.set(key, id);
+          mesh.positions.push(positions[position]);
+          mesh.uvs.push(texcoords[uv]);
+        }
+        return id;
+      });
+      if (face.length < 3) throw new WarpImportError('faces need at least 3 vertices', line);
+      for (let k = 1; k < face.length - 1; k++) mesh.triangles.push(face[0], face[k], face[k + 1]);
+    }
+  });
+
+  if (mesh.triangles.length === 0) throw new WarpImportError('no faces found');
+  return mesh;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: { name: string; list: boolean }[];
+}
+
+// Texture coordinate names used by common exporters
+const PLY_UV_NAMES = [
+  ['u', 'v'],
+  ['s', 't'],
+  ['texture_u', 'texture_v'],
+  ['texture_s', 'texture_t'],
+];
+
+/** Reads the vertices and faces of an ASCII PLY with per-vertex texture coordinates */
+export function parsePly(text: string): WarpMesh {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== 'ply') throw new WarpImportError('not a PLY file, the first line must be "ply"', 1);
+
+  const elements: PlyElement[] = [];
+  let bodyStart = -1;
+  let hasFormat = false;
+  for (let i = 1; i < lines.length && bodyStart < 0; i++) {
+    const line = i + 1;
+    const tokens = lines[i].trim().split(/\s+/);
+    if (tokens[0] === 'format') {
+      if (tokens[1] !== 'ascii') throw new WarpImportError(`${tokens[1]} PLY is not supported, export as ASCII`, line);
+      hasFormat = true;
+    } else if (tokens[0] === 'element') {
+      const count = Number(tokens[2]);
+      if (!Number.isInteger(count) || count < 0) throw new WarpImportError(`invalid element count "${tokens[2]}"`, line);
+      elements.push({ name: tokens[1], count, properties: [] });
+    } else if (tokens[0] === 'property') {
+      const element = elements[elements.length - 1];
+      if (!element) throw new WarpImportError('property outside of an element', line);
+      const list = tokens[1] === 'list';
+      element.properties.push({ name: list ? tokens[4] : tokens[2], list });
+    } else if (tokens[0] === 'end_header') {
+      bodyStart = i + 1;
+    }
+  }
+  if (!hasFormat) throw new WarpImportError('missing format line');
+  if (bodyStart < 0) throw new WarpImportError('missing end_header');
+
+  const mesh: WarpMesh = { positions: [], uvs: [], triangles: [] };
+  const faces: { indices: number[]; line: number }[] = [];
+  let cursor = bodyStart;
+
+  for (const element of elements) {
+    const vertex = element.name === 'vertex';
+    const names = element.properties.map((p) => p.name);
+    const uvNames = PLY_UV_NAMES.find(([u, v]) => names.includes(u) && names.includes(v));
+    if (vertex && (!names.includes('x') || !names.includes('y'))) throw new WarpImportError('vertices have no x and y');
+    if (vertex && !uvNames) throw new WarpImportError('vertices have no texture coordinates (u/v, s/t or texture_u/texture_v)');
+
+    for (let n = 0; n < element.count; n++) {
+      while (cursor < lines.length && lines[cursor].trim() === '') cursor++;
+      if (cursor >= lines.length) throw new WarpImportError(`file ends before ${element.count} ${element.name} entries`);
+      const line = cursor + 1;
+      const values = lines[cursor++].trim().split(/\s+/).map(Number);
+      if (values.some((value) => !Number.isFinite(value))) throw new WarpImportError('expected numbers', line);
+
+      // Properties are read in order, a list property starts with its length
+      const record = new Map<string, number | number[]>();
+      let next = 0;
+      for (const property of element.properties) {
+        if (property.list) {
+          const length = values[next++];
+          record.set(property.name, values.slice(next, next + length));
+          next += length;
+        } else {
+          record.set(property.name, values[next++]);
+        }
+      }
+      if (next > values.length) throw new WarpImportError(`expected ${next} values, got ${values.length}`, line);
+
+      if (vertex) {
+        mesh.positions.push({ x: record.get('x') as number, y: record.get('y') as number });
+        mesh.uvs.push({ x: record.get(uvNames![0]) as number, y: record.get(uvNames![1]) as number });
+      } else if (element.name === 'face') {
+        const indices = record.get('vertex_indices') ?? record.get('vertex_index');
+        if (!Array.isArray(indices)) throw new WarpImportError('faces have no vertex_indices', line);
+        faces.push({ indices, line });
+      }
+    }
+  }
+
+  // Faces may come before vertices, check the indices once all vertices are known
+  for (const { indices, line } of faces) {
+    if (indices.length < 3) throw new WarpImportError('faces need at least 3 vertices', line);
+    const missing = indices.find((index) => !isIndex(index, mesh.positions.length));
+    if (missing !== undefined) throw new WarpImportError(`vertex ${missing} does not exist`, line);
+    for (let k = 1; k < indices.length - 1; k++) mesh.triangles.push(indices[0], indices[k], indices[k + 1]);
+  }
+
+  if (mesh.triangles.length === 0) throw new WarpImportError('no faces found');
+  return mesh;
+}
+
+/** Reads a CSV grid: a header with x, y and either col, row or u, v, then one line per grid point */
+export function csvToWarpState(text: string, options: WarpImportOptions = {}): WarpState {
+  const rows = text
+    .split(/\r?\n/)
+    .map((raw, i) => ({ raw: raw.trim(), line: i + 1 }))
+    .filter(({ raw }) => raw !== '' && !raw.startsWith('#'));
+  if (rows.length < 2) throw new WarpImportError('expected a header and at least one grid point');
+
+  const delimiter = [',', ';', '\t'].find((d) => rows[0].raw.includes(d)) ?? ',';
+  const header = rows[0].raw.split(delimiter).map((name) => name.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const byIndex = column('col') >= 0 && column('row') >= 0;
+  if (column('x') < 0 || column('y') < 0 || (!byIndex && (column('u') < 0 || column('v') < 0))) {
+    throw new WarpImportError(`header must name x, y and either col, row or u, v, got "${rows[0].raw}"`, rows[0].line);
+  }
+
+  const samples = rows.slice(1).map(({ raw, line }) => {
+    const cells = raw.split(delimiter);
+    const read = (name: string) => {
+      const value = Number(cells[column(name)]);
+      if (cells[column(name)]?.trim() === '' || !Number.isFinite(value)) {
+        throw new WarpImportError(`${name} must be a number, got "${cells[column(name)] ?? ''}"`, line);
+      }
+      return value;
+    };
+    return {
+      u: read(byIndex ? 'col' : 'u'),
+      v: read(byIndex ? 'row' : 'v'),
+      position: { x: read('x'), y: read('y') },
+      line,
+    };
+  });
+
+  const positions = normalizePositions(samples.map((s) => s.position), options);
+  samples.forEach((s, i) => (s.position = positions[i]));
+
+  if (byIndex) {
+    const bad = samples.find((s) => !Number.isInteger(s.u) || !Number.isInteger(s.v) || s.u < 0 || s.v < 0);
+    if (bad) throw new WarpImportError('col and row must be whole numbers from 0', bad.line);
+    const gridSize = { x: Math.max(...samples.map((s) => s.u)) + 1, y: Math.max(...samples.map((s) => s.v)) + 1 };
+    checkGridSize(gridSize);
+    const grid: Point2[] = new Array(gridSize.x * gridSize.y);
+    for (const s of samples) {
+      const index = s.v * gridSize.x + s.u;
+      if (grid[index]) throw new WarpImportError(`column ${s.u}, row ${s.v} is listed twice`, s.line);
+      grid[index] = s.position;
+    }
+    const missing = findMissing(grid);
+    if (missing >= 0) {
+      throw new WarpImportError(`no point for column ${missing % gridSize.x}, row ${Math.floor(missing / gridSize.x)}`);
+    }
+    return createGridWarpState(grid, gridSize, { x: uniformKnots(gridSize.x), y: uniformKnots(gridSize.y) }, options);
+  }
+
+  checkUVSpan(samples.map((s) => ({ x: s.u, y: s.v })));
+  const lattice = fitLattice(samples);
+  if (typeof lattice === 'string') throw new WarpImportError(lattice);
+  return createGridWarpState(lattice.grid, lattice.gridSize, lattice.knots, options);
+}
+
+/** Turns a mesh into a grid warp: directly if its UVs form a grid, else by resampling it */
+export function meshToWarpState(mesh: WarpMesh, options: WarpImportOptions = {}): WarpState {
+  checkUVSpan(mesh.uvs);
+  const positions = normalizePositions(mesh.positions, options);
+
+  if (!options.gridSize) {
+    const lattice = fitLattice(mesh.uvs.map((uv, i) => ({ u: uv.x, v: uv.y, position: positions[i] })));
+    if (typeof lattice !== 'string') return createGridWarpState(lattice.grid, lattice.gridSize, lattice.knots, options);
+  }
+
+  const gridSize = options.gridSize ?? WARP_IMPORT.resampleGridSize;
+  checkGridSize(gridSize);
+  const knots = { x: uniformKnots(gridSize.x), y: uniformKnots(gridSize.y) };
+  const grid: Point2[] = [];
+  for (const v of knots.y) {
+    for (const u of knots.x) {
+      const point = sampleMesh(mesh, positions, u, v);
+      if (!point) throw new WarpImportError(`the mesh UVs leave a gap at u ${u.toFixed(3)}, v ${v.toFixed(3)}`);
+      grid.push(point);
+    }
+  }
+  return createGridWarpState(grid, gridSize, knots, options);
+}
+
+/** Maps positions into the normalized (0-1, origin bottom-left) space MeshWarper persists */
+function normalizePositions(points: Point2[], options: WarpImportOptions): Point2[] {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const min = Math.min(...xs, ...ys);
+  const max = Math.max(...xs, ...ys);
+
+  let space = options.space ?? 'auto';
+  if (space === 'auto') {
+    // A little slack for points pulled slightly outside the projection
+    if (min >= -0.1 && max <= 1.1) space = 'normalized';
+    else if (min >= -1.1 && max <= 1.1) space = 'ndc';
+    else if (options.resolution) space = 'pixels';
+    else throw new WarpImportError('positions are outside 0-1 and -1 to 1, pass a resolution to read them as pixels');
+  }
+
+  switch (space) {
+    case 'normalized':
+      return points.map((p) => ({ x: p.x, y: p.y }));
+    case 'ndc':
+      return points.map((p) => ({ x: (p.x + 1) / 2, y: (p.y + 1) / 2 }));
+    case 'pixels': {
+      const resolution = options.resolution;
+      if (!resolution) throw new WarpImportError('pixel positions need a resolution');
+      return points.map((p) => ({ x: p.x / resolution.width, y: 1 - p.y / resolution.height }));
+    }
+  }
+}
+
+function checkGridSize(gridSize: GridSize): void {
+  const { minimum, maximum } = MESH_WARP_GRID_SIZE;
+  if ([gridSize.x, gridSize.y].some((n) => !Number.isInteger(n) || n < minimum || n > maximum)) {
+    throw new WarpImportError(`a ${gridSize.x} x ${gridSize.y} grid is not supported, columns and rows must be ${minimum}-${maximum}`);
+  }
+}
+
+function checkUVSpan(uvs: Point2[]): void {
+  const tolerance = WARP_IMPORT.uvTolerance;
+  for (const axis of ['x', 'y'] as const) {
+    const values = uvs.map((uv) => uv[axis]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    if (Math.abs(min) > tolerance || Math.abs(max - 1) > tolerance) {
+      const name = axis === 'x' ? 'u' : 'v';
+      throw new WarpImportError(`${name} must cover 0-1, got ${min.toFixed(3)} to ${max.toFixed(3)}`);
+    }
+  }
+}
+
+const findMissing = (grid: (Point2 | undefined)[]) => Array.from(grid, (p) => p === undefined).indexOf(true);
+
+/** Sorted distinct values, merging values closer than the tolerance */
+function distinctValues(values: number[]): number[] {
+  const distinct: number[] = [];
+  for (const value of [...values].sort((a, b) => a - b)) {
+    if (distinct.length === 0 || value - distinct[distinct.length - 1] > WARP_IMPORT.uvTolerance) distinct.push(value);
+  }
+  return distinct;
+}
+
+const nearestIndex = (sorted: number[], value: number) =>
+  sorted.reduce((best, candidate, i) => (Math.abs(candidate - value) < Math.abs(sorted[best] - value) ? i : best), 0);
+
+/** Arranges samples on the grid their UVs form, or returns why they do not form one */
+function fitLattice(
+  samples: { u: number; v: number; position: Point2 }[],
+): { gridSize: GridSize; knots: WarpKnots; grid: Point2[] } | string {
+  const us = distinctValues(samples.map((s) => s.u));
+  const vs = distinctValues(samples.map((s) => s.v));
+  const gridSize = { x: us.length, y: vs.length };
+  if (gridSize.x > MESH_WARP_GRID_SIZE.maximum || gridSize.y > MESH_WARP_GRID_SIZE.maximum) {
+    return `the UVs form a ${gridSize.x} x ${gridSize.y} grid, at most ${MESH_WARP_GRID_SIZE.maximum} columns and rows are supported`;
+  }
+
+  const grid: (Point2 | undefined)[] = new Array(gridSize.x * gridSize.y);
+  for (const s of samples) {
+    const col = nearestIndex(us, s.u);
+    const row = nearestIndex(vs, s.v);
+    const existing = grid[row * gridSize.x + col];
+    // Vertices shared by several faces may be listed more than once, but must agree
+    if (existing && (existing.x !== s.position.x || existing.y !== s.position.y)) {
+      return `column ${col}, row ${row} has two different positions`;
+    }
+    grid[row * gridSize.x + col] = s.position;
+  }
+  const missing = findMissing(grid);
+  if (missing >= 0) return `no point for column ${missing % gridSize.x}, row ${Math.floor(missing / gridSize.x)}`;
+
+  // Snap the ends so the knots run exactly from 0 to 1
+  const toKnots = (values: number[]) => values.map((value, i) => (i === 0 ? 0 : i === values.length - 1 ? 1 : value));
+  return { gridSize, knots: { x: toKnots(us), y: toKnots(vs) }, grid: grid as Point2[] };
+}
+
+/** Position at a UV, interpolated in the triangle that contains it */
+function sampleMesh(mesh: WarpMesh, positions: Point2[], u: number, v: number): Point2 | null {
+  const tolerance = WARP_IMPORT.uvTolerance;
+  for (let t = 0; t < mesh.triangles.length; t += 3) {
+    const [a, b, c] = [mesh.triangles[t], mesh.triangles[t + 1], mesh.triangles[t + 2]];
+    const [ua, ub, uc] = [mesh.uvs[a], mesh.uvs[b], mesh.uvs[c]];
+    const det = (ub.y - uc.y) * (ua.x - uc.x) + (uc.x - ub.x) * (ua.y - uc.y);
+    if (Math.abs(det) < 1e-12) continue;
+    const wa = ((ub.y - uc.y) * (u - uc.x) + (uc.x - ub.x) * (v - uc.y)) / det;
+    const wb = ((uc.y - ua.y) * (u - uc.x) + (ua.x - uc.x) * (v - uc.y)) / det;
+    const wc = 1 - wa - wb;
+    if (wa < -tolerance || wb < -tolerance || wc < -tolerance) continue;
+    return {
+      x: wa * positions[a].x + wb * positions[b].x + wc * positions[c].x,
+      y: wa * positions[a].y + wb * positions[b].y + wc * positions[c].y,
+    };
+  }
+  return null;
+}
+
+/** Builds a warp state with the grid on the given normalized points, corners on the outer grid points */
+function createGridWarpState(grid: Point2[], gridSize: GridSize, knots: WarpKnots, options: WarpImportOptions): WarpState {
+  const points = grid.map((p) => ({ x: p.x, y: p.y, z: 0 }));
+  const at = (col: number, row: number) => points[row * gridSize.x + col];
+  // Normalized states do not depend on the plane size, a unit plane keeps the math simple
+  const model = new WarpGridModel({ width: 1, height: 1, gridSize });
+  model.applyPoints({
+    gridSize,
+    knots,
+    corners: [at(0, gridSize.y - 1), at(gridSize.x - 1, gridSize.y - 1), at(0, 0), at(gridSize.x - 1, 0)],
+    grid: points,
+    referenceGrid: points,
+  });
+  model.grid.forEach((_, index) => model.updateReferencePoint(index));
+  return { ...model.getState(), warpMode: options.warpMode ?? WARP_MODE.bicubic };
+}
@@ -1,22 +1,57 @@
 import * as THREE from 'three';
-import { MeshWarper, MeshWarperConfig } from '../warp/MeshWarper';
+import { MeshWarper, MeshWarperConfig, getWarpStorageKey, FULL_UV_RECT, type UVRect, type WarpState, type WarpSymmetry } from '../warp/MeshWarper';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { SMAAPass } from 'three/examples/jsm/postprocessing/SMAAPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
 import projectionFragmentShader from '../shaders/projection.frag';
-import { calculateGridPoints } from '../warp/geometry';
-import { GUI_STORAGE_KEY, DEFAULT_IMAGE_SETTINGS, DEFAULTS } from './defaults';
-import type { ImageSettings } from './defaults';
+import patternFragmentShader from '../shaders/pattern.frag';
+import perspectiveVertexShader from '../shaders/perspective.vert';
+import distortionVertexShader from '../shaders/distortion.vert';
+import distortionFragmentShader from '../shaders/distortion.frag';
+import { calculateGridPoints, interpolateWarpState, resampleWarpState } from '../warp/geometry';
+import {
+  GUI_STORAGE_KEY,
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_LENS_DISTORTION,
+  DEFAULT_SOURCE_CROP,
+  DEFAULT_SOFT_SELECTION,
+  DEFAULTS,
+  DEFAULT_SURFACE_NAME,
+  MODEL_MAPPING,
+  CALIBRATION_VERSION,
+  TRANSITION,
+} from './defaults';
+import type { ImageSettings, EdgeBlendSettings, LensDistortionSettings, SourceCrop, SoftSelectionSettings } from './defaults';
 import { PolygonMask, type UVPoint, POLYGON_MASK_STORAGE_KEY } from '../mask/PolygonMask';
 import { MaskPlane } from '../mask/MaskPlane';
-
-export { GUI_STORAGE_KEY, DEFAULT_IMAGE_SETTINGS };
-export type { ImageSettings };
+import { CALIBRATION_FORMAT, validateCalibration, type CalibrationDocument } from '../calibration/Calibration';
+import { NamespacedStore, type CalibrationStore } from '../storage/CalibrationStore';
+import { LocalStorageStore } from '../storage/LocalStorageStore';
+import { CommandHistory } from '../history/CommandHistory';
+import { EASING, saturate, type EasingName } from '../utils/math';
+import { isLensDistortionActive } from '../utils/lensDistortion';
+import { renderPattern, type StructuredLightPattern } from '../calibration/structuredLight';
+import { ModelSurface } from '../model/ModelSurface';
+import { ModelPointPicker } from '../model/ModelPointPicker';
+import { ProjectorCamera } from './ProjectorCamera';
+import type { ProjectorIntrinsics, ProjectorPose } from '../calibration/projectorPose';
+
+export {
+  GUI_STORAGE_KEY,
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_LENS_DISTORTION,
+  DEFAULT_SOURCE_CROP,
+  DEFAULT_SURFACE_NAME,
+};
+export type { ImageSettings, EdgeBlendSettings, LensDistortionSettings, SourceCrop, UVRect, CalibrationDocument };
 
 export interface ProjectionMapperConfig {
   /** Projection resolution in pixels (default: { width: 1920, height: 1080 }) */
   resolution?: { width: number; height: number };
-  /** Number of mesh segments for smooth warping (default: 50) */
+  /** Number of mesh segments for smooth warping, raised to MIN_SEGMENTS_PER_GRID_CELL per grid cell for dense grids (default: 50) */
   segments?: number;
   /** Grid control points for fine warping (default: 5x5) */
   gridControlPoints?: { x: number; y: number };
@@ -24,6 +59,55 @@ export interface ProjectionMapperConfig {
   antialias?: boolean;
   /** Scale factor for how much of the window the plane fills (default: 0.9 = 90%) */
   zoom?: number;
+  /** Where warp points, polygon mask and GUI settings are persisted (default: localStorage) */
+  storage?: CalibrationStore;
+  /** Key prefix so several mappers can share one store (default: none) */
+  storageNamespace?: string;
+  /** Part of the input texture this mapper shows, e.g. one projector's slice (default: full texture) */
+  sourceCrop?: Partial<SourceCrop>;
+  /** Called with the surface name when its stored warp can't be loaded or is invalid (default: console.warn) */
+  onWarpLoadError?: (surface: string, error: Error) => void;
+}
+
+export interface WarpSurfaceConfig {
+  /** Sub-rectangle of the input texture shown on this surface (default: full texture) */
+  uvRect?: UVRect;
+  /** Grid control points (default: same as the default surface at creation) */
+  gridControlPoints?: { x: number; y: number };
+  /** Whether the surface is rendered (default: true) */
+  visible?: boolean;
+}
+
+interface WarpSurface {
+  warper: MeshWarper;
+  visible: boolean;
+}
+
+/** A running transitionTo(): warp states are interpolated from `from` to `target` per surface */
+interface CalibrationTransition {
+  target: CalibrationDocument;
+  /** State before the transition, for the undo step recorded when it completes */
+  before: CalibrationDocument;
+  from: Map<string, WarpState>;
+  startTime: number;
+  durationMs: number;
+  easing: EasingName;
+}
+
+/**
+ * What the mapper renders: the warp surfaces, or the model set with setModel() through its projector camera.
+ * Masks and edge blend belong to the warp surfaces and are not applied to the model.
+ */
+export type MappingMode = 'warp' | 'model';
+
+export interface ModelMappingConfig {
+  /** Camera standing in for the projector, e.g. with its measured lens (default: throw ratio 1.5, no lens shift) */
+  camera?: ProjectorCamera;
+}
+
+export interface ImportCalibrationOptions {
+  /** Apply the stored zoom and camera offset (default: true). Projector windows keep their own view. */
+  applyView?: boolean;
 }
 
 /**
@@ -46,12 +130,25 @@ export class ProjectionMapper {
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.OrthographicCamera;
-  private meshWarper: MeshWarper;
+  /** Named warp surfaces, each with its own MeshWarper. The default surface always exists. */
+  private surfaces = new Map<string, WarpSurface>();
+  private activeSurfaceName: string = DEFAULT_SURFACE_NAME;
+  private controlsVisibility = { grid: true, corners: true, outline: true };
+  private dragEnabled = true;
+  private symmetry: WarpSymmetry = { x: false, y: false };
+  private softSelection: SoftSelectionSettings = { ...DEFAULT_SOFT_SELECTION };
   private composer: EffectComposer;
+  private renderPass: RenderPass;
+  /** Pre-distortion for the projector lens, last in the composer and only enabled with active coefficients */
+  private distortionPass: ShaderPass;
   private clock: THREE.Clock;
+  private model: ModelSurface | null = null;
+  private modelPicker: ModelPointPicker | null = null;
+  private mappingMode: MappingMode = 'warp';
 
   private uniforms: {
     uBuffer: { value: THREE.Texture };
+    uSourceCrop: { value: THREE.Vector4 };
     uBufferResolution: { value: THREE.Vector2 };
     uWarpPlaneSize: { value: THREE.Vector2 };
     uTime: { value: number };
@@ -67,12 +164,32 @@ export class ProjectionMapper {
   };
 
   private whiteOut = false;
+  private calibrationPattern: StructuredLightPattern | null = null;
+  /** Unwarped plane showing calibration patterns, created on first use */
+  private patternPlane: THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial> | null = null;
+  private patternScene = new THREE.Scene();
   private polygonMask: PolygonMask | null = null;
 
   /** Called whenever polygon mask nodes change (drag, insert, delete, reset). */
   public onPolygonNodesChanged: () => void = () => {};
+  private onCalibrationAppliedCallbacks: Array<(calibration: CalibrationDocument) => void> = [];
+  private onHistoryAppliedCallbacks: Array<() => void> = [];
+  private onTransitionStartedCallbacks: Array<
+    (calibration: CalibrationDocument, durationMs: number, easing: EasingName) => void
+  > = [];
+  private onCalibrationPatternChangedCallbacks: Array<(pattern: StructuredLightPattern | null) => void> = [];
+  private onMappingModeChangedCallbacks: Array<(mode: MappingMode) => void> = [];
+  private onModelPoseChangedCallbacks: Array<(pose: ProjectorPose) => void> = [];
+  private onModelIntrinsicsChangedCallbacks: Array<(intrinsics: ProjectorIntrinsics) => void> = [];
+  private onModelChangedCallbacks: Array<(model: ModelSurface | null) => void> = [];
+  private onSurfacesChangedCallbacks: Array<(names: string[]) => void> = [];
+  private transition: CalibrationTransition | null = null;
+  private history = new CommandHistory();
   private maskPlane!: MaskPlane;
   private imageSettings: ImageSettings;
+  private edgeBlend: EdgeBlendSettings = { ...DEFAULT_EDGE_BLEND };
+  private lensDistortion: LensDistortionSettings = { ...DEFAULT_LENS_DISTORTION };
+  private sourceCrop: SourceCrop = { ...DEFAULT_SOURCE_CROP };
 
   /** Resolution in pixels, passed through to shaders */
   private resolution: { width: number; height: number };
@@ -80,11 +197,19 @@ export class ProjectionMapper {
   private worldWidth: number;
   private worldHeight: number;
 
-  private config: Required<Omit<ProjectionMapperConfig, 'resolution'>>;
+  private config: Required<
+    Omit<ProjectionMapperConfig, 'resolution' | 'storage' | 'storageNamespace' | 'sourceCrop' | 'onWarpLoadError'>
+  >;
+  private onWarpLoadError?: (surface: string, error: Error) => void;
+  private store: CalibrationStore;
 
   constructor(renderer: THREE.WebGLRenderer, inputTexture: THREE.Texture, config: ProjectionMapperConfig = {}) {
     this.renderer = renderer;
     this.clock = new THREE.Clock();
+    this.onWarpLoadError = config.onWarpLoadError;
+
+    const storage = config.storage ?? new LocalStorageStore();
+    this.store = config.storageNamespace ? new NamespacedStore(storage, config.storageNamespace) : storage;
 
     //Get Dimensions from Texture / Render Target
     const texWidth = (inputTexture as any).image?.width || (inputTexture as any).width;
@@ -117,6 +242,7 @@ export class ProjectionMapper {
 
     this.uniforms = {
       uBuffer: { value: inputTexture },
+      uSourceCrop: { value: new THREE.Vector4(0, 0, 1, 1) },
       uBufferResolution: {
         value: new THREE.Vector2(this.resolution.width, this.resolution.height),
       },
@@ -136,23 +262,12 @@ export class ProjectionMapper {
     };
 
     this.imageSettings = { ...DEFAULT_IMAGE_SETTINGS };
+    this.applySourceCrop(config.sourceCrop ?? {});
 
-    const warperConfig: MeshWarperConfig = {
-      width: this.worldWidth,
-      height: this.worldHeight,
-      widthSegments: this.config.segments,
-      heightSegments: this.config.segments,
-      gridControlPoints: this.config.gridControlPoints,
-      scene: this.scene,
-      camera: this.camera,
-      renderer: this.renderer,
-      fragmentShader: projectionFragmentShader,
-      globalUniforms: this.uniforms,
-      globalDefines: {},
-      bufferTexture: inputTexture,
-    };
-
-    this.meshWarper = new MeshWarper(warperConfig);
+    this.surfaces.set(DEFAULT_SURFACE_NAME, {
+      warper: this.createWarper(DEFAULT_SURFACE_NAME, {}),
+      visible: true,
+    });
 
     this.maskPlane = new MaskPlane({
       worldWidth: this.worldWidth,
@@ -163,21 +278,83 @@ export class ProjectionMapper {
     });
 
     this.composer = new EffectComposer(this.renderer);
-    this.composer.addPass(new RenderPass(this.scene, this.camera));
+    this.renderPass = new RenderPass(this.scene, this.camera);
+    this.composer.addPass(this.renderPass);
 
     if (this.config.antialias) {
       this.composer.addPass(new SMAAPass());
     }
+
+    this.distortionPass = new ShaderPass({
+      uniforms: {
+        tDiffuse: { value: null },
+        uRadial: { value: new THREE.Vector3() },
+        uTangential: { value: new THREE.Vector2() },
+        uCenter: { value: new THREE.Vector2() },
+        uAspect: { value: 1 },
+      },
+      vertexShader: distortionVertexShader,
+      fragmentShader: distortionFragmentShader,
+    });
+    this.distortionPass.enabled = false;
+    this.composer.addPass(this.distortionPass);
+  }
+
+  private createWarper(name: string, surfaceConfig: WarpSurfaceConfig): MeshWarper {
+    const isDefault = name === DEFAULT_SURFACE_NAME;
+    const gridControlPoints = surfaceConfig.gridControlPoints ?? {
+      x: this.getDefaultWarper()?.getGridSizeX() ?? this.config.gridControlPoints.x,
+      y: this.getDefaultWarper()?.getGridSizeY() ?? this.config.gridControlPoints.y,
+    };
+
+    const warperConfig: MeshWarperConfig = {
+      width: this.worldWidth,
+      height: this.worldHeight,
+      widthSegments: this.config.segments,
+      heightSegments: this.config.segments,
+      gridControlPoints: { ...gridControlPoints },
+      scene: this.scene,
+      camera: this.camera,
+      renderer: this.renderer,
+      fragmentShader: projectionFragmentShader,
+      // Additional surfaces get their own plane size, the default one shares it with the mask plane
+      globalUniforms: isDefault
+        ? this.uniforms
+        : { ...this.uniforms, uWarpPlaneSize: { value: new THREE.Vector2(this.worldWidth, this.worldHeight) } },
+      globalDefines: {},
+      bufferTexture: this.uniforms.uBuffer.value,
+      uvRect: { ...(surfaceConfig.uvRect ?? FULL_UV_RECT) },
+      storageKey: getWarpStorageKey(name),
+      store: this.store,
+      resolution: this.resolution,
+      onLoadError: this.onWarpLoadError && ((error) => this.onWarpLoadError?.(name, error)),
+    };
+
+    const warper = new MeshWarper(warperConfig);
+    // Held arrow keys merge into one step
+    warper.onEdit = (before, mergeKey, label) =>
+      this.recordWarp(
+        name,
+        label ?? (mergeKey ? 'Nudge point' : 'Move point'),
+        before,
+        mergeKey && `${mergeKey}:${name}`,
+      );
+    return warper;
+  }
+
+  private getDefaultWarper(): MeshWarper | undefined {
+    return this.surfaces.get(DEFAULT_SURFACE_NAME)?.warper;
   }
 
   // Use saved grid size from GUI settings if available, so MeshWarper
-  // is created with the correct grid size before loading stored control points
+  // is created with the correct grid size before loading stored control points.
+  // Only synchronous stores can answer this early, MeshWarper adopts the stored grid size otherwise.
   private getGridControlPoints(config: ProjectionMapperConfig, aspectRatio: number, minGridWarpPoints: number) {
     let gridControlPoints = config.gridControlPoints;
     if (!gridControlPoints) {
       try {
-        const savedGui = localStorage.getItem(GUI_STORAGE_KEY);
-        if (savedGui) {
+        const savedGui = this.store.get(GUI_STORAGE_KEY);
+        if (typeof savedGui === 'string') {
           const parsed = JSON.parse(savedGui);
           if (parsed.gridSize?.x && parsed.gridSize?.y) {
             gridControlPoints = { x: Math.floor(parsed.gridSize.x), y: Math.floor(parsed.gridSize.y) };
@@ -192,6 +369,15 @@ export class ProjectionMapper {
   }
 
   render(): void {
+    this.updateTransition();
+
+    // Patterns bypass warp, masks and antialiasing, the decoder needs the plain projector pixels
+    if (this.calibrationPattern) {
+      this.renderer.setRenderTarget(null);
+      this.renderer.render(this.patternScene, this.camera);
+      return;
+    }
+
     if (this.whiteOut) {
       const savedColor = new THREE.Color();
       const savedAlpha = this.renderer.getClearAlpha();
@@ -209,29 +395,55 @@ export class ProjectionMapper {
     const frustumWidth = this.camera.right - this.camera.left;
     const viewportWidth = this.renderer.domElement.clientWidth;
     const pixelToWorld = frustumWidth / viewportWidth;
-    this.meshWarper.updateControlPointsScale(pixelToWorld);
+    this.surfaces.forEach(({ warper }) => warper.updateControlPointsScale(pixelToWorld));
 
-    this.maskPlane.syncPerspective(this.meshWarper.getPerspectiveCoeffs());
+    // Masks follow the default surface
+    const defaultWarper = this.getDefaultWarper()!;
+    this.maskPlane.syncPerspective(defaultWarper.getPerspectiveCoeffs());
 
     if (this.polygonMask) {
       this.polygonMask.updateTransformedPositions(
-        (x, y) => this.meshWarper.applyPerspectiveTransform(x, y),
-        (x, y) => this.meshWarper.applyInversePerspectiveTransform(x, y),
+        (x, y) => defaultWarper.applyPerspectiveTransform(x, y),
+        (x, y) => defaultWarper.applyInversePerspectiveTransform(x, y),
       );
       this.polygonMask.updateControlPointsScale(pixelToWorld);
     }
 
-    if (this.config.antialias == false) {
+    // Model mapping renders the model through its projector camera instead of the warp surfaces
+    const [scene, camera] =
+      this.mappingMode === 'model' && this.model ? [this.model.scene, this.model.camera] : [this.scene, this.camera];
+    this.renderPass.scene = scene;
+    this.renderPass.camera = camera;
+
+    // Lens distortion is relative to the projector image, a zoomed or panned controller view stays undistorted
+    this.distortionPass.enabled = isLensDistortionActive(this.lensDistortion) && this.isProjectorView();
+
+    // The distortion pass needs the composer even without antialiasing
+    if (this.distortionPass.enabled) {
+      const canvas = this.renderer.domElement;
+      this.distortionPass.uniforms.uAspect.value = canvas.width / canvas.height;
+    }
+
+    if (this.config.antialias == false && !this.distortionPass.enabled) {
       this.renderer.setRenderTarget(null);
-      this.renderer.render(this.scene, this.camera);
+      this.renderer.render(scene, camera);
     } else {
       this.composer.render();
     }
+
+    // Point picking markers go on top, in projector pixels
+    if (this.mappingMode === 'model' && this.modelPicker?.isEnabled()) {
+      const autoClear = this.renderer.autoClear;
+      this.renderer.autoClear = false;
+      this.renderer.setRenderTarget(null);
+      this.renderer.render(this.modelPicker.scene, this.modelPicker.camera);
+      this.renderer.autoClear = autoClear;
+    }
   }
 
   setTexture(texture: THREE.Texture): void {
     this.uniforms.uBuffer.value = texture;
-    this.meshWarper.setBufferTexture(texture);
+    this.surfaces.forEach(({ warper }) => warper.setBufferTexture(texture));
   }
 
   setShowTestCard(show: boolean): void {
@@ -250,6 +462,55 @@ export class ProjectionMapper {
     return this.whiteOut;
   }
 
+  /**
+   * Shows a structured-light pattern instead of the content, on the unwarped plane the warp handles
+   * live on, so decoded coordinates are warp coordinates whatever the zoom and camera offset.
+   * Pass null to return to the content.
+   */
+  setCalibrationPattern(pattern: StructuredLightPattern | null): void {
+    this.calibrationPattern = pattern;
+    if (pattern) this.updatePatternTexture(pattern);
+    this.onCalibrationPatternChangedCallbacks.forEach((cb) => cb(pattern));
+  }
+
+  getCalibrationPattern(): StructuredLightPattern | null {
+    return this.calibrationPattern;
+  }
+
+  private updatePatternTexture(pattern: StructuredLightPattern): void {
+    const { width, height } = this.resolution;
+    if (!this.patternPlane) {
+      const texture = new THREE.DataTexture(new Uint8Array(width * height), width, height, THREE.RedFormat);
+      texture.unpackAlignment = 1;
+      texture.magFilter = THREE.NearestFilter;
+      texture.minFilter = THREE.NearestFilter;
+
+      this.patternPlane = new THREE.Mesh(
+        new THREE.PlaneGeometry(this.worldWidth, this.worldHeight),
+        new THREE.ShaderMaterial({
+          vertexShader: perspectiveVertexShader,
+          fragmentShader: patternFragmentShader,
+          uniforms: {
+            uPattern: { value: texture },
+            uHomography: { value: new THREE.Matrix3() },
+            uFlatPlaneSize: { value: new THREE.Vector2(this.worldWidth, this.worldHeight) },
+            uShouldWarp: { value: false },
+          },
+        }),
+      );
+      this.patternScene.add(this.patternPlane);
+    }
+
+    const texture = this.patternPlane.material.uniforms.uPattern.value as THREE.DataTexture;
+    const data = texture.image.data as Uint8Array;
+    const pixels = renderPattern(pattern, width, height);
+    // Pattern rows start at the top, texture rows at the bottom
+    for (let row = 0; row < height; row++) {
+      data.set(pixels.subarray(row * width, (row + 1) * width), (height - 1 - row) * width);
+    }
+    texture.needsUpdate = true;
+  }
+
   setShowControlLines(show: boolean): void {
     this.uniforms.uShowControlLines.value = show;
   }
@@ -259,6 +520,19 @@ export class ProjectionMapper {
   }
 
   setImageSettings(settings: Partial<ImageSettings>): void {
+    const before = this.getImageSettings();
+    this.applyImageSettings(settings);
+    // Slider scrubbing on the same settings merges into one step
+    this.history.push({
+      label: 'Image settings',
+      before,
+      after: this.getImageSettings(),
+      apply: (state) => this.applyImageSettings(state),
+      mergeKey: `image:${Object.keys(settings).sort().join(',')}`,
+    });
+  }
+
+  private applyImageSettings(settings: Partial<ImageSettings>): void {
     if (settings.maskEnabled !== undefined) {
       this.imageSettings.maskEnabled = settings.maskEnabled;
       this.maskPlane.setFeatherMask(settings.maskEnabled, this.imageSettings.feather);
@@ -301,6 +575,81 @@ export class ProjectionMapper {
     return { ...this.imageSettings };
   }
 
+  /** Shows only part of the input texture, see SourceCrop. Surface UV rects are relative to the crop. */
+  setSourceCrop(crop: Partial<SourceCrop>): void {
+    const before = this.getSourceCrop();
+    this.applySourceCrop(crop);
+    this.history.push({
+      label: 'Source crop',
+      before,
+      after: this.getSourceCrop(),
+      apply: (state) => this.applySourceCrop(state),
+      mergeKey: `sourceCrop:${Object.keys(crop).sort().join(',')}`,
+    });
+  }
+
+  private applySourceCrop(crop: Partial<SourceCrop>): void {
+    Object.assign(this.sourceCrop, crop);
+    const { x, y, width, height, overlap } = this.sourceCrop;
+    const left = Math.max(0, x - overlap);
+    const bottom = Math.max(0, y - overlap);
+    const right = Math.min(1, x + width + overlap);
+    const top = Math.min(1, y + height + overlap);
+    this.uniforms.uSourceCrop.value.set(left, bottom, Math.max(right - left, 0), Math.max(top - bottom, 0));
+  }
+
+  getSourceCrop(): SourceCrop {
+    return { ...this.sourceCrop };
+  }
+
+  /** Soft edges for projectors overlapping their neighbours, see EdgeBlendSettings. */
+  setEdgeBlend(settings: Partial<EdgeBlendSettings>): void {
+    const before = this.getEdgeBlend();
+    this.applyEdgeBlend(settings);
+    this.history.push({
+      label: 'Edge blend',
+      before,
+      after: this.getEdgeBlend(),
+      apply: (state) => this.applyEdgeBlend(state),
+      mergeKey: `edgeBlend:${Object.keys(settings).sort().join(',')}`,
+    });
+  }
+
+  private applyEdgeBlend(settings: Partial<EdgeBlendSettings>): void {
+    Object.assign(this.edgeBlend, settings);
+    this.maskPlane.setEdgeBlend(this.edgeBlend);
+  }
+
+  getEdgeBlend(): EdgeBlendSettings {
+    return { ...this.edgeBlend };
+  }
+
+  /** Corrects the distortion of the projector lens by pre-distorting the output, see LensDistortionSettings. */
+  setLensDistortion(settings: Partial<LensDistortionSettings>): void {
+    const before = this.getLensDistortion();
+    this.applyLensDistortion(settings);
+    this.history.push({
+      label: 'Lens distortion',
+      before,
+      after: this.getLensDistortion(),
+      apply: (state) => this.applyLensDistortion(state),
+      mergeKey: `lensDistortion:${Object.keys(settings).sort().join(',')}`,
+    });
+  }
+
+  private applyLensDistortion(settings: Partial<LensDistortionSettings>): void {
+    Object.assign(this.lensDistortion, settings);
+    const { k1, k2, k3, p1, p2, centerX, centerY } = this.lensDistortion;
+    const uniforms = this.distortionPass.uniforms;
+    uniforms.uRadial.value.set(k1, k2, k3);
+    uniforms.uTangential.value.set(p1, p2);
+    uniforms.uCenter.value.set(centerX, centerY);
+  }
+
+  getLensDistortion(): LensDistortionSettings {
+    return { ...this.lensDistortion };
+  }
+
   private updateCameraFrustum(): void {
     const width = window.innerWidth;
     const height = window.innerHeight;
@@ -328,39 +677,267 @@ export class ProjectionMapper {
     this.updateCameraFrustum();
   }
 
-  getWarper(): MeshWarper {
-    return this.meshWarper;
+  /** Returns the warper of the given surface, or of the active surface when no name is passed. */
+  getWarper(name: string = this.activeSurfaceName): MeshWarper {
+    return this.getSurface(name).warper;
+  }
+
+  private getSurface(name: string): WarpSurface {
+    const surface = this.surfaces.get(name);
+    if (!surface) throw new Error(`ProjectionMapper: unknown surface "${name}"`);
+    return surface;
+  }
+
+  addSurface(name: string, surfaceConfig: WarpSurfaceConfig = {}): MeshWarper {
+    if (this.surfaces.has(name)) throw new Error(`ProjectionMapper: surface "${name}" already exists`);
+    const warper = this.createWarper(name, surfaceConfig);
+    warper.setShouldWarp(this.isWarpEnabled());
+    warper.setSymmetry(this.symmetry);
+    warper.setSoftSelection(this.softSelection);
+    this.surfaces.set(name, { warper, visible: true });
+    this.setSurfaceVisible(name, surfaceConfig.visible ?? true);
+    this.onSurfacesChangedCallbacks.forEach((cb) => cb(this.getSurfaceNames()));
+    return warper;
+  }
+
+  /** Removes a surface and its saved control points. The default surface cannot be removed. */
+  removeSurface(name: string): void {
+    if (name === DEFAULT_SURFACE_NAME) throw new Error('ProjectionMapper: the default surface cannot be removed');
+    const surface = this.getSurface(name);
+    surface.warper.clearStorage();
+    surface.warper.dispose();
+    this.surfaces.delete(name);
+    if (this.activeSurfaceName === name) this.selectSurface(DEFAULT_SURFACE_NAME);
+    this.onSurfacesChangedCallbacks.forEach((cb) => cb(this.getSurfaceNames()));
+  }
+
+  /** Makes a surface the editing target: only its handles are shown and draggable. */
+  selectSurface(name: string): void {
+    this.getSurface(name);
+    this.activeSurfaceName = name;
+    this.applySurfaceControls();
+  }
+
+  getActiveSurfaceName(): string {
+    return this.activeSurfaceName;
+  }
+
+  getSurfaceNames(): string[] {
+    return Array.from(this.surfaces.keys());
+  }
+
+  setSurfaceVisible(name: string, visible: boolean): void {
+    const surface = this.getSurface(name);
+    surface.visible = visible;
+    surface.warper.mesh.visible = visible;
+    this.applySurfaceControls();
+  }
+
+  isSurfaceVisible(name: string): boolean {
+    return this.getSurface(name).visible;
+  }
+
+  setSurfaceUVRect(name: string, rect: UVRect): void {
+    this.getWarper(name).setUVRect(rect);
+  }
+
+  getSurfaceUVRect(name: string): UVRect {
+    return this.getWarper(name).getUVRect();
+  }
+
+  private applySurfaceControls(): void {
+    this.surfaces.forEach(({ warper, visible }, name) => {
+      const editable = visible && name === this.activeSurfaceName;
+      warper.setGridPointsVisible(editable && this.controlsVisibility.grid);
+      warper.setCornerPointsVisible(editable && this.controlsVisibility.corners);
+      warper.setOutlineVisible(editable && this.controlsVisibility.outline);
+      warper.setDragEnabled(editable && this.dragEnabled && this.mappingMode === 'warp');
+    });
   }
 
   setControlsVisible(visible: boolean): void {
     this.setShowControlLines(visible);
-    this.meshWarper.setAllControlsVisible(visible);
+    this.controlsVisibility = { grid: visible, corners: visible, outline: visible };
+    this.applySurfaceControls();
   }
 
   setGridPointsVisible(visible: boolean): void {
-    this.meshWarper.setGridPointsVisible(visible);
+    this.controlsVisibility.grid = visible;
+    this.applySurfaceControls();
   }
 
   setCornerPointsVisible(visible: boolean): void {
-    this.meshWarper.setCornerPointsVisible(visible);
+    this.controlsVisibility.corners = visible;
+    this.applySurfaceControls();
   }
 
   setOutlineVisible(visible: boolean): void {
-    this.meshWarper.setOutlineVisible(visible);
+    this.controlsVisibility.outline = visible;
+    this.applySurfaceControls();
+  }
+
+  /** Enable or disable dragging of control points, e.g. for receive-only projector windows. */
+  setDragEnabled(enabled: boolean): void {
+    this.dragEnabled = enabled;
+    this.applySurfaceControls();
+  }
+
+  /** Mirrored editing for every surface: drags and nudges also move the mirror counterparts, see MeshWarper */
+  setSymmetry(symmetry: Partial<WarpSymmetry>): void {
+    this.symmetry = { ...this.symmetry, ...symmetry };
+    this.surfaces.forEach(({ warper }) => warper.setSymmetry(this.symmetry));
+  }
+
+  getSymmetry(): WarpSymmetry {
+    return { ...this.symmetry };
+  }
+
+  /** Soft selection radius (fraction of the plane width, 0 = off) and falloff of grid drags, for every surface */
+  setSoftSelection(settings: Partial<SoftSelectionSettings>): void {
+    this.softSelection = { ...this.softSelection, ...settings };
+    this.surfaces.forEach(({ warper }) => warper.setSoftSelection(this.softSelection));
+  }
+
+  getSoftSelection(): SoftSelectionSettings {
+    return { ...this.softSelection };
   }
 
   setGridSize(x: number, y: number): void {
-    this.meshWarper.setGridSize(x, y);
+    const before = this.getWarper().getState();
+    this.getWarper().setGridSize(x, y);
+    this.recordWarp(this.activeSurfaceName, 'Grid size', before);
+  }
+
+  /**
+   * Inserts a grid column of the active surface at u (0-1 from the left) without changing the warp,
+   * e.g. for denser control near a curved edge. Returns the new column's index or -1, see MeshWarper.
+   */
+  insertGridColumn(u: number): number {
+    let index = -1;
+    this.changeGridLayout('Insert column', (warper) => (index = warper.insertGridColumn(u)) !== -1);
+    return index;
+  }
+
+  /** Inserts a grid row of the active surface at v (0-1 from the bottom), see insertGridColumn */
+  insertGridRow(v: number): number {
+    let index = -1;
+    this.changeGridLayout('Insert row', (warper) => (index = warper.insertGridRow(v)) !== -1);
+    return index;
+  }
+
+  /** Removes an inner grid column of the active surface, returns false for edge columns */
+  deleteGridColumn(col: number): boolean {
+    return this.changeGridLayout('Delete column', (warper) => warper.deleteGridColumn(col));
+  }
+
+  /** Removes an inner grid row of the active surface (index from the bottom), see deleteGridColumn */
+  deleteGridRow(row: number): boolean {
+    return this.changeGridLayout('Delete row', (warper) => warper.deleteGridRow(row));
+  }
+
+  private changeGridLayout(label: string, change: (warper: MeshWarper) => boolean): boolean {
+    const before = this.getWarper().getState();
+    if (!change(this.getWarper())) return false;
+    this.recordWarp(this.activeSurfaceName, label, before);
+    return true;
+  }
+
+  /**
+   * Maps the input texture onto a 3D model of the physical object instead of a warped plane. The geometry
+   * needs UVs, they pick the content. Replaces an earlier model; switch to it with setMappingMode('model')
+   * and align it by solving the projector pose from point correspondences, see ModelSurface.
+   */
+  setModel(geometry: THREE.BufferGeometry, config: ModelMappingConfig = {}): ModelSurface {
+    this.model?.dispose();
+    this.modelPicker?.dispose();
+    const camera =
+      config.camera ??
+      new ProjectorCamera(
+        MODEL_MAPPING.throwRatio,
+        MODEL_MAPPING.lensShiftY,
+        this.resolution.width / this.resolution.height,
+        MODEL_MAPPING.near,
+        MODEL_MAPPING.far,
+      );
+    const model = new ModelSurface({
+      geometry,
+      camera,
+      resolution: this.resolution,
+      fragmentShader: projectionFragmentShader,
+      globalUniforms: this.uniforms,
+      store: this.store,
+    });
+    model.onEdit = (before, label) =>
+      this.history.push({
+        label,
+        before,
+        after: model.getCameraState(),
+        // Steps of a replaced model are skipped
+        apply: (state) => {
+          if (this.model === model) model.setCameraState(state);
+        },
+      });
+    model.onPoseChanged((pose) => this.onModelPoseChangedCallbacks.forEach((cb) => cb(pose)));
+    model.onIntrinsicsChanged((intrinsics) => this.onModelIntrinsicsChangedCallbacks.forEach((cb) => cb(intrinsics)));
+    this.model = model;
+    this.modelPicker = new ModelPointPicker({ renderer: this.renderer, model, resolution: this.resolution });
+    this.onModelChangedCallbacks.forEach((cb) => cb(model));
+    return model;
+  }
+
+  getModel(): ModelSurface | null {
+    return this.model;
+  }
+
+  /** Removes the model and returns to warp mapping */
+  removeModel(): void {
+    if (!this.model) return;
+    this.setMappingMode('warp');
+    this.model.dispose();
+    this.modelPicker?.dispose();
+    this.model = null;
+    this.modelPicker = null;
+    this.onModelChangedCallbacks.forEach((cb) => cb(null));
+  }
+
+  setMappingMode(mode: MappingMode): void {
+    if (mode === 'model' && !this.model) throw new Error('ProjectionMapper: setModel() before switching to model mapping');
+    if (mode === this.mappingMode) return;
+    this.mappingMode = mode;
+    // Warp handles are not rendered in model mode and must not catch pointer events either
+    this.applySurfaceControls();
+    // Picked pixels only mean something on the model
+    if (mode === 'warp') this.modelPicker?.setEnabled(false);
+    this.onMappingModeChangedCallbacks.forEach((cb) => cb(mode));
+  }
+
+  getMappingMode(): MappingMode {
+    return this.mappingMode;
+  }
+
+  /**
+   * Clicking in the canvas adds model correspondences, see ModelPointPicker. Only in model mapping,
+   * switching back to warp mapping ends it.
+   */
+  setModelPointPicking(enabled: boolean): void {
+    if (enabled && this.mappingMode !== 'model') {
+      throw new Error('ProjectionMapper: point picking needs model mapping');
+    }
+    this.modelPicker?.setEnabled(enabled);
+  }
+
+  isModelPointPicking(): boolean {
+    return this.modelPicker?.isEnabled() ?? false;
   }
 
   setShouldWarp(enabled: boolean): void {
-    this.meshWarper.setShouldWarp(enabled);
+    this.surfaces.forEach(({ warper }) => warper.setShouldWarp(enabled));
     this.maskPlane.setShouldWarp(enabled);
     this.polygonMask?.setVisible(enabled);
   }
 
   isWarpEnabled(): boolean {
-    return this.meshWarper.getShouldWarp();
+    return this.getDefaultWarper()!.getShouldWarp();
   }
 
   setZoom(scale: number): void {
@@ -381,12 +958,90 @@ export class ProjectionMapper {
     return { x: this.camera.position.x, y: this.camera.position.y };
   }
 
+  /** Whether the view shows the projector image as the projector does: zoom 1, no offset */
+  private isProjectorView(): boolean {
+    return this.config.zoom === 1 && this.camera.position.x === 0 && this.camera.position.y === 0;
+  }
+
+  /** The (namespaced) store this mapper persists to, shared with the GUI. */
+  getStore(): CalibrationStore {
+    return this.store;
+  }
+
   getResolution(): { width: number; height: number } {
     return { ...this.resolution };
   }
 
   reset(): void {
-    this.meshWarper.resetToDefault();
+    const before = this.getWarper().getState();
+    this.getWarper().resetToDefault();
+    this.recordWarp(this.activeSurfaceName, 'Reset warp', before);
+  }
+
+  private recordWarp(surface: string, label: string, before: WarpState, mergeKey?: string): void {
+    this.history.push({
+      label,
+      mergeKey,
+      before,
+      after: this.getWarper(surface).getState(),
+      // Steps of surfaces removed since are skipped
+      apply: (state) => {
+        if (this.surfaces.has(surface)) this.getWarper(surface).setState(state);
+      },
+    });
+  }
+
+  private recordPolygonNodes(label: string, before: UVPoint[]): void {
+    if (!this.polygonMask) return;
+    this.history.push({
+      label,
+      before,
+      after: Array.from(this.polygonMask.nodes),
+      apply: (nodes) => {
+        if (this.polygonMask) this.polygonMask.setNodes(nodes);
+        else this.addPolygonMask(nodes);
+      },
+    });
+  }
+
+  /** Reverts the last recorded edit. Returns false when there is nothing to undo. */
+  undo(): boolean {
+    this.completeTransition();
+    const undone = this.history.undo();
+    if (undone) this.onHistoryAppliedCallbacks.forEach((cb) => cb());
+    return undone;
+  }
+
+  /** Re-applies the last undone edit. Returns false when there is nothing to redo. */
+  redo(): boolean {
+    this.completeTransition();
+    const redone = this.history.redo();
+    if (redone) this.onHistoryAppliedCallbacks.forEach((cb) => cb());
+    return redone;
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /** Forget all steps, e.g. after restoring persisted settings, which are the starting point rather than an edit. */
+  clearHistory(): void {
+    this.history.clear();
+  }
+
+  getHistory(): CommandHistory {
+    return this.history;
+  }
+
+  /**
+   * Register callback for when undo or redo changed the mapper state
+   */
+  onHistoryApplied(callback: () => void): void {
+    this.onHistoryAppliedCallbacks.push(callback);
   }
 
   getScene(): THREE.Scene {
@@ -406,9 +1061,11 @@ export class ProjectionMapper {
       this.worldWidth,
       this.worldHeight,
       nodes,
+      this.store,
     );
     this.polygonMask.onChanged = () => this.syncPolygonMaskUniforms();
-    this.polygonMask.setVisible(this.meshWarper.getShouldWarp());
+    this.polygonMask.onEdit = (before) => this.recordPolygonNodes('Edit mask', before);
+    this.polygonMask.setVisible(this.isWarpEnabled());
     this.maskPlane.setPolygonMaskEnabled(true);
     this.syncPolygonMaskUniforms();
     return this.polygonMask;
@@ -416,12 +1073,23 @@ export class ProjectionMapper {
 
   resetPolygonMask(): void {
     if (!this.polygonMask) return;
+    const before = Array.from(this.polygonMask.nodes);
     this.polygonMask.clearStorage();
     this.polygonMask.dispose();
-    this.polygonMask = new PolygonMask(this.scene, this.camera, this.renderer, this.worldWidth, this.worldHeight);
+    this.polygonMask = new PolygonMask(
+      this.scene,
+      this.camera,
+      this.renderer,
+      this.worldWidth,
+      this.worldHeight,
+      undefined,
+      this.store,
+    );
     this.polygonMask.onChanged = () => this.syncPolygonMaskUniforms();
-    this.polygonMask.setVisible(this.meshWarper.getShouldWarp());
+    this.polygonMask.onEdit = (before) => this.recordPolygonNodes('Edit mask', before);
+    this.polygonMask.setVisible(this.isWarpEnabled());
     this.syncPolygonMaskUniforms();
+    this.recordPolygonNodes('Reset mask', before);
   }
 
   removePolygonMask(): void {
@@ -469,11 +1137,232 @@ export class ProjectionMapper {
     this.maskPlane.setShowBorderLines(show);
   }
 
+  /** Snapshot of the complete calibration as a versioned, JSON-serializable document. */
+  exportCalibration(): CalibrationDocument {
+    return {
+      format: CALIBRATION_FORMAT,
+      version: CALIBRATION_VERSION,
+      createdAt: new Date().toISOString(),
+      resolution: this.getResolution(),
+      zoom: this.getZoom(),
+      cameraOffset: this.getCameraOffset(),
+      imageSettings: this.getImageSettings(),
+      edgeBlend: this.getEdgeBlend(),
+      lensDistortion: this.getLensDistortion(),
+      sourceCrop: this.getSourceCrop(),
+      surfaces: this.getSurfaceNames().map((name) => ({
+        name,
+        visible: this.isSurfaceVisible(name),
+        uvRect: this.getSurfaceUVRect(name),
+        warp: this.getWarper(name).getState(),
+      })),
+      polygonMask: this.getPolygonMaskFullState(),
+    };
+  }
+
+  /**
+   * Replaces the current calibration with a document from exportCalibration(), e.g. parsed from a file.
+   * Documents of another CALIBRATION_VERSION and invalid ones throw CalibrationValidationError before anything changes.
+   * Surfaces missing from the document are removed.
+   */
+  importCalibration(data: unknown, options: ImportCalibrationOptions = {}): CalibrationDocument {
+    const calibration = validateCalibration(data);
+    this.transition = null;
+    const before = this.exportCalibration();
+    this.history.withoutRecording(() => this.applyCalibration(calibration, options));
+    this.history.push({
+      label: 'Import calibration',
+      before,
+      after: calibration,
+      apply: (state) => this.applyCalibration(state, options),
+    });
+    return calibration;
+  }
+
+  /**
+   * Replaces the warp of one surface, e.g. with a state from parseWarp(). Goes through importCalibration(),
+   * so it is one undo step and windows following the calibration get it too. The view is kept.
+   */
+  importWarp(warp: WarpState, surface: string = this.activeSurfaceName): CalibrationDocument {
+    this.getSurface(surface);
+    const calibration = this.exportCalibration();
+    calibration.surfaces = calibration.surfaces.map((s) => (s.name === surface ? { ...s, warp } : s));
+    return this.importCalibration(calibration, { applyView: false });
+  }
+
+  private applyCalibration(calibration: CalibrationDocument, options: ImportCalibrationOptions): void {
+    const names = new Set(calibration.surfaces.map((surface) => surface.name));
+
+    this.getSurfaceNames()
+      .filter((name) => name !== DEFAULT_SURFACE_NAME && !names.has(name))
+      .forEach((name) => this.removeSurface(name));
+
+    for (const surface of calibration.surfaces) {
+      if (!this.surfaces.has(surface.name)) {
+        this.addSurface(surface.name, { uvRect: surface.uvRect, gridControlPoints: surface.warp.gridSize });
+      }
+      this.setSurfaceUVRect(surface.name, surface.uvRect);
+      this.getWarper(surface.name).setState(surface.warp);
+      this.setSurfaceVisible(surface.name, surface.visible);
+    }
+
+    this.setImageSettings(calibration.imageSettings);
+    this.setEdgeBlend(calibration.edgeBlend);
+    this.setLensDistortion(calibration.lensDistortion);
+    this.setSourceCrop(calibration.sourceCrop);
+
+    if (calibration.polygonMask) {
+      this.addPolygonMask(calibration.polygonMask.nodes);
+      this.setPolygonMaskEnabled(calibration.polygonMask.enabled);
+      this.setPolygonInvert(calibration.polygonMask.inverted);
+      this.setPolygonFeather(calibration.polygonMask.feather);
+    } else {
+      this.removePolygonMask();
+    }
+
+    if (options.applyView ?? true) {
+      this.setZoom(calibration.zoom);
+      this.setCameraOffset(calibration.cameraOffset.x, calibration.cameraOffset.y);
+    }
+
+    this.onCalibrationAppliedCallbacks.forEach((cb) => cb(calibration));
+  }
+
+  /**
+   * Animates from the current calibration to another one, e.g. for moving set pieces.
+   * Corner, grid and reference grid points of surfaces in both calibrations are interpolated
+   * every render(); grids of a different size or layout are resampled to the target grid first.
+   * Everything else (new or removed surfaces, visibility, image settings, mask) switches
+   * when the transition completes, which is recorded as one undo step. The view is kept.
+   */
+  transitionTo(
+    data: unknown,
+    durationMs: number = TRANSITION.durationMs,
+    easing: EasingName = TRANSITION.easing,
+  ): CalibrationDocument {
+    const target = validateCalibration(data);
+    // An interrupted transition continues from where it is, but undo still returns to its start
+    const before = this.transition?.before ?? this.exportCalibration();
+
+    const from = new Map<string, WarpState>();
+    for (const surface of target.surfaces) {
+      if (!this.surfaces.has(surface.name)) continue;
+      from.set(
+        surface.name,
+        resampleWarpState(this.getWarper(surface.name).getState(), surface.warp.gridSize, surface.warp.knots),
+      );
+    }
+
+    this.transition = { target, before, from, startTime: performance.now(), durationMs, easing };
+    this.onTransitionStartedCallbacks.forEach((cb) => cb(target, durationMs, easing));
+    if (durationMs <= 0) this.completeTransition();
+    return target;
+  }
+
+  isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  private updateTransition(): void {
+    if (!this.transition) return;
+    const { target, from, startTime, durationMs, easing } = this.transition;
+    const progress = saturate((performance.now() - startTime) / durationMs);
+    if (progress >= 1) {
+      this.completeTransition();
+      return;
+    }
+
+    const t = EASING[easing](progress);
+    for (const surface of target.surfaces) {
+      const start = from.get(surface.name);
+      if (start && this.surfaces.has(surface.name)) {
+        this.getWarper(surface.name).previewState(interpolateWarpState(start, surface.warp, t));
+      }
+    }
+  }
+
+  /** Jumps to the end of a running transition and records it. */
+  private completeTransition(): void {
+    if (!this.transition) return;
+    const { target, before } = this.transition;
+    this.transition = null;
+    this.history.withoutRecording(() => this.applyCalibration(target, { applyView: false }));
+    this.history.push({
+      label: 'Transition',
+      before,
+      after: target,
+      apply: (state) => this.applyCalibration(state, { applyView: false }),
+    });
+  }
+
+  /**
+   * Register callback for when transitionTo() started, e.g. to run the same transition in another window
+   */
+  onTransitionStarted(callback: (calibration: CalibrationDocument, durationMs: number, easing: EasingName) => void): void {
+    this.onTransitionStartedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when a calibration pattern was shown or cleared, e.g. to show it in the projector window
+   */
+  onCalibrationPatternChanged(callback: (pattern: StructuredLightPattern | null) => void): void {
+    this.onCalibrationPatternChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when the mapper switched between warp and model mapping
+   */
+  onMappingModeChanged(callback: (mode: MappingMode) => void): void {
+    this.onMappingModeChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when the projector pose of the model changed, e.g. to send it to the projector window
+   */
+  onModelPoseChanged(callback: (pose: ProjectorPose) => void): void {
+    this.onModelPoseChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when the lens of the model's projector camera changed, e.g. by calibrating
+   */
+  onModelIntrinsicsChanged(callback: (intrinsics: ProjectorIntrinsics) => void): void {
+    this.onModelIntrinsicsChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when a model was set or removed
+   */
+  onModelChanged(callback: (model: ModelSurface | null) => void): void {
+    this.onModelChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when a surface was added or removed, e.g. to rebuild a surface selector
+   */
+  onSurfacesChanged(callback: (names: string[]) => void): void {
+    this.onSurfacesChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for when a calibration was imported or a transition completed
+   */
+  onCalibrationApplied(callback: (calibration: CalibrationDocument) => void): void {
+    this.onCalibrationAppliedCallbacks.push(callback);
+  }
+
   dispose(): void {
-    this.meshWarper.dispose();
+    this.surfaces.forEach(({ warper }) => warper.dispose());
     this.maskPlane.dispose();
     this.composer.dispose();
     this.polygonMask?.dispose();
+    this.model?.dispose();
+    this.modelPicker?.dispose();
+    if (this.patternPlane) {
+      this.patternPlane.geometry.dispose();
+      this.patternPlane.material.uniforms.uPattern.value.dispose();
+      this.patternPlane.material.dispose();
+    }
   }
 }
 
@@ -1,18 +1,31 @@
 import * as THREE from 'three';
-import { FolderApi, Pane, TpChangeEvent } from 'tweakpane';
+import { BladeApi, FolderApi, ListBladeApi, Pane, TpChangeEvent } from 'tweakpane';
 import * as EssentialsPlugin from '@tweakpane/plugin-essentials';
-import { ProjectionMapper } from './ProjectionMapper';
+import { ProjectionMapper, type MappingMode } from './ProjectionMapper';
+import type { ModelSurface } from '../model/ModelSurface';
 import {
+  CALIBRATION_FILE_NAME,
   GUI_STORAGE_KEY,
   DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_LENS_DISTORTION,
+  DEFAULT_SOURCE_CROP,
   DEFAULT_POLYGON_FEATHER,
   DEFAULTS,
+  DEFAULT_SURFACE_NAME,
   MESH_WARP_GRID_SIZE,
   STORAGE_VERSION,
   SHOW_ACES_TOGGLE,
 } from './defaults';
-import type { ImageSettings } from './defaults';
-import { WARP_MODE } from '../warp/MeshWarper';
+import type {
+  EdgeBlendSettings,
+  ImageSettings,
+  LensDistortionSettings,
+  SoftSelectionFalloff,
+  SoftSelectionSettings,
+  SourceCrop,
+} from './defaults';
+import { WARP_MODE, type WarpSymmetry } from '../warp/MeshWarper';
 import { EventChannel } from '../ipc/EventChannel';
 import { WindowManager } from '../windows/WindowManager';
 import { ProjectionEventType } from '../ipc/EventTypes';
@@ -29,6 +42,9 @@ import {
   TWEAKPANE_TRANSPARENCY,
 } from './gui.config';
 import { createTweakpaneButton, replaceLabelWithButton } from './tweakpaneUtils';
+import { whenResolved } from '../storage/CalibrationStore';
+import { PresetManager } from '../presets/PresetManager';
+import { parseWarp, warpFormatFromFileName } from '../calibration/warpImport';
 
 interface ButtonGridBladeApi {
   element: HTMLElement;
@@ -43,6 +59,7 @@ export interface ProjectionMapperGUIConfig {
   eventChannel?: EventChannel; // Optional: enables event broadcasting
   windowManager?: WindowManager; // Optional: enables projector window button
   enableWhiteOut?: boolean; // Optional: adds a full-screen white-out toggle button
+  presets?: PresetManager; // Optional: share presets with your own code (default: GUI creates one)
 }
 
 export interface ProjectionMapperGUISettings extends ImageSettings {
@@ -52,6 +69,8 @@ export interface ProjectionMapperGUISettings extends ImageSettings {
   showWarpGrid: boolean;
   warpMode: WARP_MODE;
   gridSize: { x: number; y: number };
+  symmetry: WarpSymmetry;
+  softSelection: SoftSelectionSettings;
   zoom: number;
   showCornerPoints: boolean;
   showOutline: boolean;
@@ -59,6 +78,12 @@ export interface ProjectionMapperGUISettings extends ImageSettings {
   masksExpanded: boolean;
   polygonFeather: number;
   polygonInvert: boolean;
+  edgeBlend: EdgeBlendSettings;
+  edgeBlendExpanded: boolean;
+  lensDistortion: LensDistortionSettings;
+  lensDistortionExpanded: boolean;
+  sourceCrop: SourceCrop;
+  sourceCropExpanded: boolean;
 }
 
 export { GUI_STORAGE_KEY, DEFAULT_IMAGE_SETTINGS } from './defaults';
@@ -73,9 +98,19 @@ export class ProjectionMapperGUI {
     'showWarpGrid' | 'showCornerPoints' | 'showOutline'
   > | null = null;
   private warpFolder!: FolderApi;
+  // Masks and edge blend are applied to warp surfaces only, so they are disabled in model mode
+  private masksFolder!: FolderApi;
+  private edgeBlendFolder!: FolderApi;
+  private warpModeBlade!: ListBladeApi<WARP_MODE>;
+  private surfaceBlades: BladeApi[] = [];
+  private presets: PresetManager;
+  private presetsFolder!: FolderApi;
+  private presetListBlade: BladeApi | null = null;
   private config: ProjectionMapperGUIConfig;
   private syncSettingButtons: () => void = () => {};
   private syncWarpButtons: () => void = () => {};
+  private syncPolygonMaskFolder: () => void = () => {};
+  private boundKeyDownHandler!: (e: KeyboardEvent) => void;
   private onControlsVisibilityChange: (visible: boolean) => void = () => {};
 
   private readonly STORAGE_KEY = GUI_STORAGE_KEY;
@@ -83,6 +118,7 @@ export class ProjectionMapperGUI {
   constructor(mapper: ProjectionMapper, config: ProjectionMapperGUIConfig = {}) {
     this.mapper = mapper;
     this.config = config;
+    this.presets = config.presets ?? new PresetManager(mapper);
 
     const title = config.title || 'Projection Mapper';
     const anchor = config.anchor || 'left';
@@ -97,6 +133,8 @@ export class ProjectionMapperGUI {
         x: mapper.getWarper().getGridSizeX(),
         y: mapper.getWarper().getGridSizeY(),
       },
+      symmetry: mapper.getSymmetry(),
+      softSelection: mapper.getSoftSelection(),
       zoom: mapper.getZoom(),
       showCornerPoints: true,
       showOutline: true,
@@ -104,11 +142,22 @@ export class ProjectionMapperGUI {
       masksExpanded: true,
       polygonFeather: DEFAULT_POLYGON_FEATHER,
       polygonInvert: false,
+      edgeBlend: { ...DEFAULT_EDGE_BLEND },
+      edgeBlendExpanded: false,
+      lensDistortion: { ...DEFAULT_LENS_DISTORTION },
+      lensDistortionExpanded: false,
+      sourceCrop: mapper.getSourceCrop(),
+      sourceCropExpanded: false,
       ...DEFAULT_IMAGE_SETTINGS,
     };
 
-    this.loadSettings();
-    this.applySettings();
+    // Synchronous stores load before the pane is built, asynchronous ones refresh it afterwards
+    this.loadSettings(() => {
+      this.applySettings();
+      // Restored settings are the starting point, not an undoable edit
+      this.mapper.clearHistory();
+      if (this.pane) this.syncPane();
+    });
 
     this.pane = new Pane({ title });
     this.pane.element.style.opacity = TWEAKPANE_TRANSPARENCY;
@@ -124,6 +173,23 @@ export class ProjectionMapperGUI {
     }
 
     this.initPane();
+
+    this.mapper.onCalibrationApplied(() => this.syncFromMapper());
+    this.mapper.onHistoryApplied(() => this.syncFromMapper());
+    this.initHistoryHotkeys();
+  }
+
+  private initHistoryHotkeys(): void {
+    this.boundKeyDownHandler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) this.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') this.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', this.boundKeyDownHandler);
   }
 
   private addResetButton(folder: FolderApi, title: string, onClick: () => void): void {
@@ -210,6 +276,39 @@ export class ProjectionMapperGUI {
         // NOTE: Zoom is controller-local only, not broadcast to projector
       });
 
+    const calibrationBtnGrid = settingsFolder.addBlade({
+      view: 'buttongrid',
+      size: [2, 1],
+      cells: (x: number) => ({ title: ['Export', 'Import'][x] }),
+    }) as unknown as ButtonGridBladeApi;
+
+    calibrationBtnGrid.on('click', (ev) => {
+      if (ev.index[0] === 0) this.downloadCalibration();
+      else this.uploadCalibration();
+    });
+
+    const historyBtnGrid = settingsFolder.addBlade({
+      view: 'buttongrid',
+      size: [2, 1],
+      cells: (x: number) => ({ title: ['Undo', 'Redo'][x] }),
+    }) as unknown as ButtonGridBladeApi;
+
+    const [undoBtn, redoBtn] = Array.from(historyBtnGrid.element.querySelectorAll('button')) as HTMLButtonElement[];
+    const syncHistoryButtons = () => {
+      const history = this.mapper.getHistory();
+      undoBtn.disabled = !history.canUndo();
+      redoBtn.disabled = !history.canRedo();
+      undoBtn.title = history.peekUndo() ?? '';
+      redoBtn.title = history.peekRedo() ?? '';
+    };
+    syncHistoryButtons();
+    this.mapper.getHistory().onChange(syncHistoryButtons);
+
+    historyBtnGrid.on('click', (ev) => {
+      if (ev.index[0] === 0) this.undo();
+      else this.redo();
+    });
+
     // Image settings folder
     const imageFolder = this.pane.addFolder({ title: 'Image', expanded: this.settings.imageExpanded });
 
@@ -287,9 +386,25 @@ export class ProjectionMapperGUI {
     // Masks folder
     this.initMasksFolder();
 
+    this.initEdgeBlendFolder();
+
+    this.initLensDistortionFolder();
+
+    this.initSourceCropFolder();
+
+    this.initPresetsFolder();
+
+    this.initModelFolder();
+
+    this.syncMappingModeControls();
+    this.mapper.onMappingModeChanged(() => this.syncMappingModeControls());
+
     // Warp UI
     this.warpFolder = this.pane.addFolder({ title: 'Warping', expanded: true });
 
+    this.initSurfaceControls();
+    this.mapper.onSurfacesChanged(() => this.initSurfaceControls());
+
     const warpBtnGrid = this.warpFolder.addBlade({
       view: 'buttongrid',
       size: [3, 1],
@@ -354,16 +469,18 @@ export class ProjectionMapperGUI {
     });
 
     const onGridSizeChange = () => {
+      const surface = this.mapper.getActiveSurfaceName();
       this.mapper.setGridSize(this.settings.gridSize.x, this.settings.gridSize.y);
       this.saveSettings();
       this.broadcast(ProjectionEventType.GRID_SIZE_CHANGED, {
         gridSize: { x: this.settings.gridSize.x, y: this.settings.gridSize.y },
+        surface,
       });
       if (this.isMultiWindowMode()) {
         const warper = this.mapper.getWarper();
         const config = (warper as any).config;
         const gridPoints = warper.getGridControlPoints();
-        const referenceGridPoints = (warper as any).referenceGridControlPoints as THREE.Vector3[];
+        const referenceGridPoints = warper.getReferenceGridControlPoints();
         this.broadcast(ProjectionEventType.GRID_POINTS_UPDATED, {
           points: gridPoints.map((p: THREE.Vector3) => ({
             x: (p.x + config.width / 2) / config.width,
@@ -375,27 +492,33 @@ export class ProjectionMapperGUI {
             y: (p.y + config.height / 2) / config.height,
             z: p.z,
           })),
+          tangents: warper.getTangents(),
+          surface,
         });
       }
     };
 
-    this.warpFolder
+    this.warpModeBlade = this.warpFolder
       .addBlade({
         view: 'list',
         label: 'Warp Mode',
         options: [
           { text: 'Bilinear', value: WARP_MODE.bilinear },
           { text: 'Bicubic', value: WARP_MODE.bicubic },
+          { text: 'Bezier', value: WARP_MODE.bezier },
         ],
         value: this.settings.warpMode,
-      })
-      //@ts-ignore
-      .on('change', (e: TpChangeEvent<unknown>) => {
-        this.settings.warpMode = e.value as WARP_MODE;
-        this.mapper.getWarper().setWarpMode(e.value as WARP_MODE);
-        this.saveSettings();
-        this.broadcast(ProjectionEventType.WARP_MODE_CHANGED, { mode: e.value as number });
+      }) as ListBladeApi<WARP_MODE>;
+
+    this.warpModeBlade.on('change', (e: TpChangeEvent<WARP_MODE>) => {
+      this.settings.warpMode = e.value;
+      this.mapper.getWarper().setWarpMode(e.value);
+      this.saveSettings();
+      this.broadcast(ProjectionEventType.WARP_MODE_CHANGED, {
+        mode: e.value as number,
+        surface: this.mapper.getActiveSurfaceName(),
       });
+    });
 
     this.warpFolder
       .addBinding(this.settings, 'gridSize', {
@@ -410,14 +533,464 @@ export class ProjectionMapperGUI {
         onGridSizeChange();
       });
 
+    // New columns and rows split the span next to the selected grid point, or the widest span without one.
+    // Removing takes out the selected grid point's column or row. WindowSync forwards the new layout.
+    const editGridLayout = (axis: 'x' | 'y', insert: boolean) => {
+      const warper = this.mapper.getWarper();
+      const knots = warper.getGridKnots()[axis];
+      const selected = warper.getSelection().find((s) => s.group === 'grid')?.index;
+      const line =
+        selected === undefined
+          ? undefined
+          : axis === 'x'
+            ? selected % warper.getGridSizeX()
+            : Math.floor(selected / warper.getGridSizeX());
+
+      let changed: boolean;
+      if (insert) {
+        const widest = knots.slice(1).reduce((best, k, i) => (k - knots[i] > knots[best + 1] - knots[best] ? i : best), 0);
+        const span = line === undefined ? widest : Math.min(line, knots.length - 2);
+        const t = (knots[span] + knots[span + 1]) / 2;
+        changed = (axis === 'x' ? this.mapper.insertGridColumn(t) : this.mapper.insertGridRow(t)) !== -1;
+      } else {
+        if (line === undefined) return;
+        changed = axis === 'x' ? this.mapper.deleteGridColumn(line) : this.mapper.deleteGridRow(line);
+      }
+      if (!changed) return;
+      this.syncActiveSurfaceSettings();
+      this.pane.refresh();
+      this.saveSettings();
+    };
+
+    const gridLayoutBtnGrid = this.warpFolder.addBlade({
+      view: 'buttongrid',
+      size: [2, 2],
+      cells: (x: number, y: number) => ({ title: [['+ Column', '+ Row'], ['− Column', '− Row']][y][x] }),
+    }) as unknown as ButtonGridBladeApi;
+
+    gridLayoutBtnGrid.on('click', (ev) => {
+      const [col, row] = ev.index;
+      editGridLayout(col === 0 ? 'x' : 'y', row === 0);
+    });
+
+    // Drags and nudges also move the mirrored handles
+    this.warpFolder
+      .addBinding(this.settings.symmetry, 'x', { label: 'Mirror L/R' })
+      .on('change', () => this.onSymmetryChange());
+    this.warpFolder
+      .addBinding(this.settings.symmetry, 'y', { label: 'Mirror T/B' })
+      .on('change', () => this.onSymmetryChange());
+
+    // Grid drags pull the points within the radius (fraction of the plane width) along, 0 = off
+    this.warpFolder
+      .addBinding(this.settings.softSelection, 'radius', { label: 'Soft Radius', min: 0, max: 0.5, step: 0.01 })
+      .on('change', () => this.onSoftSelectionChange());
+    this.warpFolder
+      .addBinding(this.settings.softSelection, 'falloff', {
+        label: 'Falloff',
+        options: Object.fromEntries(
+          (['smooth', 'linear', 'sharp', 'root', 'sphere', 'constant'] as SoftSelectionFalloff[]).map((f) => [
+            f[0].toUpperCase() + f.slice(1),
+            f,
+          ]),
+        ),
+      })
+      .on('change', () => this.onSoftSelectionChange());
+
     this.addResetButton(this.warpFolder, 'Reset Warp', () => {
-      this.broadcast(ProjectionEventType.RESET_WARP, {});
+      this.broadcast(ProjectionEventType.RESET_WARP, { surface: this.mapper.getActiveSurfaceName() });
       this.mapper.reset();
     });
   }
 
+  private onSymmetryChange(): void {
+    this.mapper.setSymmetry(this.settings.symmetry);
+    this.saveSettings();
+  }
+
+  private onSoftSelectionChange(): void {
+    this.mapper.setSoftSelection(this.settings.softSelection);
+    this.saveSettings();
+  }
+
+  // Rebuilt when surfaces are added or removed, and after a calibration import, which can change their visibility
+  private initSurfaceControls(): void {
+    this.surfaceBlades.forEach((blade) => blade.dispose());
+    this.surfaceBlades = [];
+    if (this.mapper.getSurfaceNames().length < 2) return;
+
+    const surfaceState = {
+      surface: this.mapper.getActiveSurfaceName(),
+      visible: this.mapper.isSurfaceVisible(this.mapper.getActiveSurfaceName()),
+    };
+
+    const surfaceBinding = this.warpFolder
+      .addBinding(surfaceState, 'surface', {
+        index: 0,
+        label: 'Surface',
+        options: Object.fromEntries(this.mapper.getSurfaceNames().map((name) => [name, name])),
+      })
+      .on('change', (e: TpChangeEvent<unknown>) => {
+        const name = e.value as string;
+        this.mapper.selectSurface(name);
+        this.syncActiveSurfaceSettings();
+        surfaceState.visible = this.mapper.isSurfaceVisible(name);
+        this.pane.refresh();
+        this.broadcast(ProjectionEventType.SURFACE_SELECTED, { name });
+      });
+
+    const visibleBinding = this.warpFolder
+      .addBinding(surfaceState, 'visible', { index: 1, label: 'Visible' })
+      .on('change', (e: TpChangeEvent<unknown>) => {
+        const name = this.mapper.getActiveSurfaceName();
+        this.mapper.setSurfaceVisible(name, e.value as boolean);
+        this.broadcast(ProjectionEventType.SURFACE_VISIBILITY_CHANGED, { name, visible: e.value as boolean });
+      });
+
+    this.surfaceBlades = [surfaceBinding, visibleBinding];
+  }
+
+  private initLensDistortionFolder(): void {
+    const lensFolder = this.pane.addFolder({ title: 'Lens Distortion', expanded: this.settings.lensDistortionExpanded });
+    const lens = this.settings.lensDistortion;
+
+    lensFolder.on('fold', () => {
+      this.settings.lensDistortionExpanded = lensFolder.expanded;
+      this.saveSettings();
+    });
+
+    const onLensChange = (changed: Partial<LensDistortionSettings>) => {
+      this.mapper.setLensDistortion(changed);
+      this.broadcast(ProjectionEventType.LENS_DISTORTION_CHANGED, { settings: this.mapper.getLensDistortion() });
+      this.saveSettings();
+    };
+
+    lensFolder
+      .addBinding(lens, 'enabled', { label: 'Enabled' })
+      .on('change', (e: TpChangeEvent<unknown>) => onLensChange({ enabled: e.value as boolean }));
+
+    // Tangential terms are small, a step of 0.001 would be too coarse for them
+    const sliders: [keyof LensDistortionSettings, string, number, number, number][] = [
+      ['k1', 'Radial k1', -0.5, 0.5, 0.001],
+      ['k2', 'Radial k2', -0.2, 0.2, 0.001],
+      ['k3', 'Radial k3', -0.1, 0.1, 0.001],
+      ['p1', 'Tangential p1', -0.05, 0.05, 0.0001],
+      ['p2', 'Tangential p2', -0.05, 0.05, 0.0001],
+      ['centerX', 'Center X', -1, 1, 0.001],
+      ['centerY', 'Center Y', -1, 1, 0.001],
+    ];
+    for (const [key, label, min, max, step] of sliders) {
+      lensFolder
+        .addBinding(lens, key, { label, min, max, step })
+        .on('change', (e: TpChangeEvent<unknown>) => onLensChange({ [key]: e.value as number }));
+    }
+
+    this.addResetButton(lensFolder, 'Reset Lens', () => {
+      Object.assign(lens, DEFAULT_LENS_DISTORTION);
+      onLensChange(DEFAULT_LENS_DISTORTION);
+      this.pane.refresh();
+    });
+  }
+
+  private initEdgeBlendFolder(): void {
+    const blendFolder = this.pane.addFolder({ title: 'Edge Blend', expanded: this.settings.edgeBlendExpanded });
+    this.edgeBlendFolder = blendFolder;
+    const blend = this.settings.edgeBlend;
+
+    blendFolder.on('fold', () => {
+      this.settings.edgeBlendExpanded = blendFolder.expanded;
+      this.saveSettings();
+    });
+
+    const onBlendChange = (changed: Partial<EdgeBlendSettings>) => {
+      this.mapper.setEdgeBlend(changed);
+      this.broadcast(ProjectionEventType.EDGE_BLEND_CHANGED, { settings: this.mapper.getEdgeBlend() });
+      this.saveSettings();
+    };
+
+    blendFolder
+      .addBinding(blend, 'enabled', { label: 'Enabled' })
+      .on('change', (e: TpChangeEvent<unknown>) => onBlendChange({ enabled: e.value as boolean }));
+
+    const sliders: [keyof EdgeBlendSettings, string, number, number][] = [
+      ['left', 'Left', 0, 0.5],
+      ['right', 'Right', 0, 0.5],
+      ['top', 'Top', 0, 0.5],
+      ['bottom', 'Bottom', 0, 0.5],
+      ['power', 'Curve', 1, 5],
+      ['gamma', 'Gamma', 1, 3],
+      ['blackLevel', 'Black Level', 0, 0.2],
+    ];
+    for (const [key, label, min, max] of sliders) {
+      blendFolder
+        .addBinding(blend, key, { label, min, max, step: 0.001 })
+        .on('change', (e: TpChangeEvent<unknown>) => onBlendChange({ [key]: e.value as number }));
+    }
+
+    this.addResetButton(blendFolder, 'Reset Blend', () => {
+      Object.assign(blend, DEFAULT_EDGE_BLEND);
+      onBlendChange(DEFAULT_EDGE_BLEND);
+      this.pane.refresh();
+    });
+  }
+
+  private initSourceCropFolder(): void {
+    const cropFolder = this.pane.addFolder({ title: 'Source Crop', expanded: this.settings.sourceCropExpanded });
+    const crop = this.settings.sourceCrop;
+
+    cropFolder.on('fold', () => {
+      this.settings.sourceCropExpanded = cropFolder.expanded;
+      this.saveSettings();
+    });
+
+    const onCropChange = (changed: Partial<SourceCrop>) => {
+      this.mapper.setSourceCrop(changed);
+      this.broadcast(ProjectionEventType.SOURCE_CROP_CHANGED, { crop: this.mapper.getSourceCrop() });
+      this.saveSettings();
+    };
+
+    const sliders: [keyof SourceCrop, string, number, number][] = [
+      ['x', 'X', 0, 1],
+      ['y', 'Y', 0, 1],
+      ['width', 'Width', 0.01, 1],
+      ['height', 'Height', 0.01, 1],
+      ['overlap', 'Overlap', 0, 0.25],
+    ];
+    for (const [key, label, min, max] of sliders) {
+      cropFolder
+        .addBinding(crop, key, { label, min, max, step: 0.001 })
+        .on('change', (e: TpChangeEvent<unknown>) => onCropChange({ [key]: e.value as number }));
+    }
+
+    this.addResetButton(cropFolder, 'Reset Crop', () => {
+      Object.assign(crop, DEFAULT_SOURCE_CROP);
+      onCropChange(DEFAULT_SOURCE_CROP);
+      this.pane.refresh();
+    });
+  }
+
+  private initPresetsFolder(): void {
+    this.presetsFolder = this.pane.addFolder({ title: 'Presets', expanded: false });
+    const presetState = { name: '' };
+
+    const runPresetAction = (action: () => void) => {
+      try {
+        action();
+      } catch (error) {
+        console.warn('Preset action failed:', error);
+        alert(error instanceof Error ? error.message : String(error));
+      }
+    };
+
+    this.presetsFolder.addBinding(presetState, 'name', { label: 'Name' });
+
+    const presetBtnGrid = this.presetsFolder.addBlade({
+      view: 'buttongrid',
+      size: [3, 1],
+      cells: (x: number) => ({ title: ['Save', 'Rename', 'Delete'][x] }),
+    }) as unknown as ButtonGridBladeApi;
+
+    presetBtnGrid.on('click', (ev) => {
+      const active = this.presets.getActiveName();
+      runPresetAction(() => {
+        if (ev.index[0] === 0) {
+          this.presets.save(presetState.name || active || '');
+        } else if (!active) {
+          throw new Error('Select a preset first');
+        } else if (ev.index[0] === 1) {
+          this.presets.rename(active, presetState.name);
+        } else {
+          this.presets.delete(active);
+        }
+        presetState.name = '';
+        this.pane.refresh();
+      });
+    });
+
+    // The list is rebuilt whenever presets change, switching applies the preset right away
+    const syncPresetList = () => {
+      this.presetListBlade?.dispose();
+      this.presetListBlade = null;
+      const names = this.presets.list();
+      if (names.length === 0) return;
+
+      const listState = { preset: this.presets.getActiveName() ?? '' };
+      const options = Object.fromEntries([['–', ''], ...names.map((name) => [name, name])]);
+      const binding = this.presetsFolder.addBinding(listState, 'preset', { index: 0, label: 'Preset', options });
+      binding.on('change', (e: TpChangeEvent<unknown>) => {
+        const name = e.value as string;
+        if (name && name !== this.presets.getActiveName()) runPresetAction(() => this.presets.apply(name));
+      });
+      this.presetListBlade = binding;
+    };
+    syncPresetList();
+    this.presets.onChange(syncPresetList);
+  }
+
+  /** Model mapping and point picking, hidden until the application sets a model */
+  private initModelFolder(): void {
+    const modelFolder = this.pane.addFolder({ title: 'Model', expanded: true });
+    const modelState = { points: '0', error: '-' };
+
+    const mappingBlade = modelFolder.addBlade({
+      view: 'list',
+      label: 'Mapping',
+      options: [
+        { text: 'Warp', value: 'warp' },
+        { text: 'Model', value: 'model' },
+      ],
+      value: this.mapper.getMappingMode(),
+    }) as ListBladeApi<MappingMode>;
+
+    const pickBtnGrid = modelFolder.addBlade({
+      view: 'buttongrid',
+      size: [3, 1],
+      cells: (x: number) => ({ title: ['Pick', 'Undo Point', 'Clear'][x] }),
+    }) as unknown as ButtonGridBladeApi;
+    const [pickBtn] = Array.from(pickBtnGrid.element.querySelectorAll('button')) as HTMLButtonElement[];
+
+    const solveBtnGrid = modelFolder.addBlade({
+      view: 'buttongrid',
+      size: [2, 1],
+      cells: (x: number) => ({ title: ['Solve Pose', 'Solve Lens'][x] }),
+    }) as unknown as ButtonGridBladeApi;
+
+    modelFolder.addBinding(modelState, 'points', { label: 'Points', readonly: true });
+    modelFolder.addBinding(modelState, 'error', { label: 'Error (px)', readonly: true });
+
+    const syncModelFolder = () => {
+      const model = this.mapper.getModel();
+      modelFolder.hidden = !model;
+      mappingBlade.value = this.mapper.getMappingMode();
+      pickBtn.style.opacity = this.mapper.isModelPointPicking() ? TOGGLE_ENABLED_OPACITY : TOGGLE_DISABLED_OPACITY;
+      modelState.points = String(model?.getCorrespondences().length ?? 0);
+      this.pane.refresh();
+    };
+
+    mappingBlade.on('change', (e: TpChangeEvent<MappingMode>) => {
+      if (e.value === 'model' && !this.mapper.getModel()) return;
+      this.mapper.setMappingMode(e.value);
+      syncModelFolder();
+    });
+
+    pickBtnGrid.on('click', (ev) => {
+      const model = this.mapper.getModel();
+      if (!model) return;
+      if (ev.index[0] === 0) {
+        // Points are picked on the rendered model
+        if (!this.mapper.isModelPointPicking()) this.mapper.setMappingMode('model');
+        this.mapper.setModelPointPicking(!this.mapper.isModelPointPicking());
+      } else if (ev.index[0] === 1) {
+        const count = model.getCorrespondences().length;
+        if (count > 0) model.removeCorrespondence(count - 1);
+      } else {
+        model.clearCorrespondences();
+      }
+      syncModelFolder();
+    });
+
+    solveBtnGrid.on('click', (ev) => {
+      const model = this.mapper.getModel();
+      if (!model) return;
+      try {
+        const solution = ev.index[0] === 0 ? model.solvePose() : model.calibrateProjector();
+        modelState.error = solution.reprojectionError.toFixed(2);
+      } catch (error) {
+        console.warn('Failed to solve the projector:', error);
+        alert(error instanceof Error ? error.message : String(error));
+      }
+      syncModelFolder();
+    });
+
+    const watchModel = (model: ModelSurface | null) => {
+      modelState.error = '-';
+      model?.onCorrespondencesChanged(syncModelFolder);
+      syncModelFolder();
+    };
+    this.mapper.onModelChanged(watchModel);
+    this.mapper.onMappingModeChanged(syncModelFolder);
+    watchModel(this.mapper.getModel());
+  }
+
+  private syncMappingModeControls(): void {
+    const modelMode = this.mapper.getMappingMode() === 'model';
+    this.masksFolder.disabled = modelMode;
+    this.edgeBlendFolder.disabled = modelMode;
+  }
+
+  getPresets(): PresetManager {
+    return this.presets;
+  }
+
+  private syncActiveSurfaceSettings(): void {
+    const warper = this.mapper.getWarper();
+    this.settings.gridSize = { x: warper.getGridSizeX(), y: warper.getGridSizeY() };
+    this.settings.warpMode = warper.getWarpMode();
+    this.warpModeBlade.value = this.settings.warpMode;
+  }
+
+  private downloadCalibration(): void {
+    const json = JSON.stringify(this.mapper.exportCalibration(), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = CALIBRATION_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private uploadCalibration(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json,.obj,.ply,.csv';
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        // onCalibrationApplied syncs the GUI, WindowSync forwards the calibration to the projector
+        const format = warpFormatFromFileName(file.name);
+        if (format) {
+          // Meshes and grids from other tools replace the warp of the active surface only
+          const warp = parseWarp(await file.text(), format, {
+            resolution: this.mapper.getResolution(),
+            warpMode: this.mapper.getWarper().getWarpMode(),
+          });
+          this.mapper.importWarp(warp);
+        } else {
+          this.mapper.importCalibration(JSON.parse(await file.text()));
+        }
+      } catch (error) {
+        console.warn('Failed to import calibration:', error);
+        alert(`Calibration import failed: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    input.click();
+  }
+
+  /** Pull GUI state back from the mapper after it changed outside the GUI, e.g. on calibration import. */
+  private syncFromMapper(): void {
+    Object.assign(this.settings, this.mapper.getImageSettings());
+    Object.assign(this.settings.edgeBlend, this.mapper.getEdgeBlend());
+    Object.assign(this.settings.lensDistortion, this.mapper.getLensDistortion());
+    Object.assign(this.settings.sourceCrop, this.mapper.getSourceCrop());
+    this.settings.zoom = this.mapper.getZoom();
+    this.syncActiveSurfaceSettings();
+    this.initSurfaceControls();
+    this.syncPolygonMaskFolder();
+    this.syncPane();
+    this.saveSettings();
+  }
+
+  private syncPane(): void {
+    this.syncSettingButtons();
+    this.syncWarpButtons();
+    this.warpModeBlade.value = this.settings.warpMode;
+    this.pane.refresh();
+  }
+
   private initMasksFolder(): void {
     const masksFolder = this.pane.addFolder({ title: 'Masks', expanded: this.settings.masksExpanded });
+    this.masksFolder = masksFolder;
 
     masksFolder.on('fold', () => {
       this.settings.masksExpanded = masksFolder.expanded;
@@ -588,19 +1161,49 @@ export class ProjectionMapperGUI {
           this.mapper.removePolygonMask();
           this.mapper.onPolygonNodesChanged = () => {};
           this.broadcast(ProjectionEventType.POLYGON_MASK_REMOVED, {});
-          polygonSubFolder!.dispose();
-          polygonSubFolder = null;
-          this.onControlsVisibilityChange = () => {};
-          addBtn.hidden = false;
+          hidePolygonSubFolder();
           resetPolygonMaskState();
         }
       });
     };
 
+    const hidePolygonSubFolder = () => {
+      if (!polygonSubFolder) return;
+      polygonSubFolder.dispose();
+      polygonSubFolder = null;
+      this.onControlsVisibilityChange = () => {};
+      addBtn.hidden = false;
+    };
+
+    this.syncPolygonMaskFolder = () => {
+      const state = this.mapper.getPolygonMaskFullState();
+      hidePolygonSubFolder();
+      if (!state) {
+        this.mapper.onPolygonNodesChanged = () => {};
+        resetPolygonMaskState();
+        return;
+      }
+      polygonMaskState.enabled = state.enabled;
+      polygonMaskState.inverted = state.inverted;
+      polygonMaskState.feather = state.feather;
+      polygonMaskState.showHandles = true;
+      this.settings.polygonInvert = state.inverted;
+      this.settings.polygonFeather = state.feather;
+      showPolygonSubFolder();
+      addBtn.hidden = true;
+      if (!(this.settings.showWarpGrid || this.settings.showCornerPoints || this.settings.showOutline)) {
+        this.onControlsVisibilityChange(false);
+      }
+    };
+
     const addBtn = masksFolder.addButton({ title: 'Add Polygon Mask' });
     addBtn.on('click', () => {
       if (!this.mapper.getPolygonMask()) {
-        localStorage.removeItem(POLYGON_MASK_STORAGE_KEY);
+        whenResolved(
+          () => this.mapper.getStore().remove(POLYGON_MASK_STORAGE_KEY),
+          () => {},
+          (error) => console.warn('Failed to clear polygon mask:', error),
+        );
         this.mapper.addPolygonMask();
       }
       showPolygonSubFolder();
@@ -608,12 +1211,17 @@ export class ProjectionMapperGUI {
     });
 
     // Restore if mask was saved in previous session
-    if (localStorage.getItem(POLYGON_MASK_STORAGE_KEY)) {
-      this.mapper.addPolygonMask();
-      this.mapper.setPolygonFeather(this.settings.polygonFeather);
-      showPolygonSubFolder();
-      addBtn.hidden = true;
-    }
+    whenResolved(
+      () => this.mapper.getStore().get(POLYGON_MASK_STORAGE_KEY),
+      (saved) => {
+        if (!saved) return;
+        if (!this.mapper.getPolygonMask()) this.mapper.addPolygonMask();
+        this.mapper.setPolygonFeather(this.settings.polygonFeather);
+        showPolygonSubFolder();
+        addBtn.hidden = true;
+      },
+      (error) => console.warn('Failed to restore polygon mask:', error),
+    );
   }
 
   private applyVisibility(): void {
@@ -676,6 +1284,8 @@ export class ProjectionMapperGUI {
       this.mapper.setGridSize(this.settings.gridSize.x, this.settings.gridSize.y);
     }
     this.mapper.getWarper().setWarpMode(this.settings.warpMode);
+    this.mapper.setSymmetry(this.settings.symmetry);
+    this.mapper.setSoftSelection(this.settings.softSelection);
     this.mapper.setZoom(this.settings.zoom);
     this.applyVisibility();
     this.mapper.setImageSettings({
@@ -688,6 +1298,19 @@ export class ProjectionMapperGUI {
       saturation: this.settings.saturation,
       hue: this.settings.hue,
     });
+    this.mapper.setEdgeBlend(this.settings.edgeBlend);
+    this.mapper.setLensDistortion(this.settings.lensDistortion);
+    this.mapper.setSourceCrop(this.settings.sourceCrop);
+  }
+
+  /** Undo the last warp, mask or image edit (also bound to Ctrl+Z) */
+  undo(): void {
+    this.mapper.undo();
+  }
+
+  /** Redo the last undone edit (also bound to Ctrl+Shift+Z and Ctrl+Y) */
+  redo(): void {
+    this.mapper.redo();
   }
 
   toggleTestCard(): void {
@@ -723,6 +1346,7 @@ export class ProjectionMapperGUI {
   }
 
   dispose(): void {
+    window.removeEventListener('keydown', this.boundKeyDownHandler);
     this.pane.dispose();
   }
 
@@ -731,28 +1355,57 @@ export class ProjectionMapperGUI {
   }
 
   private saveSettings(): void {
-    try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ ...this.settings, version: STORAGE_VERSION }));
-    } catch (error) {
-      console.warn('Failed to save GUI settings:', error);
-    }
+    // Grid size and warp mode are persisted for the default surface, other surfaces store their own
+    const defaultWarper = this.mapper.getWarper(DEFAULT_SURFACE_NAME);
+    const persisted = {
+      ...this.settings,
+      gridSize: { x: defaultWarper.getGridSizeX(), y: defaultWarper.getGridSizeY() },
+      warpMode: defaultWarper.getWarpMode(),
+      version: STORAGE_VERSION,
+    };
+    whenResolved(
+      () => this.mapper.getStore().set(this.STORAGE_KEY, JSON.stringify(persisted)),
+      () => {},
+      (error) => console.warn('Failed to save GUI settings:', error),
+    );
   }
 
-  private loadSettings(): void {
-    try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      if (!saved) return;
-
-      const loaded = JSON.parse(saved) as Partial<ProjectionMapperGUISettings> & { version?: number };
-      if (loaded.version !== STORAGE_VERSION) {
-        localStorage.removeItem(this.STORAGE_KEY);
-        return;
+  /**
+   * Keeps the stored fields that still have the type of the current setting; fields an older version
+   * did not store, or stored differently, keep their defaults. Bindings hold the nested objects,
+   * so they are updated in place.
+   */
+  private mergeStoredSettings(settings: Record<string, unknown>, stored: Record<string, unknown>): void {
+    for (const key of Object.keys(settings)) {
+      const current = settings[key];
+      const value = stored[key];
+      if (typeof current === 'object' && current !== null) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+          this.mergeStoredSettings(current as Record<string, unknown>, value as Record<string, unknown>);
+        }
+      } else if (typeof value === typeof current) {
+        settings[key] = value;
       }
-      Object.assign(this.settings, loaded);
-    } catch (error) {
-      console.warn('Failed to load GUI settings:', error);
     }
   }
+
+  private loadSettings(onLoaded: () => void): void {
+    const store = this.mapper.getStore();
+    whenResolved(
+      () => store.get(this.STORAGE_KEY),
+      (saved) => {
+        const loaded = saved ? (JSON.parse(saved) as Record<string, unknown> & { version?: number }) : null;
+        // Settings of a newer version can't be read, those of older versions are migrated
+        if (loaded && (loaded.version ?? 0) > STORAGE_VERSION) store.remove(this.STORAGE_KEY);
+        else if (loaded) this.mergeStoredSettings(this.settings as unknown as Record<string, unknown>, loaded);
+        onLoaded();
+      },
+      (error) => {
+        console.warn('Failed to load GUI settings:', error);
+        onLoaded();
+      },
+    );
+  }
 }
 
 export default ProjectionMapperGUI;
@@ -1,30 +1,128 @@
 import * as THREE from 'three';
 import { calculateFovFromThrowRatio } from '../utils/projection';
 
+/** Throw ratios of a zoom lens, as on the spec sheet: min at the wide end, max at the tele end */
+export interface ThrowRatioRange {
+  min: number;
+  max: number;
+}
+
+export interface PhysicalProjectorConfig {
+  /** Distance from the lens to the screen, in metres */
+  distance: number;
+  /** Width of the projected image on the screen at that distance, in metres */
+  screenWidth: number;
+  /** Native resolution of the projector, gives the aspect ratio */
+  resolution: { width: number; height: number };
+  /** Lens shift in percent of the image width (x) and height (y), see setLensShiftPercent() */
+  lensShiftPercent?: { x: number; y: number };
+  throwRatioRange?: ThrowRatioRange;
+  near?: number;
+  far?: number;
+}
+
 /**
  * Perspective camera configured for real-world projector optics.
  *
- * Handles throw ratio (distance-to-width ratio) and vertical lens shift,
+ * Handles throw ratio (distance-to-width ratio) and lens shift,
  * common parameters in professional projection systems that allow physical
  * keystone correction without digital warping.
+ *
+ * lensShiftX and lensShiftY are in half images, the units of the projection matrix: 1 puts the lens
+ * axis on the left or bottom edge of the image, the image moved right or up by half its size. Spec
+ * sheets quote this as an offset of 100%, or as a lens shift of 50% of the image width or height.
  */
 export class ProjectorCamera extends THREE.PerspectiveCamera {
-  public readonly throwRatio: number;
+  private _throwRatio: number;
+  public lensShiftX: number;
   public lensShiftY: number;
+  /** Throw ratios the zoom lens can reach, null for a fixed lens */
+  public throwRatioRange: ThrowRatioRange | null = null;
 
   constructor(throwRatio: number, lensShiftY: number, aspect: number, near: number = 0.1, far: number = 1000) {
     const fov = calculateFovFromThrowRatio(throwRatio, aspect);
     super(fov, aspect, near, far);
-    this.throwRatio = throwRatio;
+    this._throwRatio = throwRatio;
+    this.lensShiftX = 0;
     this.lensShiftY = lensShiftY;
     this.updateProjectionMatrix();
   }
 
+  /** Camera for a projector measured on site: the throw ratio follows from distance and image width */
+  static fromPhysical(config: PhysicalProjectorConfig): ProjectorCamera {
+    const { distance, screenWidth, resolution } = config;
+    if (!(distance > 0) || !(screenWidth > 0)) {
+      throw new Error('ProjectorCamera: distance and screen width must be positive');
+    }
+    const camera = new ProjectorCamera(distance / screenWidth, 0, resolution.width / resolution.height, config.near, config.far);
+    camera.throwRatioRange = config.throwRatioRange ?? null;
+    if (config.lensShiftPercent) camera.setLensShiftPercent(config.lensShiftPercent.x, config.lensShiftPercent.y);
+    return camera;
+  }
+
+  get throwRatio(): number {
+    return this._throwRatio;
+  }
+
+  /** Changes the throw ratio, e.g. to a solved one, and updates the field of view */
+  setThrowRatio(throwRatio: number): void {
+    this._throwRatio = throwRatio;
+    this.fov = calculateFovFromThrowRatio(throwRatio, this.aspect);
+    this.updateProjectionMatrix();
+  }
+
+  /** Sets the throw ratio within throwRatioRange: 0 is the wide end (smallest throw ratio), 1 the tele end */
+  setZoomPosition(position: number): void {
+    if (!this.throwRatioRange) throw new Error('ProjectorCamera: no throw ratio range, the lens has no zoom');
+    const { min, max } = this.throwRatioRange;
+    this.setThrowRatio(min + THREE.MathUtils.clamp(position, 0, 1) * (max - min));
+  }
+
+  /** Where the throw ratio lies in throwRatioRange, null for a fixed lens. Outside 0-1 if the lens can't reach it. */
+  getZoomPosition(): number | null {
+    if (!this.throwRatioRange) return null;
+    const { min, max } = this.throwRatioRange;
+    return max > min ? (this._throwRatio - min) / (max - min) : 0;
+  }
+
+  /**
+   * Lens shift as on spec sheets: how far the image moves, in percent of the image width (x, positive is
+   * right) and height (y, positive is up). A vertical shift of 50% is lensShiftY 1.
+   */
+  setLensShiftPercent(x: number, y: number): void {
+    this.lensShiftX = x / 50;
+    this.lensShiftY = y / 50;
+    this.updateProjectionMatrix();
+  }
+
+  getLensShiftPercent(): { x: number; y: number } {
+    return { x: this.lensShiftX * 50, y: this.lensShiftY * 50 };
+  }
+
+  /** Size of the image on a screen square to the lens axis, in the units of the distance */
+  getImageSize(distance: number): { width: number; height: number } {
+    const width = distance / this._throwRatio;
+    return { width, height: width / this.aspect };
+  }
+
+  override copy(source: this, recursive?: boolean): this {
+    super.copy(source, recursive);
+    this._throwRatio = source._throwRatio;
+    this.lensShiftX = source.lensShiftX;
+    this.lensShiftY = source.lensShiftY;
+    this.throwRatioRange = source.throwRatioRange ? { ...source.throwRatioRange } : null;
+    this.updateProjectionMatrix();
+    return this;
+  }
+
   override updateProjectionMatrix(): void {
     super.updateProjectionMatrix();
-    // Modify projection matrix element [9] (row 2, col 1) to apply vertical lens shift
-    // This simulates physical projector lens shift by offsetting the view frustum vertically
+    // Modify projection matrix elements [8] and [9] (row 0 and 1, col 2) to apply lens shift
+    // This simulates physical projector lens shift by offsetting the view frustum
+    this.projectionMatrix.elements[8] = this.lensShiftX;
     this.projectionMatrix.elements[9] = this.lensShiftY;
+    // Keep unprojection, raycasting and frustum culling in line with the shifted frustum
+    this.projectionMatrixInverse.copy(this.projectionMatrix).invert();
   }
 }
 
@@ -1,6 +1,10 @@
 export const GUI_STORAGE_KEY = 'projection-mapper-gui-settings';
+export const DEFAULT_SURFACE_NAME = 'default';
 export const SHOW_ACES_TOGGLE = false;
-export const STORAGE_VERSION = 3; //when making breaking changes just increment so old data gets wiped
+export const CALIBRATION_FILE_NAME = 'projection-calibration.json';
+export const STORAGE_VERSION = 3; //increment on breaking changes: older settings are migrated field by field, newer ones wiped
+/** Version of exported calibration documents, bump it with a migration in CALIBRATION_MIGRATIONS */
+export const CALIBRATION_VERSION = 1;
 
 //Default initialized values if nothing from local storage is loaded
 export const DEFAULTS = {
@@ -13,9 +17,15 @@ export const DEFAULTS = {
 //just a clamp
 export const MESH_WARP_GRID_SIZE = {
   minimum: 2,
-  maximum: 10,
+  maximum: 64,
 } as const;
 
+// Mesh segments per grid cell at least: dense grids get a finer mesh than DEFAULTS.segments so the warp doesn't facet
+export const MIN_SEGMENTS_PER_GRID_CELL = 4;
+
+// Closest two grid columns or rows may get when inserting, as a fraction of the surface
+export const MIN_GRID_KNOT_SPACING = 0.01;
+
 export interface ImageSettings {
   maskEnabled: boolean;
   feather: number;
@@ -40,6 +50,171 @@ export const DEFAULT_IMAGE_SETTINGS: Readonly<ImageSettings> = {
   hue: 0.0,
 };
 
+/**
+ * Sub-rectangle of the input texture this mapper shows, in UV space (origin bottom-left).
+ * Used to split one large render target across several projectors; `overlap` widens the
+ * crop on every side (clamped to the texture) so neighbouring slices can be edge blended.
+ */
+export interface SourceCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  overlap: number;
+}
+
+export const DEFAULT_SOURCE_CROP: Readonly<SourceCrop> = { x: 0, y: 0, width: 1, height: 1, overlap: 0 };
+
+/**
+ * Soft-edge blend for overlapping projectors. Side widths are fractions of the surface (0-0.5),
+ * the ramp in the overlap follows Paul Bourke's blend curve with exponent `power`.
+ */
+export interface EdgeBlendSettings {
+  enabled: boolean;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  /** Steepness of the ramp, 1 = linear */
+  power: number;
+  /** Projector gamma the ramp is corrected for, so the overlap sums to even brightness */
+  gamma: number;
+  /** Lifts black outside the overlap to match the doubled black level inside it */
+  blackLevel: number;
+}
+
+export const DEFAULT_EDGE_BLEND: Readonly<EdgeBlendSettings> = {
+  enabled: false,
+  left: 0.0,
+  right: 0.0,
+  top: 0.0,
+  bottom: 0.0,
+  power: 2.0,
+  gamma: 2.2,
+  blackLevel: 0.0,
+};
+
+/**
+ * Brown-Conrady lens distortion of the projector, corrected by pre-distorting the output. Coordinates are
+ * relative to the distortion center, in half image heights, so the radius is 1 at the top and bottom edge
+ * of an image centered on the lens. Negative k1 is barrel distortion, typical for short-throw lenses.
+ */
+export interface LensDistortionSettings {
+  enabled: boolean;
+  /** Radial coefficients for r^2, r^4 and r^6 */
+  k1: number;
+  k2: number;
+  k3: number;
+  /** Tangential (decentering) coefficients */
+  p1: number;
+  p2: number;
+  /** Distortion center in NDC (-1 to 1), the lens axis: off center for lens-shifted projectors */
+  centerX: number;
+  centerY: number;
+}
+
+export const DEFAULT_LENS_DISTORTION: Readonly<LensDistortionSettings> = {
+  enabled: false,
+  k1: 0.0,
+  k2: 0.0,
+  k3: 0.0,
+  p1: 0.0,
+  p2: 0.0,
+  centerX: 0.0,
+  centerY: 0.0,
+};
+
+/** How strongly soft selection moves a point, from the dragged point (1) to the radius (0) */
+export type SoftSelectionFalloff = 'smooth' | 'linear' | 'sharp' | 'root' | 'sphere' | 'constant';
+
+/** Grid drags also move the points around the dragged one, within a radius given as a fraction of the plane width (0 = off) */
+export interface SoftSelectionSettings {
+  radius: number;
+  falloff: SoftSelectionFalloff;
+}
+
+export const DEFAULT_SOFT_SELECTION: Readonly<SoftSelectionSettings> = { radius: 0, falloff: 'smooth' };
+
+/** Undo history: maximum number of steps, and how long continuous edits keep merging into one step */
+export const HISTORY = {
+  limit: 100,
+  mergeWindowMs: 1000,
+} as const;
+
+export const TRANSITION = {
+  durationMs: 1000,
+  easing: 'easeInOutCubic',
+} as const;
+
+/**
+ * Structured-light auto calibration. Intensities are 0-255 camera values, radii in camera pixels.
+ * Phase shifting refines the Gray code to sub-pixel precision, `phaseSteps: 0` projects Gray code only.
+ */
+export const STRUCTURED_LIGHT = {
+  minContrast: 20,
+  phaseSteps: 4,
+  phasePeriod: 32,
+  dropLowBits: 0,
+  sampleRadius: 2,
+  searchRadius: 16,
+  settleMs: 300,
+} as const;
+
+/** Projector pose solving from point correspondences, see projectorPose.ts */
+export const PROJECTOR_POSE = {
+  minPoints: 4,
+  minCalibrationPoints: 6,
+  maxIterations: 100,
+} as const;
+
+/** Model mapping: lens of the projector camera created for a model, near and far in model units */
+export const MODEL_MAPPING = {
+  throwRatio: 1.5,
+  lensShiftY: 0,
+  near: 0.01,
+  far: 1000,
+} as const;
+
+/** Markers of model point picking: crosshair radius in projector pixels, dot size in screen pixels */
+export const MODEL_PICKING_STYLE = {
+  crosshairPixelRadius: 12,
+  dotPixelSize: 8,
+  targetColor: 'orange',
+  projectedColor: 'hsl(190, 90%, 60%)',
+  pendingColor: 'hsl(300, 70%, 70%)',
+} as const;
+
+/**
+ * Projective texturing: a point is occluded if it is more than depthBias (scene units along the lens
+ * axis) behind the depth map, the slack for depth precision. Unlit surfaces show unlitColor.
+ */
+export const PROJECTOR_TEXTURE = {
+  depthBias: 0.01,
+  unlitColor: 'hsl(0, 0%, 8%)',
+} as const;
+
+/**
+ * ProjectorCameraHelper: the frustum ends at frustumLength (scene units) where it hits nothing, the image
+ * outline on geometry is sampled at outlineSegments rays per edge. The label is labelHeight of the image tall.
+ */
+export const PROJECTOR_HELPER_STYLE = {
+  frustumLength: 5,
+  outlineSegments: 32,
+  frustumColor: 'hsl(50, 90%, 60%)',
+  outlineColor: 'orange',
+  labelHeight: 0.08,
+  labelFont: '32px sans-serif',
+} as const;
+
+/**
+ * Warp import from other tools. UVs closer than uvTolerance count as the same grid column or row,
+ * meshes that are not a regular UV grid are resampled to resampleGridSize unless a size is given.
+ */
+export const WARP_IMPORT = {
+  uvTolerance: 1e-4,
+  resampleGridSize: { x: 9, y: 9 },
+} as const;
+
 export const DEFAULT_POLYGON_FEATHER = 0.0;
 export const MAX_POLYGON_POINTS = 16;
 
@@ -47,10 +222,23 @@ export const MAX_POLYGON_POINTS = 16;
 export const WARP_HANDLE_STYLE = {
   cornerPointPixelRadius: 20,
   gridPointPixelRadius: 15,
+  tangentPointPixelRadius: 9,
   outlineLineWidth: 4,
   cornerColor: 'hsl(23, 80%, 80%)',
   gridColor: 'orange',
   outlineColor: 'orange',
+  tangentColor: 'hsl(300, 70%, 70%)',
+  softSelectionColor: 'hsl(190, 90%, 60%)',
+  selectedColor: 'hsl(190, 90%, 60%)',
+  lockedColor: 'hsl(0, 0%, 55%)',
+  lockedOpacity: 0.5,
+} as const;
+
+/** Arrow-key nudging of selected warp handles, in projector pixels. Shift = coarse, Alt = fine. */
+export const NUDGE_STEP = {
+  pixels: 1,
+  coarseMultiplier: 10,
+  fineMultiplier: 0.1,
 } as const;
 
 /** Visual style of polygon mask handles. Sizes in screen pixels. */
@@ -0,0 +1,124 @@
+/*
+CommandHistory
+--------------
+Undo/redo stack of snapshot entries. Each entry stores the state before and after an edit
+and a function that applies either of them, so undo and redo are symmetric and no edit
+needs a hand-written inverse.
+
+Continuous edits (slider scrubbing) push many entries in quick succession. Consecutive
+entries with the same mergeKey inside the merge window collapse into one step that keeps
+the oldest `before` and the newest `after`. Drags are recorded once on dragend and don't need merging.
+*/
+import { HISTORY } from '../core/defaults';
+
+export interface HistoryEntry<T = unknown> {
+  label: string;
+  before: T;
+  after: T;
+  apply: (state: T) => void;
+  mergeKey?: string;
+}
+
+interface StackedEntry extends HistoryEntry {
+  time: number;
+}
+
+export class CommandHistory {
+  private undoStack: StackedEntry[] = [];
+  private redoStack: StackedEntry[] = [];
+  private applying = false;
+  private onChangeCallbacks: Array<() => void> = [];
+
+  private limit: number;
+  private mergeWindowMs: number;
+
+  constructor(limit: number = HISTORY.limit, mergeWindowMs: number = HISTORY.mergeWindowMs) {
+    this.limit = limit;
+    this.mergeWindowMs = mergeWindowMs;
+  }
+
+  /** Records an edit that already happened. Ignored while undoing/redoing and for no-op edits. */
+  push<T>(entry: HistoryEntry<T>): void {
+    if (this.applying) return;
+    if (JSON.stringify(entry.before) === JSON.stringify(entry.after)) return;
+
+    const now = Date.now();
+    const top = this.undoStack[this.undoStack.length - 1];
+    if (top && entry.mergeKey !== undefined && top.mergeKey === entry.mergeKey && now - top.time < this.mergeWindowMs) {
+      top.after = entry.after;
+      top.time = now;
+    } else {
+      this.undoStack.push({ ...(entry as HistoryEntry), time: now });
+      if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+    this.withoutRecording(() => entry.apply(entry.before));
+    this.redoStack.push(entry);
+    // The next edit starts from the undone state, it must not merge into the step below
+    const top = this.undoStack[this.undoStack.length - 1];
+    if (top) top.time = -Infinity;
+    this.notify();
+    return true;
+  }
+
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+    this.withoutRecording(() => entry.apply(entry.after));
+    // Never merge a redone step with the next edit
+    this.undoStack.push({ ...entry, time: -Infinity });
+    this.notify();
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Label of the step undo() would revert, e.g. for a tooltip */
+  peekUndo(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  peekRedo(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * Register callback for when the stacks change
+   */
+  onChange(callback: () => void): void {
+    this.onChangeCallbacks.push(callback);
+  }
+
+  /** Runs compound edits that record themselves as one step, their nested edits are not recorded. */
+  withoutRecording(edit: () => void): void {
+    const wasApplying = this.applying;
+    this.applying = true;
+    try {
+      edit();
+    } finally {
+      this.applying = wasApplying;
+    }
+  }
+
+  private notify(): void {
+    this.onChangeCallbacks.forEach((cb) => cb());
+  }
+}
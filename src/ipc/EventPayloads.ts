@@ -1,5 +1,11 @@
 import { ProjectionEventType } from './EventTypes';
-import type { ImageSettings } from '../core/defaults';
+import type { EdgeBlendSettings, ImageSettings, LensDistortionSettings, SourceCrop } from '../core/defaults';
+import type { CalibrationDocument } from '../calibration/Calibration';
+import type { EasingName } from '../utils/math';
+import type { StructuredLightPattern } from '../calibration/structuredLight';
+import type { WarpKnots, WarpLocks, WarpState, WarpTangents } from '../warp/MeshWarper';
+import type { MappingMode } from '../core/ProjectionMapper';
+import type { ProjectorIntrinsics, ProjectorPose } from '../calibration/projectorPose';
 
 /**
  * Normalized point format (0-1 range) for resolution-independent serialization
@@ -36,20 +42,40 @@ export interface PolygonMaskSyncState {
   feather: number;
 }
 
+/**
+ * Warp state of a single named surface
+ */
+export interface SurfaceSyncState {
+  name: string;
+  visible: boolean;
+  uvRect: { x: number; y: number; width: number; height: number };
+  cornerPoints: NormalizedPoint[];
+  gridPoints: NormalizedPoint[];
+  referenceGridPoints: NormalizedPoint[];
+  gridSize: GridSize;
+  warpMode: number;
+  locked?: WarpLocks;
+  knots?: WarpKnots;
+  tangents?: WarpTangents;
+}
+
 /**
  * Complete projection state for full synchronization
  */
 export interface FullProjectionState {
-  // Control points (normalized 0-1)
+  // Control points of the active surface (normalized 0-1)
   cornerPoints: NormalizedPoint[];
   gridPoints: NormalizedPoint[];
   referenceGridPoints: NormalizedPoint[];
 
   // Grid configuration
   gridSize: GridSize;
+  knots?: WarpKnots;
+  tangents?: WarpTangents;
 
   // Warp settings
-  warpMode: number; // 0 = BILINEAR, 1 = BICUBIC
+  warpMode: number; // 0 = BILINEAR, 1 = BICUBIC, 2 = BEZIER
+  locked?: WarpLocks;
   shouldWarp: boolean;
 
   // Visual settings
@@ -64,8 +90,26 @@ export interface FullProjectionState {
   // Image adjustments
   imageSettings: ImageSettings;
 
+  // Edge blend (optional — absent leaves the projector's blend unchanged)
+  edgeBlend?: EdgeBlendSettings;
+
+  // Lens distortion correction (optional — absent leaves the projector's correction unchanged)
+  lensDistortion?: LensDistortionSettings;
+
+  // Slice of the shared input texture (optional — absent leaves the projector's crop unchanged)
+  sourceCrop?: SourceCrop;
+
   // Polygon mask (optional — absent means no mask active)
   polygonMask?: PolygonMaskSyncState;
+
+  // All warp surfaces, including the active one described above
+  activeSurface?: string;
+  surfaces?: SurfaceSyncState[];
+
+  // Model mapping (optional — ignored by windows without a model)
+  mappingMode?: MappingMode;
+  modelPose?: ProjectorPose;
+  modelIntrinsics?: ProjectorIntrinsics;
 }
 
 /**
@@ -73,10 +117,22 @@ export interface FullProjectionState {
  * Maps each event type to its specific payload shape
  */
 export interface ProjectionEventPayloads {
-  [ProjectionEventType.CORNER_POINTS_UPDATED]: { points: NormalizedPoint[] };
-  [ProjectionEventType.GRID_POINTS_UPDATED]: { points: NormalizedPoint[]; referencePoints: NormalizedPoint[] };
-  [ProjectionEventType.GRID_SIZE_CHANGED]: { gridSize: GridSize };
-  [ProjectionEventType.WARP_MODE_CHANGED]: { mode: number };
+  // `surface` targets a named warp surface, absent means the active one
+  [ProjectionEventType.CORNER_POINTS_UPDATED]: { points: NormalizedPoint[]; surface?: string };
+  [ProjectionEventType.GRID_POINTS_UPDATED]: {
+    points: NormalizedPoint[];
+    referencePoints: NormalizedPoint[];
+    // Bezier tangents, absent from senders that don't change them
+    tangents?: WarpTangents;
+    surface?: string;
+  };
+  [ProjectionEventType.POINT_LOCKS_CHANGED]: { locked: WarpLocks; surface?: string };
+  [ProjectionEventType.GRID_SIZE_CHANGED]: { gridSize: GridSize; surface?: string };
+  // Inserted or deleted columns and rows, with the whole warp since every grid point can move
+  [ProjectionEventType.GRID_LAYOUT_CHANGED]: { warp: WarpState; surface?: string };
+  [ProjectionEventType.SURFACE_SELECTED]: { name: string };
+  [ProjectionEventType.SURFACE_VISIBILITY_CHANGED]: { name: string; visible: boolean };
+  [ProjectionEventType.WARP_MODE_CHANGED]: { mode: number; surface?: string };
   [ProjectionEventType.SHOULD_WARP_CHANGED]: { shouldWarp: boolean };
   [ProjectionEventType.TESTCARD_TOGGLED]: { show: boolean };
   [ProjectionEventType.WHITE_OUT_TOGGLED]: { show: boolean };
@@ -89,8 +145,21 @@ export interface ProjectionEventPayloads {
   [ProjectionEventType.REQUEST_FULL_STATE]: {};
   [ProjectionEventType.FULL_STATE_SYNC]: { state: FullProjectionState };
   [ProjectionEventType.IMAGE_SETTINGS_CHANGED]: { settings: ImageSettings };
+  [ProjectionEventType.EDGE_BLEND_CHANGED]: { settings: EdgeBlendSettings };
+  [ProjectionEventType.LENS_DISTORTION_CHANGED]: { settings: LensDistortionSettings };
+  [ProjectionEventType.SOURCE_CROP_CHANGED]: { crop: SourceCrop };
   [ProjectionEventType.POLYGON_MASK_NODES_CHANGED]: { nodes: { u: number; v: number }[] };
   [ProjectionEventType.POLYGON_MASK_SETTINGS_CHANGED]: { enabled: boolean; inverted: boolean; feather: number };
   [ProjectionEventType.POLYGON_MASK_REMOVED]: {};
-  [ProjectionEventType.RESET_WARP]: {};
+  [ProjectionEventType.CALIBRATION_APPLIED]: { calibration: CalibrationDocument };
+  [ProjectionEventType.CALIBRATION_TRANSITION]: {
+    calibration: CalibrationDocument;
+    durationMs: number;
+    easing: EasingName;
+  };
+  [ProjectionEventType.CALIBRATION_PATTERN_CHANGED]: { pattern: StructuredLightPattern | null };
+  [ProjectionEventType.MAPPING_MODE_CHANGED]: { mode: MappingMode };
+  [ProjectionEventType.MODEL_POSE_CHANGED]: { pose: ProjectorPose };
+  [ProjectionEventType.MODEL_INTRINSICS_CHANGED]: { intrinsics: ProjectorIntrinsics };
+  [ProjectionEventType.RESET_WARP]: { surface?: string };
 }
@@ -6,9 +6,15 @@ export const enum ProjectionEventType {
   // Control point updates
   CORNER_POINTS_UPDATED = 'CORNER_POINTS_UPDATED',
   GRID_POINTS_UPDATED = 'GRID_POINTS_UPDATED',
+  POINT_LOCKS_CHANGED = 'POINT_LOCKS_CHANGED',
 
   // Grid configuration
   GRID_SIZE_CHANGED = 'GRID_SIZE_CHANGED',
+  GRID_LAYOUT_CHANGED = 'GRID_LAYOUT_CHANGED',
+
+  // Warp surfaces
+  SURFACE_SELECTED = 'SURFACE_SELECTED',
+  SURFACE_VISIBILITY_CHANGED = 'SURFACE_VISIBILITY_CHANGED',
 
   // Warp settings
   WARP_MODE_CHANGED = 'WARP_MODE_CHANGED',
@@ -26,12 +32,25 @@ export const enum ProjectionEventType {
 
   // Image adjustments
   IMAGE_SETTINGS_CHANGED = 'IMAGE_SETTINGS_CHANGED',
+  EDGE_BLEND_CHANGED = 'EDGE_BLEND_CHANGED',
+  LENS_DISTORTION_CHANGED = 'LENS_DISTORTION_CHANGED',
+  SOURCE_CROP_CHANGED = 'SOURCE_CROP_CHANGED',
 
   // Polygon mask
   POLYGON_MASK_NODES_CHANGED = 'POLYGON_MASK_NODES_CHANGED',
   POLYGON_MASK_SETTINGS_CHANGED = 'POLYGON_MASK_SETTINGS_CHANGED',
   POLYGON_MASK_REMOVED = 'POLYGON_MASK_REMOVED',
 
+  // Calibration
+  CALIBRATION_APPLIED = 'CALIBRATION_APPLIED',
+  CALIBRATION_TRANSITION = 'CALIBRATION_TRANSITION',
+  CALIBRATION_PATTERN_CHANGED = 'CALIBRATION_PATTERN_CHANGED',
+
+  // Model mapping
+  MAPPING_MODE_CHANGED = 'MAPPING_MODE_CHANGED',
+  MODEL_POSE_CHANGED = 'MODEL_POSE_CHANGED',
+  MODEL_INTRINSICS_CHANGED = 'MODEL_INTRINSICS_CHANGED',
+
   // Lifecycle events
   CONTROLLER_READY = 'CONTROLLER_READY',
   PROJECTOR_READY = 'PROJECTOR_READY',
@@ -6,17 +6,129 @@
  * - ProjectionMapperGUI: Optional GUI controls
  * - ProjectorCamera: Hardware-matched camera with lens shift support
  * - MeshWarper: Low-level warp mesh (advanced usage)
+ * - ModelSurface: Mapping onto a 3D model, through a solved projector pose
+ * - ProjectorTextureMaterial: Projects a texture from a ProjectorCamera onto scene geometry
  *
  * For multi-window support, import from 'three-projection-mapper/addons'
  */
 
-export { ProjectionMapper, type ProjectionMapperConfig } from './core/ProjectionMapper';
-export { DEFAULT_IMAGE_SETTINGS, type ImageSettings } from './core/defaults';
+export {
+  ProjectionMapper,
+  type ProjectionMapperConfig,
+  type WarpSurfaceConfig,
+  type ImportCalibrationOptions,
+  type MappingMode,
+  type ModelMappingConfig
+} from './core/ProjectionMapper';
+export {
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_LENS_DISTORTION,
+  DEFAULT_SOURCE_CROP,
+  DEFAULT_SOFT_SELECTION,
+  DEFAULT_SURFACE_NAME,
+  CALIBRATION_VERSION,
+  MIN_SEGMENTS_PER_GRID_CELL,
+  type ImageSettings,
+  type EdgeBlendSettings,
+  type LensDistortionSettings,
+  type SourceCrop,
+  type SoftSelectionSettings,
+  type SoftSelectionFalloff
+} from './core/defaults';
 export {
   ProjectionMapperGUI,
   type GUIAnchor,
   type ProjectionMapperGUIConfig
 } from './core/ProjectionMapperGUI';
-export { ProjectorCamera } from './core/ProjectorCamera';
-export { MeshWarper, WARP_MODE, type MeshWarperConfig } from './warp/MeshWarper';
+export { ProjectorCamera, type PhysicalProjectorConfig, type ThrowRatioRange } from './core/ProjectorCamera';
+export {
+  MeshWarper,
+  WARP_MODE,
+  FULL_UV_RECT,
+  type MeshWarperConfig,
+  type UVRect,
+  type WarpState,
+  type WarpLocks,
+  type WarpKnots,
+  type WarpTangents,
+  type WarpSymmetry
+} from './warp/MeshWarper';
+export { WarpGridModel, type WarpGridModelConfig } from './warp/WarpGridModel';
 export { PolygonMask, type UVPoint } from './mask/PolygonMask';
+export { ModelSurface, type ModelSurfaceConfig, type ModelCameraState } from './model/ModelSurface';
+export { ModelPointPicker, type ModelPointPickerConfig } from './model/ModelPointPicker';
+export {
+  ProjectorTextureMaterial,
+  createProjectorTextureUniforms,
+  updateProjectorTextureUniforms,
+  projectorTextureChunk,
+  type ProjectorTextureMaterialConfig
+} from './model/ProjectorTextureMaterial';
+export { ProjectorDepthMap } from './model/ProjectorDepthMap';
+export {
+  solveProjectorPose,
+  solveProjectorCalibration,
+  projectToPixel,
+  type PointCorrespondence,
+  type ProjectorPose,
+  type ProjectorIntrinsics,
+  type PoseSolution,
+  type CalibrationSolution,
+  type SolvePoseOptions
+} from './calibration/projectorPose';
+export { type CalibrationStore, type MaybePromise, NamespacedStore } from './storage/CalibrationStore';
+export { LocalStorageStore } from './storage/LocalStorageStore';
+export { MemoryStore } from './storage/MemoryStore';
+export { IndexedDBStore } from './storage/IndexedDBStore';
+export {
+  CalibrationValidationError,
+  validateCalibration,
+  validateWarp,
+  migrateCalibration,
+  CALIBRATION_FORMAT,
+  type CalibrationDocument,
+  type SurfaceCalibration,
+  type PolygonMaskCalibration
+} from './calibration/Calibration';
+export {
+  readStoredCalibration,
+  calibrationFromStoredValues,
+  type StoredCalibrationValues
+} from './calibration/storedCalibration';
+export {
+  parseWarp,
+  parseObj,
+  parsePly,
+  meshToWarpState,
+  csvToWarpState,
+  warpFormatFromFileName,
+  WarpImportError,
+  type WarpImportFormat,
+  type WarpImportOptions,
+  type WarpCoordinateSpace,
+  type WarpMesh
+} from './calibration/warpImport';
+export { PresetManager, PRESET_STORAGE_KEY, type CalibrationPreset } from './presets/PresetManager';
+export { EASING, type EasingName } from './utils/math';
+export { distortPoint } from './utils/lensDistortion';
+export {
+  StructuredLightCalibrator,
+  captureFrame,
+  loadFrame,
+  openCameraStream,
+  type StructuredLightCalibratorConfig,
+  type AutoCalibrationOptions,
+  type FrameSource
+} from './calibration/StructuredLightCalibrator';
+export {
+  createPatternSequence,
+  decodeStructuredLight,
+  solveControlPoints,
+  createWarpState,
+  renderPattern,
+  type StructuredLightPattern,
+  type CapturedFrame,
+  type CorrespondenceMap,
+  type SolvedControlPoints
+} from './calibration/structuredLight';
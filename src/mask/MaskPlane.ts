@@ -1,7 +1,7 @@
 /*
 MaskPlane
 ---------
-A perspective-correct quad that renders masks (feather, polygon) as a black alpha
+A perspective-correct quad that renders masks (feather, polygon, edge blend) as a black alpha
 cutout in front of the content plane, without being affected by grid warp.
 
 It uses perspective.vert, which applies the same PerspT homography as the drag
@@ -14,7 +14,8 @@ import * as THREE from 'three';
 import maskFragmentShader from '../shaders/mask.frag';
 import perspectiveVertexShader from '../shaders/perspective.vert';
 import { RenderOrder } from '../core/RenderOrder';
-import { DEFAULT_POLYGON_FEATHER, MAX_POLYGON_POINTS } from '../core/defaults';
+import { DEFAULT_EDGE_BLEND, DEFAULT_POLYGON_FEATHER, MAX_POLYGON_POINTS } from '../core/defaults';
+import type { EdgeBlendSettings } from '../core/defaults';
 import type { UVPoint } from './PolygonMask';
 
 export interface MaskPlaneConfig {
@@ -43,6 +44,11 @@ export class MaskPlane {
     uPolygonPointCount: { value: number };
     uPolygonPoints: { value: THREE.Vector2[] };
     uPolygonFeather: { value: number };
+    uEdgeBlendEnabled: { value: boolean };
+    uEdgeBlendWidths: { value: THREE.Vector4 };
+    uEdgeBlendPower: { value: number };
+    uEdgeBlendGamma: { value: number };
+    uEdgeBlendBlackLevel: { value: number };
     uShouldWarp: { value: boolean };
     uShowBorderLines: { value: boolean };
   };
@@ -68,6 +74,11 @@ export class MaskPlane {
       uPolygonPointCount: { value: 0 },
       uPolygonPoints: { value: Array.from({ length: MAX_POLYGON_POINTS }, () => new THREE.Vector2()) },
       uPolygonFeather: { value: DEFAULT_POLYGON_FEATHER },
+      uEdgeBlendEnabled: { value: DEFAULT_EDGE_BLEND.enabled },
+      uEdgeBlendWidths: { value: new THREE.Vector4() },
+      uEdgeBlendPower: { value: DEFAULT_EDGE_BLEND.power },
+      uEdgeBlendGamma: { value: DEFAULT_EDGE_BLEND.gamma },
+      uEdgeBlendBlackLevel: { value: DEFAULT_EDGE_BLEND.blackLevel },
       uShouldWarp: { value: false },
       uShowBorderLines: { value: true },
     };
@@ -138,6 +149,14 @@ export class MaskPlane {
     this.uniforms.uPolygonFeather.value = feather;
   }
 
+  setEdgeBlend(settings: EdgeBlendSettings): void {
+    this.uniforms.uEdgeBlendEnabled.value = settings.enabled;
+    this.uniforms.uEdgeBlendWidths.value.set(settings.left, settings.right, settings.top, settings.bottom);
+    this.uniforms.uEdgeBlendPower.value = settings.power;
+    this.uniforms.uEdgeBlendGamma.value = settings.gamma;
+    this.uniforms.uEdgeBlendBlackLevel.value = settings.blackLevel;
+  }
+
   setShouldWarp(enabled: boolean): void {
     this.uniforms.uShouldWarp.value = enabled;
   }
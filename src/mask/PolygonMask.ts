@@ -26,6 +26,8 @@ import * as THREE from 'three';
 import { DragControls } from 'three/examples/jsm/controls/DragControls.js';
 import { RenderOrder } from '../core/RenderOrder';
 import { MAX_POLYGON_POINTS, POLYGON_HANDLE_STYLE } from '../core/defaults';
+import { whenResolved, type CalibrationStore } from '../storage/CalibrationStore';
+import { LocalStorageStore } from '../storage/LocalStorageStore';
 
 export interface UVPoint {
   u: number;
@@ -48,6 +50,7 @@ export class PolygonMask {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
   private renderer: THREE.WebGLRenderer;
+  private store: CalibrationStore;
 
   private anchorObjects: THREE.Mesh[] = [];
   private outlineLine!: THREE.LineLoop;
@@ -63,7 +66,11 @@ export class PolygonMask {
   private boundDblClickHandler!: (e: MouseEvent) => void;
   private boundMouseMoveHandler!: (e: MouseEvent) => void;
 
+  private dragStartNodes: UVPoint[] | null = null;
+
   public onChanged: () => void = () => {};
+  /** Called after a drag, insert or removal, with the nodes from before the edit. */
+  public onEdit: (before: UVPoint[]) => void = () => {};
 
   get nodes(): readonly UVPoint[] {
     return this.nodeList;
@@ -76,18 +83,23 @@ export class PolygonMask {
     worldWidth: number,
     worldHeight: number,
     nodes?: UVPoint[],
+    store: CalibrationStore = new LocalStorageStore(),
   ) {
     this.scene = scene;
     this.camera = camera;
     this.renderer = renderer;
     this.worldWidth = worldWidth;
     this.worldHeight = worldHeight;
+    this.store = store;
 
-    this.nodeList = nodes ?? this.loadFromStorage() ?? [...DEFAULT_NODES];
+    this.nodeList = nodes ? [...nodes] : [...DEFAULT_NODES];
 
     this.buildObjects();
     this.initDragControls();
-    this.saveToStorage(); // persist immediately so refresh restores the mask
+
+    // persist immediately so refresh restores the mask
+    if (nodes) this.saveToStorage();
+    else this.loadFromStorage();
   }
 
   private uvToWorld(uv: UVPoint): THREE.Vector2 {
@@ -149,10 +161,21 @@ export class PolygonMask {
   }
 
   private attachDragListeners(): void {
+    this.dragControls.addEventListener('dragstart', () => {
+      this.dragStartNodes = this.copyNodes();
+    });
     this.dragControls.addEventListener('drag', (e) => {
       this.lastDragMoveTime = Date.now();
       this.handleDrag(e as { object: THREE.Object3D });
     });
+    this.dragControls.addEventListener('dragend', () => {
+      if (this.dragStartNodes) this.onEdit(this.dragStartNodes);
+      this.dragStartNodes = null;
+    });
+  }
+
+  private copyNodes(): UVPoint[] {
+    return this.nodeList.map((n) => ({ u: n.u, v: n.v }));
   }
 
   private recreateDragControls(): void {
@@ -163,6 +186,7 @@ export class PolygonMask {
 
   private insertNode(segmentIndex: number, uv: UVPoint): void {
     if (this.nodeList.length >= MAX_POLYGON_POINTS) return;
+    const before = this.copyNodes();
     const mesh = this.createAnchorMesh(uv);
     mesh.scale.setScalar(this.lastPixelToWorld * POLYGON_HANDLE_STYLE.anchorPointPixelRadius);
     mesh.visible = this.outlineLine.visible;
@@ -176,6 +200,7 @@ export class PolygonMask {
     this.recreateDragControls();
     this.saveToStorage();
     this.onChanged();
+    this.onEdit(before);
 
     this.ignoreNextDblClick = true;
     setTimeout(() => {
@@ -185,6 +210,7 @@ export class PolygonMask {
 
   private removeNode(nodeIndex: number): void {
     if (this.nodeList.length <= 3) return;
+    const before = this.copyNodes();
 
     const mesh = this.anchorObjects[nodeIndex];
     this.scene.remove(mesh);
@@ -198,6 +224,7 @@ export class PolygonMask {
     this.recreateDragControls();
     this.saveToStorage();
     this.onChanged();
+    this.onEdit(before);
   }
 
   /**
@@ -359,11 +386,13 @@ export class PolygonMask {
     for (const node of this.nodeList) {
       const mesh = this.createAnchorMesh(node);
       mesh.scale.setScalar(this.lastPixelToWorld * POLYGON_HANDLE_STYLE.anchorPointPixelRadius);
+      mesh.visible = this.outlineLine.visible;
       this.scene.add(mesh);
       this.anchorObjects.push(mesh);
     }
     this.rebuildOutline();
     this.recreateDragControls();
+    this.saveToStorage();
     this.onChanged();
   }
 
@@ -374,27 +403,36 @@ export class PolygonMask {
   }
 
   private saveToStorage(): void {
-    try {
-      localStorage.setItem(POLYGON_MASK_STORAGE_KEY, JSON.stringify(this.nodeList));
-    } catch {
-      /* ignore */
-    }
+    whenResolved(
+      () => this.store.set(POLYGON_MASK_STORAGE_KEY, JSON.stringify(this.nodeList)),
+      () => {},
+      () => {
+        /* ignore */
+      },
+    );
   }
 
-  private loadFromStorage(): UVPoint[] | null {
-    try {
-      const raw = localStorage.getItem(POLYGON_MASK_STORAGE_KEY);
-      if (!raw) return null;
-      const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed) && parsed.length >= 3) return parsed as UVPoint[];
-    } catch {
-      /* ignore */
-    }
-    return null;
+  // Restores stored nodes, or persists the defaults when nothing valid is stored
+  private loadFromStorage(): void {
+    whenResolved(
+      () => this.store.get(POLYGON_MASK_STORAGE_KEY),
+      (raw) => {
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (Array.isArray(parsed) && parsed.length >= 3) this.setNodes(parsed as UVPoint[]);
+        else this.saveToStorage();
+      },
+      () => this.saveToStorage(),
+    );
   }
 
   public clearStorage(): void {
-    localStorage.removeItem(POLYGON_MASK_STORAGE_KEY);
+    whenResolved(
+      () => this.store.remove(POLYGON_MASK_STORAGE_KEY),
+      () => {},
+      () => {
+        /* ignore */
+      },
+    );
   }
 
   public dispose(): void {
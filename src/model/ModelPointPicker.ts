@@ -0,0 +1,167 @@
+/*
+ModelPointPicker
+----------------
+Collects the correspondences for solving the projector by clicking in the output window, while
+the mapper renders the model through the current (guessed) projector camera:
+
+  1st click → on a feature of the rendered model, e.g. a corner. Picks its 3D model point.
+  2nd click → where that feature really is on the physical object. Adds the pair.
+  Escape    → drops a picked point that has no pixel yet.
+
+Markers are drawn on top of the output in projector pixels: a crosshair at every clicked pixel,
+a dot where the current camera projects its model point and a line between both, so the
+reprojection error is visible per point. A picked point without a pixel yet is a dot of its own.
+*/
+
+import * as THREE from 'three';
+import { MODEL_PICKING_STYLE } from '../core/defaults';
+import { RenderOrder } from '../core/RenderOrder';
+import { projectToPixel } from '../calibration/projectorPose';
+import type { ModelSurface } from './ModelSurface';
+
+export interface ModelPointPickerConfig {
+  renderer: THREE.WebGLRenderer;
+  model: ModelSurface;
+  /** Projection resolution, the canvas shows it stretched to its size */
+  resolution: { width: number; height: number };
+}
+
+export class ModelPointPicker {
+  readonly scene = new THREE.Scene();
+  /** Projector pixels from the top-left: top 0, bottom height */
+  readonly camera: THREE.OrthographicCamera;
+
+  private renderer: THREE.WebGLRenderer;
+  private model: ModelSurface;
+  private resolution: { width: number; height: number };
+  private enabled = false;
+  private pendingPoint: THREE.Vector3 | null = null;
+
+  private lines: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private projectedDots: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+  private pendingDot: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+
+  private boundPointerDownHandler: (event: PointerEvent) => void;
+  private boundKeyDownHandler: (event: KeyboardEvent) => void;
+
+  constructor(config: ModelPointPickerConfig) {
+    this.renderer = config.renderer;
+    this.model = config.model;
+    this.resolution = config.resolution;
+    this.camera = new THREE.OrthographicCamera(0, this.resolution.width, 0, this.resolution.height, -1, 1);
+
+    const dotMaterial = (color: string) =>
+      new THREE.PointsMaterial({ color, size: MODEL_PICKING_STYLE.dotPixelSize, sizeAttenuation: false, depthTest: false });
+    this.lines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: MODEL_PICKING_STYLE.targetColor, depthTest: false }),
+    );
+    this.projectedDots = new THREE.Points(new THREE.BufferGeometry(), dotMaterial(MODEL_PICKING_STYLE.projectedColor));
+    this.pendingDot = new THREE.Points(new THREE.BufferGeometry(), dotMaterial(MODEL_PICKING_STYLE.pendingColor));
+    [this.lines, this.projectedDots, this.pendingDot].forEach((object) => {
+      object.renderOrder = RenderOrder.CONTROLS;
+      object.frustumCulled = false;
+      this.scene.add(object);
+    });
+
+    this.boundPointerDownHandler = (event) => {
+      if (event.button !== 0) return;
+      this.handleClick(this.toPixel(event));
+    };
+    this.boundKeyDownHandler = (event) => {
+      if (event.key !== 'Escape' || !this.pendingPoint) return;
+      this.pendingPoint = null;
+      this.updateMarkers();
+    };
+
+    const update = () => this.updateMarkers();
+    this.model.onPoseChanged(update);
+    this.model.onIntrinsicsChanged(update);
+    this.model.onCorrespondencesChanged(update);
+    this.updateMarkers();
+  }
+
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    const canvas = this.renderer.domElement;
+    if (enabled) {
+      canvas.addEventListener('pointerdown', this.boundPointerDownHandler);
+      window.addEventListener('keydown', this.boundKeyDownHandler);
+      canvas.style.cursor = 'crosshair';
+    } else {
+      canvas.removeEventListener('pointerdown', this.boundPointerDownHandler);
+      window.removeEventListener('keydown', this.boundKeyDownHandler);
+      canvas.style.cursor = '';
+      this.pendingPoint = null;
+      this.updateMarkers();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** The model point waiting for its pixel, null if the next click picks one */
+  getPendingPoint(): THREE.Vector3 | null {
+    return this.pendingPoint?.clone() ?? null;
+  }
+
+  /** One step of picking, at a projector pixel from the top-left. Returns whether it did something. */
+  handleClick(pixel: { x: number; y: number }): boolean {
+    if (this.pendingPoint) {
+      this.model.addCorrespondence({ world: this.pendingPoint, pixel });
+      this.pendingPoint = null;
+    } else {
+      // Clicks beside the model pick nothing
+      this.pendingPoint = this.model.pickPoint(pixel);
+      if (!this.pendingPoint) return false;
+    }
+    this.updateMarkers();
+    return true;
+  }
+
+  private toPixel(event: PointerEvent): { x: number; y: number } {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * this.resolution.width,
+      y: ((event.clientY - rect.top) / rect.height) * this.resolution.height,
+    };
+  }
+
+  private updateMarkers(): void {
+    const camera = this.model.camera;
+    camera.updateMatrixWorld();
+    const viewProjection = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse);
+    const r = MODEL_PICKING_STYLE.crosshairPixelRadius;
+
+    const linePositions: number[] = [];
+    const dotPositions: number[] = [];
+    this.model.getCorrespondences().forEach(({ world, pixel }) => {
+      linePositions.push(pixel.x - r, pixel.y, 0, pixel.x + r, pixel.y, 0, pixel.x, pixel.y - r, 0, pixel.x, pixel.y + r, 0);
+      const projected = projectToPixel(viewProjection, world, this.resolution);
+      if (!projected) return;
+      linePositions.push(pixel.x, pixel.y, 0, projected.x, projected.y, 0);
+      dotPositions.push(projected.x, projected.y, 0);
+    });
+    const pending = this.pendingPoint && projectToPixel(viewProjection, this.pendingPoint, this.resolution);
+
+    this.setPositions(this.lines.geometry, linePositions);
+    this.setPositions(this.projectedDots.geometry, dotPositions);
+    this.setPositions(this.pendingDot.geometry, pending ? [pending.x, pending.y, 0] : []);
+    this.scene.visible = this.enabled;
+  }
+
+  private setPositions(geometry: THREE.BufferGeometry, positions: number[]): void {
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  }
+
+  dispose(): void {
+    this.setEnabled(false);
+    [this.lines, this.projectedDots, this.pendingDot].forEach((object) => {
+      this.scene.remove(object);
+      object.geometry.dispose();
+      object.material.dispose();
+    });
+  }
+}
@@ -0,0 +1,288 @@
+/*
+ModelSurface
+------------
+Model mapping: instead of warping a flat plane, the input texture is rendered onto a 3D model of
+the physical object (any BufferGeometry with UVs, e.g. loaded from GLTF or OBJ) through a
+ProjectorCamera that stands where the real projector does. The model's UVs pick the content,
+projection.frag shades it like a warp surface, so image settings and the test card apply.
+
+The pose of the projector is solved from point correspondences: a point on the model and the
+projector pixel that lands on it on the real object (see projectorPose.ts). With 6 or more
+points spanning a volume, calibrateProjector() also solves the lens of an unknown projector.
+Pose, lens and correspondences are persisted like warp points; the model itself is the application's, it has
+to be passed in every window that shows it.
+*/
+
+import * as THREE from 'three';
+import modelVertexShader from '../shaders/model.vert';
+import { RenderOrder } from '../core/RenderOrder';
+import { ProjectorCamera } from '../core/ProjectorCamera';
+import {
+  applyCameraPose,
+  getCameraPose,
+  solveProjectorCalibration,
+  solveProjectorPose,
+  type CalibrationSolution,
+  type PointCorrespondence,
+  type PoseSolution,
+  type ProjectorIntrinsics,
+  type ProjectorPose,
+} from '../calibration/projectorPose';
+import { whenResolved, type CalibrationStore } from '../storage/CalibrationStore';
+import { LocalStorageStore } from '../storage/LocalStorageStore';
+
+export const MODEL_STORAGE_KEY = 'model-surface';
+
+export interface ModelSurfaceConfig {
+  geometry: THREE.BufferGeometry;
+  camera: ProjectorCamera;
+  /** Projection resolution, correspondence pixels count from its top-left */
+  resolution: { width: number; height: number };
+  fragmentShader: string;
+  /** Uniforms shared with the warp surfaces: input texture, image settings, test card */
+  globalUniforms: Record<string, THREE.IUniform>;
+  store?: CalibrationStore;
+  storageKey?: string;
+}
+
+/** Everything a solve changes, for undo */
+export interface ModelCameraState {
+  pose: ProjectorPose;
+  intrinsics: ProjectorIntrinsics;
+}
+
+const copyCorrespondence = ({ world, pixel }: PointCorrespondence): PointCorrespondence => ({
+  world: { x: world.x, y: world.y, z: world.z },
+  pixel: { x: pixel.x, y: pixel.y },
+});
+
+interface StoredModelSurface {
+  pose: ProjectorPose;
+  intrinsics?: ProjectorIntrinsics;
+  correspondences: PointCorrespondence[];
+}
+
+export class ModelSurface {
+  readonly scene = new THREE.Scene();
+  readonly camera: ProjectorCamera;
+
+  private mesh: THREE.Mesh<THREE.BufferGeometry, THREE.ShaderMaterial>;
+  private correspondences: PointCorrespondence[] = [];
+  private resolution: { width: number; height: number };
+  private raycaster = new THREE.Raycaster();
+  private store: CalibrationStore;
+  private storageKey: string;
+  private onPoseChangedCallbacks: Array<(pose: ProjectorPose) => void> = [];
+  private onIntrinsicsChangedCallbacks: Array<(intrinsics: ProjectorIntrinsics) => void> = [];
+  private onCorrespondencesChangedCallbacks: Array<() => void> = [];
+
+  /** Called after a solve, with the camera state from before, for the undo step */
+  public onEdit: (before: ModelCameraState, label: string) => void = () => {};
+
+  constructor(config: ModelSurfaceConfig) {
+    this.camera = config.camera;
+    this.resolution = config.resolution;
+    this.store = config.store ?? new LocalStorageStore();
+    this.storageKey = config.storageKey ?? MODEL_STORAGE_KEY;
+
+    const material = new THREE.ShaderMaterial({
+      vertexShader: modelVertexShader,
+      fragmentShader: config.fragmentShader,
+      uniforms: {
+        ...config.globalUniforms,
+        uSourceRect: { value: new THREE.Vector4(0, 0, 1, 1) },
+        uShouldWarp: { value: true },
+        // Control lines outline the UV square
+        uGridSizeX: { value: 2 },
+        uGridSizeY: { value: 2 },
+      },
+    });
+    this.mesh = new THREE.Mesh(this.checkGeometry(config.geometry), material);
+    this.mesh.renderOrder = RenderOrder.CONTENT;
+    this.scene.add(this.mesh);
+
+    this.loadFromStorage();
+  }
+
+  private checkGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+    if (!geometry.getAttribute('uv')) throw new Error('ModelSurface: geometry has no uv attribute');
+    return geometry;
+  }
+
+  /** Swaps the model, e.g. for a revised scan. Pose and correspondences are kept. */
+  setGeometry(geometry: THREE.BufferGeometry): void {
+    this.mesh.geometry = this.checkGeometry(geometry);
+  }
+
+  getMesh(): THREE.Mesh {
+    return this.mesh;
+  }
+
+  getPose(): ProjectorPose {
+    return getCameraPose(this.camera);
+  }
+
+  /** Moves the projector camera, e.g. to a pose from a file or another window, and persists it */
+  setPose(pose: ProjectorPose): void {
+    applyCameraPose(this.camera, pose);
+    this.saveToStorage();
+    this.onPoseChangedCallbacks.forEach((cb) => cb(pose));
+  }
+
+  getIntrinsics(): ProjectorIntrinsics {
+    const { throwRatio, lensShiftX, lensShiftY } = this.camera;
+    return { throwRatio, lensShiftX, lensShiftY };
+  }
+
+  /** Changes the lens of the projector camera, e.g. to a solved or measured one, and persists it */
+  setIntrinsics(intrinsics: ProjectorIntrinsics): void {
+    this.applyIntrinsics(intrinsics);
+    this.saveToStorage();
+    this.onIntrinsicsChangedCallbacks.forEach((cb) => cb(intrinsics));
+  }
+
+  private applyIntrinsics({ throwRatio, lensShiftX, lensShiftY }: ProjectorIntrinsics): void {
+    this.camera.lensShiftX = lensShiftX;
+    this.camera.lensShiftY = lensShiftY;
+    this.camera.setThrowRatio(throwRatio);
+  }
+
+  getCameraState(): ModelCameraState {
+    return { pose: this.getPose(), intrinsics: this.getIntrinsics() };
+  }
+
+  setCameraState(state: ModelCameraState): void {
+    this.setIntrinsics(state.intrinsics);
+    this.setPose(state.pose);
+  }
+
+  /** Adds a point pair and returns its index */
+  addCorrespondence(correspondence: PointCorrespondence): number {
+    this.correspondences.push(copyCorrespondence(correspondence));
+    this.saveCorrespondences();
+    return this.correspondences.length - 1;
+  }
+
+  setCorrespondence(index: number, correspondence: PointCorrespondence): void {
+    if (!this.correspondences[index]) throw new Error(`ModelSurface: no correspondence ${index}`);
+    this.correspondences[index] = copyCorrespondence(correspondence);
+    this.saveCorrespondences();
+  }
+
+  removeCorrespondence(index: number): void {
+    this.correspondences.splice(index, 1);
+    this.saveCorrespondences();
+  }
+
+  clearCorrespondences(): void {
+    this.correspondences = [];
+    this.saveCorrespondences();
+  }
+
+  private saveCorrespondences(): void {
+    this.saveToStorage();
+    this.onCorrespondencesChangedCallbacks.forEach((cb) => cb());
+  }
+
+  getCorrespondences(): PointCorrespondence[] {
+    return this.correspondences.map(copyCorrespondence);
+  }
+
+  /**
+   * Solves the projector pose from the correspondences (at least 4) and moves the camera there.
+   * The reprojection error tells how well the clicks agree: a few pixels is a good fit, a large
+   * error for one point usually means a wrong click.
+   */
+  solvePose(): PoseSolution {
+    const before = this.getCameraState();
+    this.camera.updateProjectionMatrix();
+    const solution = solveProjectorPose(this.correspondences, this.camera.projectionMatrix, this.resolution, {
+      initialPose: before.pose,
+    });
+    this.setPose(solution.pose);
+    this.onEdit(before, 'Solve pose');
+    return solution;
+  }
+
+  /**
+   * Solves lens and pose from the correspondences, for a projector whose throw ratio and lens shift are
+   * unknown. Needs at least 6 points that do not all lie in one plane, e.g. on two faces of the model.
+   */
+  calibrateProjector(): CalibrationSolution {
+    const before = this.getCameraState();
+    const solution = solveProjectorCalibration(this.correspondences, this.resolution);
+    this.setCameraState(solution);
+    this.onEdit(before, 'Calibrate projector');
+    return solution;
+  }
+
+  /** The model point seen at a projector pixel (from the top-left) with the current pose, null if it shows no model */
+  pickPoint(pixel: { x: number; y: number }): THREE.Vector3 | null {
+    this.camera.updateMatrixWorld();
+    const ndc = new THREE.Vector2((pixel.x / this.resolution.width) * 2 - 1, 1 - (pixel.y / this.resolution.height) * 2);
+    this.raycaster.setFromCamera(ndc, this.camera);
+    return this.raycaster.intersectObject(this.mesh, false)[0]?.point ?? null;
+  }
+
+  /**
+   * Register callback for pose changes, from solving, undo or setPose()
+   */
+  onPoseChanged(callback: (pose: ProjectorPose) => void): void {
+    this.onPoseChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for lens changes, from calibrating, undo or setIntrinsics()
+   */
+  onIntrinsicsChanged(callback: (intrinsics: ProjectorIntrinsics) => void): void {
+    this.onIntrinsicsChangedCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for added, moved or removed correspondences
+   */
+  onCorrespondencesChanged(callback: () => void): void {
+    this.onCorrespondencesChangedCallbacks.push(callback);
+  }
+
+  private saveToStorage(): void {
+    const data: StoredModelSurface = {
+      pose: this.getPose(),
+      intrinsics: this.getIntrinsics(),
+      correspondences: this.correspondences,
+    };
+    whenResolved(
+      () => this.store.set(this.storageKey, JSON.stringify(data)),
+      () => {},
+      (e) => console.warn('Failed to save model pose:', e),
+    );
+  }
+
+  private loadFromStorage(): void {
+    whenResolved(
+      () => this.store.get(this.storageKey),
+      (stored) => {
+        if (!stored) return;
+        const data: StoredModelSurface = JSON.parse(stored);
+        this.correspondences = data.correspondences ?? [];
+        if (data.intrinsics) this.applyIntrinsics(data.intrinsics);
+        if (data.pose) applyCameraPose(this.camera, data.pose);
+      },
+      (e) => console.warn('Failed to load model pose:', e),
+    );
+  }
+
+  clearStorage(): void {
+    whenResolved(
+      () => this.store.remove(this.storageKey),
+      () => {},
+      (e) => console.warn('Failed to clear model pose:', e),
+    );
+  }
+
+  /** Removes the model from its scene. The geometry stays the application's. */
+  dispose(): void {
+    this.scene.remove(this.mesh);
+    this.mesh.material.dispose();
+  }
+}
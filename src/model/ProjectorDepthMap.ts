@@ -0,0 +1,50 @@
+/*
+ProjectorDepthMap
+-----------------
+Depth of the scene as the projector sees it, for the occlusion test of projectorTexture(): a point
+further from the lens than the depth map is in the shadow of something in front of it. Render it
+again whenever the projector or the occluding geometry moves.
+*/
+
+import * as THREE from 'three';
+import type { ProjectorCamera } from '../core/ProjectorCamera';
+
+export class ProjectorDepthMap {
+  readonly target: THREE.WebGLRenderTarget;
+
+  // Depth only, both sides so open meshes like walls cast shadows too
+  private depthMaterial = new THREE.MeshBasicMaterial({ colorWrite: false, side: THREE.DoubleSide });
+
+  /** Resolution of the map, the projector resolution is a good start */
+  constructor(resolution: { width: number; height: number }) {
+    const { width, height } = resolution;
+    this.target = new THREE.WebGLRenderTarget(width, height, {
+      depthTexture: new THREE.DepthTexture(width, height, THREE.FloatType),
+    });
+  }
+
+  get texture(): THREE.DepthTexture {
+    return this.target.depthTexture!;
+  }
+
+  /** Renders the depth of the occluders in a scene through the projector camera */
+  render(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: ProjectorCamera): void {
+    const previousTarget = renderer.getRenderTarget();
+    const previousOverride = scene.overrideMaterial;
+    scene.overrideMaterial = this.depthMaterial;
+    renderer.setRenderTarget(this.target);
+    renderer.clear();
+    renderer.render(scene, camera);
+    renderer.setRenderTarget(previousTarget);
+    scene.overrideMaterial = previousOverride;
+  }
+
+  setSize(width: number, height: number): void {
+    this.target.setSize(width, height);
+  }
+
+  dispose(): void {
+    this.target.dispose();
+    this.depthMaterial.dispose();
+  }
+}
@@ -0,0 +1,104 @@
+/*
+ProjectorTextureMaterial
+------------------------
+Projective texturing: lights a virtual copy of the object exactly as the real projector does, by
+projecting a texture from a ProjectorCamera (lens shift included) onto arbitrary meshes. Faces turned
+away from the lens stay unlit, and with a ProjectorDepthMap so do points in the shadow of geometry
+closer to the lens. Content can be authored in object space, rendered through the projector camera
+and checked on the replica from any view.
+
+The GLSL is also a shader chunk for other materials: #include <projector_texture> (registered on
+import), createProjectorTextureUniforms() for the uniforms and updateProjectorTextureUniforms()
+before rendering. See projectorTexture.glsl.
+*/
+
+import * as THREE from 'three';
+import projectorTextureChunk from '../shaders/projectorTexture.glsl';
+import projectorTextureVertexShader from '../shaders/projectorTexture.vert';
+import projectorTextureFragmentShader from '../shaders/projectorTexture.frag';
+import { PROJECTOR_TEXTURE } from '../core/defaults';
+import type { ProjectorCamera } from '../core/ProjectorCamera';
+import type { ProjectorDepthMap } from './ProjectorDepthMap';
+
+Object.assign(THREE.ShaderChunk, { projector_texture: projectorTextureChunk });
+
+export { projectorTextureChunk };
+
+export interface ProjectorTextureMaterialConfig {
+  camera: ProjectorCamera;
+  /** Content of the projector, e.g. the render target the mapper shows */
+  map: THREE.Texture | null;
+  /** Occlusion by geometry closer to the lens, none without */
+  depthMap?: ProjectorDepthMap | null;
+  depthBias?: number;
+  /** Color of surfaces the projector does not reach */
+  unlitColor?: THREE.ColorRepresentation;
+}
+
+/** Uniforms of the projector_texture chunk, to merge into the uniforms of a material */
+export function createProjectorTextureUniforms(
+  map: THREE.Texture | null,
+  depthBias: number = PROJECTOR_TEXTURE.depthBias,
+): Record<string, THREE.IUniform> {
+  return {
+    uProjectorMap: { value: map },
+    uProjectorViewProjection: { value: new THREE.Matrix4() },
+    uProjectorPosition: { value: new THREE.Vector3() },
+    uProjectorDepthMap: { value: null },
+    uProjectorUseDepthMap: { value: false },
+    uProjectorNear: { value: 0.1 },
+    uProjectorFar: { value: 1000 },
+    uProjectorDepthBias: { value: depthBias },
+  };
+}
+
+/** Copies pose and lens of the projector into the chunk uniforms, call before rendering */
+export function updateProjectorTextureUniforms(
+  uniforms: Record<string, THREE.IUniform>,
+  camera: ProjectorCamera,
+  depthMap: ProjectorDepthMap | null = null,
+): void {
+  camera.updateMatrixWorld();
+  uniforms.uProjectorViewProjection.value.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+  uniforms.uProjectorPosition.value.setFromMatrixPosition(camera.matrixWorld);
+  uniforms.uProjectorNear.value = camera.near;
+  uniforms.uProjectorFar.value = camera.far;
+  uniforms.uProjectorDepthMap.value = depthMap?.texture ?? null;
+  uniforms.uProjectorUseDepthMap.value = depthMap !== null;
+}
+
+export class ProjectorTextureMaterial extends THREE.ShaderMaterial {
+  camera: ProjectorCamera;
+  depthMap: ProjectorDepthMap | null;
+
+  constructor(config: ProjectorTextureMaterialConfig) {
+    super({
+      vertexShader: projectorTextureVertexShader,
+      fragmentShader: projectorTextureFragmentShader,
+      uniforms: {
+        ...createProjectorTextureUniforms(config.map, config.depthBias),
+        uUnlitColor: { value: new THREE.Color(config.unlitColor ?? PROJECTOR_TEXTURE.unlitColor) },
+      },
+    });
+    this.camera = config.camera;
+    this.depthMap = config.depthMap ?? null;
+    this.updateUniforms();
+  }
+
+  get map(): THREE.Texture | null {
+    return this.uniforms.uProjectorMap.value;
+  }
+
+  set map(map: THREE.Texture | null) {
+    this.uniforms.uProjectorMap.value = map;
+  }
+
+  /** Follows the projector camera, runs before every draw */
+  updateUniforms(): void {
+    updateProjectorTextureUniforms(this.uniforms, this.camera, this.depthMap);
+  }
+
+  override onBeforeRender(): void {
+    this.updateUniforms();
+  }
+}
@@ -7,3 +7,8 @@ declare module '*.frag' {
   const value: string;
   export default value;
 }
+
+declare module '*.glsl' {
+  const value: string;
+  export default value;
+}
@@ -0,0 +1,154 @@
+/*
+PresetManager
+-------------
+Named calibration snapshots for venues that switch between stage configurations.
+A preset is a CalibrationDocument without the controller view (zoom/offset), so switching
+reuses importCalibration: validation, undo, GUI refresh and forwarding to the projector
+window through WindowSync. A preset of another CALIBRATION_VERSION fails validation when applied.
+
+Presets persist in the mapper's store under PRESET_STORAGE_KEY, in creation order.
+*/
+import type { ProjectionMapper } from '../core/ProjectionMapper';
+import type { CalibrationDocument } from '../calibration/Calibration';
+import { whenResolved } from '../storage/CalibrationStore';
+
+export const PRESET_STORAGE_KEY = 'calibration-presets';
+
+export interface CalibrationPreset {
+  name: string;
+  calibration: CalibrationDocument;
+}
+
+export class PresetManager {
+  private mapper: ProjectionMapper;
+  private presets: CalibrationPreset[] = [];
+  private activeName: string | null = null;
+  private onChangeCallbacks: Array<() => void> = [];
+  // Local changes before the stored presets arrived from an asynchronous store: the stored presets
+  // are merged in, except those deleted or renamed meanwhile
+  private changedLocally = false;
+  private removedNames = new Set<string>();
+
+  constructor(mapper: ProjectionMapper) {
+    this.mapper = mapper;
+    this.loadFromStorage();
+  }
+
+  list(): string[] {
+    return this.presets.map((preset) => preset.name);
+  }
+
+  has(name: string): boolean {
+    return this.presets.some((preset) => preset.name === name);
+  }
+
+  get(name: string): CalibrationDocument {
+    return this.getPreset(name).calibration;
+  }
+
+  /** Name of the preset last saved or applied. Edits made since then are not tracked. */
+  getActiveName(): string | null {
+    return this.activeName;
+  }
+
+  /** Stores the current mapper state under a name, overwriting a preset of the same name. */
+  save(name: string): void {
+    const trimmed = this.validateName(name);
+    const preset = { name: trimmed, calibration: this.mapper.exportCalibration() };
+    const index = this.presets.findIndex((p) => p.name === trimmed);
+    if (index === -1) this.presets.push(preset);
+    else this.presets[index] = preset;
+    this.activeName = trimmed;
+    this.commit();
+  }
+
+  /** Switches the mapper to a preset. The controller keeps its zoom and camera offset. */
+  apply(name: string): void {
+    this.mapper.importCalibration(this.getPreset(name).calibration, { applyView: false });
+    this.activeName = name;
+    this.notify();
+  }
+
+  rename(name: string, newName: string): void {
+    const preset = this.getPreset(name);
+    const trimmed = this.validateName(newName);
+    if (trimmed !== name && this.has(trimmed)) {
+      throw new Error(`PresetManager: preset "${trimmed}" already exists`);
+    }
+    preset.name = trimmed;
+    this.removedNames.add(name);
+    if (this.activeName === name) this.activeName = trimmed;
+    this.commit();
+  }
+
+  delete(name: string): void {
+    this.getPreset(name);
+    this.presets = this.presets.filter((preset) => preset.name !== name);
+    this.removedNames.add(name);
+    if (this.activeName === name) this.activeName = null;
+    this.commit();
+  }
+
+  /**
+   * Register callback for when presets were added, renamed, deleted, applied or loaded
+   */
+  onChange(callback: () => void): void {
+    this.onChangeCallbacks.push(callback);
+  }
+
+  private getPreset(name: string): CalibrationPreset {
+    const preset = this.presets.find((p) => p.name === name);
+    if (!preset) throw new Error(`PresetManager: unknown preset "${name}"`);
+    return preset;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('PresetManager: preset name must not be empty');
+    return trimmed;
+  }
+
+  private commit(): void {
+    this.changedLocally = true;
+    this.saveToStorage();
+    this.notify();
+  }
+
+  private notify(): void {
+    this.onChangeCallbacks.forEach((cb) => cb());
+  }
+
+  private saveToStorage(): void {
+    whenResolved(
+      () => this.mapper.getStore().set(PRESET_STORAGE_KEY, JSON.stringify(this.presets)),
+      () => {},
+      (e) => console.warn('Failed to save presets:', e),
+    );
+  }
+
+  // Documents are validated when applied, so presets from older versions still load here
+  private loadFromStorage(): void {
+    whenResolved(
+      () => this.mapper.getStore().get(PRESET_STORAGE_KEY),
+      (stored) => {
+        if (!stored) return;
+        const parsed = JSON.parse(stored);
+        if (!Array.isArray(parsed)) return;
+        const loaded: CalibrationPreset[] = parsed.filter(
+          (p): p is CalibrationPreset => typeof p?.name === 'string' && typeof p?.calibration === 'object',
+        );
+        if (!this.changedLocally) {
+          this.presets = loaded;
+        } else {
+          // Stored presets are older than the ones saved meanwhile, which win on equal names
+          const kept = loaded.filter((p) => !this.has(p.name) && !this.removedNames.has(p.name));
+          if (kept.length === 0) return;
+          this.presets = [...kept, ...this.presets];
+          this.saveToStorage();
+        }
+        this.notify();
+      },
+      (e) => console.warn('Failed to load presets:', e),
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/*
+Lens Distortion Correction
+--------------------------
+Pre-distorts the finished output for the projector lens (Brown-Conrady, radial k1-k3 and
+tangential p1, p2). Every output pixel shows the content of the position the lens moves it to,
+so the lens puts the content back in place. Positions the lens moves outside the image stay
+black. Same math as distortPoint() in lensDistortion.ts.
+*/
+
+uniform sampler2D tDiffuse;
+uniform vec3 uRadial;      // k1, k2, k3
+uniform vec2 uTangential;  // p1, p2
+uniform vec2 uCenter;      // distortion center in NDC
+uniform float uAspect;     // output width / height
+
+varying vec2 vUv;
+
+void main() {
+    // Half image heights around the center, so the radius is round
+    vec2 p = (vUv * 2.0 - 1.0 - uCenter) * vec2(uAspect, 1.0);
+    float r2 = dot(p, p);
+    float radial = 1.0 + r2 * (uRadial.x + r2 * (uRadial.y + r2 * uRadial.z));
+    vec2 tangential = vec2(
+        2.0 * uTangential.x * p.x * p.y + uTangential.y * (r2 + 2.0 * p.x * p.x),
+        uTangential.x * (r2 + 2.0 * p.y * p.y) + 2.0 * uTangential.y * p.x * p.y
+    );
+    vec2 distorted = (p * radial + tangential) / vec2(uAspect, 1.0) + uCenter;
+    vec2 uv = distorted * 0.5 + 0.5;
+
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+        gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+    }
+    gl_FragColor = texture2D(tDiffuse, uv);
+}
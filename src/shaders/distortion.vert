@@ -0,0 +1,12 @@
+/*
+Lens Distortion Vertex Shader
+-----------------------------
+Full-screen quad of the correction pass, see distortion.frag.
+*/
+
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
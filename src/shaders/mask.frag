@@ -10,6 +10,12 @@ uniform int uPolygonPointCount;
 uniform vec2 uPolygonPoints[MAX_POLYGON_POINTS];
 uniform float uPolygonFeather;
 
+uniform bool uEdgeBlendEnabled;
+uniform vec4 uEdgeBlendWidths; // left, right, top, bottom
+uniform float uEdgeBlendPower;
+uniform float uEdgeBlendGamma;
+uniform float uEdgeBlendBlackLevel;
+
 uniform bool uShouldWarp;
 uniform bool uShowBorderLines;
 
@@ -55,6 +61,30 @@ float gaussianRectMask(vec2 uv, vec2 res, float soft) {
     return gaussianRect(p, insetSize, soft);
 }
 
+// Edge blend ramp, x runs from 0 at the outer edge to 1 at the inner end of the overlap
+// Reference: https://paulbourke.net/texture_colour/edgeblend/
+float blendRamp(float x) {
+    float f = x < 0.5 ? 0.5 * pow(2.0 * x, uEdgeBlendPower) : 1.0 - 0.5 * pow(2.0 * (1.0 - x), uEdgeBlendPower);
+    return pow(f, 1.0 / uEdgeBlendGamma);
+}
+
+float blendSide(float dist, float width, inout float overlap) {
+    if(width <= 0.0)
+        return 1.0;
+    overlap = max(overlap, 1.0 - aastep(width, dist));
+    return blendRamp(clamp(dist / width, 0.0, 1.0));
+}
+
+// Returns the blend weight, overlap is 1 inside any blend zone
+float edgeBlend(vec2 uv, out float overlap) {
+    overlap = 0.0;
+    float weight = blendSide(uv.x, uEdgeBlendWidths.x, overlap);
+    weight *= blendSide(1.0 - uv.x, uEdgeBlendWidths.y, overlap);
+    weight *= blendSide(1.0 - uv.y, uEdgeBlendWidths.z, overlap);
+    weight *= blendSide(uv.y, uEdgeBlendWidths.w, overlap);
+    return weight;
+}
+
 // Polygon SDF — MIT Inigo Quilez (adapted for GLSL ES 1.0 fixed-size uniform array)
 // https://www.shadertoy.com/view/wdBXRW
 // Adapted for aspect ratio correction so smoothstep (feather) is uniform 
@@ -83,6 +113,7 @@ float sdPolygon(vec2 p, float aspect) {
 
 void main() {
     float reveal = 1.0;
+    float blackLift = 0.0;
 
     if(uMaskEnabled) {
         float soft = mix(0.0, 0.25, uFeather);
@@ -97,15 +128,23 @@ void main() {
         reveal *= uPolygonInvert ? 1.0 - polyMask : polyMask;
     }
 
+    if(uEdgeBlendEnabled) {
+        float overlap;
+        reveal *= edgeBlend(vUv, overlap);
+        blackLift = uEdgeBlendBlackLevel * (1.0 - overlap);
+    }
+
     // Border: alignment guide when warp is off, suppressed in projector output.
     if(!uShouldWarp && uShowBorderLines) {
         reveal *= (1.0 - drawBorderLines(vUv));
     }
 
-    vec3 color = vec3(0.0);
+    // Output = lift + content * (1 - lift) where revealed, with lift 0 this is a plain black cutout
+    float alpha = 1.0 - reveal * (1.0 - blackLift);
+    vec3 color = vec3(blackLift * reveal / max(alpha, 1e-4));
     if(!uShouldWarp && uShowBorderLines) {
         float borderLines = drawBorderLines(vUv);
         color = mix(color, vec3(0.75), borderLines);
     }
-    gl_FragColor = vec4(color, 1.0 - reveal);
+    gl_FragColor = vec4(color, alpha);
 }
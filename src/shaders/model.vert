@@ -0,0 +1,13 @@
+/*
+Model Vertex Shader
+-------------------
+Renders an imported surface model through the projector camera. The model's own UVs pick
+the content, so projection.frag can shade it like a warp surface.
+*/
+
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
@@ -0,0 +1,10 @@
+// Structured-light pattern for auto calibration. Written out unchanged, without image adjustments,
+// dithering or color management, so the projector emits exactly the encoded intensities.
+
+varying vec2 vUv;
+
+uniform sampler2D uPattern;
+
+void main() {
+    gl_FragColor = vec4(texture2D(uPattern, vUv).rrr, 1.0);
+}
@@ -13,6 +13,8 @@ varying vec2 vUv;
 uniform bool uShouldWarp;
 
 uniform sampler2D uBuffer;
+uniform vec4 uSourceRect; // xy offset, zw size of the sampled buffer region in UV space
+uniform vec4 uSourceCrop; // mapper-wide crop, uSourceRect is relative to it
 uniform vec2 uBufferResolution;
 uniform vec2 uWarpPlaneSize;
 uniform float uTime;
@@ -260,7 +262,8 @@ void main() {
     if (uShowTestCard) {
         color = testCard(vUv, uShouldWarp ? uWarpPlaneSize : uBufferResolution, uTime);
     } else {
-        color = texture2D(uBuffer, vUv).rgb;
+        vec2 sourceUv = uSourceRect.xy + vUv * uSourceRect.zw;
+        color = texture2D(uBuffer, uSourceCrop.xy + sourceUv * uSourceCrop.zw).rgb;
     }
 
     // color = vec3(checkerboard(vUv, vec2(7.0, 4.0))); //for development tests
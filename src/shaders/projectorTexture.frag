@@ -0,0 +1,20 @@
+/*
+Projector Texture Fragment Shader
+---------------------------------
+Lights a virtual copy of the object like the real projector: projected content where it lands,
+uUnlitColor where it doesn't.
+*/
+
+#include <projector_texture>
+
+uniform vec3 uUnlitColor;
+
+varying vec3 vWorldPosition;
+varying vec3 vWorldNormal;
+
+void main() {
+    vec4 projected = projectorTexture(vWorldPosition, normalize(vWorldNormal));
+    gl_FragColor = vec4(mix(uUnlitColor, projected.rgb, projected.a), 1.0);
+
+    #include <colorspace_fragment>
+}
@@ -0,0 +1,42 @@
+/*
+Projector Texture Chunk
+-----------------------
+Projective texturing from a ProjectorCamera, registered as THREE.ShaderChunk.projector_texture:
+#include <projector_texture> in any fragment shader, e.g. via onBeforeCompile, and call
+projectorTexture() with the world position and normal of the fragment.
+
+Returns the content the projector throws on the point. Alpha is its coverage: 0 outside the image,
+behind the projector, on faces turned away from the lens and, with a depth map, in the shadow of
+geometry closer to the lens.
+*/
+
+uniform sampler2D uProjectorMap;
+uniform mat4 uProjectorViewProjection;
+uniform vec3 uProjectorPosition;
+uniform sampler2D uProjectorDepthMap;
+uniform bool uProjectorUseDepthMap;
+uniform float uProjectorNear;
+uniform float uProjectorFar;
+uniform float uProjectorDepthBias; // scene units along the lens axis
+
+// Window depth (0-1) of a perspective projection to distance from the lens along its axis
+float projectorViewDepth(float depth) {
+    return uProjectorNear * uProjectorFar / (uProjectorFar - depth * (uProjectorFar - uProjectorNear));
+}
+
+vec4 projectorTexture(vec3 worldPosition, vec3 worldNormal) {
+    vec4 clip = uProjectorViewProjection * vec4(worldPosition, 1.0);
+    if (clip.w <= 0.0) return vec4(0.0);
+    vec3 ndc = clip.xyz / clip.w;
+    if (any(greaterThan(abs(ndc), vec3(1.0)))) return vec4(0.0);
+
+    // Faces turned away from the lens get no light
+    if (dot(worldNormal, uProjectorPosition - worldPosition) <= 0.0) return vec4(0.0);
+
+    vec2 uv = ndc.xy * 0.5 + 0.5;
+    if (uProjectorUseDepthMap) {
+        float closest = projectorViewDepth(texture2D(uProjectorDepthMap, uv).r);
+        if (clip.w > closest + uProjectorDepthBias) return vec4(0.0);
+    }
+    return vec4(texture2D(uProjectorMap, uv).rgb, 1.0);
+}
@@ -0,0 +1,16 @@
+/*
+Projector Texture Vertex Shader
+-------------------------------
+World position and normal for projectorTexture(), the view is any camera.
+*/
+
+varying vec3 vWorldPosition;
+varying vec3 vWorldNormal;
+
+void main() {
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    // Inverse transpose keeps normals square to non-uniformly scaled faces
+    vWorldNormal = transpose(inverse(mat3(modelMatrix))) * normal;
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+}
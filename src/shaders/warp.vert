@@ -10,8 +10,13 @@
  * Licensed under the MIT License.
 
  * Warp vertex shader: Displaces mesh vertices using a control point grid. (Interpolated the vertices between Grid Points)
- * Supports bilinear (fast, C0) and bicubic Catmull-Rom (smooth, C1) interpolation.
+ * Supports bilinear (fast, C0), bicubic Catmull-Rom (smooth, C1) and Bezier (C1, shaped by tangent handles) interpolation.
  * Bicubic uses mirror extrapolation at edges for smooth warps.
+ * Grid columns and rows sit at knot positions (0-1), which need not be evenly spaced.
+ * Control points and knots are read from a float texture, one texel per grid point:
+ * rgba = world x, world y, knot of its column, knot of its row. A second block of rows below holds
+ * the Bezier tangents, rgba = tangent along u (x, y), tangent along v (x, y), in world units per knot.
+ * Resizing the grid swaps the texture, the shader is not recompiled.
  * Fragment shader recieves untouched uvs only the vertices get deformed.
  */
 
@@ -19,7 +24,7 @@ varying vec2 vUv;
 
 uniform vec3 uCorners[4]; //World Space TL TR BL BR
 uniform vec3 uControlPoint;
-uniform vec3 uControlPoints[CONTROL_POINT_AMOUNT]; //World Space BL Origin
+uniform sampler2D uControlPointTexture; //World Space BL Origin, uGridSizeX x (2 * uGridSizeY) texels
 uniform int uGridSizeX;
 uniform int uGridSizeY;
 uniform float uTime;
@@ -28,27 +33,87 @@ uniform bool uShouldWarp;
 
 const int BILINEAR_INTERPOLATION = 0;
 const int BICUBIC_INTERPOLATION = 1;
+const int BEZIER_INTERPOLATION = 2;
 
-//fast Catmull-Rom
+//Catmull-Rom as cubic Hermite segment
 //http://www.paulinternet.nl/?page=bicubic 
-// p0 before p1 segment-start p2 segment-end p4 after segment
-vec2 cubicInterpolate(vec2 p0, vec2 p1, vec2 p2, vec2 p3, float t) {
-    return p1 + 0.5 * t * (p2 - p0 +
-        t * (2.0 * p0 - 5.0 * p1 + 4.0 * p2 - p3 +
-        t * (3.0 * (p1 - p2) + p3 - p0)));
+// p0 before p1 segment-start p2 segment-end p4 after segment, k their knots (x-w)
+// Tangents are central differences over the knot spacing, scaled to the segment:
+// with even spacing they are (p2 - p0) / 2, the classic uniform Catmull-Rom
+vec2 cubicInterpolate(vec2 p0, vec2 p1, vec2 p2, vec2 p3, vec4 k, float t) {
+    float h = k.z - k.y;
+    vec2 m1 = (p2 - p0) * h / (k.z - k.x);
+    vec2 m2 = (p3 - p1) * h / (k.w - k.y);
+    float t2 = t * t;
+    float t3 = t2 * t;
+    return (2.0 * t3 - 3.0 * t2 + 1.0) * p1 + (t3 - 2.0 * t2 + t) * m1 +
+        (-2.0 * t3 + 3.0 * t2) * p2 + (t3 - t2) * m2;
+}
 
+// Texel x, y of the texture, sampled at its center. Rows from uGridSizeY on hold the tangents.
+vec4 getTexel(int x, int y) {
+    vec2 texelUv = (vec2(float(x), float(y)) + 0.5) / vec2(float(uGridSizeX), float(2 * uGridSizeY));
+    return texture2D(uControlPointTexture, texelUv);
 }
 
-vec2 getPoint(int x, int y) {
+// Tangents of grid point x, y: xy along u, zw along v
+vec4 getTangents(int x, int y) {
+    return getTexel(x, y + uGridSizeY);
+}
+
+float knotX(int i) {
+    return getTexel(i, 0).z;
+}
+
+float knotY(int i) {
+    return getTexel(0, i).w;
+}
+
+// Knots one step past the edges are mirrored like the control points
+float getKnotX(int i) {
     int maxX = uGridSizeX - 1;
+    if(i < 0) {
+        return 2.0 * knotX(0) - knotX(1);
+    }
+    if(i > maxX) {
+        return 2.0 * knotX(maxX) - knotX(maxX - 1);
+    }
+    return knotX(i);
+}
+
+float getKnotY(int i) {
     int maxY = uGridSizeY - 1;
+    if(i < 0) {
+        return 2.0 * knotY(0) - knotY(1);
+    }
+    if(i > maxY) {
+        return 2.0 * knotY(maxY) - knotY(maxY - 1);
+    }
+    return knotY(i);
+}
 
-    // x = clamp(x, 0, maxX);
-    // y = clamp(y, 0, maxY);
+// Cell containing t: the last knot at or below it (the last cell for t = 1)
+// Loops need constant bounds, so they run to MAX_GRID_SIZE and stop at the grid size
+int findCellX(float t) {
+    int cell = 0;
+    for(int i = 1; i < MAX_GRID_SIZE - 1; i++) {
+        if(i >= uGridSizeX - 1) break;
+        if(t >= knotX(i)) cell = i;
+    }
+    return cell;
+}
 
-    int linearIndex = y * uGridSizeX + x;
+int findCellY(float t) {
+    int cell = 0;
+    for(int i = 1; i < MAX_GRID_SIZE - 1; i++) {
+        if(i >= uGridSizeY - 1) break;
+        if(t >= knotY(i)) cell = i;
+    }
+    return cell;
+}
 
-    return uControlPoints[linearIndex].xy; //ignore z
+vec2 getPoint(int x, int y) {
+    return getTexel(x, y).xy;
 }
 
 vec2 getPointResolvedY(int x, int y) {
@@ -92,6 +157,8 @@ vec2 getControlPoint(int xIndex, int yIndex) {
 // Bicubic interpolation using 4x4 control point grid for every cell
 vec2 bicubicInterpolate(float uCell, float vCell, int cellIndexX, int cellIndexY) {
     vec2 rows[4];
+    vec4 knotsX = vec4(getKnotX(cellIndexX - 1), getKnotX(cellIndexX), getKnotX(cellIndexX + 1), getKnotX(cellIndexX + 2));
+    vec4 knotsY = vec4(getKnotY(cellIndexY - 1), getKnotY(cellIndexY), getKnotY(cellIndexY + 1), getKnotY(cellIndexY + 2));
 
     // Sample/step through 4x4 (16Points) control point grid around the cell (catmull-rom needs 4 points so 4x4 per patch)
     // to collect control points from array and calculate virtual points
@@ -102,10 +169,54 @@ vec2 bicubicInterpolate(float uCell, float vCell, int cellIndexX, int cellIndexY
         // logic: we start sampling with -1,1 index at cellIndex 0,0
             cols[colIndex + 1] = getControlPoint(cellIndexX + colIndex, cellIndexY + rowIndex);
         }
-        rows[rowIndex + 1] = cubicInterpolate(cols[0], cols[1], cols[2], cols[3], uCell);
+        rows[rowIndex + 1] = cubicInterpolate(cols[0], cols[1], cols[2], cols[3], knotsX, uCell);
     }
 
-    return cubicInterpolate(rows[0], rows[1], rows[2], rows[3], vCell);
+    return cubicInterpolate(rows[0], rows[1], rows[2], rows[3], knotsY, vCell);
+}
+
+vec4 bernstein(float t) {
+    float s = 1.0 - t;
+    return vec4(s * s * s, 3.0 * s * s * t, 3.0 * s * t * t, t * t * t);
+}
+
+// Bicubic Bezier patch of a cell, pij with i along u and j along v. The cell's grid points are the
+// patch corners, edge control points sit a third of the cell along their tangents, and the inner
+// ones are twist-free (parallelograms on the corner). Both handles of a point lie on one tangent,
+// so neighbouring patches meet C1 across cells.
+vec2 bezierInterpolate(float u, float v, int cellIndexX, int cellIndexY) {
+    float hu = (knotX(cellIndexX + 1) - knotX(cellIndexX)) / 3.0;
+    float hv = (knotY(cellIndexY + 1) - knotY(cellIndexY)) / 3.0;
+
+    vec2 p00 = getPoint(cellIndexX, cellIndexY);
+    vec2 p30 = getPoint(cellIndexX + 1, cellIndexY);
+    vec2 p03 = getPoint(cellIndexX, cellIndexY + 1);
+    vec2 p33 = getPoint(cellIndexX + 1, cellIndexY + 1);
+    vec4 t00 = getTangents(cellIndexX, cellIndexY);
+    vec4 t30 = getTangents(cellIndexX + 1, cellIndexY);
+    vec4 t03 = getTangents(cellIndexX, cellIndexY + 1);
+    vec4 t33 = getTangents(cellIndexX + 1, cellIndexY + 1);
+
+    vec2 p10 = p00 + t00.xy * hu;
+    vec2 p20 = p30 - t30.xy * hu;
+    vec2 p13 = p03 + t03.xy * hu;
+    vec2 p23 = p33 - t33.xy * hu;
+    vec2 p01 = p00 + t00.zw * hv;
+    vec2 p02 = p03 - t03.zw * hv;
+    vec2 p31 = p30 + t30.zw * hv;
+    vec2 p32 = p33 - t33.zw * hv;
+    vec2 p11 = p10 + p01 - p00;
+    vec2 p21 = p20 + p31 - p30;
+    vec2 p12 = p13 + p02 - p03;
+    vec2 p22 = p23 + p32 - p33;
+
+    vec4 bu = bernstein(u);
+    vec4 bv = bernstein(v);
+    vec2 row0 = p00 * bu.x + p10 * bu.y + p20 * bu.z + p30 * bu.w;
+    vec2 row1 = p01 * bu.x + p11 * bu.y + p21 * bu.z + p31 * bu.w;
+    vec2 row2 = p02 * bu.x + p12 * bu.y + p22 * bu.z + p32 * bu.w;
+    vec2 row3 = p03 * bu.x + p13 * bu.y + p23 * bu.z + p33 * bu.w;
+    return row0 * bv.x + row1 * bv.y + row2 * bv.z + row3 * bv.w;
 }
 
 vec2 bilinearInterpolate(float u, float v, int cellIndexX, int cellIndexY) {
@@ -127,12 +238,11 @@ void main() {
         return;
     }
 
-    vec2 scaledGridUv = vec2(vUv.x, vUv.y) * vec2(uGridSizeX - 1, uGridSizeY - 1);
-    int cellIndexX = int(floor(scaledGridUv.x));
-    int cellIndexY = int(floor(scaledGridUv.y));
+    int cellIndexX = findCellX(vUv.x);
+    int cellIndexY = findCellY(vUv.y);
 
-    float localCellUvX = fract(scaledGridUv.x);
-    float localCellUvY = fract(scaledGridUv.y);
+    float localCellUvX = (vUv.x - knotX(cellIndexX)) / (knotX(cellIndexX + 1) - knotX(cellIndexX));
+    float localCellUvY = (vUv.y - knotY(cellIndexY)) / (knotY(cellIndexY + 1) - knotY(cellIndexY));
 
     vec2 vertexPos;
     if(uWarpMode == BILINEAR_INTERPOLATION) {
@@ -141,6 +251,9 @@ void main() {
     if(uWarpMode == BICUBIC_INTERPOLATION) {
         vertexPos = bicubicInterpolate(localCellUvX, localCellUvY, cellIndexX, cellIndexY);
     }
+    if(uWarpMode == BEZIER_INTERPOLATION) {
+        vertexPos = bezierInterpolate(localCellUvX, localCellUvY, cellIndexX, cellIndexY);
+    }
     // The vertex position is computed in world space directly from the homography,
     // bypassing the mesh geometry. modelViewMatrix would incorrectly apply the
     // mesh's modelMatrix on top, so viewMatrix is used instead.
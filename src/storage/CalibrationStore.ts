@@ -0,0 +1,60 @@
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Key-value persistence for calibration data (warp points, polygon mask, GUI settings).
+ * Implementations may answer synchronously (localStorage, memory) or asynchronously (IndexedDB, disk).
+ * Synchronous answers are applied during construction, asynchronous ones as soon as they resolve.
+ */
+export interface CalibrationStore {
+  get(key: string): MaybePromise<string | null>;
+  set(key: string, value: string): MaybePromise<void>;
+  remove(key: string): MaybePromise<void>;
+}
+
+/**
+ * Runs a store operation and hands its result to onValue, synchronously when the store answered synchronously.
+ * Errors thrown by the operation, its promise or onValue end up in onError.
+ */
+export function whenResolved<T>(
+  operation: () => MaybePromise<T>,
+  onValue: (value: T) => void,
+  onError: (error: unknown) => void,
+): void {
+  try {
+    const result = operation();
+    if (result instanceof Promise) {
+      result.then(onValue).catch(onError);
+      return;
+    }
+    onValue(result);
+  } catch (error) {
+    onError(error);
+  }
+}
+
+/** Prefixes every key so several mappers can share one backing store. */
+export class NamespacedStore implements CalibrationStore {
+  private store: CalibrationStore;
+  private namespace: string;
+
+  constructor(store: CalibrationStore, namespace: string) {
+    this.store = store;
+    this.namespace = namespace;
+  }
+
+  private key(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+
+  get(key: string): MaybePromise<string | null> {
+    return this.store.get(this.key(key));
+  }
+
+  set(key: string, value: string): MaybePromise<void> {
+    return this.store.set(this.key(key), value);
+  }
+
+  remove(key: string): MaybePromise<void> {
+    return this.store.remove(this.key(key));
+  }
+}
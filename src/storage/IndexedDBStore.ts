@@ -0,0 +1,51 @@
+import type { CalibrationStore } from './CalibrationStore';
+
+/**
+ * Asynchronous store backed by IndexedDB. Not limited to the localStorage quota and
+ * persisted with the browser profile, which suits kiosk setups.
+ */
+export class IndexedDBStore implements CalibrationStore {
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = 'three-projection-mapper', storeName = 'calibration') {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  // All operations use the same object store, so IndexedDB runs them in the order they were issued
+  private async request<T>(mode: 'readonly' | 'readwrite', run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(database.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.request<string | undefined>('readonly', (store) => store.get(key));
+    return value ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+}
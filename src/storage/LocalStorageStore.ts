@@ -0,0 +1,16 @@
+import type { CalibrationStore } from './CalibrationStore';
+
+/** Default store, synchronous and shared by all pages of an origin. */
+export class LocalStorageStore implements CalibrationStore {
+  get(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  set(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  remove(key: string): void {
+    localStorage.removeItem(key);
+  }
+}
@@ -0,0 +1,18 @@
+import type { CalibrationStore } from './CalibrationStore';
+
+/** Non-persistent store, e.g. for tests or installations that always start from a calibration file. */
+export class MemoryStore implements CalibrationStore {
+  private entries = new Map<string, string>();
+
+  get(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  set(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+}
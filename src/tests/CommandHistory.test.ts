@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CommandHistory } from '../history/CommandHistory';
+
+/** A number edited through the history, like a slider value */
+function createValue(history: CommandHistory, initial = 0) {
+  const value = { current: initial };
+  const apply = (state: number) => (value.current = state);
+  const edit = (next: number, mergeKey?: string, label = 'Edit') => {
+    const before = value.current;
+    value.current = next;
+    history.push({ label, before, after: next, apply, mergeKey });
+  };
+  return { value, edit };
+}
+
+describe('Command History', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should merge steps with the same mergeKey inside the merge window only', () => {
+    const history = new CommandHistory(100, 1000);
+    const { value, edit } = createValue(history);
+    edit(1, 'slider');
+    vi.advanceTimersByTime(500);
+    edit(2, 'slider');
+    vi.advanceTimersByTime(900); // measured from the last merged edit
+    edit(3, 'slider');
+    vi.advanceTimersByTime(1000);
+    edit(4, 'slider');
+    edit(5, 'other');
+    edit(6);
+    edit(7);
+
+    const states: number[] = [];
+    while (history.undo()) states.push(value.current);
+    expect(states).toEqual([6, 5, 4, 3, 0]);
+  });
+
+  it('should clear redo on push and never merge across an undo', () => {
+    const history = new CommandHistory(100, 1000);
+    const { value, edit } = createValue(history);
+    edit(1, 'slider');
+    edit(2, 'dial');
+    expect(history.undo()).toBe(true);
+    expect(history.canRedo()).toBe(true);
+
+    // Same key as the step below the undone one, inside its window
+    edit(3, 'slider');
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBe(false);
+
+    history.undo();
+    expect(value.current).toBe(1);
+    history.undo();
+    expect(value.current).toBe(0);
+
+    // A redone step does not merge with the next edit either
+    history.redo();
+    edit(4, 'slider');
+    history.undo();
+    expect(value.current).toBe(1);
+  });
+
+  it('should drop the oldest steps beyond the limit', () => {
+    const history = new CommandHistory(3, 1000);
+    const { value, edit } = createValue(history);
+    [1, 2, 3, 4, 5].forEach((n) => edit(n));
+    let undone = 0;
+    while (history.undo()) undone++;
+    expect(undone).toBe(3);
+    expect(value.current).toBe(2);
+  });
+
+  it('should skip no-op steps and edits while applying or without recording', () => {
+    const history = new CommandHistory();
+    const { value, edit } = createValue(history, 5);
+    const changes = vi.fn();
+    history.onChange(changes);
+
+    edit(5);
+    expect(history.canUndo()).toBe(false);
+    expect(changes).not.toHaveBeenCalled();
+
+    history.withoutRecording(() => edit(6));
+    expect(history.canUndo()).toBe(false);
+
+    // A compound edit records itself once, its nested edits are not recorded
+    history.withoutRecording(() => {
+      edit(7);
+      edit(8);
+    });
+    history.push({ label: 'Compound', before: 6, after: 8, apply: (state: number) => (value.current = state) });
+    expect(history.peekUndo()).toBe('Compound');
+    history.undo();
+    expect(value.current).toBe(6);
+    expect(history.canUndo()).toBe(false);
+    expect(history.peekRedo()).toBe('Compound');
+
+    // Edits made by apply() while undoing are not recorded
+    const nested = new CommandHistory();
+    const inner = createValue(nested);
+    nested.push({ label: 'Outer', before: 0, after: 1, apply: (state: number) => inner.edit(state + 10) });
+    nested.undo();
+    expect(inner.value.current).toBe(10);
+    expect(nested.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { ProjectionMapper } from '../core/ProjectionMapper';
+import type { CalibrationDocument } from '../calibration/Calibration';
+import type { CalibrationStore } from '../storage/CalibrationStore';
+import { MemoryStore } from '../storage/MemoryStore';
+import { PresetManager, PRESET_STORAGE_KEY } from '../presets/PresetManager';
+
+/** Store whose reads resolve only when released, with the value at the time of the read, like IndexedDB answering late */
+class DeferredStore implements CalibrationStore {
+  readonly entries = new MemoryStore();
+  private pending: Array<() => void> = [];
+
+  get(key: string): Promise<string | null> {
+    const value = this.entries.get(key);
+    return new Promise((resolve) => this.pending.push(() => resolve(value)));
+  }
+
+  set(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.entries.remove(key);
+  }
+
+  async release(): Promise<void> {
+    this.pending.splice(0).forEach((resolve) => resolve());
+    await new Promise((resolve) => setTimeout(resolve));
+  }
+}
+
+/** The part of the mapper presets use: its store and calibration export */
+function createMapper(store: CalibrationStore): ProjectionMapper {
+  return {
+    getStore: () => store,
+    exportCalibration: () => ({}) as CalibrationDocument,
+  } as unknown as ProjectionMapper;
+}
+
+const stored = (names: string[]) => JSON.stringify(names.map((name) => ({ name, calibration: {} })));
+
+describe('Preset Manager', () => {
+  it('should load stored presets that resolve late', async () => {
+    const store = new DeferredStore();
+    store.set(PRESET_STORAGE_KEY, stored(['Stage A', 'Stage B']));
+    const presets = new PresetManager(createMapper(store));
+    expect(presets.list()).toEqual([]);
+
+    await store.release();
+    expect(presets.list()).toEqual(['Stage A', 'Stage B']);
+  });
+
+  it('should keep presets saved before a late load and merge the stored ones', async () => {
+    const store = new DeferredStore();
+    store.set(PRESET_STORAGE_KEY, stored(['Stage A', 'Stage B', 'Stage C']));
+    const presets = new PresetManager(createMapper(store));
+    presets.save('Stage B');
+    presets.save('Rehearsal');
+    presets.delete('Stage B');
+
+    await store.release();
+    // Stage B was deleted locally, the stored copy must not come back
+    expect(presets.list()).toEqual(['Stage A', 'Stage C', 'Rehearsal']);
+    expect(JSON.parse(store.entries.get(PRESET_STORAGE_KEY)!).map((p: { name: string }) => p.name)).toEqual(
+      presets.list(),
+    );
+  });
+});
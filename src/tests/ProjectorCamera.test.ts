@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { ProjectorCamera } from '../core/ProjectorCamera';
+
+const RESOLUTION = { width: 1920, height: 1080 };
+
+/** Where an NDC position of the image lands on a screen square to the lens axis, in camera space */
+function onScreen(camera: ProjectorCamera, ndcX: number, ndcY: number, distance: number): THREE.Vector3 {
+  const point = new THREE.Vector3(ndcX, ndcY, 0.5).applyMatrix4(camera.projectionMatrixInverse);
+  return point.multiplyScalar(-distance / point.z);
+}
+
+/** Left, right, bottom and top edge of the image at a distance */
+function imageRect(camera: ProjectorCamera, distance: number) {
+  const bottomLeft = onScreen(camera, -1, -1, distance);
+  const topRight = onScreen(camera, 1, 1, distance);
+  return { left: bottomLeft.x, right: topRight.x, bottom: bottomLeft.y, top: topRight.y };
+}
+
+describe('Projector Camera', () => {
+  it('should derive the throw ratio from distance and screen width', () => {
+    const camera = ProjectorCamera.fromPhysical({ distance: 3, screenWidth: 2, resolution: RESOLUTION });
+    expect(camera.throwRatio).toBeCloseTo(1.5, 10);
+    expect(camera.aspect).toBeCloseTo(16 / 9, 10);
+
+    const rect = imageRect(camera, 3);
+    expect(rect.left).toBeCloseTo(-1, 6);
+    expect(rect.right).toBeCloseTo(1, 6);
+    expect(rect.bottom).toBeCloseTo(-0.5625, 6);
+    expect(rect.top).toBeCloseTo(0.5625, 6);
+    expect(camera.getImageSize(3).height).toBeCloseTo(0.5625 * 2, 10);
+
+    expect(() => ProjectorCamera.fromPhysical({ distance: 0, screenWidth: 2, resolution: RESOLUTION })).toThrow(/positive/);
+  });
+
+  it('should move the image by the lens shift in percent of its size', () => {
+    const camera = ProjectorCamera.fromPhysical({
+      distance: 3,
+      screenWidth: 2,
+      resolution: RESOLUTION,
+      lensShiftPercent: { x: 10, y: 50 },
+    });
+    expect(camera.lensShiftY).toBeCloseTo(1, 10);
+    expect(camera.getLensShiftPercent()).toEqual({ x: 10, y: 50 });
+
+    // Half the image height up puts the bottom edge on the lens axis, a tenth of the width moves it right
+    const rect = imageRect(camera, 3);
+    expect(rect.bottom).toBeCloseTo(0, 6);
+    expect(rect.top).toBeCloseTo(1.125, 6);
+    expect(rect.left).toBeCloseTo(-0.8, 6);
+    expect(rect.right).toBeCloseTo(1.2, 6);
+  });
+
+  it('should keep the constructor lensShiftY as an offset in half images', () => {
+    const camera = new ProjectorCamera(1.65, 1, 16 / 10);
+    expect(camera.getLensShiftPercent().y).toBeCloseTo(50, 10);
+    expect(imageRect(camera, 1.65).bottom).toBeCloseTo(0, 6);
+  });
+
+  it('should zoom within the throw ratio range of the lens', () => {
+    const camera = ProjectorCamera.fromPhysical({
+      distance: 4,
+      screenWidth: 2.5,
+      resolution: RESOLUTION,
+      throwRatioRange: { min: 1.39, max: 2.09 },
+    });
+    expect(camera.getZoomPosition()).toBeCloseTo((1.6 - 1.39) / 0.7, 10);
+
+    camera.setZoomPosition(1);
+    expect(camera.throwRatio).toBeCloseTo(2.09, 10);
+    const rect = imageRect(camera, 4);
+    expect(rect.right - rect.left).toBeCloseTo(4 / 2.09, 6);
+
+    camera.setZoomPosition(-1);
+    expect(camera.throwRatio).toBeCloseTo(1.39, 10);
+    expect(() => new ProjectorCamera(1.5, 0, 16 / 9).setZoomPosition(0.5)).toThrow(/no zoom/);
+  });
+
+  it('should raycast and cull with the shifted frustum', () => {
+    const camera = new ProjectorCamera(1.5, 0, 16 / 9);
+    camera.setLensShiftPercent(0, 50);
+    camera.updateMatrixWorld();
+
+    const identity = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.projectionMatrixInverse);
+    identity.elements.forEach((value, i) => expect(value).toBeCloseTo(i % 5 === 0 ? 1 : 0, 10));
+
+    // The bottom center pixel looks along the lens axis
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(new THREE.Vector2(0, -1), camera);
+    expect(raycaster.ray.direction.x).toBeCloseTo(0, 6);
+    expect(raycaster.ray.direction.y).toBeCloseTo(0, 6);
+
+    const frustum = new THREE.Frustum().setFromProjectionMatrix(camera.projectionMatrix);
+    expect(frustum.containsPoint(new THREE.Vector3(0, 0.5, -3))).toBe(true);
+    expect(frustum.containsPoint(new THREE.Vector3(0, -0.5, -3))).toBe(false);
+  });
+
+  it('should copy the lens when cloned', () => {
+    const camera = new ProjectorCamera(1.2, 0.4, 4 / 3);
+    camera.lensShiftX = -0.2;
+    camera.throwRatioRange = { min: 1, max: 1.5 };
+    camera.updateProjectionMatrix();
+    const clone = camera.clone();
+    expect(clone.throwRatio).toBe(1.2);
+    expect(clone.throwRatioRange).toEqual({ min: 1, max: 1.5 });
+    expect(clone.projectionMatrix.elements).toEqual(camera.projectionMatrix.elements);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { ProjectorCamera } from '../core/ProjectorCamera';
+import { ProjectorCameraHelper } from '../addons/ProjectorCameraHelper';
+
+/** Projector at the origin looking down -Z, 16:9 with throw ratio 1.5 */
+function createProjector(lensShiftPercent = { x: 0, y: 0 }): ProjectorCamera {
+  const camera = new ProjectorCamera(1.5, 0, 16 / 9);
+  camera.setLensShiftPercent(lensShiftPercent.x, lensShiftPercent.y);
+  return camera;
+}
+
+/** Wall square to the lens axis at a distance */
+function createWall(distance: number): THREE.Mesh {
+  const wall = new THREE.Mesh(new THREE.PlaneGeometry(20, 20), new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }));
+  wall.position.z = -distance;
+  wall.updateMatrixWorld();
+  return wall;
+}
+
+/** Bounding box of a line geometry */
+function bounds(helper: ProjectorCameraHelper, index: number): THREE.Box3 {
+  const lines = helper.children[index] as THREE.LineSegments;
+  return new THREE.Box3().setFromBufferAttribute(lines.geometry.getAttribute('position') as THREE.BufferAttribute);
+}
+
+describe('Projector Camera Helper', () => {
+  it('should measure throw distance and image size on the target', () => {
+    const helper = new ProjectorCameraHelper(createProjector(), { targets: [createWall(3)], label: false });
+    const readout = helper.getReadout()!;
+    expect(readout.throwDistance).toBeCloseTo(3, 6);
+    expect(readout.imageWidth).toBeCloseTo(2, 6);
+    expect(readout.imageHeight).toBeCloseTo(1.125, 6);
+
+    // The outline lies on the wall and spans the image
+    const outline = bounds(helper, 1);
+    expect(outline.min.z).toBeCloseTo(-3, 5);
+    expect(outline.max.z).toBeCloseTo(-3, 5);
+    expect(outline.min.x).toBeCloseTo(-1, 5);
+    expect(outline.max.x).toBeCloseTo(1, 5);
+    expect(outline.min.y).toBeCloseTo(-0.5625, 5);
+    expect(outline.max.y).toBeCloseTo(0.5625, 5);
+  });
+
+  it('should draw the image where the lens shift puts it', () => {
+    const helper = new ProjectorCameraHelper(createProjector({ x: 10, y: 50 }), {
+      targets: [createWall(3)],
+      label: false,
+    });
+    // Throw distance is along the lens axis, not to the shifted image center
+    expect(helper.getReadout()!.throwDistance).toBeCloseTo(3, 6);
+
+    const outline = bounds(helper, 1);
+    expect(outline.min.y).toBeCloseTo(0, 5);
+    expect(outline.max.y).toBeCloseTo(1.125, 5);
+    expect(outline.min.x).toBeCloseTo(-0.8, 5);
+    expect(outline.max.x).toBeCloseTo(1.2, 5);
+  });
+
+  it('should follow the projector and end the frustum at its length without targets', () => {
+    const camera = createProjector();
+    const helper = new ProjectorCameraHelper(camera, { frustumLength: 6, label: false });
+    expect(helper.getReadout()).toBeNull();
+    expect(bounds(helper, 0).min.z).toBeCloseTo(-6, 5);
+    expect(bounds(helper, 1).isEmpty()).toBe(true);
+
+    const wall = createWall(3);
+    helper.targets = [wall];
+    camera.position.set(0, 0, 2);
+    helper.update();
+    expect(helper.getReadout()!.throwDistance).toBeCloseTo(5, 6);
+  });
+});
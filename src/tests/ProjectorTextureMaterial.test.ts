@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { ProjectorCamera } from '../core/ProjectorCamera';
+import { ProjectorDepthMap } from '../model/ProjectorDepthMap';
+import {
+  ProjectorTextureMaterial,
+  createProjectorTextureUniforms,
+  projectorTextureChunk,
+} from '../model/ProjectorTextureMaterial';
+
+describe('Projector Texture Material', () => {
+  it('should register the chunk with a uniform for every declared one', () => {
+    expect((THREE.ShaderChunk as Record<string, string>).projector_texture).toBe(projectorTextureChunk);
+    const declared = [...projectorTextureChunk.matchAll(/uniform\s+\w+\s+(\w+);/g)].map((match) => match[1]);
+    expect(declared.sort()).toEqual(Object.keys(createProjectorTextureUniforms(null)).sort());
+
+    const material = new ProjectorTextureMaterial({ camera: new ProjectorCamera(1.5, 0, 16 / 9), map: null });
+    expect(material.fragmentShader).toContain('#include <projector_texture>');
+  });
+
+  it('should project through the shifted lens of the projector camera', () => {
+    const camera = new ProjectorCamera(1.5, 0, 16 / 9, 0.5, 50);
+    camera.setLensShiftPercent(0, 50);
+    camera.position.set(1, 2, 3);
+    const material = new ProjectorTextureMaterial({ camera, map: null });
+
+    // Uniforms follow the camera before every draw
+    camera.position.set(0, 0, 0);
+    material.onBeforeRender();
+    expect(material.uniforms.uProjectorPosition.value.toArray()).toEqual([0, 0, 0]);
+    expect(material.uniforms.uProjectorNear.value).toBe(0.5);
+    expect(material.uniforms.uProjectorFar.value).toBe(50);
+
+    // The lens axis lands on the bottom edge of the image, half its height up is the center
+    const viewProjection: THREE.Matrix4 = material.uniforms.uProjectorViewProjection.value;
+    const onAxis = new THREE.Vector3(0, 0, -3).applyMatrix4(viewProjection);
+    expect(onAxis.x).toBeCloseTo(0, 10);
+    expect(onAxis.y).toBeCloseTo(-1, 10);
+    const center = new THREE.Vector3(0, 0.5625, -3).applyMatrix4(viewProjection);
+    expect(center.y).toBeCloseTo(0, 10);
+  });
+
+  it('should test occlusion only with a depth map', () => {
+    const camera = new ProjectorCamera(1.5, 0, 16 / 9);
+    const map = new THREE.Texture();
+    const material = new ProjectorTextureMaterial({ camera, map });
+    expect(material.map).toBe(map);
+    expect(material.uniforms.uProjectorUseDepthMap.value).toBe(false);
+
+    const depthMap = new ProjectorDepthMap({ width: 64, height: 36 });
+    material.depthMap = depthMap;
+    material.onBeforeRender();
+    expect(material.uniforms.uProjectorUseDepthMap.value).toBe(true);
+    expect(material.uniforms.uProjectorDepthMap.value).toBe(depthMap.texture);
+    depthMap.dispose();
+  });
+});
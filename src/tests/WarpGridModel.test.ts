@@ -0,0 +1,546 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { WarpGridModel, reorderGridPointsToBottomLeftOrigin } from '../warp/WarpGridModel';
+import { remapGridIndex, softSelectionWeight } from '../warp/geometry';
+import { MESH_WARP_GRID_SIZE, WARP_HANDLE_STYLE } from '../core/defaults';
+import { getHandleBaseStyle } from '../warp/MeshWarper';
+import { WARP_MODE } from '../warp/WarpMode';
+
+// 16x10 plane centered at the origin: corners at (±8, ±5)
+const createModel = (gridSize = { x: 3, y: 3 }) => new WarpGridModel({ width: 16, height: 10, gridSize });
+
+const expectPointsClose = (actual: THREE.Vector3[], expected: { x: number; y: number }[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((p, i) => {
+    expect(p.x).toBeCloseTo(expected[i].x);
+    expect(p.y).toBeCloseTo(expected[i].y);
+  });
+};
+
+describe('WarpGridModel', () => {
+  describe('Grid Layout', () => {
+    it('should reorder top-left rows to bottom-left rows', () => {
+      // 2x3 grid listed top row first
+      const topLeftOrder = ['a', 'b', 'c', 'd', 'e', 'f'];
+      expect(reorderGridPointsToBottomLeftOrigin(topLeftOrder, 2, 3)).toEqual(['e', 'f', 'c', 'd', 'a', 'b']);
+    });
+
+    it('should lay out the grid from the bottom-left, row by row', () => {
+      const model = createModel();
+      expect(model.grid[0].x).toBeCloseTo(-8);
+      expect(model.grid[0].y).toBeCloseTo(-5);
+      expect(model.grid[2].x).toBeCloseTo(8);
+      expect(model.grid[2].y).toBeCloseTo(-5);
+      expect(model.grid[8].x).toBeCloseTo(8);
+      expect(model.grid[8].y).toBeCloseTo(5);
+    });
+
+    it('should keep corners in TL, TR, BL, BR order', () => {
+      expectPointsClose(createModel().corners, [
+        { x: -8, y: 5 },
+        { x: 8, y: 5 },
+        { x: -8, y: -5 },
+        { x: 8, y: -5 },
+      ]);
+    });
+
+    it('should hand out the points created by the factories', () => {
+      const created: THREE.Vector3[] = [];
+      const model = new WarpGridModel({
+        width: 16,
+        height: 10,
+        gridSize: { x: 2, y: 2 },
+        createGridPoint: (x, y) => {
+          const point = new THREE.Vector3(x, y, 0);
+          created.push(point);
+          return point;
+        },
+      });
+      expect(created).toHaveLength(4);
+      created.forEach((point) => expect(model.grid).toContain(point));
+      // Reference points are separate copies
+      model.referenceGrid.forEach((point) => expect(created).not.toContain(point));
+    });
+  });
+
+  describe('Warping', () => {
+    it('should re-project the grid through moved corners', () => {
+      const model = createModel();
+      // Translate the whole quad by (2, 1)
+      model.corners.forEach((p) => p.add(new THREE.Vector3(2, 1, 0)));
+      model.reprojectGrid();
+      // Center grid point follows the translation
+      expect(model.grid[4].x).toBeCloseTo(2);
+      expect(model.grid[4].y).toBeCloseTo(1);
+    });
+
+    it('should keep a moved grid point when corners move afterwards', () => {
+      const model = createModel();
+      model.grid[4].set(1, 1, 0);
+      model.updateReferencePoint(4);
+      expect(model.referenceGrid[4].x).toBeCloseTo(1);
+      expect(model.referenceGrid[4].y).toBeCloseTo(1);
+
+      model.corners.forEach((p) => p.add(new THREE.Vector3(2, 0, 0)));
+      model.reprojectGrid();
+      expect(model.grid[4].x).toBeCloseTo(3);
+      expect(model.grid[4].y).toBeCloseTo(1);
+    });
+
+    it('should reject a concave corner quad', () => {
+      const model = createModel();
+      expect(model.isCornerQuadValid()).toBe(true);
+      // Top left dragged past the center
+      model.corners[0].set(6, -3, 0);
+      expect(model.isCornerQuadValid()).toBe(false);
+    });
+  });
+
+  describe('setGridSize', () => {
+    it('should rebuild the grid inside the warped corners', () => {
+      const model = createModel();
+      model.corners[1].set(10, 7, 0);
+      model.reprojectGrid();
+      const warpedTopRight = model.grid[8].clone();
+
+      expect(model.setGridSize(5, 4)).toBe(true);
+      expect(model.grid).toHaveLength(20);
+      expect(model.referenceGrid).toHaveLength(20);
+      // Last point is the top-right corner in both sizes
+      expect(model.grid[19].x).toBeCloseTo(warpedTopRight.x);
+      expect(model.grid[19].y).toBeCloseTo(warpedTopRight.y);
+    });
+
+    it('should clamp to the allowed grid size and ignore unchanged sizes', () => {
+      const model = createModel();
+      expect(model.setGridSize(3, 3)).toBe(false);
+      model.setGridSize(100, 1);
+      expect(model.gridSize).toEqual({ x: MESH_WARP_GRID_SIZE.maximum, y: MESH_WARP_GRID_SIZE.minimum });
+    });
+  });
+
+  describe('Storage Round-Trip', () => {
+    it('should normalize to 0-1 and back', () => {
+      const model = createModel();
+      expect(model.toNormalized({ x: -8, y: 5, z: 0 })).toEqual({ x: 0, y: 1, z: 0 });
+      expect(model.fromNormalized({ x: 0.75, y: 0.5, z: 2 })).toEqual({ x: 4, y: 0, z: 2 });
+    });
+
+    it('should restore a warped state exactly', () => {
+      const source = createModel();
+      source.corners[0].set(-7, 4, 0);
+      source.reprojectGrid();
+      source.grid[4].set(0.5, -0.5, 0);
+      source.updateReferencePoint(4);
+
+      const target = createModel();
+      target.applyPoints(source.getState());
+      expectPointsClose(target.corners, source.corners);
+      expectPointsClose(target.grid, source.grid);
+      expectPointsClose(target.referenceGrid, source.referenceGrid);
+    });
+
+    it('should rebuild the grid from the corners when the stored size differs', () => {
+      const source = createModel({ x: 4, y: 4 });
+      source.corners[3].set(9, -6, 0);
+      source.reprojectGrid();
+
+      const target = createModel();
+      target.applyPoints(source.getState());
+      expect(target.grid).toHaveLength(9);
+      // Bottom-right grid point sits on the moved corner
+      expect(target.grid[2].x).toBeCloseTo(9);
+      expect(target.grid[2].y).toBeCloseTo(-6);
+    });
+  });
+
+  describe('clampInsideQuad', () => {
+    it('should move an outside point onto the quad edge', () => {
+      const model = createModel();
+      const point = new THREE.Vector3(12, 0, 0);
+      model.clampInsideQuad(point);
+      expect(point.x).toBeCloseTo(8);
+      expect(point.y).toBeCloseTo(0);
+    });
+
+    it('should leave an inside point untouched', () => {
+      const model = createModel();
+      model.corners[0].set(-9, 6, 0);
+      const point = new THREE.Vector3(1, 2, 0);
+      model.clampInsideQuad(point);
+      expect(point.x).toBeCloseTo(1);
+      expect(point.y).toBeCloseTo(2);
+    });
+  });
+
+  describe('Locks', () => {
+    it('should pin locked grid points when corners move', () => {
+      const model = createModel();
+      model.grid[4].set(1, 1, 0);
+      model.updateReferencePoint(4);
+      model.setLocked('grid', 4, true);
+
+      model.corners.forEach((p) => p.add(new THREE.Vector3(2, 0, 0)));
+      model.reprojectGrid();
+      expect(model.grid[4].x).toBeCloseTo(1);
+      expect(model.grid[4].y).toBeCloseTo(1);
+      // The reference follows, so the pinned point stays put under the new homography
+      const [x, y] = model.getHomography().transform(model.referenceGrid[4].x, model.referenceGrid[4].y);
+      expect(x).toBeCloseTo(1);
+      expect(y).toBeCloseTo(1);
+      // Unlocked points still follow the corners
+      expect(model.grid[0].x).toBeCloseTo(-6);
+    });
+
+    it('should map grid indices between sizes where points coincide', () => {
+      // Center of 3x3 is the center of 5x5, but has no counterpart in 4x4
+      expect(remapGridIndex(4, { x: 3, y: 3 }, { x: 5, y: 5 })).toBe(12);
+      expect(remapGridIndex(4, { x: 3, y: 3 }, { x: 4, y: 4 })).toBeNull();
+      expect(remapGridIndex(8, { x: 3, y: 3 }, { x: 4, y: 4 })).toBe(15);
+    });
+
+    it('should keep locks and positions across setGridSize where possible', () => {
+      const model = createModel();
+      model.grid[4].set(1, 1, 0);
+      model.updateReferencePoint(4);
+      model.setLocked('grid', 4, true);
+      model.setLocked('grid', 1, true);
+      model.setLocked('corner', 0, true);
+
+      model.setGridSize(5, 3);
+      // Column 1 of 3 is column 2 of 5
+      expect(model.getLocks()).toEqual({ corners: [0], grid: [2, 7] });
+      expect(model.grid[7].x).toBeCloseTo(1);
+      expect(model.grid[7].y).toBeCloseTo(1);
+
+      model.setGridSize(4, 3);
+      expect(model.getLocks()).toEqual({ corners: [0], grid: [] });
+    });
+
+    it('should store locks with the control points', () => {
+      const source = createModel();
+      source.setLocked('corner', 3, true);
+      source.setLocked('grid', 5, true);
+
+      const target = createModel();
+      target.applyPoints(source.getState());
+      expect(target.getLocks()).toEqual({ corners: [3], grid: [5] });
+
+      // Older saves carry no locks
+      target.applyPoints({ ...source.getState(), locked: undefined });
+      expect(target.getLocks()).toEqual({ corners: [], grid: [] });
+    });
+  });
+
+  describe('Inserting and Deleting', () => {
+    // Warped model: moved corner and an off-grid center point
+    const createWarpedModel = () => {
+      const model = createModel();
+      model.corners[1].set(9, 6, 0);
+      model.reprojectGrid();
+      model.grid[4].set(1, -0.5, 0);
+      model.updateReferencePoint(4);
+      return model;
+    };
+
+    it('should insert a column on the current surface and keep the other points', () => {
+      for (const mode of [WARP_MODE.bilinear, WARP_MODE.bicubic, WARP_MODE.bezier]) {
+        const model = createWarpedModel();
+        const before = model.grid.map((p) => p.clone());
+        const onSurface = [0, 0.5, 1].map((v) => model.sample(0.25, v, mode));
+
+        expect(model.insertColumn(0.25, mode)).toBe(1);
+        expect(model.gridSize).toEqual({ x: 4, y: 3 });
+        expect(model.knots.x).toEqual([0, 0.25, 0.5, 1]);
+        // Rows of the old grid: columns 0, 2, 3 keep their points, column 1 lies on the old surface
+        for (let row = 0; row < 3; row++) {
+          expectPointsClose(
+            [model.grid[row * 4], model.grid[row * 4 + 2], model.grid[row * 4 + 3]],
+            [before[row * 3], before[row * 3 + 1], before[row * 3 + 2]],
+          );
+          expectPointsClose([model.grid[row * 4 + 1]], [onSurface[row]]);
+        }
+      }
+    });
+
+    it('should keep a bilinear warp exactly', () => {
+      const model = createWarpedModel();
+      const samples = [0.1, 0.4, 0.7, 0.95].map((t) => model.sample(t, 1 - t, WARP_MODE.bilinear));
+      model.insertRow(0.3, WARP_MODE.bilinear);
+      model.insertColumn(0.8, WARP_MODE.bilinear);
+      const after = [0.1, 0.4, 0.7, 0.95].map((t) => model.sample(t, 1 - t, WARP_MODE.bilinear));
+      after.forEach((p, i) => {
+        expect(p.x).toBeCloseTo(samples[i].x, 10);
+        expect(p.y).toBeCloseTo(samples[i].y, 10);
+      });
+    });
+
+    it('should refuse columns outside, too close to others or past the maximum', () => {
+      const model = createModel();
+      expect(model.insertColumn(0, WARP_MODE.bicubic)).toBe(-1);
+      expect(model.insertColumn(1.2, WARP_MODE.bicubic)).toBe(-1);
+      expect(model.insertColumn(0.501, WARP_MODE.bicubic)).toBe(-1);
+      expect(model.insertColumn(0.25, WARP_MODE.bicubic)).toBe(1);
+
+      // Columns packed to the left up to the maximum, leaving a wide span on the right
+      const full = createModel({ x: 2, y: 2 });
+      for (let i = 1; i < MESH_WARP_GRID_SIZE.maximum - 1; i++) full.insertColumn(i * 0.012, WARP_MODE.bilinear);
+      expect(full.gridSize.x).toBe(MESH_WARP_GRID_SIZE.maximum);
+      expect(full.insertColumn(0.9, WARP_MODE.bilinear)).toBe(-1);
+      expect(full.insertRow(0.5, WARP_MODE.bilinear)).toBe(1);
+    });
+
+    it('should give inserted points references under the corner homography', () => {
+      const model = createWarpedModel();
+      model.insertRow(0.75, WARP_MODE.bicubic);
+      // Rows from the bottom at 0, 0.5, 0.75, 1: row 2 is new
+      for (let col = 0; col < 3; col++) {
+        const ref = model.referenceGrid[2 * 3 + col];
+        const [x, y] = model.getHomography().transform(ref.x, ref.y);
+        expect(x).toBeCloseTo(model.grid[2 * 3 + col].x);
+        expect(y).toBeCloseTo(model.grid[2 * 3 + col].y);
+      }
+    });
+
+    it('should delete inner columns and rows, keeping points and locks', () => {
+      const model = createModel({ x: 4, y: 3 });
+      model.insertRow(0.25, WARP_MODE.bicubic);
+      model.setLocked('grid', 11, true); // Column 3, row 2 (at v = 0.5)
+      const kept = model.grid[11].clone();
+
+      expect(model.deleteColumn(0)).toBe(false);
+      expect(model.deleteColumn(3)).toBe(false);
+      expect(model.deleteColumn(1)).toBe(true);
+      expect(model.knots.x).toEqual([0, 2 / 3, 1]);
+      expect(model.deleteRow(1)).toBe(true);
+      expect(model.knots.y).toEqual([0, 0.5, 1]);
+
+      // Now column 2, row 1 of a 3x3 grid
+      expect(model.getLocks().grid).toEqual([5]);
+      expectPointsClose([model.grid[5]], [kept]);
+    });
+
+    it('should store knots with the control points', () => {
+      const source = createWarpedModel();
+      source.insertColumn(0.9, WARP_MODE.bicubic);
+
+      const target = createModel({ x: 4, y: 3 });
+      target.applyPoints(source.getState());
+      expect(target.knots).toEqual(source.knots);
+      expectPointsClose(target.grid, source.grid);
+
+      // Older saves are evenly spaced
+      target.applyPoints({ ...source.getState(), knots: undefined });
+      expect(target.knots.x).toEqual([0, 1 / 3, 2 / 3, 1]);
+    });
+
+    it('should lay out a reset grid at its knots', () => {
+      const model = createWarpedModel();
+      model.insertColumn(0.25, WARP_MODE.bicubic);
+      model.resetToDefault();
+      // x = -8 + 0.25 * 16
+      expect(model.grid[1].x).toBeCloseTo(-4);
+      expect(model.referenceGrid[1].x).toBeCloseTo(-4);
+    });
+
+    it('should go back to an even grid on setGridSize', () => {
+      const model = createWarpedModel();
+      model.insertColumn(0.25, WARP_MODE.bicubic);
+      model.setGridSize(3, 3);
+      expect(model.knots).toEqual({ x: [0, 0.5, 1], y: [0, 0.5, 1] });
+    });
+  });
+
+  describe('Bezier Tangents', () => {
+    // Derivative of the corner homography along a reference direction, in world units per knot
+    const homographyTangent = (model: WarpGridModel, index: number, axis: 'u' | 'v') => {
+      const ref = model.referenceGrid[index];
+      const [dx, dy] = axis === 'u' ? [16 * 1e-5, 0] : [0, 10 * 1e-5];
+      const homography = model.getHomography();
+      const [ax, ay] = homography.transform(ref.x - dx, ref.y - dy);
+      const [bx, by] = homography.transform(ref.x + dx, ref.y + dy);
+      return { x: (bx - ax) / 2e-5, y: (by - ay) / 2e-5 };
+    };
+
+    it('should start with the plane size as tangents', () => {
+      const model = createModel();
+      model.tangents.u.forEach((t) => expect(t).toEqual({ x: 16, y: 0 }));
+      model.tangents.v.forEach((t) => expect(t).toEqual({ x: 0, y: 10 }));
+    });
+
+    it('should carry tangents through corner moves, locked points keep theirs', () => {
+      const model = createModel();
+      model.setLocked('grid', 0, true);
+      model.corners[1].set(10, 7, 0);
+      model.corners[3].set(9, -6, 0);
+      model.reprojectGrid();
+
+      for (const axis of ['u', 'v'] as const) {
+        const expected = homographyTangent(model, 4, axis);
+        expect(model.tangents[axis][4].x).toBeCloseTo(expected.x, 3);
+        expect(model.tangents[axis][4].y).toBeCloseTo(expected.y, 3);
+      }
+      expect(model.tangents.u[0]).toEqual({ x: 16, y: 0 });
+    });
+
+    it('should place handles a third of a cell along the tangent and set tangents from them', () => {
+      const model = createModel();
+      // Center point at the origin, cells 0.5 wide: 16 * 0.5 / 3
+      expect(model.getTangentHandle(4, 'u', 1).x).toBeCloseTo(8 / 3);
+      expect(model.getTangentHandle(4, 'v', -1).y).toBeCloseTo(-5 / 3);
+
+      model.setTangentFromHandle(4, 'u', -1, { x: -2, y: 1 });
+      expect(model.tangents.u[4].x).toBeCloseTo(12);
+      expect(model.tangents.u[4].y).toBeCloseTo(-6);
+      // The opposite handle mirrors it
+      expect(model.getTangentHandle(4, 'u', 1).x).toBeCloseTo(2);
+      expect(model.getTangentHandle(4, 'u', 1).y).toBeCloseTo(-1);
+    });
+
+    it('should store tangents and estimate missing ones', () => {
+      const source = createModel();
+      source.setTangentFromHandle(4, 'v', 1, { x: 1, y: 2 });
+      const target = createModel();
+      target.applyPoints(source.getState());
+      expect(target.tangents.v[4].x).toBeCloseTo(source.tangents.v[4].x);
+      expect(target.tangents.v[4].y).toBeCloseTo(source.tangents.v[4].y);
+
+      target.applyPoints({ ...source.getState(), tangents: undefined });
+      expect(target.tangents.v[4]).toEqual({ x: 0, y: 10 });
+    });
+  });
+
+  describe('Symmetry', () => {
+    const both = { x: true, y: true };
+
+    it('should find mirrored corners and grid points', () => {
+      const model = createModel();
+      expect(model.getMirrorCounterparts('corner', 0, both).map((c) => c.index)).toEqual([1, 2, 3]);
+      expect(model.getMirrorCounterparts('corner', 3, { x: false, y: true })).toEqual([{ index: 1, flipX: false, flipY: true }]);
+      // Left-middle grid point mirrors onto right-middle, the center has no counterpart
+      expect(model.getMirrorCounterparts('grid', 3, both).map((c) => c.index)).toEqual([5]);
+      expect(model.getMirrorCounterparts('grid', 4, both)).toEqual([]);
+
+      // A column at 0.25 has no counterpart without one at 0.75
+      model.insertColumn(0.25, WARP_MODE.bilinear);
+      expect(model.getMirrorCounterparts('grid', 1, { x: true, y: false })).toEqual([]);
+      model.insertColumn(0.75, WARP_MODE.bilinear);
+      expect(model.getMirrorCounterparts('grid', 1, { x: true, y: false }).map((c) => c.index)).toEqual([3]);
+    });
+
+    it('should mirror grid moves in reference space under keystone', () => {
+      const model = createModel();
+      model.corners[1].set(10, 7, 0);
+      model.reprojectGrid();
+      const initial = model.referenceGrid.map((p) => p.clone());
+
+      const previous = model.referenceGrid[3].clone();
+      model.grid[3].x += 0.5;
+      model.grid[3].y += 0.3;
+      model.updateReferencePoint(3);
+      expect(model.mirrorGridMove(3, previous, { x: true, y: false })).toEqual([5]);
+
+      const moved = { x: model.referenceGrid[3].x - initial[3].x, y: model.referenceGrid[3].y - initial[3].y };
+      expect(model.referenceGrid[5].x - initial[5].x).toBeCloseTo(-moved.x);
+      expect(model.referenceGrid[5].y - initial[5].y).toBeCloseTo(moved.y);
+      const [x, y] = model.getHomography().transform(model.referenceGrid[5].x, model.referenceGrid[5].y);
+      expect(model.grid[5].x).toBeCloseTo(x);
+      expect(model.grid[5].y).toBeCloseTo(y);
+    });
+
+    it('should mirror corner moves and skip locked or excluded counterparts', () => {
+      const model = createModel();
+      model.corners[0].set(-7, 4.5, 0);
+      expect(model.mirrorCornerMove(0, { x: -8, y: 5 }, both, [3])).toEqual([1, 2]);
+      expectPointsClose([model.corners[1], model.corners[2]], [{ x: 7, y: 4.5 }, { x: -7, y: -4.5 }]);
+      expect(model.corners[3].x).toBe(8);
+
+      model.setLocked('corner', 1, true);
+      model.corners[0].set(-6, 4.5, 0);
+      expect(model.mirrorCornerMove(0, { x: -7, y: 4.5 }, both)).toEqual([2, 3]);
+      expect(model.corners[1].x).toBeCloseTo(7);
+    });
+  });
+
+  describe('Soft Selection', () => {
+    const dragCenter = (model: WarpGridModel, radius: number) => {
+      const previous = model.referenceGrid.map((p) => p.clone());
+      model.grid[12].x += 1;
+      model.updateReferencePoint(12);
+      return model.softMoveGrid([12], previous, radius, 'linear');
+    };
+
+    it('should move neighbours by the falloff of their distance', () => {
+      // 5x5 grid: 4 world units between columns, the center is index 12
+      const model = createModel({ x: 5, y: 5 });
+      const before = model.grid.map((p) => p.clone());
+      // Radius 0.5 of the 16 wide plane is 8 units: direct neighbours at 4 move half as far
+      const moved = dragCenter(model, 0.5);
+      expect(model.grid[13].x - before[13].x).toBeCloseTo(0.5);
+      expect(model.grid[11].x - before[11].x).toBeCloseTo(0.5);
+      // Rows are 2.5 apart: 1 - 2.5 / 8
+      expect(model.grid[17].x - before[17].x).toBeCloseTo(1 - 2.5 / 8);
+      // Two columns away is outside the radius
+      expect(moved).not.toContain(14);
+      expect(model.grid[14].x).toBe(before[14].x);
+    });
+
+    it('should leave locked points and do nothing without a radius', () => {
+      const model = createModel({ x: 5, y: 5 });
+      model.setLocked('grid', 13, true);
+      const before = model.grid[13].clone();
+      expect(dragCenter(model, 0.5)).not.toContain(13);
+      expect(model.grid[13].x).toBe(before.x);
+      expect(dragCenter(model, 0)).toEqual([]);
+    });
+
+    it('should weigh the falloff curves', () => {
+      expect(softSelectionWeight(0, 2, 'smooth')).toBe(1);
+      expect(softSelectionWeight(1, 2, 'smooth')).toBeCloseTo(0.5);
+      expect(softSelectionWeight(1, 2, 'sharp')).toBeCloseTo(0.25);
+      expect(softSelectionWeight(1, 2, 'root')).toBeCloseTo(Math.SQRT1_2);
+      expect(softSelectionWeight(1.9, 2, 'constant')).toBe(1);
+      expect(softSelectionWeight(2, 2, 'constant')).toBe(0);
+    });
+
+    it('should outline the radius around a grid point', () => {
+      const model = createModel({ x: 5, y: 5 });
+      const outline = model.getSoftSelectionOutline(12, 0.25, 4);
+      expectPointsClose(outline as THREE.Vector3[], [
+        { x: 4, y: 0 },
+        { x: 0, y: 4 },
+        { x: -4, y: 0 },
+        { x: 0, y: -4 },
+      ]);
+    });
+  });
+
+  describe('resetToDefault', () => {
+    it('should restore the unwarped plane and keep the grid size', () => {
+      const model = createModel({ x: 4, y: 3 });
+      const initialGrid = model.grid.map((p) => p.clone());
+      const gridPoints = [...model.grid];
+
+      model.corners[2].set(-10, -7, 0);
+      model.reprojectGrid();
+      model.grid[5].set(0, 0, 0);
+      model.updateReferencePoint(5);
+      model.resetToDefault();
+
+      expect(model.gridSize).toEqual({ x: 4, y: 3 });
+      expect(model.corners[2].x).toBeCloseTo(-8);
+      expect(model.corners[2].y).toBeCloseTo(-5);
+      expectPointsClose(model.grid, initialGrid);
+      expectPointsClose(model.referenceGrid, initialGrid);
+      // Points are moved in place, handle references stay valid
+      model.grid.forEach((p, i) => expect(p).toBe(gridPoints[i]));
+    });
+  });
+
+  describe('Handle Style', () => {
+    it('should keep corner and grid handles apart', () => {
+      expect(getHandleBaseStyle('corner')).toEqual({ color: WARP_HANDLE_STYLE.cornerColor, opacity: 0.9 });
+      expect(getHandleBaseStyle('grid')).toEqual({ color: WARP_HANDLE_STYLE.gridColor, opacity: 0.8 });
+    });
+  });
+});
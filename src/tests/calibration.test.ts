@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CALIBRATION_VERSION,
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_LENS_DISTORTION,
+  DEFAULT_SOURCE_CROP,
+  DEFAULT_SURFACE_NAME,
+  type ImageSettings,
+} from '../core/defaults';
+import {
+  CALIBRATION_FORMAT,
+  CalibrationValidationError,
+  migrateCalibration,
+  validateCalibration,
+  validateWarp,
+  type CalibrationDocument,
+} from '../calibration/Calibration';
+import { WARP_MODE, type WarpState } from '../warp/MeshWarper';
+
+/** Normalized grid of evenly spaced points */
+function grid(x: number, y: number): WarpState['grid'] {
+  return Array.from({ length: x * y }, (_, i) => ({ x: (i % x) / (x - 1), y: Math.floor(i / x) / (y - 1), z: 0 }));
+}
+
+/** A document shaped like ProjectionMapper.exportCalibration() output, with two surfaces */
+function createDocument(): CalibrationDocument {
+  const warp = (): WarpState => ({
+    gridSize: { x: 3, y: 2 },
+    warpMode: WARP_MODE.bicubic,
+    corners: [
+      { x: 0, y: 0, z: 0 },
+      { x: 1, y: 0, z: 0 },
+      { x: 0, y: 1, z: 0 },
+      { x: 1, y: 1, z: 0 },
+    ],
+    grid: grid(3, 2),
+    referenceGrid: grid(3, 2),
+    locked: { corners: [0], grid: [5] },
+    knots: { x: [0, 0.4, 1], y: [0, 1] },
+  });
+  return {
+    format: CALIBRATION_FORMAT,
+    version: CALIBRATION_VERSION,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    resolution: { width: 1920, height: 1080 },
+    zoom: 0.8,
+    cameraOffset: { x: 0.1, y: -0.2 },
+    imageSettings: { ...DEFAULT_IMAGE_SETTINGS, gamma: 1.2 },
+    edgeBlend: { ...DEFAULT_EDGE_BLEND, enabled: true, right: 0.2 },
+    lensDistortion: { ...DEFAULT_LENS_DISTORTION, enabled: true, k1: -0.05 },
+    sourceCrop: { ...DEFAULT_SOURCE_CROP, width: 0.5 },
+    surfaces: [
+      { name: DEFAULT_SURFACE_NAME, visible: true, uvRect: { x: 0, y: 0, width: 0.5, height: 1 }, warp: warp() },
+      { name: 'side', visible: false, uvRect: { x: 0.5, y: 0, width: 0.5, height: 1 }, warp: warp() },
+    ],
+    polygonMask: {
+      nodes: [
+        { u: 0.1, v: 0.1 },
+        { u: 0.9, v: 0.1 },
+        { u: 0.5, v: 0.9 },
+      ],
+      enabled: true,
+      inverted: false,
+      feather: 0.02,
+    },
+  };
+}
+
+/** Validates a modified document, returns the error path. Invalid values are cast with `as never`. */
+function rejectionPath(modify: (doc: CalibrationDocument) => void): string {
+  const doc = createDocument();
+  modify(doc);
+  try {
+    validateCalibration(doc);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CalibrationValidationError);
+    expect((error as Error).message).toContain((error as CalibrationValidationError).path);
+    return (error as CalibrationValidationError).path;
+  }
+  throw new Error('document was accepted');
+}
+
+describe('Calibration', () => {
+  it('should keep an exported document through JSON unchanged', () => {
+    const doc = createDocument();
+    expect(validateCalibration(JSON.parse(JSON.stringify(doc)))).toEqual(doc);
+  });
+
+  it('should fill settings and optional warp fields missing in older exports', () => {
+    const doc: Partial<CalibrationDocument> = createDocument();
+    delete doc.edgeBlend;
+    delete doc.lensDistortion;
+    delete (doc.imageSettings as Partial<ImageSettings>).gamma;
+    const warp = doc.surfaces![0].warp;
+    delete warp.locked;
+    warp.grid = [];
+    warp.referenceGrid = [];
+    doc.polygonMask = null;
+
+    const validated = validateCalibration(doc);
+    expect(validated.edgeBlend).toEqual(DEFAULT_EDGE_BLEND);
+    expect(validated.lensDistortion).toEqual(DEFAULT_LENS_DISTORTION);
+    expect(validated.imageSettings.gamma).toBe(DEFAULT_IMAGE_SETTINGS.gamma);
+    expect(validated.surfaces[0].warp.locked).toBeUndefined();
+    expect(validated.surfaces[0].warp.grid).toEqual([]);
+    expect(validated.polygonMask).toBeNull();
+  });
+
+  it('should reject bad points and grid sizes with the path of the value', () => {
+    expect(rejectionPath((doc) => (doc.surfaces[1].warp.corners[2].x = 'left' as never))).toBe('surfaces[1].warp.corners[2].x');
+    expect(rejectionPath((doc) => doc.surfaces[0].warp.corners.pop())).toBe('surfaces[0].warp.corners');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.grid[3].y = null as never))).toBe('surfaces[0].warp.grid[3].y');
+    expect(rejectionPath((doc) => doc.surfaces[0].warp.referenceGrid.pop())).toBe('surfaces[0].warp.referenceGrid');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.gridSize.x = 1))).toBe('surfaces[0].warp.gridSize.x');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.gridSize.y = 2.5))).toBe('surfaces[0].warp.gridSize.y');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.warpMode = 'spline' as never))).toBe('surfaces[0].warp.warpMode');
+  });
+
+  it('should reject bad knots and lock indices', () => {
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.knots!.x = [0, 1]))).toBe('surfaces[0].warp.knots.x');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.knots!.x = [0, 0.6, 0.5]))).toBe('surfaces[0].warp.knots.x');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.knots!.y[1] = '1' as never))).toBe('surfaces[0].warp.knots.y[1]');
+    expect(rejectionPath((doc) => (doc.surfaces[0].warp.locked!.corners = [4]))).toBe('surfaces[0].warp.locked.corners[0]');
+    expect(rejectionPath((doc) => (doc.surfaces[1].warp.locked!.grid = [0, -1]))).toBe('surfaces[1].warp.locked.grid[1]');
+    expect(rejectionPath((doc) => (doc.surfaces[1].warp.locked!.grid = [6]))).toBe('surfaces[1].warp.locked.grid[0]');
+  });
+
+  it('should reject broken surfaces and document settings', () => {
+    expect(rejectionPath((doc) => (doc.surfaces[1].name = DEFAULT_SURFACE_NAME))).toBe('surfaces[1].name');
+    expect(rejectionPath((doc) => doc.surfaces.shift())).toBe('surfaces');
+    expect(rejectionPath((doc) => (doc.surfaces[0].uvRect.width = 0))).toBe('surfaces[0].uvRect');
+    expect(rejectionPath((doc) => (doc.zoom = 0))).toBe('zoom');
+    expect(rejectionPath((doc) => (doc.edgeBlend.enabled = 1 as never))).toBe('edgeBlend.enabled');
+    expect(rejectionPath((doc) => doc.polygonMask!.nodes.pop())).toBe('polygonMask.nodes');
+  });
+
+  it('should validate a single warp like the ones persisted by MeshWarper', () => {
+    const warp = createDocument().surfaces[0].warp;
+    expect(validateWarp(JSON.parse(JSON.stringify(warp)))).toEqual(warp);
+
+    warp.grid.pop();
+    expect(() => validateWarp(warp, 'projection-mapper-warp')).toThrow(
+      new CalibrationValidationError('projection-mapper-warp.grid', 'must contain 6 points, got 5'),
+    );
+  });
+
+  it('should reject other formats and unsupported versions', () => {
+    expect(rejectionPath((doc) => (doc.format = 'other-tool' as never))).toBe('format');
+    expect(rejectionPath((doc) => (doc.version = CALIBRATION_VERSION + 1))).toBe('version');
+    expect(rejectionPath((doc) => (doc.version = 0))).toBe('version');
+    expect(rejectionPath((doc) => (doc.version = '1' as never))).toBe('version');
+    expect(() => migrateCalibration([])).toThrow(CalibrationValidationError);
+
+    const current = createDocument();
+    expect(migrateCalibration(current)).toBe(current);
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { isQuadConcave } from '../warp/geometry';
+import {
+  estimateGridTangents,
+  isQuadConcave,
+  remapGridIndex,
+  resampleGrid,
+  sampleWarpGrid,
+  uniformKnots,
+} from '../warp/geometry';
+import { WARP_MODE } from '../warp/WarpMode';
 
 describe('Geometry Checks', () => {
   it('should return false for a valid square', () => {
@@ -13,3 +21,99 @@ describe('Geometry Checks', () => {
     expect(isQuadConcave(concave)).toBe(true);
   });
 });
+
+describe('Grid Resampling', () => {
+  const grid2x2 = [
+    { x: 0, y: 0, z: 0 },
+    { x: 1, y: 0, z: 0 },
+    { x: 0, y: 1, z: 0 },
+    { x: 1, y: 1, z: 1 },
+  ];
+
+  it('should interpolate new points between the source points', () => {
+    const grid3x3 = resampleGrid(grid2x2, { x: 2, y: 2 }, { x: 3, y: 3 });
+    expect(grid3x3).toHaveLength(9);
+    expect(grid3x3[4]).toEqual({ x: 0.5, y: 0.5, z: 0.25 });
+    expect(grid3x3[8]).toEqual(grid2x2[3]);
+  });
+
+  it('should keep the grid when the size is unchanged', () => {
+    expect(resampleGrid(grid2x2, { x: 2, y: 2 }, { x: 2, y: 2 })).toEqual(grid2x2);
+  });
+});
+
+describe('Grid Knots', () => {
+  // 3x2 grid with the middle column at 0.25: x = 4u, y = 2v except the raised top-middle point
+  const knots = { x: [0, 0.25, 1], y: [0, 1] };
+  const points = [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 4, y: 0 },
+    { x: 0, y: 2 },
+    { x: 1, y: 3 },
+    { x: 4, y: 2 },
+  ];
+
+  it('should space uniform knots evenly', () => {
+    expect(uniformKnots(5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  it('should pass through the grid points at their knots', () => {
+    for (const mode of [WARP_MODE.bilinear, WARP_MODE.bicubic, WARP_MODE.bezier]) {
+      points.forEach((p, i) => {
+        const sample = sampleWarpGrid(points, { x: 3, y: 2 }, knots, knots.x[i % 3], knots.y[Math.floor(i / 3)], mode);
+        expect(sample.x).toBeCloseTo(p.x);
+        expect(sample.y).toBeCloseTo(p.y);
+      });
+    }
+  });
+
+  it('should interpolate within unevenly spaced cells', () => {
+    // Halfway through the wide cell from u = 0.25 to 1 on the bottom edge
+    expect(sampleWarpGrid(points, { x: 3, y: 2 }, knots, 0.625, 0, WARP_MODE.bilinear)).toEqual({ x: 2.5, y: 0 });
+    // Bicubic reproduces a straight line with matching knot spacing
+    expect(sampleWarpGrid(points, { x: 3, y: 2 }, knots, 0.625, 0, WARP_MODE.bicubic).x).toBeCloseTo(2.5);
+  });
+
+  it('should resample and remap onto other knots', () => {
+    const even = resampleGrid(points.map((p) => ({ ...p, z: 0 })), { x: 3, y: 2 }, { x: 3, y: 2 }, knots);
+    // The middle column moves to u = 0.5, on the bottom edge at x = 4u
+    expect(even[1]).toEqual({ x: 2, y: 0, z: 0 });
+    expect(remapGridIndex(4, { x: 3, y: 2 }, { x: 3, y: 2 }, knots)).toBeNull();
+    expect(remapGridIndex(4, { x: 3, y: 2 }, { x: 4, y: 2 }, knots, { x: [0, 0.25, 0.5, 1], y: [0, 1] })).toBe(5);
+  });
+});
+
+describe('Bezier Patches', () => {
+  // 3x3 grid of the affine map x = 4u + v, y = u + 2v, with the middle column at 0.25
+  const knots = { x: [0, 0.25, 1], y: [0, 0.5, 1] };
+  const affine = (u: number, v: number) => ({ x: 4 * u + v, y: u + 2 * v });
+  const points = knots.y.flatMap((v) => knots.x.map((u) => affine(u, v)));
+  const gridSize = { x: 3, y: 3 };
+
+  it('should estimate the derivatives of an affine grid', () => {
+    const tangents = estimateGridTangents(points, gridSize, knots);
+    tangents.u.forEach((t) => expect(t).toEqual({ x: 4, y: 1 }));
+    tangents.v.forEach((t) => expect(t).toEqual({ x: 1, y: 2 }));
+  });
+
+  it('should reproduce an affine grid between its points', () => {
+    for (const [u, v] of [[0.1, 0.2], [0.6, 0.75], [0.25, 0.9]]) {
+      const sample = sampleWarpGrid(points, gridSize, knots, u, v, WARP_MODE.bezier);
+      expect(sample.x).toBeCloseTo(affine(u, v).x);
+      expect(sample.y).toBeCloseTo(affine(u, v).y);
+    }
+  });
+
+  it('should bend the cells along a changed tangent', () => {
+    const tangents = estimateGridTangents(points, gridSize, knots);
+    // Tilt the bottom-middle point's u tangent upwards
+    tangents.u[1] = { x: 4, y: 3 };
+    const bottom = (u: number) => sampleWarpGrid(points, gridSize, knots, u, 0, WARP_MODE.bezier, tangents);
+    expect(bottom(0.25)).toEqual(points[1]);
+    expect(bottom(0.125).y).toBeLessThan(affine(0.125, 0).y);
+    expect(bottom(0.5).y).toBeGreaterThan(affine(0.5, 0).y);
+    // Other rows only move through the twist-free inner control points, the top row stays affine
+    expect(sampleWarpGrid(points, gridSize, knots, 0.5, 1, WARP_MODE.bezier, tangents).y).toBeCloseTo(affine(0.5, 1).y);
+  });
+});
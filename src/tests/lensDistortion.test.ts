@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LENS_DISTORTION, type LensDistortionSettings } from '../core/defaults';
+import { distortPoint, isLensDistortionActive } from '../utils/lensDistortion';
+
+const lens = (settings: Partial<LensDistortionSettings>): LensDistortionSettings => ({
+  ...DEFAULT_LENS_DISTORTION,
+  enabled: true,
+  ...settings,
+});
+
+describe('Lens Distortion', () => {
+  it('should leave points in place without coefficients', () => {
+    const point = distortPoint({ x: 0.7, y: -0.4 }, lens({}), 16 / 9);
+    expect(point.x).toBeCloseTo(0.7, 12);
+    expect(point.y).toBeCloseTo(-0.4, 12);
+    expect(isLensDistortionActive(lens({}))).toBe(false);
+    expect(isLensDistortionActive(lens({ k1: -0.1, enabled: false }))).toBe(false);
+    expect(isLensDistortionActive(lens({ k1: -0.1 }))).toBe(true);
+  });
+
+  it('should pull the edges in with barrel distortion, radius in half image heights', () => {
+    const barrel = lens({ k1: -0.1 });
+    // Top edge: radius 1, scaled by 1 + k1
+    expect(distortPoint({ x: 0, y: 1 }, barrel, 16 / 9).y).toBeCloseTo(0.9, 12);
+    // Right edge: radius 16 / 9, the same relative pull at the same distance from the center
+    const right = distortPoint({ x: 1, y: 0 }, barrel, 16 / 9);
+    expect(right.x).toBeCloseTo(1 - 0.1 * (16 / 9) ** 2, 12);
+    expect(distortPoint({ x: 9 / 16, y: 0 }, barrel, 16 / 9).x * (16 / 9)).toBeCloseTo(0.9, 12);
+  });
+
+  it('should apply the higher radial terms and the tangential terms', () => {
+    const point = distortPoint({ x: 0.5, y: 0.5 }, lens({ k2: 0.05, k3: 0.01, p1: 0.002, p2: -0.003 }), 1);
+    const r2 = 0.5;
+    const radial = 1 + 0.05 * r2 * r2 + 0.01 * r2 * r2 * r2;
+    expect(point.x).toBeCloseTo(0.5 * radial + 2 * 0.002 * 0.25 - 0.003 * (r2 + 0.5), 12);
+    expect(point.y).toBeCloseTo(0.5 * radial + 0.002 * (r2 + 0.5) + 2 * -0.003 * 0.25, 12);
+  });
+
+  it('should distort around the lens axis of a shifted projector', () => {
+    // Lens axis on the bottom edge: points on it stay, the top edge is 2 half heights away
+    const shifted = lens({ k1: -0.05, centerY: -1 });
+    expect(distortPoint({ x: 0, y: -1 }, shifted, 1).y).toBeCloseTo(-1, 12);
+    expect(distortPoint({ x: 0, y: 1 }, shifted, 1).y).toBeCloseTo(-1 + 2 * (1 - 0.05 * 4), 12);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { ProjectorCamera } from '../core/ProjectorCamera';
+import {
+  getCameraPose,
+  projectToPixel,
+  solveProjectorCalibration,
+  solveProjectorPose,
+  type PointCorrespondence,
+} from '../calibration/projectorPose';
+import { ModelSurface, type ModelCameraState } from '../model/ModelSurface';
+import { MemoryStore } from '../storage/MemoryStore';
+
+const RESOLUTION = { width: 1920, height: 1080 };
+
+// Corners and a few points on the faces of a 2 x 1 x 1 box standing on the floor
+const MODEL_POINTS = [
+  [-1, 0, -0.5],
+  [1, 0, -0.5],
+  [-1, 1, -0.5],
+  [1, 1, -0.5],
+  [-1, 0, 0.5],
+  [1, 0, 0.5],
+  [-1, 1, 0.5],
+  [1, 1, 0.5],
+  [0, 1, 0],
+  [0.3, 0.5, 0.5],
+].map(([x, y, z]) => ({ x, y, z }));
+
+/** A ceiling-mounted projector looking down at the box from the front right */
+function createProjector(): ProjectorCamera {
+  const camera = new ProjectorCamera(1.4, 0.3, RESOLUTION.width / RESOLUTION.height);
+  camera.position.set(1.5, 3, 5);
+  camera.up.set(0, -1, 0);
+  camera.lookAt(0, 0.3, 0);
+  camera.updateMatrixWorld(true);
+  return camera;
+}
+
+function observe(camera: THREE.PerspectiveCamera, noise = 0): PointCorrespondence[] {
+  const viewProjection = camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse);
+  // Deterministic pseudo noise, alternating in sign
+  return MODEL_POINTS.map((world, i) => {
+    const pixel = projectToPixel(viewProjection, world, RESOLUTION)!;
+    return { world, pixel: { x: pixel.x + noise * Math.sin(i * 1.7), y: pixel.y + noise * Math.cos(i * 2.3) } };
+  });
+}
+
+describe('Projector Pose', () => {
+  it('should recover the pose of an upside-down projector without a starting guess', () => {
+    const truth = createProjector();
+    const solved = solveProjectorPose(observe(truth), truth.projectionMatrix, RESOLUTION);
+    expect(solved.reprojectionError).toBeLessThan(1e-3);
+    expect(solved.pose.position.x).toBeCloseTo(1.5, 4);
+    expect(solved.pose.position.y).toBeCloseTo(3, 4);
+    expect(solved.pose.position.z).toBeCloseTo(5, 4);
+    const q = solved.pose.quaternion;
+    expect(Math.abs(new THREE.Quaternion(q.x, q.y, q.z, q.w).dot(truth.quaternion))).toBeCloseTo(1, 6);
+  });
+
+  it('should refine a rough starting pose and report the click error', () => {
+    const truth = createProjector();
+    const guess = createProjector();
+    guess.position.set(1, 2.5, 6);
+    guess.rotateX(0.1);
+    const solved = solveProjectorPose(observe(truth, 2), truth.projectionMatrix, RESOLUTION, {
+      initialPose: getCameraPose(guess),
+    });
+    expect(solved.errors).toHaveLength(MODEL_POINTS.length);
+    expect(solved.reprojectionError).toBeGreaterThan(0.5);
+    expect(solved.reprojectionError).toBeLessThan(3);
+    expect(solved.pose.position.x).toBeCloseTo(1.5, 1);
+    expect(solved.pose.position.z).toBeCloseTo(5, 1);
+  });
+
+  it('should need at least 4 point pairs', () => {
+    const truth = createProjector();
+    expect(() => solveProjectorPose(observe(truth).slice(0, 3), truth.projectionMatrix, RESOLUTION)).toThrow(/at least 4/);
+  });
+
+  describe('Calibration', () => {
+    const createShiftedProjector = () => {
+      const camera = createProjector();
+      camera.lensShiftX = -0.15;
+      camera.updateProjectionMatrix();
+      return camera;
+    };
+
+    it('should recover lens and pose from 6 or more points', () => {
+      const truth = createShiftedProjector();
+      const solved = solveProjectorCalibration(observe(truth), RESOLUTION);
+      expect(solved.reprojectionError).toBeLessThan(1e-3);
+      expect(solved.intrinsics.throwRatio).toBeCloseTo(1.4, 4);
+      expect(solved.intrinsics.lensShiftX).toBeCloseTo(-0.15, 4);
+      expect(solved.intrinsics.lensShiftY).toBeCloseTo(0.3, 4);
+      expect(solved.pose.position.x).toBeCloseTo(1.5, 3);
+      expect(solved.pose.position.y).toBeCloseTo(3, 3);
+      expect(solved.pose.position.z).toBeCloseTo(5, 3);
+      const q = solved.pose.quaternion;
+      expect(Math.abs(new THREE.Quaternion(q.x, q.y, q.z, q.w).dot(truth.quaternion))).toBeCloseTo(1, 6);
+    });
+
+    it('should stay close with inaccurate clicks', () => {
+      const solved = solveProjectorCalibration(observe(createShiftedProjector(), 1.5), RESOLUTION);
+      expect(solved.reprojectionError).toBeLessThan(2);
+      expect(solved.intrinsics.throwRatio).toBeCloseTo(1.4, 1);
+      expect(solved.pose.position.z).toBeCloseTo(5, 0);
+    });
+
+    it('should need 6 points that span a volume', () => {
+      const observed = observe(createShiftedProjector());
+      expect(() => solveProjectorCalibration(observed.slice(0, 5), RESOLUTION)).toThrow(/at least 6/);
+      const front = observed.filter(({ world }) => world.z === 0.5);
+      const extraFront = [0.2, 0.4, 0.6].map((y) => ({ world: { x: -0.5, y, z: 0.5 }, pixel: { x: 900, y: 500 + y * 100 } }));
+      expect(() => solveProjectorCalibration([...front, ...extraFront], RESOLUTION)).toThrow(/one plane/);
+    });
+  });
+
+  describe('Model Surface', () => {
+    const createSurface = (store: MemoryStore) =>
+      new ModelSurface({
+        geometry: new THREE.BoxGeometry(2, 1, 1).translate(0, 0.5, 0),
+        camera: new ProjectorCamera(1.4, 0.3, RESOLUTION.width / RESOLUTION.height),
+        resolution: RESOLUTION,
+        fragmentShader: '',
+        globalUniforms: {},
+        store,
+      });
+
+    it('should move its camera to the solved pose and report the step', () => {
+      const store = new MemoryStore();
+      const surface = createSurface(store);
+      observe(createProjector()).forEach((c) => surface.addCorrespondence(c));
+      const edits: string[] = [];
+      surface.onEdit = (before, label) => edits.push(`${label} from z ${before.pose.position.z}`);
+
+      const solution = surface.solvePose();
+      expect(solution.reprojectionError).toBeLessThan(1e-3);
+      expect(surface.camera.position.distanceTo(new THREE.Vector3(1.5, 3, 5))).toBeLessThan(1e-4);
+      expect(edits).toEqual(['Solve pose from z 0']);
+
+      // Pose and correspondences are persisted
+      const restored = createSurface(store);
+      expect(restored.getCorrespondences()).toEqual(surface.getCorrespondences());
+      expect(restored.getPose()).toEqual(surface.getPose());
+    });
+
+    it('should calibrate lens and pose, persist both and undo to the previous lens', () => {
+      const store = new MemoryStore();
+      const surface = createSurface(store);
+      const truth = createProjector();
+      truth.lensShiftX = 0.1;
+      truth.setThrowRatio(1.8);
+      observe(truth).forEach((c) => surface.addCorrespondence(c));
+      const befores: ModelCameraState[] = [];
+      surface.onEdit = (before) => befores.push(before);
+
+      surface.calibrateProjector();
+      expect(surface.camera.throwRatio).toBeCloseTo(1.8, 4);
+      expect(surface.camera.lensShiftX).toBeCloseTo(0.1, 4);
+      expect(surface.camera.projectionMatrix.elements[8]).toBeCloseTo(0.1, 4);
+      expect(createSurface(store).getIntrinsics()).toEqual(surface.getIntrinsics());
+
+      surface.setCameraState(befores[0]);
+      expect(surface.getIntrinsics()).toEqual({ throwRatio: 1.4, lensShiftX: 0, lensShiftY: 0.3 });
+    });
+
+    it('should pick the model point under a projector pixel', () => {
+      const surface = createSurface(new MemoryStore());
+      surface.setPose(getCameraPose(createProjector()));
+      const [front] = observe(createProjector()).filter(({ world }) => world.z === 0.5 && world.y === 0.5);
+      const picked = surface.pickPoint(front.pixel)!;
+      expect(picked.x).toBeCloseTo(0.3, 3);
+      expect(picked.y).toBeCloseTo(0.5, 3);
+      expect(picked.z).toBeCloseTo(0.5, 3);
+    });
+
+    it('should refuse geometry without UVs', () => {
+      const geometry = new THREE.BufferGeometry().setAttribute('position', new THREE.BufferAttribute(new Float32Array(9), 3));
+      expect(() => createSurface(new MemoryStore()).setGeometry(geometry)).toThrow(/no uv/);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EDGE_BLEND,
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_SURFACE_NAME,
+  DEFAULTS,
+  GUI_STORAGE_KEY,
+  STORAGE_VERSION,
+} from '../core/defaults';
+import { CalibrationValidationError } from '../calibration/Calibration';
+import { calibrationFromStoredValues, readStoredCalibration } from '../calibration/storedCalibration';
+import { WARP_MODE, WARP_STORAGE_KEY, getWarpStorageKey } from '../warp/MeshWarper';
+import { POLYGON_MASK_STORAGE_KEY } from '../mask/PolygonMask';
+import { MemoryStore } from '../storage/MemoryStore';
+
+const resolution = { width: 1920, height: 1080 };
+
+const corners = [
+  { x: 0.1, y: 0.9, z: 0 },
+  { x: 0.9, y: 0.9, z: 0 },
+  { x: 0.1, y: 0.1, z: 0 },
+  { x: 0.9, y: 0.1, z: 0 },
+];
+
+/** Normalized grid of evenly spaced points */
+function grid(x: number, y: number) {
+  return Array.from({ length: x * y }, (_, i) => ({ x: (i % x) / (x - 1), y: Math.floor(i / x) / (y - 1), z: 0 }));
+}
+
+/** A warp as older versions stored it: no warp mode, knots or locks */
+const storedWarp = (x = 3, y = 2) => JSON.stringify({ gridSize: { x, y }, corners, grid: grid(x, y), referenceGrid: grid(x, y) });
+
+const nodes = [
+  { u: 0.2, v: 0.2 },
+  { u: 0.8, v: 0.2 },
+  { u: 0.5, v: 0.8 },
+];
+
+/** GUI settings of an older STORAGE_VERSION, before edge blend, lens distortion and source crop */
+const storedSettings = (version: number | undefined = STORAGE_VERSION - 1) =>
+  JSON.stringify({
+    version,
+    gamma: 1.4,
+    contrast: 1.1,
+    zoom: 0.8,
+    warpMode: WARP_MODE.bilinear,
+    gridSize: { x: 3, y: 2 },
+    polygonFeather: 0.03,
+    polygonInvert: true,
+    showTestcard: true,
+  });
+
+describe('Stored Calibration', () => {
+  it('should build a calibration document from the storage keys of an older version', () => {
+    const calibration = calibrationFromStoredValues(
+      { warps: { [DEFAULT_SURFACE_NAME]: storedWarp() }, polygonMask: JSON.stringify(nodes), guiSettings: storedSettings() },
+      resolution,
+    );
+
+    expect(calibration.resolution).toEqual(resolution);
+    expect(calibration.zoom).toBe(0.8);
+    expect(calibration.cameraOffset).toEqual({ x: 0, y: 0 });
+    expect(calibration.imageSettings).toEqual({ ...DEFAULT_IMAGE_SETTINGS, gamma: 1.4, contrast: 1.1 });
+    expect(calibration.edgeBlend).toEqual(DEFAULT_EDGE_BLEND);
+
+    const [surface] = calibration.surfaces;
+    expect(surface.name).toBe(DEFAULT_SURFACE_NAME);
+    // Warp mode came from the GUI settings
+    expect(surface.warp.warpMode).toBe(WARP_MODE.bilinear);
+    expect(surface.warp.gridSize).toEqual({ x: 3, y: 2 });
+    expect(surface.warp.corners).toEqual(corners);
+    expect(surface.warp.grid).toEqual(grid(3, 2));
+
+    expect(calibration.polygonMask).toEqual({ nodes, enabled: true, inverted: true, feather: 0.03 });
+  });
+
+  it('should fall back to defaults for settings that are not stored', () => {
+    const calibration = calibrationFromStoredValues(
+      { warps: { [DEFAULT_SURFACE_NAME]: storedWarp() }, polygonMask: null, guiSettings: null },
+      resolution,
+    );
+    expect(calibration.zoom).toBe(DEFAULTS.zoom);
+    expect(calibration.imageSettings).toEqual(DEFAULT_IMAGE_SETTINGS);
+    expect(calibration.surfaces[0].warp.warpMode).toBe(WARP_MODE.bicubic);
+    expect(calibration.polygonMask).toBeNull();
+
+    // Settings from before versioning have no version
+    const unversioned = JSON.stringify({ ...JSON.parse(storedSettings()), version: undefined });
+    expect(
+      calibrationFromStoredValues(
+        { warps: { [DEFAULT_SURFACE_NAME]: storedWarp() }, polygonMask: null, guiSettings: unversioned },
+        resolution,
+      ).zoom,
+    ).toBe(0.8);
+  });
+
+  it('should read the keys of every surface from a store', async () => {
+    const store = new MemoryStore();
+    store.set(WARP_STORAGE_KEY, storedWarp());
+    store.set(getWarpStorageKey('side'), storedWarp(4, 4));
+    store.set(POLYGON_MASK_STORAGE_KEY, JSON.stringify(nodes));
+    store.set(GUI_STORAGE_KEY, storedSettings(STORAGE_VERSION));
+
+    const calibration = await readStoredCalibration(store, resolution, ['side']);
+    expect(calibration.surfaces.map(({ name }) => name)).toEqual([DEFAULT_SURFACE_NAME, 'side']);
+    expect(calibration.surfaces[1].warp.gridSize).toEqual({ x: 4, y: 4 });
+    expect(calibration.polygonMask?.nodes).toEqual(nodes);
+  });
+
+  it('should reject newer versions, a missing warp and invalid values with their path', () => {
+    const reject = (values: Parameters<typeof calibrationFromStoredValues>[0]) => {
+      try {
+        calibrationFromStoredValues(values, resolution);
+      } catch (error) {
+        expect(error).toBeInstanceOf(CalibrationValidationError);
+        return (error as CalibrationValidationError).path;
+      }
+      throw new Error('values were accepted');
+    };
+    const warps = { [DEFAULT_SURFACE_NAME]: storedWarp() };
+
+    expect(reject({ warps, polygonMask: null, guiSettings: storedSettings(STORAGE_VERSION + 1) })).toBe(
+      `${GUI_STORAGE_KEY}.version`,
+    );
+    expect(reject({ warps: {}, polygonMask: null, guiSettings: storedSettings() })).toBe(WARP_STORAGE_KEY);
+    expect(reject({ warps: { [DEFAULT_SURFACE_NAME]: '{' }, polygonMask: null, guiSettings: null })).toBe(
+      WARP_STORAGE_KEY,
+    );
+    const cornerMissing = JSON.stringify({ ...JSON.parse(storedWarp()), corners: corners.slice(1) });
+    expect(reject({ warps: { [DEFAULT_SURFACE_NAME]: cornerMissing }, polygonMask: null, guiSettings: null })).toBe(
+      'surfaces[0].warp.corners',
+    );
+    expect(reject({ warps, polygonMask: JSON.stringify(nodes.slice(1)), guiSettings: null })).toBe('polygonMask.nodes');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bitsFor,
+  createPatternSequence,
+  createWarpState,
+  decodeStructuredLight,
+  grayCode,
+  grayToBinary,
+  patternValue,
+  solveControlPoints,
+  type CapturedFrame,
+  type StructuredLightPattern,
+} from '../calibration/structuredLight';
+import { WarpGridModel } from '../warp/WarpGridModel';
+
+const PROJECTOR = { width: 64, height: 48 };
+const CAMERA = { width: 80, height: 60 };
+const AMBIENT = 10;
+
+// The camera sees the projector through a known projective map: camera pixel -> projector pixel
+const cameraToProjector = (cx: number, cy: number) => {
+  const w = 1 + 0.002 * cx - 0.001 * cy;
+  return { x: (0.9 * cx + 0.1 * cy - 4) / w, y: (0.05 * cx + 0.85 * cy - 3) / w };
+};
+
+/** Synthetic capture: every camera pixel center samples the projector pixel it sees, dark outside */
+function capture(pattern: StructuredLightPattern): CapturedFrame {
+  const data = new Uint8Array(CAMERA.width * CAMERA.height);
+  for (let cy = 0; cy < CAMERA.height; cy++) {
+    for (let cx = 0; cx < CAMERA.width; cx++) {
+      const p = cameraToProjector(cx + 0.5, cy + 0.5);
+      const inside = p.x >= 0 && p.x < PROJECTOR.width && p.y >= 0 && p.y < PROJECTOR.height;
+      // The camera adds ambient light and sees the projector at 80%
+      const value = inside ? patternValue(pattern, Math.floor(p.x), Math.floor(p.y)) * 0.8 : 0;
+      data[cy * CAMERA.width + cx] = Math.round(AMBIENT + value);
+    }
+  }
+  return { ...CAMERA, data };
+}
+
+const decode = (options: Parameters<typeof createPatternSequence>[1] = {}) => {
+  const patterns = createPatternSequence(PROJECTOR, options);
+  return decodeStructuredLight(patterns, patterns.map(capture), PROJECTOR);
+};
+
+describe('Structured Light', () => {
+  describe('Gray Code', () => {
+    it('should round-trip and change one bit between neighbours', () => {
+      for (let n = 0; n < 2048; n++) {
+        expect(grayToBinary(grayCode(n))).toBe(n);
+        const diff = grayCode(n) ^ grayCode(n + 1);
+        expect(diff & (diff - 1)).toBe(0);
+      }
+    });
+
+    it('should list references, Gray-code pairs and phase steps', () => {
+      const patterns = createPatternSequence(PROJECTOR, { phaseSteps: 4 });
+      const grayCount = 2 * (bitsFor(64) + bitsFor(48));
+      expect(bitsFor(64)).toBe(6);
+      expect(bitsFor(48)).toBe(6);
+      expect(patterns).toHaveLength(2 + grayCount + 8);
+      expect(patterns[0]).toEqual({ kind: 'white' });
+      expect(patterns[2]).toEqual({ kind: 'gray', axis: 'x', bit: 5, inverted: false });
+      expect(patterns[3]).toEqual({ kind: 'gray', axis: 'x', bit: 5, inverted: true });
+    });
+
+    it('should leave out dropped low bits', () => {
+      const patterns = createPatternSequence(PROJECTOR, { phaseSteps: 0, dropLowBits: 2 });
+      const bits = patterns.flatMap((p) => (p.kind === 'gray' ? [p.bit] : []));
+      expect(Math.min(...bits)).toBe(2);
+      expect(patterns.some((p) => p.kind === 'phase')).toBe(false);
+    });
+  });
+
+  describe('Decoding', () => {
+    it('should decode the projector pixel seen by every lit camera pixel', () => {
+      const map = decode({ phaseSteps: 0 });
+      let decoded = 0;
+      for (let cy = 0; cy < CAMERA.height; cy++) {
+        for (let cx = 0; cx < CAMERA.width; cx++) {
+          const i = cy * CAMERA.width + cx;
+          const truth = cameraToProjector(cx + 0.5, cy + 0.5);
+          const inside = truth.x >= 0 && truth.x < PROJECTOR.width && truth.y >= 0 && truth.y < PROJECTOR.height;
+          expect(Number.isNaN(map.x[i])).toBe(!inside);
+          if (!inside) continue;
+          // Gray code resolves the pixel, decoded as its center
+          expect(map.x[i]).toBe(Math.floor(truth.x) + 0.5);
+          expect(map.y[i]).toBe(Math.floor(truth.y) + 0.5);
+          decoded++;
+        }
+      }
+      expect(decoded).toBeGreaterThan(CAMERA.width * CAMERA.height * 0.5);
+    });
+
+    it('should refine the coarse Gray code with phase shifting', () => {
+      const map = decode({ phaseSteps: 4, phasePeriod: 16, dropLowBits: 3 });
+      let maxError = 0;
+      for (let i = 0; i < map.x.length; i++) {
+        if (Number.isNaN(map.x[i])) continue;
+        const truth = cameraToProjector((i % CAMERA.width) + 0.5, Math.floor(i / CAMERA.width) + 0.5);
+        maxError = Math.max(maxError, Math.abs(map.x[i] - truth.x), Math.abs(map.y[i] - truth.y));
+      }
+      // Without phase, dropping 3 bits would leave errors up to 4 pixels
+      expect(maxError).toBeLessThan(0.75);
+    });
+
+    it('should accept RGBA frames', () => {
+      const patterns = createPatternSequence(PROJECTOR, { phaseSteps: 0 });
+      const frames = patterns.map((pattern) => {
+        const gray = capture(pattern);
+        const data = new Uint8ClampedArray(gray.data.length * 4);
+        for (let i = 0; i < gray.data.length; i++) data.fill(gray.data[i], i * 4, i * 4 + 3);
+        return { ...CAMERA, data };
+      });
+      const map = decodeStructuredLight(patterns, frames, PROJECTOR);
+      const reference = decode({ phaseSteps: 0 });
+      expect(Array.from(map.x)).toEqual(Array.from(reference.x));
+    });
+
+    it('should reject incomplete sequences', () => {
+      const patterns = createPatternSequence(PROJECTOR, { phaseSteps: 0 });
+      const frames = patterns.map(capture);
+      expect(() => decodeStructuredLight(patterns, frames.slice(1), PROJECTOR)).toThrow(/expected/);
+      expect(() => decodeStructuredLight(patterns.slice(0, -1), frames.slice(0, -1), PROJECTOR)).toThrow(/inverse/);
+    });
+  });
+
+  describe('Solving', () => {
+    // Where the content should appear in the camera image, inside the projected area
+    const targetQuad = [
+      { x: 20, y: 15 },
+      { x: 70, y: 12 },
+      { x: 18, y: 52 },
+      { x: 68, y: 50 },
+    ];
+
+    it('should place grid points where the camera sees the target quad', () => {
+      const map = decode();
+      const solved = solveControlPoints(map, { gridSize: { x: 4, y: 3 }, targetQuad });
+      expect(solved.unresolved).toEqual([]);
+      expect(solved.grid).toHaveLength(12);
+
+      // Bottom-left grid point lies at the camera's bottom-left quad corner
+      const bottomLeft = cameraToProjector(18, 52);
+      expect(solved.grid[0].x).toBeCloseTo(bottomLeft.x / PROJECTOR.width, 1);
+      expect(solved.grid[0].y).toBeCloseTo(1 - bottomLeft.y / PROJECTOR.height, 1);
+      expect(solved.corners[2]).toEqual(solved.grid[0]);
+      expect(solved.corners[1]).toEqual(solved.grid[11]);
+    });
+
+    it('should fill grid points without decoded pixels from the corners', () => {
+      const map = decode();
+      // Occluder over the middle of the camera image
+      for (let cy = 25; cy < 40; cy++) map.x.fill(NaN, cy * CAMERA.width + 35, cy * CAMERA.width + 55);
+      const solved = solveControlPoints(map, { gridSize: { x: 3, y: 3 }, targetQuad, searchRadius: 2 });
+      expect(solved.unresolved).toEqual([4]);
+      expect(Number.isFinite(solved.grid[4].x)).toBe(true);
+    });
+
+    it('should refuse a target quad outside the projection', () => {
+      const map = decode({ phaseSteps: 0 });
+      const outside = [{ x: 0, y: 0 }, ...targetQuad.slice(1)];
+      expect(() => solveControlPoints(map, { gridSize: { x: 3, y: 3 }, targetQuad: outside, searchRadius: 2 })).toThrow(
+        /top left/,
+      );
+    });
+
+    it('should create a warp state with the grid on the solved points', () => {
+      const solved = solveControlPoints(decode(), { gridSize: { x: 3, y: 3 }, targetQuad });
+      const state = createWarpState(solved, 1);
+      expect(state.warpMode).toBe(1);
+      expect(state.gridSize).toEqual({ x: 3, y: 3 });
+
+      const model = new WarpGridModel({ width: 16, height: 12, gridSize: state.gridSize });
+      model.applyPoints(state);
+      // Reference points re-project onto the solved points through the corner homography
+      model.reprojectGrid();
+      model.grid.forEach((p, i) => {
+        const n = model.toNormalized(p);
+        expect(n.x).toBeCloseTo(solved.grid[i].x, 5);
+        expect(n.y).toBeCloseTo(solved.grid[i].y, 5);
+      });
+    });
+  });
+});
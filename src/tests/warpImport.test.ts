@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  csvToWarpState,
+  meshToWarpState,
+  parseObj,
+  parsePly,
+  parseWarp,
+  warpFormatFromFileName,
+  WarpImportError,
+} from '../calibration/warpImport';
+import { WARP_MODE } from '../warp/WarpMode';
+import { WarpGridModel } from '../warp/WarpGridModel';
+import type { WarpState } from '../warp/MeshWarper';
+
+// A 3 x 2 grid with its middle column at u 0.25, slightly bent to the right at the top
+const POSITIONS = [
+  [0, 0],
+  [0.3, 0],
+  [1, 0],
+  [0.1, 1],
+  [0.4, 1],
+  [1.1, 1],
+];
+const UVS = [
+  [0, 0],
+  [0.25, 0],
+  [1, 0],
+  [0, 1],
+  [0.25, 1],
+  [1, 1],
+];
+const QUADS = [
+  [1, 2, 5, 4],
+  [2, 3, 6, 5],
+];
+
+const OBJ = [
+  '# exported by another tool',
+  ...POSITIONS.map(([x, y]) => `v ${x} ${y} 0`),
+  ...UVS.map(([u, v]) => `vt ${u} ${v}`),
+  ...QUADS.map((quad) => `f ${quad.map((i) => `${i}/${i}`).join(' ')}`),
+].join('\n');
+
+const expectGrid = (state: WarpState, expected: number[][]) => {
+  expect(state.grid).toHaveLength(expected.length);
+  state.grid.forEach((p, i) => {
+    expect(p.x).toBeCloseTo(expected[i][0], 6);
+    expect(p.y).toBeCloseTo(expected[i][1], 6);
+  });
+};
+
+describe('Warp Import', () => {
+  describe('Meshes', () => {
+    it('should take a mesh with grid UVs as the grid, keeping the column spacing', () => {
+      const state = parseWarp(OBJ, 'obj');
+      expect(state.gridSize).toEqual({ x: 3, y: 2 });
+      expect(state.knots).toEqual({ x: [0, 0.25, 1], y: [0, 1] });
+      expect(state.warpMode).toBe(WARP_MODE.bicubic);
+      expectGrid(state, POSITIONS);
+      // Corners TL, TR, BL, BR sit on the outer grid points
+      [3, 5, 0, 2].forEach((gridIndex, corner) => {
+        expect(state.corners[corner].x).toBeCloseTo(POSITIONS[gridIndex][0], 6);
+        expect(state.corners[corner].y).toBeCloseTo(POSITIONS[gridIndex][1], 6);
+      });
+    });
+
+    it('should reproduce the imported points when applied to a model', () => {
+      const state = parseWarp(OBJ, 'obj');
+      const model = new WarpGridModel({ width: 4, height: 3, gridSize: state.gridSize });
+      model.applyPoints(state);
+      model.reprojectGrid();
+      model.grid.forEach((p, i) => {
+        const n = model.toNormalized(p);
+        expect(n.x).toBeCloseTo(POSITIONS[i][0], 6);
+        expect(n.y).toBeCloseTo(POSITIONS[i][1], 6);
+      });
+    });
+
+    it('should read negative OBJ indices and pixel positions', () => {
+      const obj = [
+        'v 0 600',
+        'v 800 600',
+        'v 0 0',
+        'v 800 0',
+        'vt 0 0',
+        'vt 1 0',
+        'vt 0 1',
+        'vt 1 1',
+        'f -4/-4 -3/-3 -1/-1 -2/-2',
+      ].join('\n');
+      const state = parseWarp(obj, 'obj', { resolution: { width: 800, height: 600 } });
+      expectGrid(state, [
+        [0, 0],
+        [1, 0],
+        [0, 1],
+        [1, 1],
+      ]);
+    });
+
+    it('should read ASCII PLY with s/t texture coordinates', () => {
+      const ply = [
+        'ply',
+        'format ascii 1.0',
+        'comment faces first',
+        'element face 2',
+        'property list uchar int vertex_indices',
+        `element vertex ${POSITIONS.length}`,
+        'property float x',
+        'property float y',
+        'property float z',
+        'property float s',
+        'property float t',
+        'end_header',
+        ...QUADS.map((quad) => `4 ${quad.map((i) => i - 1).join(' ')}`),
+        ...POSITIONS.map(([x, y], i) => `${x} ${y} 0 ${UVS[i][0]} ${UVS[i][1]}`),
+      ].join('\n');
+      expect(parsePly(ply).triangles).toHaveLength(12);
+      expect(meshToWarpState(parsePly(ply)).grid).toEqual(parseWarp(OBJ, 'obj').grid);
+    });
+
+    it('should resample meshes that are not a UV grid', () => {
+      // Fan around a center vertex pulled to the right
+      const obj = [
+        'v -1 -1 0',
+        'v 1 -1 0',
+        'v 1 1 0',
+        'v -1 1 0',
+        'v 0.5 0 0',
+        'vt 0 0',
+        'vt 1 0',
+        'vt 1 1',
+        'vt 0 1',
+        'vt 0.5 0.5',
+        'f 1/1 2/2 5/5',
+        'f 2/2 3/3 5/5',
+        'f 3/3 4/4 5/5',
+        'f 4/4 1/1 5/5',
+      ].join('\n');
+      const state = parseWarp(obj, 'obj', { gridSize: { x: 3, y: 3 } });
+      expect(state.gridSize).toEqual({ x: 3, y: 3 });
+      // NDC positions: the center lands at 0.75, the edges stay put
+      expect(state.grid[4].x).toBeCloseTo(0.75, 6);
+      expect(state.grid[4].y).toBeCloseTo(0.5, 6);
+      expect(state.grid[1].x).toBeCloseTo(0.5, 6);
+    });
+
+    it('should report broken meshes', () => {
+      expect(() => parseObj('v 0 0\nvt 0 0\nf 1/1 2/1 3/1')).toThrow(/line 3: vertex 2 does not exist/);
+      expect(() => parseObj('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3')).toThrow(/no texture coordinate/);
+      expect(() => parseObj('v 0 zero')).toThrow(WarpImportError);
+      expect(() => parsePly('ply\nformat binary_little_endian 1.0\nend_header')).toThrow(/export as ASCII/);
+
+      const halfMesh = OBJ.replace(/^f 2.*$/m, '');
+      expect(() => parseWarp(halfMesh, 'obj')).toThrow(/u must cover 0-1/);
+      expect(() => parseWarp(OBJ, 'obj', { space: 'pixels' })).toThrow(/need a resolution/);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should read grids by column and row in any line order', () => {
+      const csv = ['col,row,x,y', '1,1,1,1', '0,0,0,0', '1,0,0.9,0.1', '0,1,0.1,0.9'].join('\n');
+      const state = csvToWarpState(csv, { warpMode: WARP_MODE.bilinear });
+      expect(state.warpMode).toBe(WARP_MODE.bilinear);
+      expectGrid(state, [
+        [0, 0],
+        [0.9, 0.1],
+        [0.1, 0.9],
+        [1, 1],
+      ]);
+    });
+
+    it('should read u, v grid positions as knots', () => {
+      const csv = ['# from a spreadsheet', 'u;v;x;y', ...POSITIONS.map(([x, y], i) => `${UVS[i][0]};${UVS[i][1]};${x};${y}`)].join('\n');
+      const state = parseWarp(csv, 'csv');
+      expect(state.knots).toEqual({ x: [0, 0.25, 1], y: [0, 1] });
+      expectGrid(state, POSITIONS);
+    });
+
+    it('should report the offending line', () => {
+      expect(() => csvToWarpState('a,b\n0,0')).toThrow(/line 1: header must name/);
+      expect(() => csvToWarpState('col,row,x,y\n0,0,0,0\n1,0,one,0')).toThrow(/line 3: x must be a number/);
+      const square = 'col,row,x,y\n0,0,0,0\n1,0,1,0\n0,1,0,1\n1,1,1,1';
+      expect(() => csvToWarpState(`${square}\n1,1,1,1`)).toThrow(/line 6: column 1, row 1 is listed twice/);
+      expect(() => csvToWarpState('col,row,x,y\n0,0,0,0\n1,1,1,1')).toThrow(/no point for column 1, row 0/);
+    });
+  });
+
+  it('should pick the format from the file extension', () => {
+    expect(warpFormatFromFileName('stage.OBJ')).toBe('obj');
+    expect(warpFormatFromFileName('grid.csv')).toBe('csv');
+    expect(warpFormatFromFileName('calibration.json')).toBeNull();
+  });
+});
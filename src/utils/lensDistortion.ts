@@ -0,0 +1,26 @@
+import type { LensDistortionSettings } from '../core/defaults';
+
+/** Whether the settings change the image at all, the correction pass is skipped otherwise */
+export const isLensDistortionActive = (settings: LensDistortionSettings): boolean =>
+  settings.enabled && [settings.k1, settings.k2, settings.k3, settings.p1, settings.p2].some((c) => c !== 0);
+
+/**
+ * Where the lens shows an output position, both in NDC (-1 to 1). aspect is width / height of the output.
+ * The correction pass (distortion.frag) does the same per pixel: it shows at each output position the
+ * content of the position the lens moves it to, so the content lands where it belongs.
+ */
+export function distortPoint(
+  point: { x: number; y: number },
+  settings: LensDistortionSettings,
+  aspect: number,
+): { x: number; y: number } {
+  const { k1, k2, k3, p1, p2, centerX, centerY } = settings;
+  // Half image heights around the center, so the radius is round
+  const x = (point.x - centerX) * aspect;
+  const y = point.y - centerY;
+  const r2 = x * x + y * y;
+  const radial = 1 + r2 * (k1 + r2 * (k2 + r2 * k3));
+  const dx = x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x);
+  const dy = y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y;
+  return { x: dx / aspect + centerX, y: dy + centerY };
+}
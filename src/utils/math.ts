@@ -21,6 +21,18 @@ export const lerp = (min: number, max: number, t: number) => {
   return min + t * (max - min);
 };
 
+// Easing curves map linear progress [0,1] to eased progress [0,1]
+export const EASING = {
+  linear: (t: number) => t,
+  easeInQuad: (t: number) => t * t,
+  easeOutQuad: (t: number) => t * (2 - t),
+  easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+};
+
+export type EasingName = keyof typeof EASING;
+
 export const inverseLerp = (num: number, min: number, max: number) => {
   return (num - min) / (max - min);
 };
@@ -43,3 +55,28 @@ export const map = (
   if (round) return Math.round(num2);
   return num2;
 };
+
+/** Solves A x = b by Gaussian elimination with partial pivoting, null if A is singular */
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-14) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
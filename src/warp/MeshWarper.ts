@@ -6,9 +6,15 @@ Conceptually, imagine a regular (reference) grid in the background: this is the
 Dragging a grid point updates its position in the warped (output) space, but to keep the mapping consistent, we use the inverse transform to update its corresponding position in the reference (input) grid. 
 The Control points live in world space.
 The warped grid control points are passed to the vertex shader for bilinear or bicubic interpolation, enabling flexible projection mapping and perspective correction.
+They reach the shader through a float DataTexture (one texel per point, with its knots), refreshed before each render
+when a point moved, so grids can be large and resizing doesn't recompile the shader.
+In Bezier mode the selected grid points also show tangent handles, one pair per axis. Dragging one turns the tangent
+(its partner mirrors it), so the patches around the point bend while staying smooth.
+With a soft selection radius, grid drags pull the surrounding points along; the radius is drawn around the selected grid point.
 4 Corner Points (world space) → Homography → Grid Control Points (world space) → Vertex Shader
 interpolates vertex positions between grid points → flat UVs passed through unchanged → Fragment Shader
 receives original flat UV (they are baked into mesh geometry and passed from the displaced vertex)
+The point math lives in WarpGridModel; this class adds the mesh, handles, drag controls and storage.
 */
 
 import * as THREE from 'three';
@@ -19,20 +25,32 @@ import { Line2 } from 'three/addons/lines/Line2.js';
 import { LineGeometry } from 'three/addons/lines/LineGeometry.js';
 //@ts-ignore
 import { LineMaterial } from 'three/addons/lines/LineMaterial.js';
-import PerspT from '../utils/perspective';
-import { isQuadConcave } from './geometry';
-import { clamp } from '../utils/math';
 import meshWarpVertexShader from '../shaders/warp.vert';
 import { RenderOrder } from '../core/RenderOrder';
-import { MESH_WARP_GRID_SIZE, WARP_HANDLE_STYLE } from '../core/defaults';
-
-const STORAGE_KEY = 'warp-grid-control-points';
-
-export enum WARP_MODE {
-  bilinear = 0,
-  bicubic = 1,
+import {
+  DEFAULT_SOFT_SELECTION,
+  DEFAULT_SURFACE_NAME,
+  MESH_WARP_GRID_SIZE,
+  MIN_SEGMENTS_PER_GRID_CELL,
+  NUDGE_STEP,
+  WARP_HANDLE_STYLE,
+  type SoftSelectionSettings,
+} from '../core/defaults';
+import { WarpGridModel, type StoredControlPoints } from './WarpGridModel';
+import { WARP_MODE } from './WarpMode';
+import { whenResolved, type CalibrationStore } from '../storage/CalibrationStore';
+import { LocalStorageStore } from '../storage/LocalStorageStore';
+import { validateWarp } from '../calibration/Calibration';
+
+export const WARP_STORAGE_KEY = 'warp-grid-control-points';
+
+/** Storage key of a surface's warp: the default surface uses WARP_STORAGE_KEY, others append their name */
+export function getWarpStorageKey(surface: string): string {
+  return surface === DEFAULT_SURFACE_NAME ? WARP_STORAGE_KEY : `${WARP_STORAGE_KEY}:${surface}`;
 }
 
+export { WARP_MODE };
+
 export interface MeshWarperConfig {
   width: number;
   height: number;
@@ -46,14 +64,81 @@ export interface MeshWarperConfig {
   globalUniforms: Record<string, { value: unknown }>;
   globalDefines: Record<string, unknown>;
   bufferTexture: THREE.Texture;
+  /** Sub-rectangle of the buffer texture shown on this mesh (default: full texture) */
+  uvRect?: UVRect;
+  /** Storage key for persisted control points (default: WARP_STORAGE_KEY) */
+  storageKey?: string;
+  /** Where control points are persisted (default: localStorage) */
+  store?: CalibrationStore;
+  /** Projection resolution in pixels, converts nudge steps to world units (default: 1920x1080) */
+  resolution?: { width: number; height: number };
+  /** Called when persisted control points can't be read or are invalid, they are ignored then (default: console.warn) */
+  onLoadError?: (error: Error) => void;
 }
 
-interface StoredControlPoints {
-  /** Grid dimensions at time of save, used for validation on load */
-  gridSize?: { x: number; y: number };
+/** Rectangle in UV space, origin bottom-left like three.js UVs */
+export interface UVRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_UV_RECT: Readonly<UVRect> = { x: 0, y: 0, width: 1, height: 1 };
+
+/** Control point positions normalized to 0-1, as persisted in the store and in calibration files */
+export interface WarpState {
+  gridSize: { x: number; y: number };
+  warpMode: WARP_MODE;
   corners: { x: number; y: number; z: number }[];
   grid: { x: number; y: number; z: number }[];
   referenceGrid: { x: number; y: number; z: number }[];
+  /** Locked handles by index (default: none) */
+  locked?: WarpLocks;
+  /** Column and row positions of the grid (default: evenly spaced) */
+  knots?: WarpKnots;
+  /** Bezier tangents of the grid points (default: estimated from the grid) */
+  tangents?: WarpTangents;
+}
+
+/**
+ * Grid column (x) and row (y) positions in the unwarped plane, 0-1 from the bottom-left.
+ * Both start at 0 and end at 1 and increase strictly, one entry per column or row.
+ */
+export interface WarpKnots {
+  x: number[];
+  y: number[];
+}
+
+/**
+ * Surface derivatives at the grid points along u (columns) and v (rows), one per grid point in grid
+ * order. Normalized like the points, per unit of knot, so the unwarped plane has (1, 0) and (0, 1).
+ * The Bezier warp mode's tangent handles sit a third of a cell along them.
+ */
+export interface WarpTangents {
+  u: { x: number; y: number }[];
+  v: { x: number; y: number }[];
+}
+
+/** Mirrored editing: x mirrors moves left/right across the vertical axis, y top/bottom across the horizontal one */
+export interface WarpSymmetry {
+  x: boolean;
+  y: boolean;
+}
+
+/** Indices into corners (TL, TR, BL, BR) and grid of handles that can't be dragged or nudged */
+export interface WarpLocks {
+  corners: number[];
+  grid: number[];
+}
+
+/** Color and opacity of a handle that is neither selected nor locked, restored on deselect */
+export function getHandleBaseStyle(group: 'corner' | 'grid'): { color: string; opacity: number } {
+  const isCorner = group === 'corner';
+  return {
+    color: isCorner ? WARP_HANDLE_STYLE.cornerColor : WARP_HANDLE_STYLE.gridColor,
+    opacity: isCorner ? 0.9 : 0.8,
+  };
 }
 
 export class MeshWarper {
@@ -64,72 +149,114 @@ export class MeshWarper {
   public averageDimensions: { width: number; height: number };
   private planeGeometry: THREE.PlaneGeometry;
   private quadOutlineLine: Line2;
-  private dragCornerControlPoints: THREE.Vector3[] = [];
-  private dragGridControlPoints: THREE.Vector3[] = [];
-  private referenceGridControlPoints: THREE.Vector3[] = [];
-
-  private quadData!: {
-    initialPositions: Float32Array;
-    initalCorners: number[];
-    currentPositions: Float32Array;
-  };
+  /** Corner and grid point positions, the handle meshes' positions are the model's vectors */
+  private model: WarpGridModel;
 
   private dragControls!: DragControls;
 
   private cornerObjects: THREE.Mesh[] = [];
   private gridObjects: THREE.Mesh[] = [];
+  /** Tangent handles of the selected grid points in Bezier mode, rebuilt with the selection */
+  private tangentObjects: THREE.Mesh[] = [];
+  private tangentLines: THREE.LineSegments;
+  private softSelectionOutline: THREE.LineLoop;
+  private handleScale = 1;
+  private handleGeometry = new THREE.BoxGeometry();
+  private controlPointTexture!: THREE.DataTexture;
 
   private gridPointsEnabled: boolean = true;
   private cornerPointsEnabled: boolean = true;
+  private dragEnabled: boolean = true;
+
+  private storageKey: string;
+  // Set by the first save or clear, a load resolving after it would overwrite newer points
+  private storageWritten = false;
+  private store: CalibrationStore;
+  private dragStartState: WarpState | null = null;
+  private nudging = false;
+  private nudgedObjects: THREE.Mesh[] = [];
+  private symmetry: WarpSymmetry = { x: false, y: false };
+  private softSelection: SoftSelectionSettings = { ...DEFAULT_SOFT_SELECTION };
+
+  /** Selected handles in selection order, corners and grid points alike */
+  private selectedObjects: THREE.Mesh[] = [];
+  private raycaster = new THREE.Raycaster();
+  private boundPointerDownHandler!: (e: PointerEvent) => void;
+  private boundKeyDownHandler!: (e: KeyboardEvent) => void;
+
+  private onLockChangedCallbacks: Array<(locks: WarpLocks) => void> = [];
+  private onGridLayoutChangedCallbacks: Array<(state: WarpState) => void> = [];
 
-  private xControlPointAmount: number;
-  private yControlPointAmount: number;
+  /**
+   * Called after a drag, nudge or lock change ended, with the state from before it.
+   * Nudges pass a merge key, lock changes a label for the undo step.
+   */
+  public onEdit: (before: WarpState, mergeKey?: string, label?: string) => void = () => {};
 
   constructor(config: MeshWarperConfig) {
     this.config = config;
-    this.xControlPointAmount = config.gridControlPoints.x;
-    this.yControlPointAmount = config.gridControlPoints.y;
+    this.storageKey = config.storageKey ?? WARP_STORAGE_KEY;
+    this.store = config.store ?? new LocalStorageStore();
 
     this.planeGeometry = this.createPlaneGeometry();
 
-    this.initializeQuadData();
-    this.initializeControlPoints();
+    this.model = new WarpGridModel({
+      width: config.width,
+      height: config.height,
+      gridSize: config.gridControlPoints,
+      createCornerPoint: (x, y) => this.createHandle(x, y, 'corner').position,
+      createGridPoint: (x, y) => this.createHandle(x, y, 'grid').position,
+    });
     this.material = this.createShaderMaterial();
     this.mesh = new THREE.Mesh(this.planeGeometry, this.material);
+    // Handles are moved by drags, nudges, transitions and window sync alike, so pick up their positions here
+    this.mesh.onBeforeRender = () => {
+      this.writeControlPointTexture();
+      this.updateTangentHandles();
+      this.updateSoftSelectionOutline();
+    };
 
     this.quadOutlineLine = this.createOutline();
+    this.tangentLines = this.createTangentLines();
+    this.softSelectionOutline = this.createSoftSelectionOutline();
+
+    this.initializeDragControls();
+    this.initializeSelection();
 
-    // Load saved positions before drag controls
+    // Load saved positions after drag controls, a stored grid size different from the config rebuilds them.
+    // Asynchronous stores apply them once they resolve.
     this.loadFromStorage();
 
-    this.initializeDragControls();
     this.addToScene();
 
-    this.averageDimensions = this.getAverageDimensions();
+    this.averageDimensions = this.model.getAverageDimensions();
   }
 
   private createShaderMaterial(): THREE.ShaderMaterial {
-    const totalControlPoints = this.xControlPointAmount * this.yControlPointAmount;
+    this.controlPointTexture = this.createControlPointTexture();
 
     const warpUniforms = {
       uCorners: {
-        value: this.dragCornerControlPoints,
+        value: this.model.corners,
       },
       uControlPoint: {
         value: null,
       },
-      uControlPoints: {
-        value: this.dragGridControlPoints,
+      uControlPointTexture: {
+        value: this.controlPointTexture,
       },
       uGridSizeX: {
-        value: this.xControlPointAmount,
+        value: this.model.gridSize.x,
       },
       uGridSizeY: {
-        value: this.yControlPointAmount,
+        value: this.model.gridSize.y,
       },
       uBuffer: {
         value: this.config.bufferTexture,
       },
+      uSourceRect: {
+        value: this.uvRectToVector(this.config.uvRect ?? FULL_UV_RECT),
+      },
       uWarpMode: { value: WARP_MODE.bicubic },
       uShouldWarp: { value: true },
     };
@@ -138,7 +265,7 @@ export class MeshWarper {
       fragmentShader: this.config.fragmentShader,
       vertexShader: meshWarpVertexShader,
       defines: {
-        CONTROL_POINT_AMOUNT: totalControlPoints,
+        MAX_GRID_SIZE: MESH_WARP_GRID_SIZE.maximum,
         ...this.config.globalDefines,
       },
       uniforms: {
@@ -152,99 +279,92 @@ export class MeshWarper {
     return material;
   }
 
-  private createPlaneGeometry(): THREE.PlaneGeometry {
-    return new THREE.PlaneGeometry(
-      this.config.width,
-      this.config.height,
-      this.config.widthSegments,
-      this.config.heightSegments,
-    );
+  // RGBA float per grid point: x, y, knot of its column, knot of its row, then a block of tangent rows (see warp.vert)
+  private createControlPointTexture(): THREE.DataTexture {
+    const { x, y } = this.model.gridSize;
+    const texture = new THREE.DataTexture(new Float32Array(x * y * 8), x, y * 2, THREE.RGBAFormat, THREE.FloatType);
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    this.writeControlPointTexture(texture);
+    return texture;
   }
 
-  private initializeQuadData(): void {
-    this.quadData = {
-      initialPositions: new Float32Array(this.planeGeometry.attributes.position.array),
-      initalCorners: this.getPlaneCornerCoordinates(this.planeGeometry),
-      currentPositions: this.planeGeometry.attributes.position.array as Float32Array,
+  /** Copies points, knots and tangents into the texture, uploads it only when something changed. */
+  private writeControlPointTexture(texture: THREE.DataTexture = this.controlPointTexture): void {
+    const data = texture.image.data as Float32Array;
+    const { knots, tangents } = this.model;
+    const tangentOffset = this.model.grid.length * 4;
+    const sizeX = this.model.gridSize.x;
+    let changed = false;
+    // Compared at float precision, like the texture stores them
+    const write = (index: number, value: number) => {
+      if (data[index] === Math.fround(value)) return;
+      data[index] = value;
+      changed = true;
     };
+    this.model.grid.forEach((point, i) => {
+      write(i * 4, point.x);
+      write(i * 4 + 1, point.y);
+      write(i * 4 + 2, knots.x[i % sizeX]);
+      write(i * 4 + 3, knots.y[Math.floor(i / sizeX)]);
+      write(tangentOffset + i * 4, tangents.u[i].x);
+      write(tangentOffset + i * 4 + 1, tangents.u[i].y);
+      write(tangentOffset + i * 4 + 2, tangents.v[i].x);
+      write(tangentOffset + i * 4 + 3, tangents.v[i].y);
+    });
+    if (changed) texture.needsUpdate = true;
   }
 
-  private initializeControlPoints(): void {
-    const { x: xControlPointAmount, y: yControlPointAmount } = this.config.gridControlPoints;
-
-    const controlPointPlaneGeometry = new THREE.PlaneGeometry(
-      this.config.width,
-      this.config.height,
-      xControlPointAmount - 1,
-      yControlPointAmount - 1,
-    );
-
-    this.createGridControlPoints(controlPointPlaneGeometry, xControlPointAmount, yControlPointAmount);
-    this.createCornerControlPoints();
+  private createPlaneGeometry(): THREE.PlaneGeometry {
+    const segments = this.getPlaneSegments();
+    return new THREE.PlaneGeometry(this.config.width, this.config.height, segments.x, segments.y);
   }
 
-  private createGridControlPoints(controlGeometry: THREE.PlaneGeometry, xAmount: number, yAmount: number): void {
-    const boxGeometry = new THREE.BoxGeometry();
-    const gridControlPointPositions = controlGeometry.attributes.position.array;
-
-    for (let i = 0; i < gridControlPointPositions.length / 3; i++) {
-      const x = gridControlPointPositions[i * 3];
-      const y = gridControlPointPositions[i * 3 + 1];
-
-      const object = new THREE.Mesh(
-        boxGeometry,
-        new THREE.MeshBasicMaterial({ color: WARP_HANDLE_STYLE.cornerColor, transparent: true, opacity: 0.9 }),
-      );
-      object.position.set(x, y, 0);
-      object.renderOrder = RenderOrder.CONTROLS;
-      object.userData.group = 'grid';
-
-      this.gridObjects.push(object);
-      this.dragGridControlPoints.push(object.position);
-      this.referenceGridControlPoints.push(object.position.clone());
-    }
-
-    // Reorder to match vertex shader expectations
-    this.dragGridControlPoints = this.reoderGridPointsToBottomLeftOrigin(this.dragGridControlPoints, xAmount, yAmount);
-
-    this.referenceGridControlPoints = this.reoderGridPointsToBottomLeftOrigin(
-      this.referenceGridControlPoints,
-      xAmount,
-      yAmount,
-    );
+  // The configured segments, but at least MIN_SEGMENTS_PER_GRID_CELL per grid cell
+  private getPlaneSegments(): { x: number; y: number } {
+    const { x, y } = this.config.gridControlPoints;
+    return {
+      x: Math.max(this.config.widthSegments, (x - 1) * MIN_SEGMENTS_PER_GRID_CELL),
+      y: Math.max(this.config.heightSegments, (y - 1) * MIN_SEGMENTS_PER_GRID_CELL),
+    };
   }
 
-  private createCornerControlPoints(): void {
-    const boxGeometry = new THREE.BoxGeometry();
-    const quadCorners = this.quadData.initalCorners;
+  /** Replaces the plane mesh when the grid size needs another segment count */
+  private updatePlaneGeometry(): void {
+    const segments = this.getPlaneSegments();
+    const { widthSegments, heightSegments } = this.planeGeometry.parameters;
+    if (widthSegments === segments.x && heightSegments === segments.y) return;
+    this.planeGeometry.dispose();
+    this.planeGeometry = this.createPlaneGeometry();
+    this.mesh.geometry = this.planeGeometry;
+  }
 
-    for (let i = 0; i < 8; i += 2) {
-      const x = quadCorners[i];
-      const y = quadCorners[i + 1];
+  // Handle meshes for the model's points, their position is the vector the model keeps
+  private createHandle(x: number, y: number, group: 'corner' | 'grid'): THREE.Mesh {
+    const isCorner = group === 'corner';
+    const object = new THREE.Mesh(
+      this.handleGeometry,
+      new THREE.MeshBasicMaterial({ ...getHandleBaseStyle(group), transparent: true }),
+    );
+    object.position.set(x, y, 0);
+    object.renderOrder = RenderOrder.CONTROLS;
+    object.userData.group = group;
+    object.userData.baseColor = (object.material as THREE.MeshBasicMaterial).color.clone();
+    object.userData.baseOpacity = (object.material as THREE.MeshBasicMaterial).opacity;
 
-      const object = new THREE.Mesh(
-        boxGeometry,
-        new THREE.MeshBasicMaterial({ color: WARP_HANDLE_STYLE.gridColor, transparent: true, opacity: 0.8 }),
-      );
-      object.position.set(x, y, 0);
-      object.renderOrder = RenderOrder.CONTROLS;
-      object.userData.group = 'corner';
+    if (isCorner) {
       object.userData.lastValidPosition = object.position.clone();
-
       this.cornerObjects.push(object);
-      this.dragCornerControlPoints.push(object.position);
+    } else {
+      this.gridObjects.push(object);
     }
+    return object;
   }
 
   private createOutline(): Line2 {
+    const corners = this.model.corners;
     const outlineGeometry = new LineGeometry();
-    outlineGeometry.setPositions([
-      ...this.dragCornerControlPoints[0],
-      ...this.dragCornerControlPoints[1],
-      ...this.dragCornerControlPoints[3],
-      ...this.dragCornerControlPoints[2],
-      ...this.dragCornerControlPoints[0],
-    ]);
+    outlineGeometry.setPositions([...corners[0], ...corners[1], ...corners[3], ...corners[2], ...corners[0]]);
 
     const lineMaterial = new LineMaterial({
       color: WARP_HANDLE_STYLE.outlineColor,
@@ -257,217 +377,498 @@ export class MeshWarper {
     return line;
   }
 
+  private createTangentLines(): THREE.LineSegments {
+    const lines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: WARP_HANDLE_STYLE.tangentColor }),
+    );
+    lines.renderOrder = RenderOrder.CONTROLS;
+    lines.frustumCulled = false;
+    return lines;
+  }
+
+  private createSoftSelectionOutline(): THREE.LineLoop {
+    const outline = new THREE.LineLoop(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color: WARP_HANDLE_STYLE.softSelectionColor, transparent: true, opacity: 0.6 }),
+    );
+    outline.renderOrder = RenderOrder.CONTROLS;
+    outline.frustumCulled = false;
+    outline.visible = false;
+    return outline;
+  }
+
+  // The radius around the last selected grid point, warped like the surface
+  private updateSoftSelectionOutline(): void {
+    const selected = [...this.selectedObjects].reverse().find((obj) => obj.userData.group === 'grid');
+    this.softSelectionOutline.visible = !!selected && this.softSelection.radius > 0 && this.gridPointsEnabled;
+    if (!this.softSelectionOutline.visible) return;
+
+    const outline = this.model.getSoftSelectionOutline(this.model.grid.indexOf(selected!.position), this.softSelection.radius);
+    this.softSelectionOutline.geometry.setFromPoints(outline.map((p) => new THREE.Vector3(p.x, p.y, 0)));
+  }
+
+  // Bezier mode shows tangent handles on the selected grid points, towards each existing neighbour
+  private rebuildTangentHandles(): void {
+    this.tangentObjects.forEach((obj) => {
+      this.config.scene.remove(obj);
+      (obj.material as THREE.Material).dispose();
+    });
+    this.tangentObjects = [];
+
+    if (this.getWarpMode() === WARP_MODE.bezier && this.gridPointsEnabled) {
+      const { x: sizeX, y: sizeY } = this.model.gridSize;
+      for (const selected of this.selectedObjects) {
+        if (selected.userData.group !== 'grid') continue;
+        const index = this.model.grid.indexOf(selected.position);
+        const col = index % sizeX;
+        const row = Math.floor(index / sizeX);
+        for (const axis of ['u', 'v'] as const) {
+          for (const side of [-1, 1] as const) {
+            const neighbour = (axis === 'u' ? col : row) + side;
+            if (neighbour < 0 || neighbour >= (axis === 'u' ? sizeX : sizeY)) continue;
+            const handle = new THREE.Mesh(
+              this.handleGeometry,
+              new THREE.MeshBasicMaterial({ color: WARP_HANDLE_STYLE.tangentColor, transparent: true, opacity: 0.9 }),
+            );
+            handle.renderOrder = RenderOrder.CONTROLS;
+            handle.scale.setScalar(this.handleScale * WARP_HANDLE_STYLE.tangentPointPixelRadius);
+            handle.userData = { group: 'tangent', index, axis, side };
+            this.tangentObjects.push(handle);
+            this.config.scene.add(handle);
+          }
+        }
+      }
+    }
+
+    this.tangentLines.geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(this.tangentObjects.length * 6), 3),
+    );
+    if (this.dragControls) this.dragControls.objects = this.getDraggableObjects();
+    this.updateTangentHandles();
+  }
+
+  // Tangent handles are derived from the model, so they follow drags, nudges and synced updates
+  private updateTangentHandles(): void {
+    if (this.tangentObjects.length === 0) return;
+    const positions = this.tangentLines.geometry.getAttribute('position') as THREE.BufferAttribute;
+    this.tangentObjects.forEach((handle, i) => {
+      const { index, axis, side } = handle.userData;
+      const { x, y } = this.model.getTangentHandle(index, axis, side);
+      const point = this.model.grid[index];
+      handle.position.set(x, y, 0);
+      positions.setXYZ(i * 2, point.x, point.y, 0);
+      positions.setXYZ(i * 2 + 1, x, y, 0);
+    });
+    positions.needsUpdate = true;
+  }
+
   private initializeDragControls(): void {
     this.dragControls = new DragControls(
-      [...this.cornerObjects, ...this.gridObjects],
+      this.getDraggableObjects(),
       this.config.camera,
       this.config.renderer.domElement,
     );
+    this.dragControls.enabled = this.dragEnabled;
+
+    this.dragControls.addEventListener('dragstart', () => {
+      this.dragStartState = this.getState();
+    });
 
     this.dragControls.addEventListener('drag', (event) => {
       this.handleDrag(event);
     });
 
-    this.dragControls.addEventListener('dragend', () => {
+    this.dragControls.addEventListener('dragend', (event) => {
       this.saveToStorage();
+      const label = event.object.userData.group === 'tangent' ? 'Move tangent' : undefined;
+      if (this.dragStartState) this.onEdit(this.dragStartState, this.nudging ? 'nudge' : undefined, label);
+      this.dragStartState = null;
     });
   }
 
-  private handleDrag(event: { object: THREE.Object3D<THREE.Object3DEventMap> }): void {
-    const object = event.object;
-    const pointGroupName = event.object.userData.group as string;
-    const draggedPoint = event.object.position;
-    const dragControlCorners = this.dragCornerControlPoints.flatMap((point) => [point.x, point.y]);
+  // Locked handles stay selectable, so they can be unlocked again. Tangents of locked grid points are locked too.
+  private getDraggableObjects(): THREE.Mesh[] {
+    return [
+      ...[...this.cornerObjects, ...this.gridObjects].filter((obj) => !this.isHandleLocked(obj)),
+      ...this.tangentObjects.filter((obj) => !this.model.isLocked('grid', obj.userData.index)),
+    ];
+  }
 
-    if (isQuadConcave(dragControlCorners)) {
-      if (object.userData.lastValidPosition && pointGroupName === 'corner') {
-        object.position.copy(object.userData.lastValidPosition);
+  /*
+  Selection: click a handle to select it, Shift+click to add or remove it, click empty space to clear.
+  Tab / Shift+Tab cycles through corners then grid points, arrow keys nudge the selection,
+  L locks or unlocks it, Escape clears it. Only the drag-enabled (active) warper reacts.
+  */
+  private initializeSelection(): void {
+    this.boundPointerDownHandler = (event: PointerEvent) => {
+      if (!this.dragEnabled || event.button !== 0) return;
+      const rect = this.config.renderer.domElement.getBoundingClientRect();
+      const ndc = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      );
+      this.raycaster.setFromCamera(ndc, this.config.camera);
+      // Tangent handles belong to the selection, grabbing one must keep it
+      if (this.raycaster.intersectObjects(this.tangentObjects).length > 0) return;
+      const hit = this.raycaster.intersectObjects(this.getSelectableObjects())[0]?.object as THREE.Mesh | undefined;
+
+      if (!hit) {
+        if (!event.shiftKey) this.clearSelection();
+      } else if (event.shiftKey) {
+        this.toggleSelected(hit);
+      } else if (!this.selectedObjects.includes(hit)) {
+        this.setSelection([hit]);
       }
-      return;
-    }
+    };
 
-    if (pointGroupName === 'corner') {
-      object.userData.lastValidPosition.copy(object.position);
-    }
+    this.boundKeyDownHandler = (event: KeyboardEvent) => {
+      if (!this.dragEnabled) return;
+      // Leave keys to focused inputs, e.g. GUI fields
+      if (event.target !== document.body && event.target !== this.config.renderer.domElement) return;
+
+      const step =
+        NUDGE_STEP.pixels *
+        (event.shiftKey ? NUDGE_STEP.coarseMultiplier : event.altKey ? NUDGE_STEP.fineMultiplier : 1);
+
+      switch (event.key) {
+        case 'Tab':
+          if (this.getSelectableObjects().length === 0) return;
+          this.selectNext(event.shiftKey);
+          break;
+        case 'Escape':
+          if (this.selectedObjects.length === 0) return;
+          this.clearSelection();
+          break;
+        case 'l':
+        case 'L':
+          if (this.selectedObjects.length === 0 || event.ctrlKey || event.metaKey) return;
+          this.toggleSelectionLocked();
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'ArrowUp':
+        case 'ArrowDown':
+          if (this.selectedObjects.length === 0) return;
+          this.nudgeSelection(
+            event.key === 'ArrowLeft' ? -step : event.key === 'ArrowRight' ? step : 0,
+            event.key === 'ArrowDown' ? -step : event.key === 'ArrowUp' ? step : 0,
+          );
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
 
-    this.perspectiveTransformControlPoints(dragControlCorners, draggedPoint, pointGroupName);
-    this.updateLine();
+    this.config.renderer.domElement.addEventListener('pointerdown', this.boundPointerDownHandler);
+    window.addEventListener('keydown', this.boundKeyDownHandler);
+  }
 
-    this.averageDimensions = this.getAverageDimensions();
-    if (this.material.uniforms.uWarpPlaneSize) {
-      this.material.uniforms.uWarpPlaneSize.value.set(this.averageDimensions.width, this.averageDimensions.height);
-    }
+  // Corners first, then grid points row by row; hidden handles can't be selected
+  private getSelectableObjects(): THREE.Mesh[] {
+    return [...this.cornerObjects, ...this.gridObjects].filter((obj) => obj.visible);
   }
 
-  perspectiveTransformControlPoints(
-    controlCorners: number[],
-    draggedPoint: THREE.Vector3,
-    pointGroupName: string,
-  ): void {
-    const perspectiveTransformer = new PerspT(this.quadData.initalCorners, controlCorners);
+  private setSelection(objects: THREE.Mesh[]): void {
+    const previous = this.selectedObjects;
+    this.selectedObjects = [...objects];
+    [...previous, ...this.selectedObjects].forEach((obj) => this.updateHandleStyle(obj));
+    this.rebuildTangentHandles();
+  }
 
-    if (pointGroupName === 'grid') {
-      const currentGridPointIndex = this.dragGridControlPoints.indexOf(draggedPoint);
-      const [xInverseTransformed, yInverseTransformed] = perspectiveTransformer.transformInverse(
-        draggedPoint.x,
-        draggedPoint.y,
-      );
-      this.referenceGridControlPoints[currentGridPointIndex].setX(xInverseTransformed);
-      this.referenceGridControlPoints[currentGridPointIndex].setY(yInverseTransformed);
-    }
+  private toggleSelected(object: THREE.Mesh): void {
+    const selection = this.selectedObjects.includes(object)
+      ? this.selectedObjects.filter((obj) => obj !== object)
+      : [...this.selectedObjects, object];
+    this.setSelection(selection);
+  }
 
-    if (pointGroupName === 'corner') {
-      for (let i = 0; i < this.referenceGridControlPoints.length; i++) {
-        const intialControlPos = this.referenceGridControlPoints[i];
-        const [warpedX, warpedY] = perspectiveTransformer.transform(intialControlPos.x, intialControlPos.y);
-        this.dragGridControlPoints[i].set(warpedX, warpedY, intialControlPos.z);
-      }
-    }
+  // Selection shows in the color, locks in the color and opacity, so a selected locked handle stays recognizable
+  private updateHandleStyle(object: THREE.Mesh): void {
+    const material = object.material as THREE.MeshBasicMaterial;
+    const locked = this.isHandleLocked(object);
+    if (this.selectedObjects.includes(object)) material.color.set(WARP_HANDLE_STYLE.selectedColor);
+    else if (locked) material.color.set(WARP_HANDLE_STYLE.lockedColor);
+    else material.color.copy(object.userData.baseColor);
+    material.opacity = locked ? WARP_HANDLE_STYLE.lockedOpacity : object.userData.baseOpacity;
   }
 
-  private updateLine(): void {
-    //@ts-ignore
-    this.quadOutlineLine.geometry.setPositions([
-      ...this.dragCornerControlPoints[0],
-      ...this.dragCornerControlPoints[1],
-      ...this.dragCornerControlPoints[3],
-      ...this.dragCornerControlPoints[2],
-      ...this.dragCornerControlPoints[0],
-    ]);
+  private getHandleIndex(object: THREE.Mesh): { group: 'corner' | 'grid'; index: number } {
+    return object.userData.group === 'corner'
+      ? { group: 'corner', index: this.cornerObjects.indexOf(object) }
+      : { group: 'grid', index: this.model.grid.indexOf(object.position) };
   }
 
-  private reoderGridPointsToBottomLeftOrigin(
-    points: THREE.Vector3[],
-    gridSizeX: number,
-    gridSizeY: number,
-  ): THREE.Vector3[] {
-    const reordered: THREE.Vector3[] = [];
-    for (let row = gridSizeY - 1; row >= 0; row--) {
-      for (let col = 0; col < gridSizeX; col++) {
-        const idx = row * gridSizeX + col;
-        reordered.push(points[idx]);
-      }
-    }
-    return reordered;
+  private isHandleLocked(object: THREE.Mesh): boolean {
+    const { group, index } = this.getHandleIndex(object);
+    return this.model.isLocked(group, index);
   }
 
-  getPlaneCornerCoordinates(geometry: THREE.PlaneGeometry): number[] {
-    const { widthSegments, heightSegments } = geometry.parameters;
-    const positions = geometry.attributes.position.array as Float32Array;
-    const verticesPerRow = widthSegments + 1;
-    const rows = heightSegments + 1;
+  public clearSelection(): void {
+    this.setSelection([]);
+  }
 
-    const getIndex = (row: number, col: number) => (row * verticesPerRow + col) * 3;
+  /** Selects the handle after (or before) the last selected one, wrapping around. */
+  public selectNext(reverse = false): void {
+    const selectable = this.getSelectableObjects();
+    if (selectable.length === 0) return;
+    const current = selectable.indexOf(this.selectedObjects[this.selectedObjects.length - 1]);
+    const next =
+      current === -1
+        ? reverse
+          ? selectable.length - 1
+          : 0
+        : (current + (reverse ? -1 : 1) + selectable.length) % selectable.length;
+    this.setSelection([selectable[next]]);
+  }
 
-    const topLeft = [positions[getIndex(0, 0)], positions[getIndex(0, 0) + 1]];
-    const topRight = [positions[getIndex(0, verticesPerRow - 1)], positions[getIndex(0, verticesPerRow - 1) + 1]];
-    const bottomLeft = [positions[getIndex(rows - 1, 0)], positions[getIndex(rows - 1, 0) + 1]];
-    const bottomRight = [
-      positions[getIndex(rows - 1, verticesPerRow - 1)],
-      positions[getIndex(rows - 1, verticesPerRow - 1) + 1],
-    ];
+  /** Selected handles as { group, index }, index into getCornerControlPoints() or getGridControlPoints(). */
+  public getSelection(): { group: 'corner' | 'grid'; index: number }[] {
+    return this.selectedObjects.map((obj) => this.getHandleIndex(obj));
+  }
 
-    return [
-      topLeft[0],
-      topLeft[1],
-      topRight[0],
-      topRight[1],
-      bottomLeft[0],
-      bottomLeft[1],
-      bottomRight[0],
-      bottomRight[1],
-    ];
+  /**
+   * Locks or unlocks a handle. Locked handles can't be dragged or nudged, locked grid points also
+   * keep their position when corners move. Recorded as an undo step and persisted like a move.
+   */
+  public setPointLocked(group: 'corner' | 'grid', index: number, locked: boolean): void {
+    if (this.model.isLocked(group, index) === locked) return;
+    const before = this.getState();
+    this.model.setLocked(group, index, locked);
+    this.commitLocks(before, locked ? 'Lock point' : 'Unlock point');
   }
 
-  private getAverageDimensions(): { width: number; height: number } {
-    const [tl, tr, bl, br] = this.dragCornerControlPoints;
+  public isPointLocked(group: 'corner' | 'grid', index: number): boolean {
+    return this.model.isLocked(group, index);
+  }
 
-    const topWidth = tl.distanceTo(tr);
-    const bottomWidth = bl.distanceTo(br);
-    const leftHeight = tl.distanceTo(bl);
-    const rightHeight = tr.distanceTo(br);
+  public getLockedPoints(): WarpLocks {
+    return this.model.getLocks();
+  }
 
-    return {
-      width: (topWidth + bottomWidth) / 2,
-      height: (leftHeight + rightHeight) / 2,
-    };
+  /** Replaces all locks, e.g. from another window. Not recorded as an undo step. */
+  public setLockedPoints(locks: WarpLocks): void {
+    this.model.setLocks(locks);
+    this.refreshLockedHandles();
+    this.saveToStorage();
   }
 
-  private clampGridControlPointsInsideQuad(
-    pointGroupName: string,
-    dragControlCorners: number[],
-    event: { object: THREE.Object3D } & THREE.Event<'drag', DragControls>,
-  ) {
-    const perspectiveTransformer = new PerspT(this.quadData.initalCorners, dragControlCorners);
+  /** Locks the selection, or unlocks it when every selected handle is locked already. */
+  public toggleSelectionLocked(): void {
+    if (this.selectedObjects.length === 0) return;
+    const lock = !this.selectedObjects.every((obj) => this.isHandleLocked(obj));
+    const before = this.getState();
+    this.selectedObjects.forEach((obj) => {
+      const { group, index } = this.getHandleIndex(obj);
+      this.model.setLocked(group, index, lock);
+    });
+    this.commitLocks(before, lock ? 'Lock points' : 'Unlock points');
+  }
 
-    // inverse to get "inital" posiiton
-    const [localX, localY] = perspectiveTransformer.transformInverse(event.object.position.x, event.object.position.y);
+  /**
+   * Register callback for when the user locked or unlocked handles
+   */
+  public onLockChanged(callback: (locks: WarpLocks) => void): void {
+    this.onLockChangedCallbacks.push(callback);
+  }
 
-    const bounds = this.getInitialBounds();
-    const clampedLocalX = clamp(localX, bounds.minX, bounds.maxX);
-    const clampedLocalY = clamp(localY, bounds.minY, bounds.maxY);
-    const [worldX, worldY] = perspectiveTransformer.transform(clampedLocalX, clampedLocalY);
+  private commitLocks(before: WarpState, label: string): void {
+    this.refreshLockedHandles();
+    this.saveToStorage();
+    this.onEdit(before, undefined, label);
+    const locks = this.model.getLocks();
+    this.onLockChangedCallbacks.forEach((cb) => cb(locks));
+  }
 
-    //Force the visual object to the clamped position
-    event.object.position.set(worldX, worldY, event.object.position.z);
+  // Draggable objects and handle styles follow the model's locks
+  private refreshLockedHandles(): void {
+    this.dragControls.objects = this.getDraggableObjects();
+    [...this.cornerObjects, ...this.gridObjects].forEach((obj) => this.updateHandleStyle(obj));
   }
 
-  // Helper to get the bounding box of the unwarped initial state
-  private getInitialBounds() {
-    const corners = this.quadData.initalCorners;
-    // corners format: [TLx, TLy, TRx, TRy, BLx, BLy, BRx, BRy]
+  /**
+   * Moves the selected handles by a distance in projector pixels (y up).
+   * Runs as a synthetic drag so corner validation, the inverse PerspT update of the
+   * reference grid, window sync and undo history behave exactly like a mouse drag.
+   */
+  public nudgeSelection(dxPixels: number, dyPixels: number): void {
+    const objects = this.selectedObjects.filter((obj) => obj.visible && !this.isHandleLocked(obj));
+    if (objects.length === 0) return;
+
+    const resolution = this.config.resolution ?? { width: 1920, height: 1080 };
+    const dx = dxPixels * (this.config.width / resolution.width);
+    const dy = dyPixels * (this.config.height / resolution.height);
+
+    // Corners first: moving a corner re-projects the whole grid
+    const ordered = [
+      ...objects.filter((obj) => obj.userData.group === 'corner'),
+      ...objects.filter((obj) => obj.userData.group === 'grid'),
+    ];
 
-    // Since PlaneGeometry is axis-aligned initially:
-    // Min X is usually Top-Left X, Max X is Top-Right X
-    // Min Y is Bottom-Left Y, Max Y is Top-Left Y
+    this.nudging = true;
+    this.nudgedObjects = ordered;
+    try {
+      this.dragControls.dispatchEvent({ type: 'dragstart', object: ordered[0] });
+      for (const object of ordered) {
+        object.position.x += dx;
+        object.position.y += dy;
+        this.dragControls.dispatchEvent({ type: 'drag', object });
+      }
+      this.dragControls.dispatchEvent({ type: 'dragend', object: ordered[0] });
+    } finally {
+      this.nudging = false;
+      this.nudgedObjects = [];
+    }
+  }
+
+  private handleDrag(event: { object: THREE.Object3D<THREE.Object3DEventMap> }): void {
+    const object = event.object;
+    const pointGroupName = event.object.userData.group as string;
 
-    const minX = Math.min(corners[0], corners[2], corners[4], corners[6]);
-    const maxX = Math.max(corners[0], corners[2], corners[4], corners[6]);
-    const minY = Math.min(corners[1], corners[3], corners[5], corners[7]);
-    const maxY = Math.max(corners[1], corners[3], corners[5], corners[7]);
+    if (pointGroupName === 'tangent') {
+      const { index, axis, side } = object.userData;
+      this.model.setTangentFromHandle(index, axis, side, object.position);
+      return;
+    }
+
+    if (pointGroupName === 'corner') {
+      // Mirrored corners move with the dragged one, a concave result puts them all back
+      const index = this.cornerObjects.indexOf(object as THREE.Mesh);
+      const moved = [
+        object,
+        ...this.model
+          .mirrorCornerMove(index, object.userData.lastValidPosition, this.symmetry, this.getNudgedIndices('corner'))
+          .map((i) => this.cornerObjects[i]),
+      ];
+      if (!this.model.isCornerQuadValid()) {
+        moved.forEach((obj) => obj.position.copy(obj.userData.lastValidPosition));
+        return;
+      }
+      moved.forEach((obj) => obj.userData.lastValidPosition.copy(obj.position));
+      this.model.reprojectGrid();
+    } else {
+      const index = this.model.grid.indexOf(object.position);
+      const excluded = this.getNudgedIndices('grid');
+      const previousReferences = this.model.referenceGrid.map((p) => p.clone());
+      this.model.updateReferencePoint(index);
+      const moved = [index, ...this.model.mirrorGridMove(index, previousReferences[index], this.symmetry, excluded)];
+      const { radius, falloff } = this.softSelection;
+      this.model.softMoveGrid(moved, previousReferences, radius, falloff, excluded);
+    }
+
+    this.updateWarpedShape();
+  }
 
-    return { minX, maxX, minY, maxY };
+  // Nudged handles move by themselves, they are not pushed again as another handle's mirror or soft neighbour
+  private getNudgedIndices(group: 'corner' | 'grid'): number[] {
+    return this.nudgedObjects
+      .filter((obj) => obj.userData.group === group)
+      .map((obj) => this.getHandleIndex(obj).index);
+  }
+
+  /**
+   * Mirrored editing: dragging or nudging a handle also moves its mirror counterparts, left/right (x)
+   * and/or top/bottom (y). Moves are mirrored in the unwarped plane, so they stay symmetric under keystone.
+   */
+  public setSymmetry(symmetry: Partial<WarpSymmetry>): void {
+    this.symmetry = { ...this.symmetry, ...symmetry };
+  }
+
+  public getSymmetry(): WarpSymmetry {
+    return { ...this.symmetry };
+  }
+
+  /**
+   * Proportional editing: grid drags and nudges also move the unlocked grid points within `radius`
+   * (a fraction of the plane width, 0 turns it off), weighted by the falloff curve.
+   */
+  public setSoftSelection(settings: Partial<SoftSelectionSettings>): void {
+    this.softSelection = { ...this.softSelection, ...settings };
+  }
+
+  public getSoftSelection(): SoftSelectionSettings {
+    return { ...this.softSelection };
+  }
+
+  // Outline and plane size follow the corners
+  private updateWarpedShape(): void {
+    this.updateLine();
+    this.averageDimensions = this.model.getAverageDimensions();
+    if (this.material.uniforms.uWarpPlaneSize) {
+      this.material.uniforms.uWarpPlaneSize.value.set(this.averageDimensions.width, this.averageDimensions.height);
+    }
+  }
+
+  private updateLine(): void {
+    const corners = this.model.corners;
+    //@ts-ignore
+    this.quadOutlineLine.geometry.setPositions([
+      ...corners[0],
+      ...corners[1],
+      ...corners[3],
+      ...corners[2],
+      ...corners[0],
+    ]);
   }
 
   private addToScene(): void {
     this.config.scene.add(this.mesh);
     this.config.scene.add(this.quadOutlineLine);
+    this.config.scene.add(this.tangentLines);
+    this.config.scene.add(this.softSelectionOutline);
     this.cornerObjects.forEach((obj) => this.config.scene.add(obj));
     this.gridObjects.forEach((obj) => this.config.scene.add(obj));
   }
 
   public getCornerControlPoints(): THREE.Vector3[] {
-    return this.dragCornerControlPoints;
+    return this.model.corners;
   }
 
   public getGridControlPoints(): THREE.Vector3[] {
-    return this.dragGridControlPoints;
+    return this.model.grid;
+  }
+
+  /** Grid points in unwarped space, see WarpGridModel */
+  public getReferenceGridControlPoints(): THREE.Vector3[] {
+    return this.model.referenceGrid;
+  }
+
+  public getModel(): WarpGridModel {
+    return this.model;
   }
 
   public applyPerspectiveTransform(x: number, y: number): THREE.Vector2 {
-    const currentCorners = this.dragCornerControlPoints.flatMap((p) => [p.x, p.y]);
-    const [wx, wy] = new PerspT(this.quadData.initalCorners, currentCorners).transform(x, y);
+    const [wx, wy] = this.model.getHomography().transform(x, y);
     return new THREE.Vector2(wx, wy);
   }
 
   public applyInversePerspectiveTransform(x: number, y: number): THREE.Vector2 {
-    const currentCorners = this.dragCornerControlPoints.flatMap((p) => [p.x, p.y]);
-    const [wx, wy] = new PerspT(this.quadData.initalCorners, currentCorners).transformInverse(x, y);
+    const [wx, wy] = this.model.getHomography().transformInverse(x, y);
     return new THREE.Vector2(wx, wy);
   }
 
   // Returns the 9 homography coefficients for the current perspective warp.
   // Used to apply the identical projective transform on the GPU vertex shader,
   public getPerspectiveCoeffs(): number[] {
-    const currentCorners = this.dragCornerControlPoints.flatMap((p) => [p.x, p.y]);
-    return new PerspT(this.quadData.initalCorners, currentCorners).coeffs;
+    return this.model.getHomography().coeffs;
   }
 
   public dispose(): void {
+    this.config.renderer.domElement.removeEventListener('pointerdown', this.boundPointerDownHandler);
+    window.removeEventListener('keydown', this.boundKeyDownHandler);
     this.planeGeometry.dispose();
+    this.handleGeometry.dispose();
+    this.controlPointTexture.dispose();
     this.dragControls.dispose();
     this.config.scene.remove(this.mesh);
     this.config.scene.remove(this.quadOutlineLine);
+    this.config.scene.remove(this.tangentLines);
+    this.tangentLines.geometry.dispose();
+    this.config.scene.remove(this.softSelectionOutline);
+    this.softSelectionOutline.geometry.dispose();
+    this.tangentObjects.forEach((obj) => this.config.scene.remove(obj));
     this.cornerObjects.forEach((obj) => this.config.scene.remove(obj));
     this.gridObjects.forEach((obj) => this.config.scene.remove(obj));
   }
@@ -478,9 +879,25 @@ export class MeshWarper {
     }
   }
 
+  private uvRectToVector(rect: UVRect): THREE.Vector4 {
+    return new THREE.Vector4(rect.x, rect.y, rect.width, rect.height);
+  }
+
+  public setUVRect(rect: UVRect): void {
+    this.config.uvRect = { ...rect };
+    this.material.uniforms.uSourceRect.value.set(rect.x, rect.y, rect.width, rect.height);
+  }
+
+  public getUVRect(): UVRect {
+    return { ...(this.config.uvRect ?? FULL_UV_RECT) };
+  }
+
   public setWarpMode(mode: WARP_MODE): void {
+    if (mode === this.getWarpMode()) return;
     this.material.uniforms.uWarpMode.value = mode;
     this.material.needsUpdate = true;
+    this.rebuildTangentHandles();
+    this.saveToStorage();
   }
 
   public getWarpMode(): WARP_MODE {
@@ -500,11 +917,13 @@ export class MeshWarper {
   }
 
   public updateControlPointsScale(screenScale: number): void {
+    this.handleScale = screenScale;
     const cornerCubeSize = screenScale * WARP_HANDLE_STYLE.cornerPointPixelRadius;
     const gridControlCubeSize = screenScale * WARP_HANDLE_STYLE.gridPointPixelRadius;
 
     this.cornerObjects.forEach((obj) => obj.scale.setScalar(cornerCubeSize));
     this.gridObjects.forEach((obj) => obj.scale.setScalar(gridControlCubeSize));
+    this.tangentObjects.forEach((obj) => obj.scale.setScalar(screenScale * WARP_HANDLE_STYLE.tangentPointPixelRadius));
   }
 
   // Visibility toggles for GUI
@@ -519,6 +938,8 @@ export class MeshWarper {
       }
     });
     this.gridPointsEnabled = visible;
+    this.tangentLines.visible = visible;
+    this.rebuildTangentHandles();
   }
 
   public setCornerPointsVisible(visible: boolean): void {
@@ -550,56 +971,121 @@ export class MeshWarper {
    * Use this for projector windows that should be receive-only.
    */
   public setDragEnabled(enabled: boolean): void {
+    this.dragEnabled = enabled;
     if (this.dragControls) {
       this.dragControls.enabled = enabled;
     }
+    if (!enabled) this.clearSelection();
   }
 
   // Grid size getters
   public getGridSizeX(): number {
-    return this.xControlPointAmount;
+    return this.model.gridSize.x;
   }
 
   public getGridSizeY(): number {
-    return this.yControlPointAmount;
+    return this.model.gridSize.y;
+  }
+
+  public getGridKnots(): WarpKnots {
+    return { x: [...this.model.knots.x], y: [...this.model.knots.y] };
   }
 
   // Dynamic grid resizing
   public setGridSize(x: number, y: number): void {
-    x = Math.max(MESH_WARP_GRID_SIZE.minimum, Math.min(MESH_WARP_GRID_SIZE.maximum, Math.floor(x)));
-    y = Math.max(MESH_WARP_GRID_SIZE.minimum, Math.min(MESH_WARP_GRID_SIZE.maximum, Math.floor(y)));
+    // The model re-projects the new grid through the current corners to preserve the warp
+    if (!this.rebuildGridHandles(() => this.model.setGridSize(x, y))) return;
+    console.log(`Grid resized to ${this.model.gridSize.x}x${this.model.gridSize.y}`);
+  }
 
-    if (x === this.xControlPointAmount && y === this.yControlPointAmount) {
-      return;
-    }
+  /**
+   * Inserts a grid column at u (0-1 from the left), with its points on the current surface so the
+   * warp keeps its shape. Returns the new column's index, or -1 if the grid is full or u is too
+   * close to a column (MIN_GRID_KNOT_SPACING).
+   */
+  public insertGridColumn(u: number): number {
+    let index = -1;
+    this.changeGridLayout(() => (index = this.model.insertColumn(u, this.getWarpMode())) !== -1);
+    return index;
+  }
+
+  /** Inserts a grid row at v (0-1 from the bottom), see insertGridColumn */
+  public insertGridRow(v: number): number {
+    let index = -1;
+    this.changeGridLayout(() => (index = this.model.insertRow(v, this.getWarpMode())) !== -1);
+    return index;
+  }
+
+  /** Removes an inner grid column, the remaining points stay where they are. */
+  public deleteGridColumn(col: number): boolean {
+    return this.changeGridLayout(() => this.model.deleteColumn(col));
+  }
 
-    // Store current corner positions to preserve warp
-    const cornerPositions = this.dragCornerControlPoints.map((p) => p.clone());
+  /** Removes an inner grid row (index from the bottom), see deleteGridColumn */
+  public deleteGridRow(row: number): boolean {
+    return this.changeGridLayout(() => this.model.deleteRow(row));
+  }
+
+  /** Replaces the knots of a grid of the same size, e.g. from another window. Points are applied separately. */
+  public setGridKnots(knots: WarpKnots): void {
+    if (knots.x.length !== this.getGridSizeX() || knots.y.length !== this.getGridSizeY()) return;
+    this.model.knots = { x: [...knots.x], y: [...knots.y] };
+    this.updateGridUniforms();
+  }
+
+  /** Bezier tangents of the grid points, normalized like getState() */
+  public getTangents(): WarpTangents {
+    return this.model.getNormalizedTangents();
+  }
+
+  /** Replaces the tangents of a grid of the same size, e.g. from another window. Apply points first. */
+  public setTangents(tangents: WarpTangents): void {
+    this.model.setNormalizedTangents(tangents);
+  }
+
+  /**
+   * Register callback for when columns or rows were inserted or deleted
+   */
+  public onGridLayoutChanged(callback: (state: WarpState) => void): void {
+    this.onGridLayoutChangedCallbacks.push(callback);
+  }
+
+  private changeGridLayout(change: () => boolean): boolean {
+    if (!this.rebuildGridHandles(change)) return false;
+    const state = this.getState();
+    this.onGridLayoutChangedCallbacks.forEach((cb) => cb(state));
+    return true;
+  }
+
+  /**
+   * Runs a model change that recreates the grid points (resize, insert, delete), then replaces the
+   * grid handles, drag controls and shader uniforms. Returns false when the model did not change.
+   */
+  private rebuildGridHandles(change: () => boolean): boolean {
+    // Grid handles are recreated, keep only selected corners
+    const previousGridObjects = this.gridObjects;
+    const keptSelection = this.selectedObjects.filter((obj) => obj.userData.group === 'corner');
+    this.gridObjects = [];
+
+    if (!change()) {
+      this.gridObjects = previousGridObjects;
+      return false;
+    }
+    this.setSelection(keptSelection);
 
     // Remove old grid objects from scene
-    this.gridObjects.forEach((obj) => {
+    previousGridObjects.forEach((obj) => {
       this.config.scene.remove(obj);
-      if (obj.geometry) obj.geometry.dispose();
       if (obj.material instanceof THREE.Material) obj.material.dispose();
     });
 
     // Dispose old drag controls
     this.dragControls.dispose();
 
-    // Clear arrays
-    this.gridObjects = [];
-    this.dragGridControlPoints = [];
-    this.referenceGridControlPoints = [];
-
-    // Update amounts
-    this.xControlPointAmount = x;
-    this.yControlPointAmount = y;
-    this.config.gridControlPoints.x = x;
-    this.config.gridControlPoints.y = y;
-
-    const controlPointPlaneGeometry = new THREE.PlaneGeometry(this.config.width, this.config.height, x - 1, y - 1);
-    this.createGridControlPoints(controlPointPlaneGeometry, x, y);
-    controlPointPlaneGeometry.dispose();
+    this.config.gridControlPoints.x = this.model.gridSize.x;
+    this.config.gridControlPoints.y = this.model.gridSize.y;
+    this.updatePlaneGeometry();
+
     this.gridObjects.forEach((obj) => this.config.scene.add(obj));
 
     if (!this.gridPointsEnabled) {
@@ -609,141 +1095,125 @@ export class MeshWarper {
       });
     }
 
-    const dragControlCorners = cornerPositions.flatMap((point) => [point.x, point.y]);
-    const perspectiveTransformer = new PerspT(this.quadData.initalCorners, dragControlCorners);
-
-    for (let i = 0; i < this.referenceGridControlPoints.length; i++) {
-      const refPos = this.referenceGridControlPoints[i];
-      const [warpedX, warpedY] = perspectiveTransformer.transform(refPos.x, refPos.y);
-      this.dragGridControlPoints[i].set(warpedX, warpedY, refPos.z);
-    }
-
     this.initializeDragControls();
-
-    const totalControlPoints = x * y;
-    this.material.defines.CONTROL_POINT_AMOUNT = totalControlPoints;
-    this.material.uniforms.uControlPoints.value = this.dragGridControlPoints;
-    this.material.uniforms.uGridSizeX.value = x;
-    this.material.uniforms.uGridSizeY.value = y;
-    this.material.needsUpdate = true;
+    // Locks of grid points without a counterpart in the new grid are gone
+    this.refreshLockedHandles();
+    this.updateGridUniforms();
 
     this.saveToStorage();
+    return true;
+  }
 
-    console.log(`Grid resized to ${x}x${y}`);
+  // A new grid size gets a new texture, the shader itself stays compiled
+  private updateGridUniforms(): void {
+    const { x, y } = this.model.gridSize;
+    const uniforms = this.material.uniforms;
+    if (this.controlPointTexture.image.width !== x || this.controlPointTexture.image.height !== y * 2) {
+      this.controlPointTexture.dispose();
+      this.controlPointTexture = this.createControlPointTexture();
+      uniforms.uControlPointTexture.value = this.controlPointTexture;
+    } else {
+      this.writeControlPointTexture();
+    }
+    uniforms.uGridSizeX.value = x;
+    uniforms.uGridSizeY.value = y;
   }
 
-  // Positions stored normalized (0-1) so calibration survives resolution changes
+  public getState(): WarpState {
+    return { ...this.model.getState(), warpMode: this.getWarpMode() };
+  }
 
-  private toNormalized(p: THREE.Vector3): { x: number; y: number; z: number } {
-    return {
-      x: (p.x + this.config.width / 2) / this.config.width,
-      y: (p.y + this.config.height / 2) / this.config.height,
-      z: p.z,
-    };
+  /** Applies a complete warp state, e.g. from a calibration file, and persists it. */
+  public setState(state: WarpState): void {
+    this.applyState(state);
+    this.saveToStorage();
   }
 
-  private fromNormalized(n: { x: number; y: number; z: number }): { x: number; y: number; z: number } {
-    return {
-      x: n.x * this.config.width - this.config.width / 2,
-      y: n.y * this.config.height - this.config.height / 2,
-      z: n.z,
-    };
+  /**
+   * Applies a warp state without persisting it, e.g. for animation frames of a transition.
+   * Only points move: handles, locks and tangent handles are refreshed by the next setState().
+   */
+  public previewState(state: WarpState): void {
+    // The first frame of a transition to another grid size or warp mode needs the full rebuild
+    if (
+      state.gridSize.x !== this.getGridSizeX() ||
+      state.gridSize.y !== this.getGridSizeY() ||
+      state.warpMode !== this.getWarpMode()
+    ) {
+      this.applyState(state);
+      return;
+    }
+    this.model.applyPoints(state);
+    this.updateGridUniforms();
+    this.updateWarpedShape();
   }
 
   private saveToStorage(): void {
-    const data: StoredControlPoints = {
-      gridSize: { x: this.xControlPointAmount, y: this.yControlPointAmount },
-      corners: this.dragCornerControlPoints.map((p) => this.toNormalized(p)),
-      grid: this.dragGridControlPoints.map((p) => this.toNormalized(p)),
-      referenceGrid: this.referenceGridControlPoints.map((p) => this.toNormalized(p)),
-    };
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } catch (e) {
-      console.warn('Failed to save control points to localStorage:', e);
-    }
+    this.storageWritten = true;
+    whenResolved(
+      () => this.store.set(this.storageKey, JSON.stringify(this.getState())),
+      () => {},
+      (e) => console.warn('Failed to save control points:', e),
+    );
   }
 
   private loadFromStorage(): void {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return;
-
-      const data: StoredControlPoints = JSON.parse(stored);
-
-      // Always load corners if valid (always 4)
-      if (data.corners && data.corners.length === 4) {
-        data.corners.forEach((nPos, i) => {
-          const pos = this.fromNormalized(nPos);
-          this.dragCornerControlPoints[i].set(pos.x, pos.y, pos.z);
-          this.cornerObjects[i].position.set(pos.x, pos.y, pos.z);
-          this.cornerObjects[i].userData.lastValidPosition = this.cornerObjects[i].position.clone();
-        });
-      }
-
-      // Validate grid dimensions using stored gridSize metadata
-      const expectedCount = this.xControlPointAmount * this.yControlPointAmount;
-      const gridSizeMatches =
-        data.gridSize?.x === this.xControlPointAmount && data.gridSize?.y === this.yControlPointAmount;
-
-      if (gridSizeMatches && data.grid.length === expectedCount && data.referenceGrid?.length === expectedCount) {
-        data.grid.forEach((nPos, i) => {
-          const pos = this.fromNormalized(nPos);
-          this.dragGridControlPoints[i].set(pos.x, pos.y, pos.z);
-        });
-        data.referenceGrid.forEach((nPos, i) => {
-          const pos = this.fromNormalized(nPos);
-          this.referenceGridControlPoints[i].set(pos.x, pos.y, pos.z);
-        });
-      } else {
-        // Grid size changed: recompute grid positions from loaded corners
-        const corners = this.dragCornerControlPoints.flatMap((p) => [p.x, p.y]);
-        this.perspectiveTransformControlPoints(corners, new THREE.Vector3(), 'corner');
-      }
+    whenResolved(
+      () => this.store.get(this.storageKey),
+      (stored) => {
+        // Asynchronous stores can answer after the first edit, which is newer than what they hold
+        if (!stored || this.storageWritten) return;
+        // Saves from before grid sizes and warp modes were stored have the current ones
+        const data = validateWarp(
+          { gridSize: this.model.gridSize, warpMode: this.getWarpMode(), ...JSON.parse(stored) },
+          this.storageKey,
+        );
+        if (this.applyState(data)) this.saveToStorage();
+      },
+      (e) => {
+        const error = e instanceof Error ? e : new Error(String(e));
+        if (this.config.onLoadError) this.config.onLoadError(error);
+        else console.warn('Failed to load control points:', error);
+      },
+    );
+  }
 
-      this.updateLine();
-      this.averageDimensions = this.getAverageDimensions();
-      this.material.uniforms.uWarpPlaneSize.value.set(this.averageDimensions.width, this.averageDimensions.height);
-    } catch (e) {
-      console.warn('Failed to load control points from localStorage:', e);
-    }
+  /** Returns true if the grid was resized to the stored grid size. */
+  private applyState(data: StoredControlPoints): boolean {
+    // Adopt the stored grid size so surfaces created without an explicit size keep their grid
+    const storedX = data.gridSize?.x;
+    const storedY = data.gridSize?.y;
+    const resized =
+      !!storedX && !!storedY && (storedX !== this.getGridSizeX() || storedY !== this.getGridSizeY());
+    if (resized) this.setGridSize(storedX, storedY);
+
+    if (data.warpMode !== undefined) this.material.uniforms.uWarpMode.value = data.warpMode;
+
+    this.model.applyPoints(data);
+    this.cornerObjects.forEach((obj) => (obj.userData.lastValidPosition = obj.position.clone()));
+    this.rebuildTangentHandles();
+    this.refreshLockedHandles();
+    this.updateGridUniforms();
+
+    this.updateWarpedShape();
+    return resized;
   }
 
   public resetToDefault(): void {
-    // Reset corners — dragCornerControlPoints[i] IS cornerObjects[i].position (same ref)
-    for (let i = 0; i < 4; i++) {
-      const x = this.quadData.initalCorners[i * 2];
-      const y = this.quadData.initalCorners[i * 2 + 1];
-      this.dragCornerControlPoints[i].set(x, y, 0);
-      this.cornerObjects[i].userData.lastValidPosition?.set(x, y, 0);
-    }
-
-    // Rebuild initial grid positions from a fresh PlaneGeometry (matches constructor)
-    const geom = new THREE.PlaneGeometry(
-      this.config.width,
-      this.config.height,
-      this.xControlPointAmount - 1,
-      this.yControlPointAmount - 1,
-    );
-    const pos = geom.attributes.position.array as Float32Array;
-    const initialGridPositions = this.reoderGridPointsToBottomLeftOrigin(
-      Array.from({ length: pos.length / 3 }, (_, i) => new THREE.Vector3(pos[i * 3], pos[i * 3 + 1], 0)),
-      this.xControlPointAmount,
-      this.yControlPointAmount,
-    );
-    geom.dispose();
+    // The model's points ARE the handle positions (same ref), so this moves visuals too
+    this.model.resetToDefault();
+    this.cornerObjects.forEach((obj) => obj.userData.lastValidPosition?.copy(obj.position));
 
-    // dragGridControlPoints[i] IS the scene object's position (same ref), so this moves visuals too
-    for (let i = 0; i < this.referenceGridControlPoints.length; i++) {
-      this.referenceGridControlPoints[i].copy(initialGridPositions[i]);
-      this.dragGridControlPoints[i].copy(initialGridPositions[i]);
-    }
+    this.updateWarpedShape();
+    this.clearStorage();
+  }
 
-    this.updateLine();
-    this.averageDimensions = this.getAverageDimensions();
-    if (this.material.uniforms.uWarpPlaneSize) {
-      this.material.uniforms.uWarpPlaneSize.value.set(this.averageDimensions.width, this.averageDimensions.height);
-    }
-    localStorage.removeItem(STORAGE_KEY);
+  public clearStorage(): void {
+    this.storageWritten = true;
+    whenResolved(
+      () => this.store.remove(this.storageKey),
+      () => {},
+      (e) => console.warn('Failed to clear control points:', e),
+    );
   }
 }
@@ -0,0 +1,702 @@
+/*
+WarpGridModel
+-------------
+The control-point math behind MeshWarper, free of scene, material and DragControls plumbing
+so it runs headless (vitest without WebGL).
+
+It owns three point sets in world space:
+- corners: the 4 draggable corners, order TL, TR, BL, BR
+- grid: the draggable grid points, row by row from the bottom-left (vertex shader order)
+- referenceGrid: the grid in unwarped space; corner moves push it through the PerspT
+  homography into `grid`, grid moves pull the dragged point back through the inverse
+
+The grid's columns and rows sit at knot positions (0-1 across the unwarped plane), evenly spaced
+unless columns or rows were inserted or deleted. Inserted points are placed on the current surface,
+so the warp keeps its shape while the grid gets denser where it needs to.
+
+Every grid point also carries tangents along u and v, the handles of the Bezier warp mode. Like
+the points they exist in world and reference space: corner moves carry reference tangents through
+the homography's derivative, handle moves pull them back. They start as the tangents of a spline
+through the grid and are re-estimated whenever the grid is rebuilt.
+
+With symmetry on, a moved point takes its mirror counterparts along: the grid point at the mirrored
+knots, or the mirrored corner. The move is mirrored in reference space, so counterparts stay mirror
+images under keystone, and only the move is mirrored, so existing asymmetries are kept.
+
+Soft selection moves the grid points around a moved point along, weighted by their distance to it
+in reference space, so a drag bends the surface instead of kinking it at one point.
+
+Locked points are not moved by the user. Locked grid points are also pinned: when corners move
+they keep their position and their reference point follows instead.
+
+Points are created through optional factories, so MeshWarper can hand out the positions of
+its handle meshes and keep them identical to the vectors the shader uniforms read.
+*/
+
+import * as THREE from 'three';
+import PerspT from '../utils/perspective';
+import {
+  estimateGridTangents,
+  isQuadConcave,
+  remapGridIndex,
+  sampleWarpGrid,
+  softSelectionWeight,
+  uniformKnots,
+  type GridTangents,
+} from './geometry';
+import { WARP_MODE } from './WarpMode';
+import { clamp } from '../utils/math';
+import { MESH_WARP_GRID_SIZE, MIN_GRID_KNOT_SPACING, type SoftSelectionFalloff } from '../core/defaults';
+import type { WarpKnots, WarpLocks, WarpState, WarpSymmetry, WarpTangents } from './MeshWarper';
+
+type Point2 = { x: number; y: number };
+type Point3 = { x: number; y: number; z: number };
+type TangentAxis = keyof GridTangents;
+
+// Step along a tangent for the finite-difference derivative of the homography, in knot units
+const TANGENT_EPSILON = 1e-4;
+
+/** Control points as persisted, older saves carry no grid size; the grid is then rebuilt from the corners */
+export type StoredControlPoints = Omit<WarpState, 'gridSize' | 'warpMode'> &
+  Partial<Pick<WarpState, 'gridSize' | 'warpMode'>>;
+
+export interface WarpGridModelConfig {
+  width: number;
+  height: number;
+  gridSize: { x: number; y: number };
+  /** Creates the vector of a corner handle (default: a plain Vector3) */
+  createCornerPoint?: (x: number, y: number) => THREE.Vector3;
+  /** Creates the vector of a grid handle, called top-left to bottom-right (default: a plain Vector3) */
+  createGridPoint?: (x: number, y: number) => THREE.Vector3;
+}
+
+export class WarpGridModel {
+  readonly width: number;
+  readonly height: number;
+  /** Unwarped corners as flat [TLx, TLy, TRx, TRy, BLx, BLy, BRx, BRy], the homography source */
+  readonly initialCorners: number[];
+
+  corners: THREE.Vector3[] = [];
+  grid: THREE.Vector3[] = [];
+  referenceGrid: THREE.Vector3[] = [];
+  gridSize: { x: number; y: number };
+  knots: WarpKnots;
+  /** Surface derivatives at the grid points, in world units per knot unit */
+  tangents: GridTangents = { u: [], v: [] };
+  referenceTangents: GridTangents = { u: [], v: [] };
+  lockedCorners = new Set<number>();
+  lockedGrid = new Set<number>();
+
+  private createCornerPoint: (x: number, y: number) => THREE.Vector3;
+  private createGridPoint: (x: number, y: number) => THREE.Vector3;
+
+  constructor(config: WarpGridModelConfig) {
+    this.width = config.width;
+    this.height = config.height;
+    this.gridSize = { ...config.gridSize };
+    this.knots = { x: uniformKnots(this.gridSize.x), y: uniformKnots(this.gridSize.y) };
+    this.createCornerPoint = config.createCornerPoint ?? ((x, y) => new THREE.Vector3(x, y, 0));
+    this.createGridPoint = config.createGridPoint ?? ((x, y) => new THREE.Vector3(x, y, 0));
+
+    const halfWidth = this.width / 2;
+    const halfHeight = this.height / 2;
+    this.initialCorners = [-halfWidth, halfHeight, halfWidth, halfHeight, -halfWidth, -halfHeight, halfWidth, -halfHeight];
+
+    for (let i = 0; i < 8; i += 2) {
+      this.corners.push(this.createCornerPoint(this.initialCorners[i], this.initialCorners[i + 1]));
+    }
+    this.buildGrid();
+  }
+
+  /** Grid positions of the unwarped plane, in the order PlaneGeometry lists its vertices (top-left first) */
+  private getInitialGridPositions(): THREE.Vector3[] {
+    const { x: sizeX, y: sizeY } = this.gridSize;
+    const positions: THREE.Vector3[] = [];
+    for (let row = 0; row < sizeY; row++) {
+      for (let col = 0; col < sizeX; col++) {
+        positions.push(
+          new THREE.Vector3(
+            this.knots.x[col] * this.width - this.width / 2,
+            this.knots.y[sizeY - 1 - row] * this.height - this.height / 2,
+            0,
+          ),
+        );
+      }
+    }
+    return positions;
+  }
+
+  private buildGrid(): void {
+    const points = this.getInitialGridPositions().map((p) => this.createGridPoint(p.x, p.y));
+    // Reorder to match vertex shader expectations
+    this.grid = reorderGridPointsToBottomLeftOrigin(points, this.gridSize.x, this.gridSize.y);
+    this.referenceGrid = this.grid.map((p) => p.clone());
+    // The unwarped grid is its own reference
+    this.tangents = estimateGridTangents(this.grid, this.gridSize, this.knots);
+    this.referenceTangents = estimateGridTangents(this.grid, this.gridSize, this.knots);
+  }
+
+  /**
+   * Rebuilds an evenly spaced grid at a new size (clamped to MESH_WARP_GRID_SIZE), keeping the warp of
+   * the corners. Grid point moves and inserted columns or rows are lost, except for locked points that have a point at the same place in the
+   * new grid: those keep their lock and position. Returns false when the size did not change.
+   */
+  setGridSize(x: number, y: number): boolean {
+    x = clamp(Math.floor(x), MESH_WARP_GRID_SIZE.minimum, MESH_WARP_GRID_SIZE.maximum);
+    y = clamp(Math.floor(y), MESH_WARP_GRID_SIZE.minimum, MESH_WARP_GRID_SIZE.maximum);
+    if (x === this.gridSize.x && y === this.gridSize.y) return false;
+
+    const previousSize = this.gridSize;
+    const previousKnots = this.knots;
+    this.knots = { x: uniformKnots(x), y: uniformKnots(y) };
+    const pinned = new Map<number, THREE.Vector3>();
+    this.lockedGrid.forEach((index) => {
+      const newIndex = remapGridIndex(index, previousSize, { x, y }, previousKnots, this.knots);
+      if (newIndex !== null) pinned.set(newIndex, this.grid[index].clone());
+    });
+
+    this.gridSize = { x, y };
+    this.buildGrid();
+    pinned.forEach((position, index) => this.grid[index].copy(position));
+    this.lockedGrid = new Set(pinned.keys());
+    this.reprojectGrid();
+    this.resetTangents();
+    return true;
+  }
+
+  /**
+   * Inserts a grid column at u (0-1 from the left). Its points are placed on the current surface,
+   * the other points keep their positions and locks. Returns the new column's index, or -1 when the
+   * grid is at its maximum size or u lies outside or within MIN_GRID_KNOT_SPACING of a column.
+   */
+  insertColumn(u: number, mode: WARP_MODE): number {
+    return this.insertKnot('x', u, mode);
+  }
+
+  /** Inserts a grid row at v (0-1 from the bottom), see insertColumn */
+  insertRow(v: number, mode: WARP_MODE): number {
+    return this.insertKnot('y', v, mode);
+  }
+
+  /** Removes an inner grid column, the other points keep their positions. Edge columns stay. */
+  deleteColumn(col: number): boolean {
+    return this.deleteKnot('x', col);
+  }
+
+  /** Removes an inner grid row (index from the bottom), see deleteColumn */
+  deleteRow(row: number): boolean {
+    return this.deleteKnot('y', row);
+  }
+
+  private insertKnot(axis: 'x' | 'y', t: number, mode: WARP_MODE): number {
+    const knots = this.knots[axis];
+    if (knots.length >= MESH_WARP_GRID_SIZE.maximum || !(t > 0 && t < 1)) return -1;
+    if (knots.some((k) => Math.abs(k - t) < MIN_GRID_KNOT_SPACING)) return -1;
+
+    const index = knots.findIndex((k) => k > t);
+    const sizeX = this.gridSize.x;
+    this.relayout(
+      { ...this.knots, [axis]: [...knots.slice(0, index), t, ...knots.slice(index)] },
+      (col, row) => {
+        if (axis === 'x') return col === index ? null : row * sizeX + (col < index ? col : col - 1);
+        return row === index ? null : (row < index ? row : row - 1) * sizeX + col;
+      },
+      mode,
+    );
+    return index;
+  }
+
+  private deleteKnot(axis: 'x' | 'y', index: number): boolean {
+    const knots = this.knots[axis];
+    if (!Number.isInteger(index) || index <= 0 || index >= knots.length - 1) return false;
+
+    const sizeX = this.gridSize.x;
+    this.relayout(
+      { ...this.knots, [axis]: knots.filter((_, i) => i !== index) },
+      (col, row) =>
+        axis === 'x' ? row * sizeX + (col < index ? col : col + 1) : (row < index ? row : row + 1) * sizeX + col,
+      WARP_MODE.bilinear,
+    );
+    return true;
+  }
+
+  /**
+   * Rebuilds the grid for new knots. Points with a source index take over that point and its lock,
+   * points without one are placed on the current surface with its derivatives as tangents.
+   */
+  private relayout(knots: WarpKnots, sourceIndex: (col: number, row: number) => number | null, mode: WARP_MODE): void {
+    const homography = this.getHomography();
+    const grid: THREE.Vector3[] = [];
+    const referenceGrid: THREE.Vector3[] = [];
+    const tangents: GridTangents = { u: [], v: [] };
+    const locked = new Set<number>();
+
+    for (let row = 0; row < knots.y.length; row++) {
+      for (let col = 0; col < knots.x.length; col++) {
+        const source = sourceIndex(col, row);
+        if (source !== null) {
+          if (this.lockedGrid.has(source)) locked.add(grid.length);
+          grid.push(this.grid[source].clone());
+          referenceGrid.push(this.referenceGrid[source].clone());
+          tangents.u.push({ ...this.tangents.u[source] });
+          tangents.v.push({ ...this.tangents.v[source] });
+          continue;
+        }
+        const u = knots.x[col];
+        const v = knots.y[row];
+        const { x, y } = this.sample(u, v, mode);
+        const [refX, refY] = homography.transformInverse(x, y);
+        grid.push(new THREE.Vector3(x, y, 0));
+        referenceGrid.push(new THREE.Vector3(refX, refY, 0));
+        tangents.u.push(this.sampleDerivative(u, v, 'u', mode));
+        tangents.v.push(this.sampleDerivative(u, v, 'v', mode));
+      }
+    }
+
+    this.knots = knots;
+    this.gridSize = { x: knots.x.length, y: knots.y.length };
+    this.buildGrid();
+    grid.forEach((p, i) => this.grid[i].copy(p));
+    referenceGrid.forEach((p, i) => this.referenceGrid[i].copy(p));
+    this.lockedGrid = locked;
+    this.tangents = tangents;
+    this.referenceTangents = this.toReferenceTangents(tangents);
+  }
+
+  /** World position of the warped surface at (u, v) 0-1 from the bottom-left, as the shader draws it */
+  sample(u: number, v: number, mode: WARP_MODE): { x: number; y: number } {
+    return sampleWarpGrid(this.grid, this.gridSize, this.knots, u, v, mode, this.tangents);
+  }
+
+  /** Derivative of the surface along u or v, by central differences clamped to the plane */
+  private sampleDerivative(u: number, v: number, axis: TangentAxis, mode: WARP_MODE): Point2 {
+    const t = axis === 'u' ? u : v;
+    const t0 = Math.max(t - TANGENT_EPSILON, 0);
+    const t1 = Math.min(t + TANGENT_EPSILON, 1);
+    const a = axis === 'u' ? this.sample(t0, v, mode) : this.sample(u, t0, mode);
+    const b = axis === 'u' ? this.sample(t1, v, mode) : this.sample(u, t1, mode);
+    return { x: (b.x - a.x) / (t1 - t0), y: (b.y - a.y) / (t1 - t0) };
+  }
+
+  getHomography(): PerspT {
+    return new PerspT(
+      this.initialCorners,
+      this.corners.flatMap((p) => [p.x, p.y]),
+    );
+  }
+
+  /** A concave quad has no valid homography, drags producing one are rejected */
+  isCornerQuadValid(): boolean {
+    return !isQuadConcave(this.corners.flatMap((p) => [p.x, p.y]));
+  }
+
+  /** After a corner moved: warp the reference grid through the new homography, pinned points stay */
+  reprojectGrid(): void {
+    const homography = this.getHomography();
+    this.referenceGrid.forEach((ref, i) => {
+      if (this.lockedGrid.has(i)) {
+        const [x, y] = homography.transformInverse(this.grid[i].x, this.grid[i].y);
+        ref.setX(x);
+        ref.setY(y);
+        return;
+      }
+      const [x, y] = homography.transform(ref.x, ref.y);
+      this.grid[i].set(x, y, ref.z);
+    });
+    for (const axis of ['u', 'v'] as const) {
+      this.referenceTangents[axis].forEach((ref, i) => {
+        if (this.lockedGrid.has(i)) {
+          this.referenceTangents[axis][i] = this.mapTangent(homography.transformInverse.bind(homography), this.grid[i], this.tangents[axis][i]);
+        } else {
+          this.tangents[axis][i] = this.mapTangent(homography.transform.bind(homography), this.referenceGrid[i], ref);
+        }
+      });
+    }
+  }
+
+  /**
+   * Mirror counterparts of a point: across the vertical axis (symmetry.x), the horizontal axis
+   * (symmetry.y) and, with both, the diagonal one. Grid points without a column or row at the
+   * mirrored knot have no counterpart there. Points on an axis are not their own counterpart.
+   */
+  getMirrorCounterparts(group: 'corner' | 'grid', index: number, symmetry: WarpSymmetry): MirrorCounterpart[] {
+    const flips = [
+      { x: true, y: false },
+      { x: false, y: true },
+      { x: true, y: true },
+    ].filter((flip) => (!flip.x || symmetry.x) && (!flip.y || symmetry.y));
+
+    const counterparts: MirrorCounterpart[] = [];
+    for (const flip of flips) {
+      let mirrored: number;
+      if (group === 'corner') {
+        // TL, TR, BL, BR: bit 0 is left/right, bit 1 top/bottom
+        mirrored = index ^ ((flip.x ? 1 : 0) | (flip.y ? 2 : 0));
+      } else {
+        const col = index % this.gridSize.x;
+        const row = Math.floor(index / this.gridSize.x);
+        const mirroredCol = flip.x ? findMirroredKnot(this.knots.x, col) : col;
+        const mirroredRow = flip.y ? findMirroredKnot(this.knots.y, row) : row;
+        if (mirroredCol === -1 || mirroredRow === -1) continue;
+        mirrored = mirroredRow * this.gridSize.x + mirroredCol;
+      }
+      if (mirrored !== index && !counterparts.some((c) => c.index === mirrored)) {
+        counterparts.push({ index: mirrored, flipX: flip.x, flipY: flip.y });
+      }
+    }
+    return counterparts;
+  }
+
+  /**
+   * After a corner moved from `from`: moves its unlocked counterparts by the mirrored move, in the
+   * reference space of the homography before the move. Returns the moved corners' indices.
+   * The grid is not re-projected here, see reprojectGrid.
+   */
+  mirrorCornerMove(index: number, from: Point2, symmetry: WarpSymmetry, exclude: number[] = []): number[] {
+    const previousCorners = this.corners.flatMap((p, i) => (i === index ? [from.x, from.y] : [p.x, p.y]));
+    const previous = new PerspT(this.initialCorners, previousCorners);
+    const [refX, refY] = previous.transformInverse(this.corners[index].x, this.corners[index].y);
+    const dx = refX - this.initialCorners[index * 2];
+    const dy = refY - this.initialCorners[index * 2 + 1];
+
+    return this.getMirrorCounterparts('corner', index, symmetry).flatMap(({ index: mirrored, flipX, flipY }) => {
+      if (this.lockedCorners.has(mirrored) || exclude.includes(mirrored)) return [];
+      const [x, y] = previous.transform(
+        this.initialCorners[mirrored * 2] + (flipX ? -dx : dx),
+        this.initialCorners[mirrored * 2 + 1] + (flipY ? -dy : dy),
+      );
+      this.corners[mirrored].set(x, y, this.corners[mirrored].z);
+      return [mirrored];
+    });
+  }
+
+  /**
+   * After a grid point moved and its reference point was updated from `previousReference`: moves the
+   * reference points of its unlocked counterparts by the mirrored move and projects them. Returns the
+   * moved grid points' indices.
+   */
+  mirrorGridMove(index: number, previousReference: Point2, symmetry: WarpSymmetry, exclude: number[] = []): number[] {
+    const homography = this.getHomography();
+    const dx = this.referenceGrid[index].x - previousReference.x;
+    const dy = this.referenceGrid[index].y - previousReference.y;
+
+    return this.getMirrorCounterparts('grid', index, symmetry).flatMap(({ index: mirrored, flipX, flipY }) => {
+      if (this.lockedGrid.has(mirrored) || exclude.includes(mirrored)) return [];
+      const ref = this.referenceGrid[mirrored];
+      ref.setX(ref.x + (flipX ? -dx : dx));
+      ref.setY(ref.y + (flipY ? -dy : dy));
+      this.projectGridPoint(mirrored, homography);
+      return [mirrored];
+    });
+  }
+
+  /**
+   * Soft selection: after the grid points `moved` moved away from `previousReferences` (the whole
+   * reference grid before the move), moves every other unlocked point by the move of its nearest
+   * influence, scaled by the falloff. Distances are taken in reference space before the move;
+   * the radius is a fraction of the plane width. Returns the indices of the points it moved.
+   */
+  softMoveGrid(
+    moved: number[],
+    previousReferences: Point2[],
+    radius: number,
+    falloff: SoftSelectionFalloff,
+    exclude: number[] = [],
+  ): number[] {
+    const worldRadius = radius * this.width;
+    if (worldRadius <= 0 || moved.length === 0) return [];
+    const homography = this.getHomography();
+    const softMoved: number[] = [];
+
+    this.referenceGrid.forEach((ref, i) => {
+      if (moved.includes(i) || exclude.includes(i) || this.lockedGrid.has(i)) return;
+      let weight = 0;
+      let source = -1;
+      for (const m of moved) {
+        const distance = Math.hypot(previousReferences[i].x - previousReferences[m].x, previousReferences[i].y - previousReferences[m].y);
+        const w = softSelectionWeight(distance, worldRadius, falloff);
+        if (w > weight) {
+          weight = w;
+          source = m;
+        }
+      }
+      if (source === -1) return;
+      ref.setX(ref.x + (this.referenceGrid[source].x - previousReferences[source].x) * weight);
+      ref.setY(ref.y + (this.referenceGrid[source].y - previousReferences[source].y) * weight);
+      this.projectGridPoint(i, homography);
+      softMoved.push(i);
+    });
+    return softMoved;
+  }
+
+  /**
+   * Outline of the soft selection around a grid point: a circle in reference space, warped like
+   * the surface. World positions, `segments` points of a closed loop.
+   */
+  getSoftSelectionOutline(index: number, radius: number, segments = 64): Point2[] {
+    const homography = this.getHomography();
+    const center = this.referenceGrid[index];
+    const worldRadius = radius * this.width;
+    return Array.from({ length: segments }, (_, i) => {
+      const angle = (i / segments) * Math.PI * 2;
+      const [x, y] = homography.transform(center.x + Math.cos(angle) * worldRadius, center.y + Math.sin(angle) * worldRadius);
+      return { x, y };
+    });
+  }
+
+  // World position and tangents of a grid point from its reference
+  private projectGridPoint(index: number, homography: PerspT): void {
+    const ref = this.referenceGrid[index];
+    const [x, y] = homography.transform(ref.x, ref.y);
+    this.grid[index].set(x, y, ref.z);
+    this.tangents.u[index] = this.mapTangent(homography.transform.bind(homography), ref, this.referenceTangents.u[index]);
+    this.tangents.v[index] = this.mapTangent(homography.transform.bind(homography), ref, this.referenceTangents.v[index]);
+  }
+
+  /** Carries a tangent at a point through a map, using the map's derivative by central differences */
+  private mapTangent(map: (x: number, y: number) => number[], point: Point2, tangent: Point2): Point2 {
+    const e = TANGENT_EPSILON;
+    const [ax, ay] = map(point.x - tangent.x * e, point.y - tangent.y * e);
+    const [bx, by] = map(point.x + tangent.x * e, point.y + tangent.y * e);
+    return { x: (bx - ax) / (2 * e), y: (by - ay) / (2 * e) };
+  }
+
+  private toReferenceTangents(tangents: GridTangents): GridTangents {
+    const homography = this.getHomography();
+    const inverse = homography.transformInverse.bind(homography);
+    return {
+      u: tangents.u.map((t, i) => this.mapTangent(inverse, this.grid[i], t)),
+      v: tangents.v.map((t, i) => this.mapTangent(inverse, this.grid[i], t)),
+    };
+  }
+
+  /** Tangents of a spline through the current grid, dropping handle edits */
+  resetTangents(): void {
+    this.tangents = estimateGridTangents(this.grid, this.gridSize, this.knots);
+    this.referenceTangents = this.toReferenceTangents(this.tangents);
+  }
+
+  /** Sets the world tangent of a grid point and pulls it back into reference space */
+  setTangent(index: number, axis: TangentAxis, tangent: Point2): void {
+    const homography = this.getHomography();
+    this.tangents[axis][index] = { x: tangent.x, y: tangent.y };
+    this.referenceTangents[axis][index] = this.mapTangent(homography.transformInverse.bind(homography), this.grid[index], tangent);
+  }
+
+  /**
+   * World position of a tangent handle: a third of the neighbouring cell along the tangent, where
+   * the Bezier control point sits. side 1 points towards the next column or row, -1 to the previous.
+   * Edge points reuse the span of their only cell.
+   */
+  getTangentHandle(index: number, axis: TangentAxis, side: 1 | -1): Point2 {
+    const { span, point, tangent } = this.getTangentFrame(index, axis, side);
+    return { x: point.x + (tangent.x * span * side) / 3, y: point.y + (tangent.y * span * side) / 3 };
+  }
+
+  /** Sets the tangent from a dragged handle position, the inverse of getTangentHandle */
+  setTangentFromHandle(index: number, axis: TangentAxis, side: 1 | -1, position: Point2): void {
+    const { span, point } = this.getTangentFrame(index, axis, side);
+    const scale = 3 / (span * side);
+    this.setTangent(index, axis, { x: (position.x - point.x) * scale, y: (position.y - point.y) * scale });
+  }
+
+  private getTangentFrame(index: number, axis: TangentAxis, side: 1 | -1) {
+    const knots = axis === 'u' ? this.knots.x : this.knots.y;
+    const position = axis === 'u' ? index % this.gridSize.x : Math.floor(index / this.gridSize.x);
+    const neighbour = clamp(position + side, 0, knots.length - 1);
+    const span = Math.abs(knots[neighbour] - knots[position]) || Math.abs(knots[position - side] - knots[position]);
+    return { span, point: this.grid[index], tangent: this.tangents[axis][index] };
+  }
+
+  /** After a grid point moved: pull its reference position back through the inverse homography */
+  updateReferencePoint(index: number): void {
+    const point = this.grid[index];
+    const [x, y] = this.getHomography().transformInverse(point.x, point.y);
+    this.referenceGrid[index].setX(x);
+    this.referenceGrid[index].setY(y);
+    this.setTangent(index, 'u', this.tangents.u[index]);
+    this.setTangent(index, 'v', this.tangents.v[index]);
+  }
+
+  /** Moves a point back inside the warped quad, by clamping it to the unwarped bounds in reference space */
+  clampInsideQuad(point: THREE.Vector3): void {
+    const homography = this.getHomography();
+    const [localX, localY] = homography.transformInverse(point.x, point.y);
+    const bounds = this.getInitialBounds();
+    const [x, y] = homography.transform(
+      clamp(localX, bounds.minX, bounds.maxX),
+      clamp(localY, bounds.minY, bounds.maxY),
+    );
+    point.set(x, y, point.z);
+  }
+
+  private getInitialBounds() {
+    const xs = [this.initialCorners[0], this.initialCorners[2], this.initialCorners[4], this.initialCorners[6]];
+    const ys = [this.initialCorners[1], this.initialCorners[3], this.initialCorners[5], this.initialCorners[7]];
+    return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+  }
+
+  getAverageDimensions(): { width: number; height: number } {
+    const [tl, tr, bl, br] = this.corners;
+    return {
+      width: (tl.distanceTo(tr) + bl.distanceTo(br)) / 2,
+      height: (tl.distanceTo(bl) + tr.distanceTo(br)) / 2,
+    };
+  }
+
+  // Positions stored normalized (0-1) so calibration survives resolution changes
+
+  /** Tangents are per knot unit, so they scale like positions but without the offset */
+  getNormalizedTangents(): WarpTangents {
+    const normalize = (t: Point2) => ({ x: t.x / this.width, y: t.y / this.height });
+    return { u: this.tangents.u.map(normalize), v: this.tangents.v.map(normalize) };
+  }
+
+  /** Applies normalized tangents of a grid with the current size, returns false when the count differs */
+  setNormalizedTangents(tangents: WarpTangents): boolean {
+    const count = this.grid.length;
+    if (tangents.u.length !== count || tangents.v.length !== count) return false;
+    const denormalize = (n: Point2) => ({ x: n.x * this.width, y: n.y * this.height });
+    this.tangents = { u: tangents.u.map(denormalize), v: tangents.v.map(denormalize) };
+    this.referenceTangents = this.toReferenceTangents(this.tangents);
+    return true;
+  }
+
+  toNormalized(p: Point3): Point3 {
+    return {
+      x: (p.x + this.width / 2) / this.width,
+      y: (p.y + this.height / 2) / this.height,
+      z: p.z,
+    };
+  }
+
+  fromNormalized(n: Point3): Point3 {
+    return {
+      x: n.x * this.width - this.width / 2,
+      y: n.y * this.height - this.height / 2,
+      z: n.z,
+    };
+  }
+
+  isLocked(group: 'corner' | 'grid', index: number): boolean {
+    return (group === 'corner' ? this.lockedCorners : this.lockedGrid).has(index);
+  }
+
+  setLocked(group: 'corner' | 'grid', index: number, locked: boolean): void {
+    const set = group === 'corner' ? this.lockedCorners : this.lockedGrid;
+    if (locked) set.add(index);
+    else set.delete(index);
+  }
+
+  getLocks(): WarpLocks {
+    return {
+      corners: [...this.lockedCorners].sort((a, b) => a - b),
+      grid: [...this.lockedGrid].sort((a, b) => a - b),
+    };
+  }
+
+  /** Replaces all locks, indices outside the corners or the grid are ignored */
+  setLocks(locks: WarpLocks): void {
+    this.lockedCorners = new Set(locks.corners.filter((i) => i >= 0 && i < this.corners.length));
+    this.lockedGrid = new Set(locks.grid.filter((i) => i >= 0 && i < this.grid.length));
+  }
+
+  getState(): Omit<WarpState, 'warpMode'> {
+    return {
+      gridSize: { ...this.gridSize },
+      corners: this.corners.map((p) => this.toNormalized(p)),
+      grid: this.grid.map((p) => this.toNormalized(p)),
+      referenceGrid: this.referenceGrid.map((p) => this.toNormalized(p)),
+      locked: this.getLocks(),
+      knots: { x: [...this.knots.x], y: [...this.knots.y] },
+      tangents: this.getNormalizedTangents(),
+    };
+  }
+
+  /**
+   * Applies stored positions, knots and locks. The grid size is not changed here: a grid stored at
+   * another size is rebuilt from the corners instead, its locks are kept where the grids share a point.
+   */
+  applyPoints(data: StoredControlPoints): void {
+    // Pinning must not hold points at their old positions while the new ones are applied
+    this.lockedCorners.clear();
+    this.lockedGrid.clear();
+
+    // Always load corners if valid (always 4)
+    if (data.corners && data.corners.length === 4) {
+      data.corners.forEach((n, i) => {
+        const p = this.fromNormalized(n);
+        this.corners[i].set(p.x, p.y, p.z);
+      });
+    }
+
+    // Validate grid dimensions using stored gridSize metadata
+    const expectedCount = this.gridSize.x * this.gridSize.y;
+    const gridSizeMatches = data.gridSize?.x === this.gridSize.x && data.gridSize?.y === this.gridSize.y;
+
+    if (gridSizeMatches && data.grid?.length === expectedCount && data.referenceGrid?.length === expectedCount) {
+      // Saves from before knots were stored have evenly spaced grids
+      const knotsMatch = data.knots?.x.length === this.gridSize.x && data.knots?.y.length === this.gridSize.y;
+      this.knots = knotsMatch
+        ? { x: [...data.knots!.x], y: [...data.knots!.y] }
+        : { x: uniformKnots(this.gridSize.x), y: uniformKnots(this.gridSize.y) };
+      data.grid.forEach((n, i) => {
+        const p = this.fromNormalized(n);
+        this.grid[i].set(p.x, p.y, p.z);
+      });
+      data.referenceGrid.forEach((n, i) => {
+        const p = this.fromNormalized(n);
+        this.referenceGrid[i].set(p.x, p.y, p.z);
+      });
+      // Saves from before Bezier patches start from the spline through the grid
+      if (!data.tangents || !this.setNormalizedTangents(data.tangents)) this.resetTangents();
+    } else {
+      this.reprojectGrid();
+      this.resetTangents();
+    }
+
+    const locks = data.locked ?? { corners: [], grid: [] };
+    const storedSize = data.gridSize ?? this.gridSize;
+    this.setLocks({
+      corners: locks.corners,
+      grid: gridSizeMatches
+        ? locks.grid
+        : locks.grid.flatMap((index) => remapGridIndex(index, storedSize, this.gridSize, data.knots, this.knots) ?? []),
+    });
+  }
+
+  /** Back to the unwarped plane, keeping the grid size and knots */
+  resetToDefault(): void {
+    this.corners.forEach((p, i) => p.set(this.initialCorners[i * 2], this.initialCorners[i * 2 + 1], 0));
+    const initial = reorderGridPointsToBottomLeftOrigin(this.getInitialGridPositions(), this.gridSize.x, this.gridSize.y);
+    initial.forEach((p, i) => {
+      this.referenceGrid[i].copy(p);
+      this.grid[i].copy(p);
+    });
+    this.resetTangents();
+  }
+}
+
+/** A mirror counterpart of a point, and whether the move is mirrored left/right (flipX) or top/bottom (flipY) */
+export interface MirrorCounterpart {
+  index: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+// Index of the knot at 1 - knots[index], or -1 when there is none
+function findMirroredKnot(knots: number[], index: number): number {
+  const mirrored = 1 - knots[index];
+  return knots.findIndex((k) => Math.abs(k - mirrored) < 1e-9);
+}
+
+/** PlaneGeometry lists vertices from the top-left, the vertex shader expects rows from the bottom-left */
+export function reorderGridPointsToBottomLeftOrigin<T>(points: T[], gridSizeX: number, gridSizeY: number): T[] {
+  const reordered: T[] = [];
+  for (let row = gridSizeY - 1; row >= 0; row--) {
+    for (let col = 0; col < gridSizeX; col++) {
+      reordered.push(points[row * gridSizeX + col]);
+    }
+  }
+  return reordered;
+}
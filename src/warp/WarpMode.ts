@@ -0,0 +1,7 @@
+// Interpolation between grid points, the value of uWarpMode in warp.vert
+export enum WARP_MODE {
+  bilinear = 0,
+  bicubic = 1,
+  /** Bicubic Bezier patches shaped by per-point tangent handles */
+  bezier = 2,
+}
@@ -1,6 +1,38 @@
 //@ts-ignore
 import calcConvexHull from 'convex-hull';
 import { lerp } from '../utils/math';
+import type { SoftSelectionFalloff } from '../core/defaults';
+import type { WarpKnots, WarpState } from './MeshWarper';
+import { WARP_MODE } from './WarpMode';
+
+type Point2 = { x: number; y: number };
+type Point3 = { x: number; y: number; z: number };
+
+/** Derivatives of the surface at each grid point along u (columns) and v (rows), per unit of knot */
+export interface GridTangents {
+  u: Point2[];
+  v: Point2[];
+}
+
+/** Weight of a point at `distance` from a dragged point, 0 at and beyond the radius */
+export const softSelectionWeight = (distance: number, radius: number, falloff: SoftSelectionFalloff): number => {
+  if (radius <= 0 || distance >= radius) return 0;
+  const s = 1 - distance / radius;
+  switch (falloff) {
+    case 'smooth':
+      return s * s * (3 - 2 * s);
+    case 'linear':
+      return s;
+    case 'sharp':
+      return s * s;
+    case 'root':
+      return Math.sqrt(s);
+    case 'sphere':
+      return Math.sqrt(1 - (1 - s) * (1 - s));
+    case 'constant':
+      return 1;
+  }
+};
 
 export const toTuples = (arr: number[]): [number, number][] => {
   if (arr.length % 2 !== 0) throw new Error('Array length must be even to form [x, y] pairs.');
@@ -43,3 +75,267 @@ export const bilinearInterpolateCorners = (u: number, v: number, inputCorners: n
   const bottom = [lerp(bottomLeft[0], bottomRight[0], u), lerp(bottomLeft[1], bottomRight[1], u)]; //xy Interpolate bottom edge
   return [lerp(top[0], bottom[0], v), lerp(top[1], bottom[1], v)]; //vertical
 };
+
+/** Evenly spaced grid positions 0-1, the layout of grids without stored knots */
+export const uniformKnots = (count: number): number[] => Array.from({ length: count }, (_, i) => i / (count - 1));
+
+const knotsOf = (gridSize: { x: number; y: number }, knots?: WarpKnots): WarpKnots =>
+  knots ?? { x: uniformKnots(gridSize.x), y: uniformKnots(gridSize.y) };
+
+/** Cell of the knot span containing t (the last one for t = 1) and the position 0-1 inside it */
+export const findKnotSpan = (knots: number[], t: number): { cell: number; t: number } => {
+  let cell = 0;
+  for (let i = 1; i < knots.length - 1; i++) {
+    if (t >= knots[i]) cell = i;
+  }
+  return { cell, t: (t - knots[cell]) / (knots[cell + 1] - knots[cell]) };
+};
+
+// Grid points are stored row by row from the bottom-left, index = row * sizeX + col.
+// Resampling reads the source grid bilinearly at the knot position of each target point.
+export const resampleGrid = (
+  points: Point3[],
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  fromKnots?: WarpKnots,
+  toKnots?: WarpKnots,
+) => {
+  const source = knotsOf(from, fromKnots);
+  const target = knotsOf(to, toKnots);
+  const sameKnots = (a: number[], b: number[]) => a.length === b.length && a.every((k, i) => k === b[i]);
+  if (sameKnots(source.x, target.x) && sameKnots(source.y, target.y)) return points.map((p) => ({ ...p }));
+
+  const at = (col: number, row: number) => points[row * from.x + col];
+  const result: Point3[] = [];
+  for (let row = 0; row < to.y; row++) {
+    for (let col = 0; col < to.x; col++) {
+      const { cell: c0, t: tu } = findKnotSpan(source.x, target.x[col]);
+      const { cell: r0, t: tv } = findKnotSpan(source.y, target.y[row]);
+      const sample = (key: keyof Point3) =>
+        lerp(
+          lerp(at(c0, r0)[key], at(c0 + 1, r0)[key], tu),
+          lerp(at(c0, r0 + 1)[key], at(c0 + 1, r0 + 1)[key], tu),
+          tv,
+        );
+      result.push({ x: sample('x'), y: sample('y'), z: sample('z') });
+    }
+  }
+  return result;
+};
+
+/*
+CPU copy of the interpolation in warp.vert, e.g. to place new grid points on the current surface.
+One step past the edges, points and knots are mirror-extrapolated from the last two, like in the shader.
+*/
+const knotAt = (knots: number[], i: number): number => {
+  if (i < 0) return 2 * knots[0] - knots[1];
+  if (i >= knots.length) return 2 * knots[knots.length - 1] - knots[knots.length - 2];
+  return knots[i];
+};
+
+// Catmull-Rom on non-uniform knots, see cubicInterpolate in warp.vert
+const cubicInterpolate = (p: number[], k: number[], t: number): number => {
+  const h = k[2] - k[1];
+  const m1 = ((p[2] - p[0]) * h) / (k[2] - k[0]);
+  const m2 = ((p[3] - p[1]) * h) / (k[3] - k[1]);
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * p[1] + (t3 - 2 * t2 + t) * m1 + (-2 * t3 + 3 * t2) * p[2] + (t3 - t2) * m2;
+};
+
+/**
+ * Tangents a Catmull-Rom spline through the grid has at its points: central differences over the
+ * knots, one-sided at the edges (what the mirror extrapolation amounts to). Starting values for
+ * Bezier patches, so switching from bicubic keeps the shape along grid lines.
+ */
+export const estimateGridTangents = (points: Point2[], gridSize: { x: number; y: number }, knots: WarpKnots): GridTangents => {
+  const difference = (a: Point2, b: Point2, span: number) => ({ x: (b.x - a.x) / span, y: (b.y - a.y) / span });
+  const u: Point2[] = [];
+  const v: Point2[] = [];
+  for (let row = 0; row < gridSize.y; row++) {
+    for (let col = 0; col < gridSize.x; col++) {
+      const left = Math.max(col - 1, 0);
+      const right = Math.min(col + 1, gridSize.x - 1);
+      const below = Math.max(row - 1, 0);
+      const above = Math.min(row + 1, gridSize.y - 1);
+      u.push(difference(points[row * gridSize.x + left], points[row * gridSize.x + right], knots.x[right] - knots.x[left]));
+      v.push(difference(points[below * gridSize.x + col], points[above * gridSize.x + col], knots.y[above] - knots.y[below]));
+    }
+  }
+  return { u, v };
+};
+
+// Cubic Bernstein weights
+const bernstein = (t: number): number[] => {
+  const s = 1 - t;
+  return [s * s * s, 3 * s * s * t, 3 * s * t * t, t * t * t];
+};
+
+/**
+ * Bezier control net of a cell, net[j][i] with i along u and j along v. Edge control points sit a
+ * third of the cell along the tangents, inner ones have zero twist, see bezierInterpolate in warp.vert.
+ */
+const bezierNet = (
+  pointAt: (col: number, row: number) => Point2,
+  tangentAt: (axis: 'u' | 'v', col: number, row: number) => Point2,
+  col: number,
+  row: number,
+  hu: number,
+  hv: number,
+): Point2[][] => {
+  const offset = (p: Point2, t: Point2, scale: number) => ({ x: p.x + t.x * scale, y: p.y + t.y * scale });
+  const p00 = pointAt(col, row);
+  const p30 = pointAt(col + 1, row);
+  const p03 = pointAt(col, row + 1);
+  const p33 = pointAt(col + 1, row + 1);
+  const p10 = offset(p00, tangentAt('u', col, row), hu / 3);
+  const p20 = offset(p30, tangentAt('u', col + 1, row), -hu / 3);
+  const p13 = offset(p03, tangentAt('u', col, row + 1), hu / 3);
+  const p23 = offset(p33, tangentAt('u', col + 1, row + 1), -hu / 3);
+  const p01 = offset(p00, tangentAt('v', col, row), hv / 3);
+  const p02 = offset(p03, tangentAt('v', col, row + 1), -hv / 3);
+  const p31 = offset(p30, tangentAt('v', col + 1, row), hv / 3);
+  const p32 = offset(p33, tangentAt('v', col + 1, row + 1), -hv / 3);
+  const twistFree = (a: Point2, b: Point2, corner: Point2) => ({ x: a.x + b.x - corner.x, y: a.y + b.y - corner.y });
+  return [
+    [p00, p10, p20, p30],
+    [p01, twistFree(p10, p01, p00), twistFree(p20, p31, p30), p31],
+    [p02, twistFree(p13, p02, p03), twistFree(p23, p32, p33), p32],
+    [p03, p13, p23, p33],
+  ];
+};
+
+/**
+ * Position of the warped surface at (u, v) 0-1 from the bottom-left, interpolated like the shader
+ * does in the given mode. Bezier patches need the grid's tangents.
+ */
+export const sampleWarpGrid = (
+  points: Point2[],
+  gridSize: { x: number; y: number },
+  knots: WarpKnots,
+  u: number,
+  v: number,
+  mode: WARP_MODE,
+  tangents?: GridTangents,
+): Point2 => {
+  const maxX = gridSize.x - 1;
+  const maxY = gridSize.y - 1;
+  const mirror = (edge: Point2, inner: Point2) => ({
+    x: 2 * edge.x - inner.x,
+    y: 2 * edge.y - inner.y,
+  });
+  const pointAt = (col: number, row: number): Point2 => {
+    if (col < 0) return mirror(pointAt(0, row), pointAt(1, row));
+    if (col > maxX) return mirror(pointAt(maxX, row), pointAt(maxX - 1, row));
+    if (row < 0) return mirror(pointAt(col, 0), pointAt(col, 1));
+    if (row > maxY) return mirror(pointAt(col, maxY), pointAt(col, maxY - 1));
+    return points[row * gridSize.x + col];
+  };
+
+  const { cell: col, t: tu } = findKnotSpan(knots.x, u);
+  const { cell: row, t: tv } = findKnotSpan(knots.y, v);
+
+  if (mode === WARP_MODE.bilinear) {
+    const [bL, bR, tL, tR] = [pointAt(col, row), pointAt(col + 1, row), pointAt(col, row + 1), pointAt(col + 1, row + 1)];
+    return {
+      x: lerp(lerp(bL.x, bR.x, tu), lerp(tL.x, tR.x, tu), tv),
+      y: lerp(lerp(bL.y, bR.y, tu), lerp(tL.y, tR.y, tu), tv),
+    };
+  }
+
+  if (mode === WARP_MODE.bezier) {
+    const gridTangents = tangents ?? estimateGridTangents(points, gridSize, knots);
+    const net = bezierNet(
+      pointAt,
+      (axis, c, r) => gridTangents[axis][r * gridSize.x + c],
+      col,
+      row,
+      knots.x[col + 1] - knots.x[col],
+      knots.y[row + 1] - knots.y[row],
+    );
+    const wu = bernstein(tu);
+    const wv = bernstein(tv);
+    const result = { x: 0, y: 0 };
+    net.forEach((netRow, j) =>
+      netRow.forEach((p, i) => {
+        result.x += p.x * wu[i] * wv[j];
+        result.y += p.y * wu[i] * wv[j];
+      }),
+    );
+    return result;
+  }
+
+  const offsets = [-1, 0, 1, 2];
+  const knotsX = offsets.map((o) => knotAt(knots.x, col + o));
+  const knotsY = offsets.map((o) => knotAt(knots.y, row + o));
+  const rows = offsets.map((rowOffset) => {
+    const cols = offsets.map((colOffset) => pointAt(col + colOffset, row + rowOffset));
+    return {
+      x: cubicInterpolate(cols.map((p) => p.x), knotsX, tu),
+      y: cubicInterpolate(cols.map((p) => p.y), knotsX, tu),
+    };
+  });
+  return {
+    x: cubicInterpolate(rows.map((p) => p.x), knotsY, tv),
+    y: cubicInterpolate(rows.map((p) => p.y), knotsY, tv),
+  };
+};
+
+const lerpPoints = (a: Point3[], b: Point3[], t: number): Point3[] =>
+  b.map((p, i) => ({ x: lerp(a[i].x, p.x, t), y: lerp(a[i].y, p.y, t), z: lerp(a[i].z, p.z, t) }));
+
+const lerpTangents = (a: Point2[], b: Point2[], t: number): Point2[] =>
+  b.map((p, i) => ({ x: lerp(a[i].x, p.x, t), y: lerp(a[i].y, p.y, t) }));
+
+/**
+ * Index of the same grid point in a grid of another size or layout, or null when the new grid has
+ * no point at that place (e.g. 3 even columns at 0, 0.5, 1 map onto 5 columns, but not onto 4)
+ */
+export const remapGridIndex = (
+  index: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  fromKnots?: WarpKnots,
+  toKnots?: WarpKnots,
+): number | null => {
+  const source = knotsOf(from, fromKnots);
+  const target = knotsOf(to, toKnots);
+  const epsilon = 1e-9;
+  const col = target.x.findIndex((k) => Math.abs(k - source.x[index % from.x]) < epsilon);
+  const row = target.y.findIndex((k) => Math.abs(k - source.y[Math.floor(index / from.x)]) < epsilon);
+  if (col === -1 || row === -1) return null;
+  return row * to.x + col;
+};
+
+// `from` must already have the grid layout of `to`, see resampleWarpState
+export const interpolateWarpState = (from: WarpState, to: WarpState, t: number): WarpState => ({
+  gridSize: { ...to.gridSize },
+  warpMode: to.warpMode,
+  corners: lerpPoints(from.corners, to.corners, t),
+  grid: lerpPoints(from.grid, to.grid, t),
+  referenceGrid: lerpPoints(from.referenceGrid, to.referenceGrid, t),
+  locked: to.locked,
+  knots: to.knots,
+  tangents:
+    from.tangents && to.tangents
+      ? { u: lerpTangents(from.tangents.u, to.tangents.u, t), v: lerpTangents(from.tangents.v, to.tangents.v, t) }
+      : to.tangents,
+});
+
+/** Resamples a state onto another grid size and knots (default: evenly spaced), tangents are estimated anew */
+export const resampleWarpState = (
+  state: WarpState,
+  gridSize: { x: number; y: number },
+  knots: WarpKnots = knotsOf(gridSize),
+): WarpState => ({
+  ...state,
+  gridSize: { ...gridSize },
+  knots,
+  grid: resampleGrid(state.grid, state.gridSize, gridSize, state.knots, knots),
+  referenceGrid: resampleGrid(state.referenceGrid, state.gridSize, gridSize, state.knots, knots),
+  tangents: undefined,
+  locked: state.locked && {
+    corners: state.locked.corners,
+    grid: state.locked.grid.flatMap((index) => remapGridIndex(index, state.gridSize, gridSize, state.knots, knots) ?? []),
+  },
+});
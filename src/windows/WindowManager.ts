@@ -1,3 +1,10 @@
+export interface WindowManagerConfig {
+  /** Page of the projector window (default: './projector.html') */
+  url?: string;
+  /** Window name, one window per name (default: 'ProjectorOutput') */
+  name?: string;
+}
+
 /**
  * Manages projector window lifecycle
  */
@@ -5,6 +12,13 @@ export class WindowManager {
   private projectorWindow: Window | null = null;
   private checkInterval: number | null = null;
   private onCloseCallback?: () => void;
+  private url: string;
+  private name: string;
+
+  constructor(config: WindowManagerConfig = {}) {
+    this.url = config.url ?? './projector.html';
+    this.name = config.name ?? 'ProjectorOutput';
+  }
 
   /**
    * Open the projector window at 1280x800
@@ -22,8 +36,8 @@ export class WindowManager {
     const top = (window.screen.height - height) / 2;
 
     this.projectorWindow = window.open(
-      './projector.html',
-      'ProjectorOutput',
+      this.url,
+      this.name,
       `width=${width},height=${height},left=${left},top=${top},menubar=no,toolbar=no,location=no,status=no,resizable=yes`
     );
 